@@ -1,19 +1,42 @@
-import { DashboardData, ProcessParameters, EnvironmentalData } from '../data/models';
+import { AIRecommendation, AnomalyDetection, DashboardData, DataQualityIssue, ProcessParameters, EnvironmentalData, QualityPrediction, ThresholdRule } from '../data/models';
+import { THRESHOLD_PARAMETERS } from '../services/thresholdStore';
+import { ConversationContext } from '../services/conversationStore';
+import { createLLMProviders, LLMProvider, LLMProviderKind, LLMResult, LLMTask } from './llmProvider';
+import { parseRecommendations, recommendationInstructions, RECOMMENDATIONS_RESPONSE_SCHEMA } from './recommendationSchema';
 
 export interface GeminiResponse {
   response: string;
-  confidence: number;
+  confidence: number | null; // null when the model reports no likelihood for its reply
   recommendations?: string[];
+  ai_recommendations?: AIRecommendation[];
   context_used: string[];
 }
 
+// Structured replies that fail validation are sent back with the problems this many times in total
+const MAX_STRUCTURED_ATTEMPTS = 3;
+
+/**
+ * Plant-aware prompts for the AI endpoints. Each group of endpoints sends its
+ * prompts to the LLM provider configured for it; provider failures are thrown
+ * to the caller.
+ */
 export class GeminiService {
-  private apiKey: string;
-  private readonly baseURL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
+  private providers: Record<LLMTask, LLMProvider>;
   private customSystemPrompt: string | null = null;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(providers: Record<LLMTask, LLMProvider>) {
+    this.providers = providers;
+  }
+
+  /**
+   * Provider kind and model serving each task
+   */
+  getProviders(): Record<LLMTask, { kind: LLMProviderKind; model: string }> {
+    const providers = {} as Record<LLMTask, { kind: LLMProviderKind; model: string }>;
+    (Object.keys(this.providers) as LLMTask[]).forEach(task => {
+      providers[task] = { kind: this.providers[task].kind, model: this.providers[task].model };
+    });
+    return providers;
   }
 
   /**
@@ -37,42 +60,193 @@ export class GeminiService {
     this.customSystemPrompt = null;
   }
 
+  /**
+   * Prompt section listing the configured operating limits
+   */
+  private formatOperatingLimits(limits: ThresholdRule[]): string {
+    if (limits.length === 0) {
+      return '- No operating limits configured';
+    }
+    return limits.map(limit => {
+      const info = THRESHOLD_PARAMETERS[limit.parameter];
+      return `- ${info.label}: ${limit.min}-${limit.max} ${info.unit} (optimal ${limit.optimal} ${info.unit})`;
+    }).join('\n');
+  }
+
+  private formatQualityPrediction(prediction?: QualityPrediction): string {
+    if (!prediction) {
+      return '- No forecast available (quality model not trained yet)';
+    }
+    const lines = [
+      `- Predicted quality score: ${prediction.predicted_quality_score.toFixed(1)}/100`,
+      `- Defect probability: ${(prediction.defect_probability * 100).toFixed(1)}%`,
+      ...prediction.risk_factors.map(risk => `- Risk: ${risk}`),
+      ...prediction.recommendations.map(recommendation => `- Model suggests: ${recommendation}`)
+    ];
+    return lines.join('\n');
+  }
+
+  // Bad readings first; the prompt lists a bounded number of them
+  private formatDataQualityIssues(issues: DataQualityIssue[], maxListed = 15): string {
+    const sorted = [...issues].sort((a, b) => (a.code === b.code ? 0 : a.code === 'bad' ? -1 : 1));
+    const listed = sorted.slice(0, maxListed).map(issue => {
+      const substitute = issue.substituted_value !== undefined
+        ? `, replaced by last good value ${issue.substituted_value.toFixed(2)}`
+        : '';
+      return `- ${issue.channel}: ${issue.code.toUpperCase()} (${issue.flags.join(', ')}) reading ${issue.value.toFixed(2)}${substitute}\n`;
+    }).join('');
+    return sorted.length > maxListed ? `${listed}- ...and ${sorted.length - maxListed} more\n` : listed;
+  }
+
   /**
    * Generate context-aware responses for cement plant operations
    */
   async askGemini(
     question: string, 
     dashboardData?: DashboardData,
-    plantContext?: ProcessParameters
+    plantContext?: ProcessParameters,
+    task: LLMTask = 'chat'
   ): Promise<GeminiResponse> {
-    try {
-      console.log('🔍 askGemini called with question:', question);
-      
-      const systemPrompt = this.buildSystemPrompt();
-      const contextualPrompt = this.buildContextualPrompt(question, dashboardData, plantContext);
-      
-      const fullPrompt = systemPrompt + '\n\n' + contextualPrompt;
-      console.log('📤 Full prompt being sent to Gemini (first 200 chars):', fullPrompt.substring(0, 200));
-      
-      const response = await this.callGeminiAPI(fullPrompt);
-      
-      console.log('📥 Gemini response received:', response.candidates?.[0]?.content?.parts?.[0]?.text?.substring(0, 150));
-      
-      return this.parseGeminiResponse(response);
-    } catch (error) {
-      console.error('Gemini API error:', error);
-      return {
-        response: 'I apologize, but I am currently unable to access the AI system. Please try again later.',
-        confidence: 0,
-        context_used: ['error']
-      };
+    console.log('🔍 askGemini called with question:', question);
+    
+    const fullPrompt = this.buildFullPrompt(question, dashboardData, plantContext);
+    console.log(`📤 Full prompt being sent to ${this.providers[task].kind} (first 200 chars):`, fullPrompt.substring(0, 200));
+    
+    const result = await this.providers[task].generate({ prompt: fullPrompt });
+    
+    console.log('📥 AI response received:', result.text.substring(0, 150));
+    
+    return this.toResponse(result);
+  }
+
+  /**
+   * Answer a chat question as the next turn of a conversation
+   */
+  async chat(question: string, history: ConversationContext, dashboardData?: DashboardData): Promise<GeminiResponse> {
+    console.log('🔍 chat called with question:', question);
+
+    const result = await this.providers.chat.generate({ prompt: this.buildFullPrompt(question, dashboardData, undefined, history) });
+
+    console.log('📥 AI response received:', result.text.substring(0, 150));
+
+    return this.toResponse(result);
+  }
+
+  /**
+   * Chat reply streamed piece by piece to `onText`; aborting `signal` stops
+   * the provider request
+   */
+  async streamChat(
+    question: string,
+    history: ConversationContext,
+    onText: (text: string) => void,
+    dashboardData?: DashboardData,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse> {
+    console.log('🔍 streamChat called with question:', question);
+
+    const result = await this.providers.chat.stream({ prompt: this.buildFullPrompt(question, dashboardData, undefined, history), signal }, onText);
+
+    console.log('📥 AI response streamed:', result.text.substring(0, 150));
+
+    return this.toResponse(result);
+  }
+
+  /**
+   * Fold conversation turns that no longer fit the prompt into its running summary
+   */
+  async summarizeConversation(previousSummary: string | null, messages: ConversationContext['messages']): Promise<string> {
+    const prompt = `
+Summarize this conversation between a cement plant operator and the plant's AI assistant so it can continue without the full transcript. Keep the equipment, parameters, values, decisions and open questions that were discussed; drop pleasantries. Answer with the summary only, in at most 200 words.
+
+${previousSummary ? `SUMMARY OF EARLIER TURNS:\n${previousSummary}\n\n` : ''}TURNS TO ADD:
+${this.formatTurns(messages)}
+`;
+    const result = await this.providers.chat.generate({ prompt, temperature: 0.2, maxOutputTokens: 512 });
+    return result.text.trim();
+  }
+
+  private buildFullPrompt(question: string, dashboardData?: DashboardData, plantContext?: ProcessParameters, history?: ConversationContext): string {
+    return this.buildSystemPrompt() + '\n\n'
+      + (history ? this.buildHistoryPrompt(history) : '')
+      + this.buildContextualPrompt(question, dashboardData, plantContext);
+  }
+
+  // Earlier turns, so follow-up questions keep their context
+  private buildHistoryPrompt(history: ConversationContext): string {
+    if (!history.summary && history.messages.length === 0) {
+      return '';
+    }
+    let prompt = `Conversation so far:\n`;
+    if (history.summary) {
+      prompt += `Summary of earlier turns: ${history.summary}\n`;
     }
+    prompt += this.formatTurns(history.messages);
+    return prompt + `\nAnswer the question below as the next turn of this conversation.\n\n`;
+  }
+
+  private formatTurns(messages: ConversationContext['messages']): string {
+    return messages.map(message => {
+      const speaker = message.role === 'user' ? 'Operator' : 'Assistant';
+      return `${speaker}: ${message.text}${message.stopped ? ' [reply stopped by the operator]' : ''}\n`;
+    }).join('');
+  }
+
+  private toResponse(result: LLMResult): GeminiResponse {
+    return {
+      response: result.text,
+      confidence: result.confidence,
+      context_used: ['plant_data', 'process_parameters', 'environmental_metrics']
+    };
+  }
+
+  /**
+   * Ask for recommendations as JSON and validate them against the plant's
+   * current readings and limits, re-prompting with the problems found.
+   * Throws when the API fails or no valid reply arrives.
+   */
+  private async askForRecommendations(
+    request: string,
+    dashboardData: DashboardData,
+    limits: ThresholdRule[]
+  ): Promise<GeminiResponse> {
+    const params = dashboardData.current_parameters;
+    const basePrompt = this.buildSystemPrompt() + '\n\n'
+      + this.buildContextualPrompt(request, dashboardData)
+      + recommendationInstructions(params, limits);
+    const provider = this.providers.recommendations;
+
+    let prompt = basePrompt;
+    let problems = '';
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const { text } = await provider.generate({
+        prompt,
+        temperature: 0.4,
+        json: { schema: RECOMMENDATIONS_RESPONSE_SCHEMA }
+      });
+      const batch = parseRecommendations(text, params, limits);
+      if (typeof batch !== 'string') {
+        const recommendations = batch.recommendations;
+        return {
+          response: batch.summary,
+          confidence: recommendations.reduce((sum, rec) => sum + rec.confidence_score, 0) / recommendations.length / 100,
+          recommendations: recommendations.map(rec => rec.title),
+          ai_recommendations: recommendations,
+          context_used: ['plant_data', 'process_parameters', 'operating_limits']
+        };
+      }
+      problems = batch;
+      console.warn(`⚠️ ${provider.kind} recommendations rejected (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}): ${problems}`);
+      prompt = `${basePrompt}\nYour previous reply was:\n${text}\n\nIt was rejected because: ${problems}\nReturn a corrected JSON object.`;
+    }
+    console.error(`❌ ${provider.kind} returned no valid recommendations`);
+    throw new Error(`Invalid recommendations after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${problems}`);
   }
 
   /**
    * Generate optimization recommendations based on current plant data
    */
-  async generateOptimizationRecommendations(dashboardData: DashboardData): Promise<GeminiResponse> {
+  async generateOptimizationRecommendations(dashboardData: DashboardData, limits: ThresholdRule[] = []): Promise<GeminiResponse> {
     const prompt = `
 Based on the current cement plant operational data, provide specific optimization recommendations:
 
@@ -92,33 +266,34 @@ Environmental Data:
 - CO2 Emissions: ${dashboardData.environmental_data.co2_emissions.toFixed(0)} kg/ton
 - Alternative Fuel Substitution: ${dashboardData.environmental_data.alternative_fuel_substitution.toFixed(1)}%
 
-Please provide:
-1. Top 3 optimization opportunities
-2. Specific parameter adjustments
-3. Expected benefits
-4. Implementation priority
+Recommend the top 3 optimization opportunities, each with its specific parameter adjustments, expected benefits and implementation priority.
 
 Focus on energy efficiency, environmental impact, and production optimization.
 `;
 
-    return this.askGemini(prompt, dashboardData);
+    return this.askForRecommendations(prompt, dashboardData, limits);
   }
 
   /**
-   * Explain anomalies or alerts
+   * Explain an anomaly found by the anomaly detector
    */
-  async explainAnomaly(
-    anomalyType: string, 
-    currentValue: number, 
-    normalRange: string,
-    dashboardData?: DashboardData
-  ): Promise<GeminiResponse> {
+  async explainAnomaly(anomaly: AnomalyDetection, dashboardData?: DashboardData): Promise<GeminiResponse> {
+    const contributions = anomaly.contributions.map(contribution => {
+      const { label, unit } = THRESHOLD_PARAMETERS[contribution.parameter];
+      return `- ${label}: ${contribution.value.toFixed(1)} ${unit} (typical ${contribution.typical_value.toFixed(1)} ${unit}, ${contribution.z_score >= 0 ? '+' : ''}${contribution.z_score.toFixed(1)} standard deviations, ${(contribution.share * 100).toFixed(0)}% of the anomaly score)`;
+    }).join('\n');
+
     const prompt = `
-Explain the following cement plant anomaly:
+Explain the following cement plant anomaly, found by a multivariate detector that compares every process snapshot with normal behavior learned from plant history:
 
-Anomaly Type: ${anomalyType}
-Current Value: ${currentValue}
-Normal Range: ${normalRange}
+Detected: ${new Date(anomaly.timestamp).toISOString()}${anomaly.ended_at ? ` (ended ${new Date(anomaly.ended_at).toISOString()})` : ' (ongoing)'}
+Severity: ${anomaly.severity}
+Anomaly Score: ${anomaly.anomaly_score.toFixed(2)} (0.5 is the detection limit)
+Affected Systems: ${anomaly.affected_systems.join(', ')}
+Finding: ${anomaly.description}
+
+Contributing Parameters:
+${contributions}
 
 Please explain:
 1. What this anomaly indicates
@@ -130,7 +305,7 @@ Please explain:
 Provide clear, actionable guidance for plant operators.
 `;
 
-    return this.askGemini(prompt, dashboardData);
+    return this.askGemini(prompt, dashboardData, undefined, 'anomaly_explanation');
   }
 
   /**
@@ -208,145 +383,19 @@ Keep responses concise but comprehensive, suitable for plant operators and engin
       contextPrompt += `Environmental Metrics:\n`;
       contextPrompt += `- CO2 Emissions: ${dashboardData.environmental_data.co2_emissions.toFixed(0)} kg/ton\n`;
       contextPrompt += `- Alternative Fuel Substitution: ${dashboardData.environmental_data.alternative_fuel_substitution.toFixed(1)}%\n\n`;
-    }
-
-    return contextPrompt;
-  }
-
-  /**
-   * Call Gemini API
-   */
-  private async callGeminiAPI(prompt: string): Promise<any> {
-    try {
-      console.log('🌐 Making API call to Gemini...');
-      
-      // Make actual API call to Google Gemini
-      const response = await fetch(this.baseURL + `?key=${this.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048,
-          },
-          safetySettings: [
-            {
-              category: 'HARM_CATEGORY_HARASSMENT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_HATE_SPEECH',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            }
-          ]
-        })
-      });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Gemini API error response:', errorText);
-        throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json() as any;
-      
-      // Check if response has expected structure
-      if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        console.error('Unexpected Gemini API response structure:', JSON.stringify(data));
-        throw new Error('Invalid response structure from Gemini API');
-      }
-
-      return data;
-    } catch (error) {
-      console.error('Error calling Gemini API:', error);
-      
-      // Fallback to a generic response if API call fails
-      return {
-        candidates: [{
-          content: {
-            parts: [{
-              text: `I apologize, but I'm having trouble connecting to the AI service right now. 
-
-However, based on your question, I can provide general guidance:
-
-For cement plant operations, the key areas to focus on are:
-- **Process Control**: Maintaining stable kiln temperature, consistent raw meal feed, and optimal mill operations
-- **Quality Assurance**: Regular testing of cement properties, monitoring fineness and strength development
-- **Energy Efficiency**: Optimizing fuel consumption, utilizing alternative fuels, and reducing specific energy consumption
-- **Environmental Compliance**: Managing emissions, dust control, and sustainable practices
-
-Please try your question again, or feel free to ask more specific questions about:
-- Kiln operation and temperature control
-- Quality parameters and testing
-- Energy optimization strategies
-- Environmental compliance
-- Maintenance and reliability
-
-I'll do my best to provide detailed, context-aware recommendations based on your current plant data.`
-            }]
-          }
-        }]
-      };
-    }
-  }
-
-  /**
-   * Parse Gemini API response
-   */
-  private parseGeminiResponse(response: any): GeminiResponse {
-    try {
-      const text = response.candidates[0].content.parts[0].text;
-      
-      // Extract recommendations if present
-      const recommendations = this.extractRecommendations(text);
-      
-      return {
-        response: text,
-        confidence: 0.85, // Mock confidence score
-        recommendations,
-        context_used: ['plant_data', 'process_parameters', 'environmental_metrics']
-      };
-    } catch (error) {
-      throw new Error('Failed to parse Gemini response');
-    }
-  }
-
-  /**
-   * Extract actionable recommendations from response text
-   */
-  private extractRecommendations(text: string): string[] {
-    const recommendations: string[] = [];
-    
-    // Simple pattern matching for recommendations
-    const lines = text.split('\n');
-    lines.forEach(line => {
-      if (line.includes('Reduce') || line.includes('Increase') || line.includes('Optimize') || 
-          line.includes('Adjust') || line.includes('Monitor') || line.includes('Check')) {
-        const cleaned = line.replace(/^\W+/, '').trim();
-        if (cleaned.length > 10) {
-          recommendations.push(cleaned);
+      const quality = dashboardData.data_quality;
+      if (quality && (quality.issues.length > 0 || quality.excluded_kpis.length > 0)) {
+        contextPrompt += `Data Quality:\n`;
+        contextPrompt += this.formatDataQualityIssues(quality.issues);
+        if (quality.excluded_kpis.length > 0) {
+          contextPrompt += `- Held at their last good value: ${quality.excluded_kpis.join(', ')}\n`;
         }
+        contextPrompt += `Treat bad-quality readings as unreliable: do not base recommendations on them, and caveat conclusions that rest on uncertain ones.\n\n`;
       }
-    });
+    }
 
-    return recommendations.slice(0, 5); // Limit to top 5 recommendations
+    return contextPrompt;
   }
 
   /**
@@ -369,7 +418,7 @@ Provide specific insights on:
 4. Implementation roadmap
 `;
 
-    return this.askGemini(prompt);
+    return this.askGemini(prompt, undefined, undefined, 'analysis');
   }
 
   /**
@@ -377,12 +426,16 @@ Provide specific insights on:
    */
   async detectQualityFluctuations(
     currentData: DashboardData,
-    historicalData?: ProcessParameters[]
+    historicalData?: ProcessParameters[],
+    limits: ThresholdRule[] = []
   ): Promise<GeminiResponse> {
     const { current_parameters, plant_overview, environmental_data } = currentData;
     
     // Analyze current vs target parameters
-    const kilnTempDeviation = Math.abs(current_parameters.kiln_temperature - 1450) / 1450 * 100; // Assuming 1450°C is optimal
+    const kilnOptimal = limits.find(limit => limit.parameter === 'kiln_temperature')?.optimal;
+    const kilnTempDeviation = kilnOptimal
+      ? `${(Math.abs(current_parameters.kiln_temperature - kilnOptimal) / kilnOptimal * 100).toFixed(1)}% from optimal ${kilnOptimal}°C`
+      : 'no optimal configured';
     const productionDeviation = Math.abs(plant_overview.production_rate_current - plant_overview.production_rate_target) / plant_overview.production_rate_target * 100;
     const energyDeviation = Math.abs(plant_overview.energy_consumption_current - plant_overview.energy_consumption_target) / plant_overview.energy_consumption_target * 100;
     
@@ -390,7 +443,7 @@ Provide specific insights on:
 PERFORM REAL-TIME QUALITY FLUCTUATION ANALYSIS:
 
 CURRENT PROCESS STATUS:
-- Kiln Temperature: ${current_parameters.kiln_temperature.toFixed(0)}°C (Deviation: ${kilnTempDeviation.toFixed(1)}% from optimal)
+- Kiln Temperature: ${current_parameters.kiln_temperature.toFixed(0)}°C (Deviation: ${kilnTempDeviation})
 - Production Rate: ${plant_overview.production_rate_current.toFixed(0)} TPH vs Target: ${plant_overview.production_rate_target} TPH (Deviation: ${productionDeviation.toFixed(1)}%)
 - Energy Consumption: ${plant_overview.energy_consumption_current.toFixed(1)} vs Target: ${plant_overview.energy_consumption_target} kWh/ton (Deviation: ${energyDeviation.toFixed(1)}%)
 - Quality Score: ${plant_overview.quality_score_avg.toFixed(1)}/10
@@ -408,6 +461,9 @@ ENVIRONMENTAL METRICS:
 - NOx Emissions: ${environmental_data.nox_emissions.toFixed(1)} mg/Nm³
 - Dust Emissions: ${environmental_data.dust_emissions.toFixed(1)} mg/Nm³
 
+OPERATING LIMITS:
+${this.formatOperatingLimits(limits)}
+
 ANALYZE AND PROVIDE:
 
 1. FLUCTUATION DETECTION:
@@ -438,7 +494,7 @@ ANALYZE AND PROVIDE:
 Provide specific, actionable guidance for plant operators to maintain consistent cement quality.
 `;
 
-    return this.askGemini(prompt, currentData);
+    return this.askGemini(prompt, currentData, undefined, 'analysis');
   }
 
   /**
@@ -482,7 +538,7 @@ Analyze the following patterns and provide predictive quality insights:
 Provide data-driven insights for proactive quality management.
 `;
 
-    return this.askGemini(prompt, currentData);
+    return this.askGemini(prompt, currentData, undefined, 'analysis');
   }
 
   /**
@@ -490,7 +546,8 @@ Provide data-driven insights for proactive quality management.
    */
   async generateRealTimeOptimization(
     currentData: DashboardData,
-    targetObjective: 'quality' | 'energy' | 'production' | 'environment'
+    targetObjective: 'quality' | 'energy' | 'production' | 'environment',
+    limits: ThresholdRule[] = []
   ): Promise<GeminiResponse> {
     const objectivePrompts = {
       quality: 'Focus on maintaining and improving cement quality consistency',
@@ -545,10 +602,10 @@ PROVIDE REAL-TIME OPTIMIZATION:
    - Expected improvement percentages
    - Validation criteria
 
-Provide specific, implementable optimization steps with clear timelines and expected outcomes.
+Provide specific, implementable optimization steps with clear timelines and expected outcomes. Summarize the risk assessment and success metrics in the summary.
 `;
 
-    return this.askGemini(prompt, currentData);
+    return this.askForRecommendations(prompt, currentData, limits);
   }
 
   /**
@@ -557,12 +614,13 @@ Provide specific, implementable optimization steps with clear timelines and expe
   async generateProactiveCorrections(
     currentData: DashboardData,
     fluctuations: any[],
-    historicalTrends: any[]
+    historicalTrends: any[],
+    limits: ThresholdRule[] = []
   ): Promise<GeminiResponse> {
     const prompt = `
 PROACTIVE QUALITY CORRECTIONS ANALYSIS:
 
-OBJECTIVE: Generate specific corrective actions to prevent quality issues based on detected input fluctuations.
+OBJECTIVE: Generate specific corrective actions to prevent the quality issues forecast for the next sample, using the detected input fluctuations.
 
 CURRENT PLANT DATA:
 - Quality Score: ${currentData.plant_overview.quality_score_avg.toFixed(1)}/10
@@ -583,6 +641,12 @@ ${fluctuations.length > 0 ?
   '- No significant fluctuations detected'
 }
 
+QUALITY FORECAST (NEXT SAMPLE):
+${this.formatQualityPrediction(currentData.quality_prediction)}
+
+OPERATING LIMITS:
+${this.formatOperatingLimits(limits)}
+
 PROVIDE PROACTIVE QUALITY CORRECTIONS:
 
 1. IMMEDIATE CORRECTIVE ACTIONS (0-15 minutes):
@@ -615,10 +679,10 @@ PROVIDE PROACTIVE QUALITY CORRECTIONS:
    - Safety considerations
    - Process stability risks
 
-Focus on actionable, specific corrections that plant operators can implement immediately to ensure quality consistency.
+Focus on actionable, specific corrections that plant operators can implement immediately to ensure quality consistency. Summarize the validation criteria and risks in the summary.
 `;
 
-    return this.askGemini(prompt, currentData);
+    return this.askForRecommendations(prompt, currentData, limits);
   }
 
   /**
@@ -626,7 +690,7 @@ Focus on actionable, specific corrections that plant operators can implement imm
    */
   async analyzeInputFluctuations(
     parameters: ProcessParameters,
-    thresholds: any,
+    limits: ThresholdRule[],
     historicalData: any[]
   ): Promise<GeminiResponse> {
     const prompt = `
@@ -641,6 +705,9 @@ CURRENT PARAMETERS:
 - Clinker Temperature: ${parameters.clinker_temperature.toFixed(0)}°C
 - Exhaust Fan Speed: ${parameters.exhaust_fan_speed.toFixed(0)} RPM
 
+OPERATING LIMITS:
+${this.formatOperatingLimits(limits)}
+
 STABILITY ANALYSIS REQUEST:
 
 1. FLUCTUATION ASSESSMENT:
@@ -671,19 +738,11 @@ STABILITY ANALYSIS REQUEST:
 Provide specific guidance for maintaining input parameter stability and ensuring consistent cement quality.
 `;
 
-    return this.askGemini(prompt);
+    return this.askGemini(prompt, undefined, undefined, 'analysis');
   }
 }
 
 // Factory function to create Gemini service instance
 export function createGeminiService(): GeminiService {
-  const apiKey = process.env.GEMINI_API_KEY || 'demo-key';
-  
-  if (!apiKey || apiKey === 'demo-key') {
-    console.warn('⚠️ WARNING: Gemini API key not found. Using demo mode.');
-  } else {
-    console.log('✅ Gemini API initialized successfully');
-  }
-  
-  return new GeminiService(apiKey);
-}
\ No newline at end of file
+  return new GeminiService(createLLMProviders());
+}
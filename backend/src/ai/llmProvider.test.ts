@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessParameters } from '../data/models';
+import { ThresholdStore } from '../services/thresholdStore';
+import { MockLLMProvider } from './llmProvider';
+import { parseRecommendations, recommendationInstructions, RECOMMENDATIONS_RESPONSE_SCHEMA } from './recommendationSchema';
+
+const PARAMS: ProcessParameters = {
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  kiln_temperature: 1475,
+  kiln_pressure: -1.2,
+  raw_mill_power: 2800,
+  cement_mill_power: 3200,
+  production_rate: 120,
+  energy_consumption: 95,
+  alternative_fuel_rate: 25,
+  raw_meal_flow: 2635,
+  cement_fineness: 360,
+  clinker_temperature: 1150,
+  exhaust_fan_speed: 900,
+  preheater_temperature: 345
+};
+
+describe('MockLLMProvider', () => {
+  it('answers text requests with the question', async () => {
+    const result = await new MockLLMProvider().generate({ prompt: 'Context\nQuestion: Why is the kiln hot?\n' });
+    assert.match(result.text, /^Mock response to: Why is the kiln hot\?/);
+    assert.equal(result.confidence, null);
+  });
+
+  it('recommends centering the parameter furthest from the middle of its range, in a reply the schema accepts', async () => {
+    const limits = new ThresholdStore().getLimits();
+    const { text } = await new MockLLMProvider().generate({
+      prompt: recommendationInstructions(PARAMS, limits),
+      json: { schema: RECOMMENDATIONS_RESPONSE_SCHEMA }
+    });
+    const batch = parseRecommendations(text, PARAMS, limits);
+    assert.notEqual(typeof batch, 'string', String(batch));
+    if (typeof batch === 'string') return;
+    const [recommendation] = batch.recommendations;
+    assert.deepEqual(recommendation.parameters_to_adjust, [
+      { parameter: 'kiln_temperature', current_value: 1475, recommended_value: 1450, unit: '°C' }
+    ]);
+    assert.equal(recommendation.priority, 'low');
+  });
+
+  it('streams a scripted reply word by word and stops when aborted', async () => {
+    const provider = new MockLLMProvider(() => 'one two three four');
+    const words: string[] = [];
+    const result = await provider.stream({ prompt: '' }, text => words.push(text));
+    assert.deepEqual(words, ['one ', 'two ', 'three ', 'four']);
+    assert.equal(result.text, 'one two three four');
+
+    const controller = new AbortController();
+    const received: string[] = [];
+    await assert.rejects(provider.stream({ prompt: '', signal: controller.signal }, text => {
+      received.push(text);
+      if (received.length === 2) {
+        controller.abort();
+      }
+    }));
+    assert.deepEqual(received, ['one ', 'two ']);
+  });
+});
@@ -0,0 +1,427 @@
+export type LLMProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Groups of AI endpoints that can each be served by a different provider
+export type LLMTask = 'chat' | 'recommendations' | 'analysis' | 'anomaly_explanation';
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'recommendations', 'analysis', 'anomaly_explanation'];
+
+export interface LLMRequest {
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask for a JSON reply; providers that cannot enforce the schema still get JSON mode
+  json?: { schema: Record<string, unknown> };
+  signal?: AbortSignal; // aborts the request, e.g. when the client stops a streamed reply
+}
+
+export interface LLMResult {
+  text: string;
+  confidence: number | null; // mean token probability, when the provider reports it
+}
+
+/**
+ * A text generation backend. `generate` throws when the provider cannot be
+ * reached or returns no text; callers decide how to surface that. `stream`
+ * passes each piece of text to `onText` as it arrives and resolves with the
+ * whole reply.
+ */
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResult>;
+  stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResult>;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+// The parts of the provider replies that are read. Everything is optional: a
+// malformed reply is reported, not trusted.
+interface GeminiCandidate {
+  content?: { parts?: { text?: unknown }[] };
+  finishReason?: string;
+  avgLogprobs?: number;
+}
+
+interface GeminiResponseBody {
+  candidates?: GeminiCandidate[];
+}
+
+interface OpenAIChoice {
+  message?: { content?: unknown };
+  delta?: { content?: unknown };
+  logprobs?: { content?: { logprob: number }[] | null } | null;
+}
+
+interface OpenAIResponseBody {
+  choices?: OpenAIChoice[];
+}
+
+// Aborts on the request timeout or the caller's signal, whichever comes first
+// (AbortSignal.any needs Node 20.3)
+function requestSignal(request: LLMRequest, timeoutMs: number): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!request.signal) {
+    return timeout;
+  }
+  const controller = new AbortController();
+  [timeout, request.signal].forEach(signal => {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Hand the JSON payload of each `data:` line of a server-sent event stream to
+ * `onData`; a `[DONE]` payload ends the stream
+ */
+async function readEventStream<T>(response: Response, onData: (data: T) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (payload === '[DONE]') {
+        return;
+      }
+      if (payload) {
+        onData(JSON.parse(payload));
+      }
+    }
+    if (done) {
+      return;
+    }
+  }
+}
+
+/**
+ * Google Gemini through the Generative Language REST API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly kind = 'gemini';
+  readonly model: string;
+  private apiKey: string;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, model: string, timeoutMs: number) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const response = await this.post('generateContent', request);
+    const data = await response.json() as GeminiResponseBody;
+    const candidate = data.candidates?.[0];
+    const text = candidate?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string') {
+      console.error('Unexpected Gemini API response structure:', JSON.stringify(data));
+      throw new Error(`Gemini returned no text${candidate?.finishReason ? ` (finish reason ${candidate.finishReason})` : ''}`);
+    }
+
+    return {
+      text,
+      confidence: typeof candidate?.avgLogprobs === 'number' ? Math.exp(candidate.avgLogprobs) : null
+    };
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResult> {
+    const response = await this.post('streamGenerateContent', request, '&alt=sse');
+    let text = '';
+    let finishReason: string | undefined;
+    await readEventStream<GeminiResponseBody>(response, data => {
+      const candidate = data.candidates?.[0];
+      finishReason = candidate?.finishReason ?? finishReason;
+      const part = candidate?.content?.parts?.[0]?.text;
+      if (typeof part === 'string' && part) {
+        text += part;
+        onText(part);
+      }
+    });
+    if (!text) {
+      throw new Error(`Gemini returned no text${finishReason ? ` (finish reason ${finishReason})` : ''}`);
+    }
+    return { text, confidence: null };
+  }
+
+  private async post(method: 'generateContent' | 'streamGenerateContent', request: LLMRequest, query: string = ''): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('GEMINI_API_KEY is not set');
+    }
+    console.log(`🌐 Making API call to Gemini (${this.model})...`);
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    };
+    if (request.json) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseSchema = request.json.schema;
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}?key=${this.apiKey}${query}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal: requestSignal(request, this.timeoutMs),
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: request.prompt
+          }]
+        }],
+        generationConfig,
+        safetySettings: [
+          {
+            category: 'HARM_CATEGORY_HARASSMENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_HATE_SPEECH',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Gemini API error response:', errorText);
+      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API, such as Ollama
+ * (`http://localhost:11434/v1`) or the llama.cpp server, so the assistant can
+ * run on a model inside the plant network
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai';
+  readonly model: string;
+  private baseURL: string;
+  private apiKey: string;
+  private timeoutMs: number;
+
+  constructor(baseURL: string, model: string, apiKey: string, timeoutMs: number) {
+    this.baseURL = baseURL.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const response = await this.post(request, false);
+    const data = await response.json() as OpenAIResponseBody;
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content;
+    if (typeof text !== 'string') {
+      console.error('Unexpected OpenAI-compatible API response structure:', JSON.stringify(data));
+      throw new Error('OpenAI-compatible API returned no text');
+    }
+
+    const tokens = choice?.logprobs?.content;
+    return {
+      text,
+      confidence: tokens && tokens.length > 0
+        ? Math.exp(tokens.reduce((sum, token) => sum + token.logprob, 0) / tokens.length)
+        : null
+    };
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResult> {
+    const response = await this.post(request, true);
+    let text = '';
+    await readEventStream<OpenAIResponseBody>(response, data => {
+      const part = data.choices?.[0]?.delta?.content;
+      if (typeof part === 'string' && part) {
+        text += part;
+        onText(part);
+      }
+    });
+    if (!text) {
+      throw new Error('OpenAI-compatible API returned no text');
+    }
+    return { text, confidence: null };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    console.log(`🌐 Making API call to ${this.baseURL} (${this.model})...`);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: requestSignal(request, this.timeoutMs),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        stream,
+        // The schema itself is spelled out in the prompt and checked by the caller
+        ...(request.json ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI-compatible API error response:', errorText);
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Deterministic stand-in for tests and demos without any model. Text requests
+ * get a fixed reply naming the question; JSON requests get one recommendation
+ * moving the parameter furthest from the middle of its allowed range back to it.
+ * Pass `respond` to script the replies instead.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly kind = 'mock';
+  readonly model = 'mock';
+  private respond?: (request: LLMRequest) => string;
+
+  constructor(respond?: (request: LLMRequest) => string) {
+    this.respond = respond;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    if (this.respond) {
+      return { text: this.respond(request), confidence: null };
+    }
+    return {
+      text: request.json ? this.recommendationReply(request.prompt) : this.textReply(request.prompt),
+      confidence: null
+    };
+  }
+
+  // Word by word, yielding between words so a cancel can land mid-reply
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResult> {
+    const result = await this.generate(request);
+    for (const word of result.text.match(/\S+\s*/g) || []) {
+      request.signal?.throwIfAborted();
+      onText(word);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return result;
+  }
+
+  private textReply(prompt: string): string {
+    const question = prompt.match(/^Question: (.*)$/m)?.[1]?.trim() || prompt.trim().split('\n')[0];
+    return `Mock response to: ${question.substring(0, 200)}\n\nThis reply comes from the mock LLM provider; configure LLM_PROVIDER to use a real model.`;
+  }
+
+  // Reads the parameter lines written by recommendationInstructions
+  private recommendationReply(prompt: string): string {
+    const ranges = [...prompt.matchAll(/^- (\w+) \([^)]*\): current (-?[\d.]+) [^,\n]*, allowed (-?[\d.]+)-(-?[\d.]+)$/gm)]
+      .map(([, parameter, current, min, max]) => ({ parameter, current: Number(current), min: Number(min), max: Number(max) }))
+      .filter(range => range.max > range.min);
+    const offCenter = (range: { current: number; min: number; max: number }) =>
+      Math.abs(range.current - (range.min + range.max) / 2) / (range.max - range.min);
+    const target = ranges.sort((a, b) => offCenter(b) - offCenter(a))[0];
+
+    const recommendation = target
+      ? {
+        type: 'quality_improvement',
+        priority: offCenter(target) > 0.5 ? 'high' : 'low',
+        title: `Center ${target.parameter.replace(/_/g, ' ')} in its range`,
+        description: `${target.parameter} is the parameter furthest from the middle of its allowed range.`,
+        expected_benefit: 'More margin to the operating limits',
+        implementation_steps: [`Move ${target.parameter} to ${((target.min + target.max) / 2).toFixed(2)} in small steps`],
+        confidence_score: 50,
+        parameters_to_adjust: [{
+          parameter: target.parameter,
+          current_value: target.current,
+          recommended_value: (target.min + target.max) / 2
+        }]
+      }
+      : {
+        type: 'maintenance',
+        priority: 'low',
+        title: 'Keep monitoring',
+        description: 'No operating limits are configured to compare the parameters against.',
+        expected_benefit: 'None',
+        implementation_steps: ['Configure operating limits'],
+        confidence_score: 50,
+        parameters_to_adjust: []
+      };
+    return JSON.stringify({ summary: 'Mock recommendations from the mock LLM provider.', recommendations: [recommendation] });
+  }
+}
+
+function createProvider(kind: string, timeoutMs: number): LLMProvider {
+  if (kind === 'openai') {
+    return new OpenAICompatibleProvider(
+      process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+      process.env.OPENAI_MODEL || 'llama3.1',
+      process.env.OPENAI_API_KEY || '',
+      timeoutMs
+    );
+  }
+  if (kind === 'mock') {
+    return new MockLLMProvider();
+  }
+  if (kind !== 'gemini') {
+    console.warn(`⚠️ Unknown LLM provider "${kind}", using gemini`);
+  }
+  return new GeminiProvider(process.env.GEMINI_API_KEY || '', process.env.GEMINI_MODEL || 'gemini-1.5-flash', timeoutMs);
+}
+
+/**
+ * Provider per task from LLM_PROVIDER_<TASK> (e.g. LLM_PROVIDER_CHAT), falling
+ * back to LLM_PROVIDER and then to Gemini. Tasks naming the same kind share
+ * one provider.
+ */
+export function createLLMProviders(): Record<LLMTask, LLMProvider> {
+  const timeoutMs = parseFloat(process.env.LLM_TIMEOUT_SECONDS || '120') * 1000;
+  const defaultKind = process.env.LLM_PROVIDER || 'gemini';
+  const byKind = new Map<string, LLMProvider>();
+
+  const providers = {} as Record<LLMTask, LLMProvider>;
+  LLM_TASKS.forEach(task => {
+    const kind = process.env[`LLM_PROVIDER_${task.toUpperCase()}`] || defaultKind;
+    if (!byKind.has(kind)) {
+      byKind.set(kind, createProvider(kind, timeoutMs));
+    }
+    providers[task] = byKind.get(kind)!;
+  });
+
+  const summary = LLM_TASKS.map(task => `${task}=${providers[task].kind}:${providers[task].model}`).join(', ');
+  console.log(`🤖 LLM providers: ${summary}`);
+  if (Object.values(providers).some(provider => provider.kind === 'gemini') && !process.env.GEMINI_API_KEY) {
+    console.warn('⚠️ WARNING: Gemini API key not found. AI requests served by Gemini will fail.');
+  }
+  return providers;
+}
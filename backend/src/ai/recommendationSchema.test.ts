@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessParameters } from '../data/models';
+import { THRESHOLD_PARAMETERS, ThresholdStore } from '../services/thresholdStore';
+import { parseRecommendations } from './recommendationSchema';
+
+const PARAMS: ProcessParameters = {
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  kiln_temperature: 1475,
+  kiln_pressure: -1.2,
+  raw_mill_power: 2800,
+  cement_mill_power: 3200,
+  production_rate: 120,
+  energy_consumption: 95,
+  alternative_fuel_rate: 25,
+  raw_meal_flow: 2635,
+  cement_fineness: 360,
+  clinker_temperature: 1150,
+  exhaust_fan_speed: 900,
+  preheater_temperature: 345
+};
+
+describe('parseRecommendations', () => {
+  const limits = new ThresholdStore().getLimits();
+  const reply = (recommendation: Record<string, unknown>) => JSON.stringify({
+    summary: 'Summary',
+    recommendations: [{
+      type: 'energy_optimization',
+      priority: 'medium',
+      title: 'Title',
+      description: 'Description',
+      expected_benefit: 'Benefit',
+      implementation_steps: ['Step'],
+      confidence_score: 70,
+      parameters_to_adjust: [],
+      ...recommendation
+    }]
+  });
+
+  it('accepts a reply wrapped in a code fence', () => {
+    const batch = parseRecommendations('```json\n' + reply({}) + '\n```', PARAMS, limits);
+    assert.equal(typeof batch === 'string' ? batch : batch.summary, 'Summary');
+  });
+
+  it('lists every problem so the model can correct them', () => {
+    const problems = parseRecommendations(reply({
+      priority: 'asap',
+      confidence_score: 150,
+      parameters_to_adjust: [
+        { parameter: 'kiln_temperature', current_value: 1300, recommended_value: 1600 },
+        { parameter: 'kiln_color', current_value: 1, recommended_value: 2 }
+      ]
+    }), PARAMS, limits);
+    assert.equal(problems, [
+      'recommendations[0].priority must be one of low, medium, high, urgent',
+      'recommendations[0].confidence_score must be a number from 0 to 100',
+      'recommendations[0].parameters_to_adjust[0].current_value must be the current kiln_temperature reading, 1475.00',
+      'recommendations[0].parameters_to_adjust[0].recommended_value must be within the allowed range 1420-1480',
+      `recommendations[0].parameters_to_adjust[1].parameter must be one of ${Object.keys(THRESHOLD_PARAMETERS).join(', ')}`
+    ].join('; '));
+  });
+
+  it('rejects replies that are not a JSON object', () => {
+    assert.equal(parseRecommendations('Sure! Here you go', PARAMS, limits), 'The reply is not valid JSON');
+    assert.equal(parseRecommendations('[]', PARAMS, limits), 'The reply must be a JSON object');
+  });
+});
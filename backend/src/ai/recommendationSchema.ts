@@ -0,0 +1,211 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIRecommendation, ProcessParameters, ThresholdParameter, ThresholdRule } from '../data/models';
+import { THRESHOLD_PARAMETERS } from '../services/thresholdStore';
+
+const TYPES: AIRecommendation['type'][] = ['energy_optimization', 'quality_improvement', 'maintenance', 'environmental'];
+const PRIORITIES: AIRecommendation['priority'][] = ['low', 'medium', 'high', 'urgent'];
+const PARAMETERS = Object.keys(THRESHOLD_PARAMETERS) as ThresholdParameter[];
+const MAX_RECOMMENDATIONS = 5;
+// A stated current value may differ this much from the reading before it is rejected
+const CURRENT_VALUE_TOLERANCE = 0.02;
+
+/**
+ * Gemini `responseSchema` for a batch of recommendations. Ids, timestamps and
+ * units are filled in by the server.
+ */
+export const RECOMMENDATIONS_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    recommendations: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          type: { type: 'STRING', enum: TYPES },
+          priority: { type: 'STRING', enum: PRIORITIES },
+          title: { type: 'STRING' },
+          description: { type: 'STRING' },
+          expected_benefit: { type: 'STRING' },
+          implementation_steps: { type: 'ARRAY', items: { type: 'STRING' } },
+          confidence_score: { type: 'NUMBER' },
+          parameters_to_adjust: {
+            type: 'ARRAY',
+            items: {
+              type: 'OBJECT',
+              properties: {
+                parameter: { type: 'STRING', enum: PARAMETERS },
+                current_value: { type: 'NUMBER' },
+                recommended_value: { type: 'NUMBER' }
+              },
+              required: ['parameter', 'current_value', 'recommended_value']
+            }
+          }
+        },
+        required: ['type', 'priority', 'title', 'description', 'expected_benefit', 'implementation_steps', 'confidence_score', 'parameters_to_adjust']
+      }
+    }
+  },
+  required: ['summary', 'recommendations']
+};
+
+export interface RecommendationBatch {
+  summary: string;
+  recommendations: AIRecommendation[];
+}
+
+/**
+ * Prompt section telling the model what JSON to return and which values it
+ * has to respect
+ */
+export function recommendationInstructions(params: ProcessParameters, limits: ThresholdRule[]): string {
+  const readings = PARAMETERS.map(parameter => {
+    const { label, unit } = THRESHOLD_PARAMETERS[parameter];
+    const limit = limits.find(rule => rule.parameter === parameter);
+    const range = limit ? `, allowed ${limit.min}-${limit.max}` : '';
+    return `- ${parameter} (${label}): current ${params[parameter].toFixed(2)} ${unit}${range}`;
+  }).join('\n');
+
+  return `
+RESPONSE FORMAT:
+Respond only with a JSON object: {"summary": string, "recommendations": [...]}, at most ${MAX_RECOMMENDATIONS} recommendations, most important first. Each recommendation has:
+- type: one of ${TYPES.join(', ')}
+- priority: one of ${PRIORITIES.join(', ')}
+- title, description, expected_benefit: strings
+- implementation_steps: ordered list of strings, with timelines where relevant
+- confidence_score: your confidence from 0 to 100
+- parameters_to_adjust: list of {"parameter", "current_value", "recommended_value"} using the parameter names and current values below; recommended values must stay within the allowed range. Use an empty list for actions that change no setpoint.
+
+PARAMETERS:
+${readings}
+`;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Parse and validate a model reply. Returns the recommendations, or the
+ * problems found so the model can be asked to correct them.
+ */
+export function parseRecommendations(text: string, params: ProcessParameters, limits: ThresholdRule[]): RecommendationBatch | string {
+  let raw: unknown;
+  try {
+    // Tolerate a reply wrapped in a Markdown code fence
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (error) {
+    return 'The reply is not valid JSON';
+  }
+  if (!isRecord(raw)) {
+    return 'The reply must be a JSON object';
+  }
+
+  const errors: string[] = [];
+  const summary = raw.summary;
+  if (!isNonEmptyString(summary)) {
+    errors.push('summary must be a non-empty string');
+  }
+  const items = raw.recommendations;
+  if (!Array.isArray(items) || items.length === 0) {
+    errors.push('recommendations must be a non-empty array');
+    return errors.join('; ');
+  }
+  if (items.length > MAX_RECOMMENDATIONS) {
+    errors.push(`recommendations may hold at most ${MAX_RECOMMENDATIONS} entries`);
+  }
+
+  const timestamp = new Date();
+  const recommendations: AIRecommendation[] = [];
+  items.forEach((item: unknown, i: number) => {
+    const at = `recommendations[${i}]`;
+    if (!isRecord(item)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    const { type, priority, title, description, expected_benefit, implementation_steps, confidence_score, parameters_to_adjust } = item;
+    if (!isOneOf(TYPES, type)) {
+      errors.push(`${at}.type must be one of ${TYPES.join(', ')}`);
+    }
+    if (!isOneOf(PRIORITIES, priority)) {
+      errors.push(`${at}.priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+    if (!isNonEmptyString(title)) {
+      errors.push(`${at}.title must be a non-empty string`);
+    }
+    if (!isNonEmptyString(description)) {
+      errors.push(`${at}.description must be a non-empty string`);
+    }
+    if (!isNonEmptyString(expected_benefit)) {
+      errors.push(`${at}.expected_benefit must be a non-empty string`);
+    }
+    const steps: string[] | null = Array.isArray(implementation_steps) && implementation_steps.length > 0 && implementation_steps.every(isNonEmptyString)
+      ? implementation_steps
+      : null;
+    if (!steps) {
+      errors.push(`${at}.implementation_steps must be a non-empty array of strings`);
+    }
+    if (!isFiniteNumber(confidence_score) || confidence_score < 0 || confidence_score > 100) {
+      errors.push(`${at}.confidence_score must be a number from 0 to 100`);
+    }
+    if (!Array.isArray(parameters_to_adjust)) {
+      errors.push(`${at}.parameters_to_adjust must be an array`);
+      return;
+    }
+
+    const adjustments: AIRecommendation['parameters_to_adjust'] = [];
+    parameters_to_adjust.forEach((adjustment: unknown, j: number) => {
+      const path = `${at}.parameters_to_adjust[${j}]`;
+      const parameter = isRecord(adjustment) ? adjustment.parameter : undefined;
+      if (!isRecord(adjustment) || !isOneOf(PARAMETERS, parameter)) {
+        errors.push(`${path}.parameter must be one of ${PARAMETERS.join(', ')}`);
+        return;
+      }
+      const current = params[parameter];
+      const stated = adjustment.current_value;
+      if (!isFiniteNumber(stated)
+        || Math.abs(stated - current) > CURRENT_VALUE_TOLERANCE * Math.max(Math.abs(current), 1)) {
+        errors.push(`${path}.current_value must be the current ${parameter} reading, ${current.toFixed(2)}`);
+      }
+      const recommended = adjustment.recommended_value;
+      const limit = limits.find(rule => rule.parameter === parameter);
+      if (!isFiniteNumber(recommended)) {
+        errors.push(`${path}.recommended_value must be a number`);
+        return;
+      }
+      if (limit && (recommended < limit.min || recommended > limit.max)) {
+        errors.push(`${path}.recommended_value must be within the allowed range ${limit.min}-${limit.max}`);
+      }
+      adjustments.push({
+        parameter,
+        current_value: current,
+        recommended_value: recommended,
+        unit: THRESHOLD_PARAMETERS[parameter].unit
+      });
+    });
+
+    if (isOneOf(TYPES, type) && isOneOf(PRIORITIES, priority) && isNonEmptyString(title) && isNonEmptyString(description)
+      && isNonEmptyString(expected_benefit) && steps && isFiniteNumber(confidence_score)) {
+      recommendations.push({
+        id: uuidv4(),
+        timestamp,
+        type,
+        priority,
+        title,
+        description,
+        expected_benefit,
+        implementation_steps: steps,
+        confidence_score,
+        parameters_to_adjust: adjustments
+      });
+    }
+  });
+
+  if (errors.length > 0 || !isNonEmptyString(summary)) {
+    return errors.join('; ');
+  }
+  return { summary, recommendations };
+}
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ingestRows, parseCSV, suggestMapping, validateMapping, valueAtPath } from './csvIngest';
+
+describe('parseCSV', () => {
+  it('keys rows by trimmed header', () => {
+    const table = parseCSV('time, kiln_temperature \n2026-01-01T00:00:00Z, 1450\n');
+    assert.deepEqual(table.headers, ['time', 'kiln_temperature']);
+    assert.deepEqual(table.rows, [{ time: '2026-01-01T00:00:00Z', kiln_temperature: '1450' }]);
+  });
+
+  it('reads quoted delimiters, line breaks and doubled quotes', () => {
+    const table = parseCSV('note,value\r\n"a, ""b""\nc",1\r\n');
+    assert.deepEqual(table.rows, [{ note: 'a, "b"\nc', value: '1' }]);
+  });
+
+  it('strips a byte order mark and skips blank lines', () => {
+    const table = parseCSV('\uFEFFa;b\n\n1;2\n;\n', ';');
+    assert.deepEqual(table.headers, ['a', 'b']);
+    assert.deepEqual(table.rows, [{ a: '1', b: '2' }]);
+  });
+
+  it('leaves the cells of short rows empty', () => {
+    assert.deepEqual(parseCSV('a,b,c\n1\n').rows, [{ a: '1', b: '', c: '' }]);
+  });
+
+  it('returns no headers for empty input', () => {
+    assert.deepEqual(parseCSV(''), { headers: [], rows: [] });
+  });
+});
+
+describe('suggestMapping', () => {
+  it('maps field names, aliases and the timestamp column', () => {
+    const mapping = suggestMapping(['Timestamp', 'Kiln Temp (°F)', 'raw_mill_power', 'Free Lime %']);
+    assert.equal(mapping.timestampColumn, 'Timestamp');
+    assert.equal(mapping.processMappings.kiln_temperature, 'Kiln Temp (°F)');
+    assert.equal(mapping.processMappings.raw_mill_power, 'raw_mill_power');
+    assert.equal(mapping.qualityMappings['chemical_composition.free_lime'], 'Free Lime %');
+  });
+});
+
+describe('ingestRows', () => {
+  const csv = [
+    'Timestamp,Kiln Temp (°F),Raw Mill Power (MW),FT-101',
+    '2026-01-01T00:00:00Z,2642,2.8,12.5',
+    '2026-01-01T00:05:00Z,2650,,13',
+    'not a time,2642,2.8,1',
+    '2026-01-01T00:15:00Z,9000,2.8,1',
+    '2026-01-01T00:20:00Z,2642,n/a,1'
+  ].join('\n');
+  const mapping = {
+    ...suggestMapping(['Timestamp', 'Kiln Temp (°F)', 'Raw Mill Power (MW)']),
+    sensorMappings: { FT_101: 'FT-101' }
+  };
+
+  it('converts header units to model units and leaves out empty cells', () => {
+    const result = ingestRows(parseCSV(csv), mapping);
+    assert.equal(result.records.length, 2);
+    const [first, second] = result.records;
+    assert.equal(first.timestamp?.toISOString(), '2026-01-01T00:00:00.000Z');
+    assert.equal(first.process.kiln_temperature, 1450);
+    assert.ok(Math.abs(first.process.raw_mill_power - 2800) < 1e-9);
+    assert.equal(first.sensors.FT_101, 12.5);
+    assert.equal('raw_mill_power' in second.process, false);
+    assert.deepEqual(result.sensor_units, { FT_101: 'units' });
+  });
+
+  it('rejects whole rows with a bad timestamp, an out-of-range value or a non-number', () => {
+    const result = ingestRows(parseCSV(csv), mapping);
+    assert.equal(result.row_count, 5);
+    assert.equal(result.rejected_rows, 3);
+    assert.deepEqual(result.issues.map(issue => [issue.row, issue.column, issue.message.split(' ').pop()]), [
+      [3, 'Timestamp', 'timestamp'],
+      [4, 'Kiln Temp (°F)', '°C'],
+      [5, 'Raw Mill Power (MW)', 'number']
+    ]);
+  });
+
+  it('refuses mappings to missing columns and unconvertible units', () => {
+    const headers = ['Kiln Temp (kW)'];
+    assert.equal(
+      validateMapping(headers, { ...suggestMapping([]), processMappings: { kiln_temperature: 'Kiln Temp' } }),
+      'Column "Kiln Temp" mapped to process.kiln_temperature not found'
+    );
+    const unconvertible = { ...suggestMapping([]), processMappings: { kiln_temperature: 'Kiln Temp (kW)' } };
+    assert.match(validateMapping(headers, unconvertible) || '', /cannot be converted to °C/);
+    assert.throws(() => ingestRows(parseCSV('Kiln Temp (kW)\n1\n'), unconvertible));
+  });
+});
+
+describe('valueAtPath', () => {
+  it('follows dotted paths and stops at non-objects', () => {
+    const source = { data: { value: 5 }, flat: 3 };
+    assert.equal(valueAtPath(source, 'data.value'), 5);
+    assert.equal(valueAtPath(source, 'flat.value'), undefined);
+    assert.equal(valueAtPath(null, 'value'), undefined);
+  });
+});
@@ -0,0 +1,421 @@
+import { DataMapping } from './realDataAdapter';
+
+export type MappingGroup = 'process' | 'quality' | 'environmental';
+
+// A field a dataset column can be mapped to, in the unit the dashboard models use
+export interface MappableField {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  aliases: string[]; // header words that suggest this field
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// One imported row, converted to model units; quality keys may be `chemical_composition.*` paths
+export interface RealDataRecord {
+  row: number; // 1-based data row in the source
+  timestamp: Date | null;
+  process: Record<string, number>;
+  quality: Record<string, number>;
+  environmental: Record<string, number>;
+  sensors: Record<string, number>;
+}
+
+export interface IngestIssue {
+  row: number;
+  column: string;
+  value: string;
+  message: string;
+}
+
+export interface ColumnMapping {
+  column: string;
+  target: string; // group.field or sensors.SENSOR_ID
+  unit: string | null; // unit of the source column
+  model_unit: string | null;
+}
+
+export interface IngestResult {
+  records: RealDataRecord[];
+  row_count: number;
+  rejected_rows: number;
+  issues: IngestIssue[];
+  columns: ColumnMapping[];
+  sensor_units: Record<string, string>;
+}
+
+// Only the first issues are reported back; the rest are counted as rejected rows
+const MAX_REPORTED_ISSUES = 100;
+
+export const MAPPABLE_FIELDS: Record<MappingGroup, Record<string, MappableField>> = {
+  process: {
+    kiln_temperature: { label: 'Kiln temperature', unit: '°C', min: 800, max: 1700, aliases: ['kiln temp', 'burning zone temp'] },
+    kiln_pressure: { label: 'Kiln pressure', unit: 'kPa', min: -50, max: 50, aliases: ['kiln pressure', 'kiln inlet pressure'] },
+    raw_mill_power: { label: 'Raw mill power', unit: 'kW', min: 0, max: 10000, aliases: ['raw mill power', 'vrm power'] },
+    cement_mill_power: { label: 'Cement mill power', unit: 'kW', min: 0, max: 10000, aliases: ['cement mill power', 'finish mill power'] },
+    production_rate: { label: 'Production rate', unit: 'TPH', min: 0, max: 5000, aliases: ['production', 'clinker production', 'output'] },
+    energy_consumption: { label: 'Specific energy', unit: 'kWh/t', min: 20, max: 200, aliases: ['energy consumption', 'specific energy', 'specific power'] },
+    alternative_fuel_rate: { label: 'Alternative fuel rate', unit: '%', min: 0, max: 100, aliases: ['alternative fuel', 'afr', 'tsr'] },
+    raw_meal_flow: { label: 'Raw meal flow', unit: 'TPH', min: 0, max: 8000, aliases: ['raw meal', 'kiln feed'] },
+    cement_fineness: { label: 'Cement fineness', unit: 'm²/kg', min: 200, max: 700, aliases: ['fineness', 'blaine'] },
+    clinker_temperature: { label: 'Clinker temperature', unit: '°C', min: 50, max: 1500, aliases: ['clinker temp', 'cooler outlet temp'] },
+    exhaust_fan_speed: { label: 'Exhaust fan speed', unit: 'RPM', min: 0, max: 2000, aliases: ['id fan speed', 'exhaust fan'] },
+    preheater_temperature: { label: 'Preheater exit temperature', unit: '°C', min: 150, max: 1000, aliases: ['preheater temp', 'preheater exit', 'cyclone exit temp'] }
+  },
+  quality: {
+    blaine_fineness: { label: 'Blaine fineness', unit: 'm²/kg', min: 200, max: 700, aliases: ['fineness', 'blaine'] },
+    compressive_strength_3d: { label: '3-day strength', unit: 'MPa', min: 0, max: 80, aliases: ['3d strength', 'strength 3d', 'early strength'] },
+    compressive_strength_28d: { label: '28-day strength', unit: 'MPa', min: 0, max: 100, aliases: ['28d strength', 'strength 28d', 'compressive strength', 'target strength', 'strength'] },
+    setting_time_initial: { label: 'Initial setting time', unit: 'min', min: 0, max: 600, aliases: ['initial setting', 'initial set'] },
+    setting_time_final: { label: 'Final setting time', unit: 'min', min: 0, max: 900, aliases: ['final setting', 'final set'] },
+    quality_score: { label: 'Quality score', unit: '%', min: 0, max: 100, aliases: ['quality score', 'quality index'] },
+    defect_count: { label: 'Defect count', unit: 'count', min: 0, max: 1000, aliases: ['defects', 'defect count'] },
+    consistency: { label: 'Consistency', unit: '%', min: 0, max: 100, aliases: ['consistency'] },
+    'chemical_composition.c3s': { label: 'C3S', unit: '%', min: 0, max: 100, aliases: ['c3s', 'alite'] },
+    'chemical_composition.c2s': { label: 'C2S', unit: '%', min: 0, max: 100, aliases: ['c2s', 'belite'] },
+    'chemical_composition.c3a': { label: 'C3A', unit: '%', min: 0, max: 100, aliases: ['c3a'] },
+    'chemical_composition.c4af': { label: 'C4AF', unit: '%', min: 0, max: 100, aliases: ['c4af', 'ferrite'] },
+    'chemical_composition.so3': { label: 'SO3', unit: '%', min: 0, max: 10, aliases: ['so3', 'sulfate', 'sulphate'] },
+    'chemical_composition.free_lime': { label: 'Free lime', unit: '%', min: 0, max: 10, aliases: ['free lime', 'f cao', 'fcao'] }
+  },
+  environmental: {
+    co2_emissions: { label: 'CO2 emissions', unit: 'kg/t', min: 0, max: 2000, aliases: ['co2'] },
+    nox_emissions: { label: 'NOx emissions', unit: 'mg/Nm³', min: 0, max: 5000, aliases: ['nox'] },
+    so2_emissions: { label: 'SO2 emissions', unit: 'mg/Nm³', min: 0, max: 5000, aliases: ['so2'] },
+    dust_emissions: { label: 'Dust emissions', unit: 'mg/Nm³', min: 0, max: 1000, aliases: ['dust', 'particulate'] },
+    energy_consumption_specific: { label: 'Specific energy', unit: 'kWh/t', min: 20, max: 200, aliases: ['energy consumption', 'specific energy'] },
+    alternative_fuel_substitution: { label: 'Alternative fuel substitution', unit: '%', min: 0, max: 100, aliases: ['alternative fuel', 'substitution rate'] },
+    waste_heat_recovery: { label: 'Waste heat recovery', unit: 'kWh', min: 0, max: 1000000, aliases: ['waste heat', 'whr'] },
+    water_consumption: { label: 'Water consumption', unit: 'L/t', min: 0, max: 5000, aliases: ['water'] }
+  }
+};
+
+// Source units accepted for each model unit, keyed by normalized unit
+const UNIT_CONVERSIONS: Record<string, Record<string, (value: number) => number>> = {
+  '°C': { c: v => v, degc: v => v, f: v => (v - 32) * 5 / 9, degf: v => (v - 32) * 5 / 9, k: v => v - 273.15 },
+  kPa: { kpa: v => v, pa: v => v / 1000, mbar: v => v / 10, bar: v => v * 100, mmh2o: v => v * 0.00980665, mmwc: v => v * 0.00980665 },
+  kW: { kw: v => v, mw: v => v * 1000, w: v => v / 1000 },
+  TPH: { tph: v => v, 't/h': v => v, 't/d': v => v / 24, tpd: v => v / 24 },
+  'kWh/t': { 'kwh/t': v => v, 'mj/t': v => v / 3.6 },
+  '%': { '%': v => v, fraction: v => v * 100 },
+  'm²/kg': { 'm2/kg': v => v, 'cm2/g': v => v / 10 },
+  MPa: { mpa: v => v, 'n/mm2': v => v, psi: v => v * 0.00689476 },
+  min: { min: v => v, h: v => v * 60, s: v => v / 60 },
+  RPM: { rpm: v => v, '1/min': v => v },
+  'mm/s': { 'mm/s': v => v, 'in/s': v => v * 25.4, ips: v => v * 25.4 },
+  count: { count: v => v },
+  'kg/t': { 'kg/t': v => v, 'kg/tclinker': v => v, 't/t': v => v * 1000, 't/tclinker': v => v * 1000, 't/tcement': v => v * 1000 },
+  'mg/Nm³': { 'mg/nm3': v => v, 'mg/m3': v => v, 'g/nm3': v => v * 1000 },
+  kWh: { kwh: v => v, mwh: v => v * 1000 },
+  'L/t': { 'l/t': v => v, 'm3/t': v => v * 1000 }
+};
+
+const TIMESTAMP_HEADERS = ['timestamp', 'time', 'date', 'datetime', 'date time'];
+
+/**
+ * Parse CSV text (RFC 4180): quoted fields may contain delimiters, line breaks
+ * and doubled quotes. Rows are keyed by header; short rows leave cells empty.
+ */
+export function parseCSV(text: string, delimiter: string = ','): CsvTable {
+  const lines: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      lines.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    lines.push(row);
+  }
+
+  const nonEmpty = lines.filter(line => line.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = nonEmpty[0].map(header => header.trim());
+  const rows = nonEmpty.slice(1).map(cells => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (cells[index] ?? '').trim();
+    });
+    return record;
+  });
+  return { headers, rows };
+}
+
+/**
+ * Unit stated in a header such as `Kiln Temp. (°C)`
+ */
+export function headerUnit(header: string): string | null {
+  const match = header.match(/[([]([^()[\]]+)[)\]]\s*$/);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Guess a mapping from header names: exact field names first, then aliases
+ */
+export function suggestMapping(headers: string[]): DataMapping {
+  const mapping: DataMapping = {
+    sensorMappings: {},
+    processMappings: {},
+    qualityMappings: {},
+    environmentalMappings: {}
+  };
+
+  const timestampHeader = headers.find(header => TIMESTAMP_HEADERS.includes(headerWords(header)));
+  if (timestampHeader) {
+    mapping.timestampColumn = timestampHeader;
+  }
+
+  (Object.keys(MAPPABLE_FIELDS) as MappingGroup[]).forEach(group => {
+    const target = groupMappings(mapping, group);
+    const fields = Object.entries(MAPPABLE_FIELDS[group]);
+    const isFieldName = (header: string, field: string) => header === field || header === field.split('.').pop();
+
+    // Headers named after a field belong to it and are not matched by another field's aliases
+    const claimed = new Set(headers.filter(header => fields.some(([field]) => isFieldName(header, field))));
+    fields.forEach(([field, spec]) => {
+      const exact = headers.find(header => isFieldName(header, field));
+      const alias = headers.find(header => {
+        const words = ` ${headerWords(header)} `;
+        return !claimed.has(header) && spec.aliases.some(a => words.includes(` ${a} `));
+      });
+      if (exact || alias) {
+        target[field] = (exact || alias) as string;
+      }
+    });
+  });
+
+  return mapping;
+}
+
+/**
+ * Look up a `group.field` target such as `quality.chemical_composition.free_lime`
+ */
+export function resolveField(target: string): { group: MappingGroup; field: string; spec: MappableField } | null {
+  const [group, ...rest] = target.split('.');
+  const field = rest.join('.');
+  const spec = MAPPABLE_FIELDS[group as MappingGroup]?.[field];
+  return spec ? { group: group as MappingGroup, field, spec } : null;
+}
+
+/**
+ * Value at a dotted path such as `chemical_composition.free_lime`, or
+ * undefined when the path leads through something that is not an object
+ */
+export function valueAtPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, part) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined,
+    source
+  );
+}
+
+/**
+ * Converter from a source unit to a model unit, or null when there is none
+ */
+export function unitConverter(unit: string, modelUnit: string): ((value: number) => number) | null {
+  return UNIT_CONVERSIONS[modelUnit]?.[normalizeUnit(unit)] || null;
+}
+
+/**
+ * Check that a mapping fits the table headers and that every column unit
+ * converts to its field's unit; returns an error message or null
+ */
+export function validateMapping(headers: string[], mapping: DataMapping): string | null {
+  const columns = resolveColumns(headers, mapping);
+  return typeof columns === 'string' ? columns : null;
+}
+
+/**
+ * Map, convert and validate rows of a table whose mapping passed validateMapping.
+ * A row with an unparseable timestamp or any invalid mapped value is rejected
+ * whole; empty cells are left out of the record.
+ */
+export function ingestRows(table: CsvTable, mapping: DataMapping): IngestResult {
+  const columns = resolveColumns(table.headers, mapping);
+  if (typeof columns === 'string') {
+    throw new Error(columns);
+  }
+  const issues: IngestIssue[] = [];
+  const records: RealDataRecord[] = [];
+  let rejected = 0;
+
+  table.rows.forEach((cells, index) => {
+    const row = index + 1;
+    const rowIssues: IngestIssue[] = [];
+    const record: RealDataRecord = { row, timestamp: null, process: {}, quality: {}, environmental: {}, sensors: {} };
+
+    if (mapping.timestampColumn) {
+      const raw = cells[mapping.timestampColumn];
+      const time = Date.parse(raw);
+      if (!raw || isNaN(time)) {
+        rowIssues.push({ row, column: mapping.timestampColumn, value: raw, message: 'invalid timestamp' });
+      } else {
+        record.timestamp = new Date(time);
+      }
+    }
+
+    for (const column of columns) {
+      const raw = cells[column.column];
+      if (raw === undefined || raw === '') {
+        continue;
+      }
+      const parsed = Number(raw.replace(/,/g, ''));
+      if (!isFinite(parsed)) {
+        rowIssues.push({ row, column: column.column, value: raw, message: 'not a number' });
+        continue;
+      }
+      const value = column.convert(parsed);
+      if (column.spec && (value < column.spec.min || value > column.spec.max)) {
+        rowIssues.push({
+          row,
+          column: column.column,
+          value: raw,
+          message: `${value.toFixed(2)} ${column.spec.unit} outside ${column.spec.min}-${column.spec.max} ${column.spec.unit}`
+        });
+        continue;
+      }
+      record[column.group][column.field] = value;
+    }
+
+    if (rowIssues.length > 0) {
+      rejected++;
+      issues.push(...rowIssues.slice(0, Math.max(0, MAX_REPORTED_ISSUES - issues.length)));
+    } else {
+      records.push(record);
+    }
+  });
+
+  const sensorUnits: Record<string, string> = {};
+  columns.filter(column => column.group === 'sensors').forEach(column => {
+    sensorUnits[column.field] = column.unit || 'units';
+  });
+
+  return {
+    records,
+    row_count: table.rows.length,
+    rejected_rows: rejected,
+    issues,
+    columns: columns.map(column => ({
+      column: column.column,
+      target: `${column.group}.${column.field}`,
+      unit: column.unit,
+      model_unit: column.spec ? column.spec.unit : null
+    })),
+    sensor_units: sensorUnits
+  };
+}
+
+interface ResolvedColumn {
+  column: string;
+  group: MappingGroup | 'sensors';
+  field: string;
+  unit: string | null;
+  spec: MappableField | null;
+  convert: (value: number) => number;
+}
+
+// Resolved columns, or an error message when the mapping does not fit the headers
+function resolveColumns(headers: string[], mapping: DataMapping): ResolvedColumn[] | string {
+  const resolved: ResolvedColumn[] = [];
+  const groups: [MappingGroup | 'sensors', Record<string, string>][] = [
+    ['process', mapping.processMappings || {}],
+    ['quality', mapping.qualityMappings || {}],
+    ['environmental', mapping.environmentalMappings || {}],
+    ['sensors', mapping.sensorMappings || {}]
+  ];
+
+  if (mapping.timestampColumn && !headers.includes(mapping.timestampColumn)) {
+    return `Timestamp column "${mapping.timestampColumn}" not found`;
+  }
+
+  for (const [group, fields] of groups) {
+    for (const [field, column] of Object.entries(fields)) {
+      if (!headers.includes(column)) {
+        return `Column "${column}" mapped to ${group}.${field} not found`;
+      }
+      const unit = mapping.units?.[column] || headerUnit(column);
+
+      if (group === 'sensors') {
+        resolved.push({ column, group, field, unit, spec: null, convert: value => value });
+        continue;
+      }
+
+      const spec = MAPPABLE_FIELDS[group][field];
+      if (!spec) {
+        return `${group}.${field} is not a mappable field`;
+      }
+      const convert = unit ? unitConverter(unit, spec.unit) : (value: number) => value;
+      if (!convert) {
+        return `Column "${column}" is in ${unit}, which cannot be converted to ${spec.unit} for ${group}.${field}`;
+      }
+      resolved.push({ column, group, field, unit, spec, convert });
+    }
+  }
+
+  return resolved;
+}
+
+function groupMappings(mapping: DataMapping, group: MappingGroup): Record<string, string> {
+  switch (group) {
+    case 'process':
+      return mapping.processMappings;
+    case 'quality':
+      return mapping.qualityMappings;
+    default:
+      return mapping.environmentalMappings;
+  }
+}
+
+// Lower-case words of a header without its unit, e.g. `Kiln Temp. (°C)` -> `kiln temp`
+function headerWords(header: string): string {
+  return header
+    .replace(/[([][^()[\]]*[)\]]\s*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function normalizeUnit(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/²/g, '2')
+    .replace(/³/g, '3')
+    .replace(/°/g, '')
+    .replace(/tonnes?|tons?/g, 't');
+}
@@ -0,0 +1,241 @@
+import { SensorReading } from './models';
+import { resolveField, unitConverter } from './csvIngest';
+import { EQUIPMENT_MEASURE_UNITS, EquipmentMeasure, LiveSnapshot, SENSOR_TYPES_BY_UNIT } from './realDataAdapter';
+import { PLANT_EQUIPMENT } from '../simulation/sensorCatalog';
+
+/**
+ * A plant tag of a live feed. It feeds a model field (`process.kiln_temperature`)
+ * or a measure of an equipment asset, reports as a sensor, or both.
+ */
+export interface LiveTag {
+  sensor_id?: string;
+  field?: string;
+  equipment_id?: string; // with `measure`, feeds an asset of the equipment model
+  measure?: EquipmentMeasure;
+  unit?: string; // unit of the source value; field and measure values are converted to the model unit
+  location?: string;
+  sensor_type?: SensorReading['sensor_type'];
+  scale?: number;
+  offset?: number;
+  stale_after_seconds?: number;
+}
+
+export interface LiveTagState {
+  key: string; // topic, node id or register address, depending on the feed
+  sensor_id: string | null;
+  field: string | null;
+  equipment_id: string | null;
+  measure: EquipmentMeasure | null;
+  value: number | null;
+  unit: string;
+  last_seen: Date | null;
+  message_count: number;
+  stale: boolean;
+}
+
+interface TagEntry<T extends LiveTag> {
+  tag: T;
+  unit: string;
+  value: number | null;
+  pending: number[]; // readings since the last snapshot
+  lastSeen: Date | null; // receipt time, which staleness is judged by
+  measuredAt: Date | null; // source timestamp, or receipt time without one
+  messageCount: number;
+}
+
+/**
+ * Check that a tag feeds something; returns an error message or null
+ */
+export function validateLiveTag(tag: LiveTag): string | null {
+  if (tag.field !== undefined && !resolveField(tag.field)) {
+    return `${tag.field} is not a mappable field`;
+  }
+  if ((tag.equipment_id === undefined) !== (tag.measure === undefined)) {
+    return 'equipment_id and measure go together';
+  }
+  if (tag.equipment_id !== undefined && !PLANT_EQUIPMENT.some(eq => eq.id === tag.equipment_id)) {
+    return `${tag.equipment_id} is not a known equipment_id`;
+  }
+  if (tag.measure !== undefined && !(tag.measure in EQUIPMENT_MEASURE_UNITS)) {
+    return `measure must be one of ${Object.keys(EQUIPMENT_MEASURE_UNITS).join(', ')}`;
+  }
+  if (tag.field && tag.measure) {
+    return 'a tag feeds either a field or an equipment measure';
+  }
+  if (!tag.field && !tag.sensor_id && !tag.measure) {
+    return 'a tag needs a sensor_id, a field or an equipment_id and measure';
+  }
+  const modelUnit = targetUnit(tag);
+  if (modelUnit && tag.unit && tag.unit !== modelUnit && !unitConverter(tag.unit, modelUnit)) {
+    return `${tag.unit} cannot be converted to ${modelUnit} for ${tag.field || tag.measure}`;
+  }
+  return null;
+}
+
+// Model unit of the field or equipment measure a tag feeds, if any
+function targetUnit(tag: LiveTag): string | null {
+  if (tag.field) {
+    return resolveField(tag.field)?.spec.unit || null;
+  }
+  return tag.measure ? EQUIPMENT_MEASURE_UNITS[tag.measure] : null;
+}
+
+/**
+ * Latest values of a feed's tags, keyed by the feed's own address for a tag.
+ * Readings are scaled and converted on arrival and averaged per snapshot.
+ */
+export class LiveTagTable<T extends LiveTag> {
+  private entries = new Map<string, TagEntry<T>>();
+  private staleAfterSeconds: number;
+  private defaultLocation: (key: string) => string;
+
+  constructor(staleAfterSeconds: number, defaultLocation: (key: string) => string) {
+    this.staleAfterSeconds = staleAfterSeconds;
+    this.defaultLocation = defaultLocation;
+  }
+
+  add(key: string, tag: T): void {
+    this.entries.set(key, {
+      tag,
+      unit: targetUnit(tag) || tag.unit || 'units',
+      value: null,
+      pending: [],
+      lastSeen: null,
+      measuredAt: null,
+      messageCount: 0
+    });
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: string): T | undefined {
+    return this.entries.get(key)?.tag;
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Store a raw reading; `unit` overrides the tag's unit when the source states one.
+   * Returns why the reading was rejected, or null.
+   */
+  record(key: string, raw: number, unit?: string, measuredAt: Date = new Date()): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return `unknown tag ${key}`;
+    }
+    if (!isFinite(raw)) {
+      return `value ${raw} is not a number`;
+    }
+
+    let value = raw * (entry.tag.scale ?? 1) + (entry.tag.offset ?? 0);
+    const sourceUnit = entry.tag.unit || unit;
+    const modelUnit = targetUnit(entry.tag);
+    if (modelUnit && sourceUnit && sourceUnit !== modelUnit) {
+      const convert = unitConverter(sourceUnit, modelUnit);
+      if (!convert) {
+        return `${sourceUnit} cannot be converted to ${modelUnit} for ${entry.tag.field || entry.tag.measure}`;
+      }
+      value = convert(value);
+    }
+    if (!modelUnit && sourceUnit) {
+      entry.unit = sourceUnit;
+    }
+
+    entry.value = value;
+    entry.pending.push(value);
+    entry.lastSeen = new Date();
+    entry.measuredAt = measuredAt;
+    entry.messageCount++;
+    return null;
+  }
+
+  /**
+   * Keep a tag's last reading fresh without a new one, for feeds that only
+   * report changes while confirming the rest are unchanged
+   */
+  confirm(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry && entry.value !== null) {
+      entry.lastSeen = new Date();
+    }
+  }
+
+  /**
+   * Aggregate each fresh tag into one value: the mean of the readings since the
+   * previous snapshot, or the last reading when none arrived. Stale tags are left
+   * out so the data-source layer fills them by its missing-field policy.
+   */
+  snapshot(): LiveSnapshot {
+    const snapshot: LiveSnapshot = { process: {}, quality: {}, environmental: {}, sensors: [], equipment: {} };
+    const now = new Date();
+
+    this.entries.forEach((entry, key) => {
+      const value = entry.pending.length > 0
+        ? entry.pending.reduce((sum, reading) => sum + reading, 0) / entry.pending.length
+        : entry.value;
+      entry.pending = [];
+      if (value === null || this.isStale(entry, now.getTime())) {
+        return;
+      }
+
+      const target = entry.tag.field ? resolveField(entry.tag.field) : null;
+      if (target) {
+        snapshot[target.group][target.field] = value;
+      }
+      if (entry.tag.equipment_id && entry.tag.measure) {
+        snapshot.equipment[entry.tag.equipment_id] = {
+          ...snapshot.equipment[entry.tag.equipment_id],
+          [entry.tag.measure]: value
+        };
+      }
+      if (entry.tag.sensor_id) {
+        snapshot.sensors.push({
+          timestamp: entry.measuredAt || now,
+          sensor_id: entry.tag.sensor_id,
+          value,
+          unit: entry.unit,
+          location: entry.tag.location || this.defaultLocation(key),
+          sensor_type: entry.tag.sensor_type || SENSOR_TYPES_BY_UNIT[entry.unit] || 'flow'
+        });
+      }
+    });
+
+    return snapshot;
+  }
+
+  states(): LiveTagState[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries()).map(([key, entry]) => ({
+      key,
+      sensor_id: entry.tag.sensor_id || null,
+      field: entry.tag.field || null,
+      equipment_id: entry.tag.equipment_id || null,
+      measure: entry.tag.measure || null,
+      value: entry.value,
+      unit: entry.unit,
+      last_seen: entry.lastSeen,
+      message_count: entry.messageCount,
+      stale: this.isStale(entry, now)
+    }));
+  }
+
+  // Names of tags without a fresh reading, for health reports
+  staleTags(): string[] {
+    return this.states()
+      .filter(state => state.stale)
+      .map(state => state.sensor_id || state.field || (state.equipment_id ? `${state.equipment_id}.${state.measure}` : state.key));
+  }
+
+  private isStale(entry: TagEntry<T>, now: number): boolean {
+    const staleAfter = (entry.tag.stale_after_seconds ?? this.staleAfterSeconds) * 1000;
+    return !entry.lastSeen || now - entry.lastSeen.getTime() > staleAfter;
+  }
+}
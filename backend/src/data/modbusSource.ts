@@ -0,0 +1,387 @@
+import fs from 'fs';
+import ModbusRTU from 'modbus-serial';
+import { LiveTag, LiveTagTable, validateLiveTag } from './liveTags';
+import { LiveDataSource, LiveSnapshot } from './realDataAdapter';
+import { PLANT_EQUIPMENT } from '../simulation/sensorCatalog';
+
+export const MODBUS_SOURCE_ID = 'modbus';
+
+export type ModbusDataType = 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32';
+export type ModbusRegisterType = 'holding' | 'input';
+
+/**
+ * One value in a device's register map. The raw value is scaled
+ * (`raw * scale + offset`) and converted from `unit` to the model unit.
+ */
+export interface ModbusRegister extends Omit<LiveTag, 'equipment_id'> {
+  address: number; // zero-based register address
+  register_type?: ModbusRegisterType; // default holding
+  data_type?: ModbusDataType; // default uint16; 32-bit types span two registers
+  word_order?: 'big' | 'little'; // word order of 32-bit types, default big (high word first)
+}
+
+// A PLC or gateway unit serving the registers of one equipment asset
+export interface ModbusDevice {
+  equipment_id: string;
+  host: string;
+  port?: number; // default 502
+  unit_id?: number; // default 1
+  registers: ModbusRegister[];
+}
+
+export interface ModbusRegisterState {
+  register: string;
+  sensor_id: string | null;
+  field: string | null;
+  equipment_id: string | null;
+  measure: string | null;
+  value: number | null;
+  unit: string;
+  last_seen: Date | null;
+  message_count: number;
+  stale: boolean;
+}
+
+export interface ModbusDeviceHealth {
+  equipment_id: string;
+  endpoint: string;
+  unit_id: number;
+  connected: boolean;
+  polls: number;
+  errors: number;
+  last_poll_at: Date | null;
+  last_error: string | null;
+}
+
+export interface ModbusHealth {
+  enabled: boolean;
+  poll_interval_ms: number;
+  devices: ModbusDeviceHealth[];
+  values_rejected: number;
+  tag_count: number;
+  stale_tags: string[];
+}
+
+export interface ModbusSourceOptions {
+  devices: ModbusDevice[];
+  pollIntervalMs: number;
+  timeoutMs: number;
+  staleAfterSeconds: number;
+}
+
+const REGISTER_WORDS: Record<ModbusDataType, number> = { int16: 1, uint16: 1, int32: 2, uint32: 2, float32: 2 };
+// Most registers one read request may return
+const MAX_READ_WORDS = 125;
+const RECONNECT_DELAY_MS = 5000;
+
+interface RegisterBlock {
+  type: ModbusRegisterType;
+  start: number;
+  length: number;
+  registers: ModbusRegister[];
+}
+
+interface ModbusConnection {
+  client: ModbusRTU | null;
+  lastAttempt: number;
+}
+
+/**
+ * Live equipment data polled from legacy PLCs over Modbus TCP. Each device's
+ * register map feeds temperature, vibration and power of one equipment asset;
+ * adjacent registers are read in one request per poll.
+ */
+export class ModbusSource implements LiveDataSource {
+  readonly id = MODBUS_SOURCE_ID;
+  readonly kind = 'modbus';
+  readonly name: string;
+  private options: ModbusSourceOptions;
+  private tags: LiveTagTable<LiveTag>;
+  private blocks = new Map<ModbusDevice, RegisterBlock[]>();
+  private connections = new Map<string, ModbusConnection>();
+  private deviceHealth = new Map<ModbusDevice, ModbusDeviceHealth>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private valuesRejected = 0;
+
+  constructor(options: ModbusSourceOptions) {
+    this.options = options;
+    this.name = `Modbus TCP (${options.devices.length} devices)`;
+    this.tags = new LiveTagTable(options.staleAfterSeconds, key => {
+      const equipment = PLANT_EQUIPMENT.find(eq => eq.id === key.split('/')[0]);
+      return equipment ? equipment.name : `Modbus ${key}`;
+    });
+
+    options.devices.forEach(device => {
+      device.registers.forEach(register => this.tags.add(registerKey(device, register), {
+        ...register,
+        equipment_id: register.measure ? device.equipment_id : undefined
+      }));
+      this.blocks.set(device, buildBlocks(device.registers));
+      this.deviceHealth.set(device, {
+        equipment_id: device.equipment_id,
+        endpoint: endpointOf(device),
+        unit_id: device.unit_id ?? 1,
+        connected: false,
+        polls: 0,
+        errors: 0,
+        last_poll_at: null,
+        last_error: null
+      });
+    });
+  }
+
+  // Start polling every device
+  connect(): void {
+    console.log(`📡 Polling ${this.options.devices.length} Modbus devices every ${this.options.pollIntervalMs}ms`);
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.poll();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const connection of this.connections.values()) {
+      connection.client?.close();
+    }
+    this.connections.clear();
+  }
+
+  snapshot(): LiveSnapshot {
+    return this.tags.snapshot();
+  }
+
+  getRegisterStates(): ModbusRegisterState[] {
+    return this.tags.states().map(({ key, ...state }) => ({ register: key, ...state }));
+  }
+
+  getHealth(): ModbusHealth {
+    return {
+      enabled: true,
+      poll_interval_ms: this.options.pollIntervalMs,
+      devices: Array.from(this.deviceHealth.values()).map(health => ({
+        ...health,
+        connected: Boolean(this.connections.get(health.endpoint)?.client?.isOpen)
+      })),
+      values_rejected: this.valuesRejected,
+      tag_count: this.tags.keys().length,
+      stale_tags: this.tags.staleTags()
+    };
+  }
+
+  // Devices are polled one after another so devices behind one gateway share its connection
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const device of this.options.devices) {
+        await this.pollDevice(device);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollDevice(device: ModbusDevice): Promise<void> {
+    const health = this.deviceHealth.get(device)!;
+    try {
+      const client = await this.getClient(device);
+      if (!client) {
+        return;
+      }
+      client.setID(device.unit_id ?? 1);
+      let rejected: string | null = null;
+      for (const block of this.blocks.get(device) || []) {
+        const result = block.type === 'input'
+          ? await client.readInputRegisters(block.start, block.length)
+          : await client.readHoldingRegisters(block.start, block.length);
+        block.registers.forEach(register => {
+          const offset = register.address - block.start;
+          const words = result.data.slice(offset, offset + REGISTER_WORDS[register.data_type || 'uint16']);
+          const key = registerKey(device, register);
+          const error = this.tags.record(key, decodeRegister(words, register));
+          if (error) {
+            this.valuesRejected++;
+            rejected = `${key}: ${error}`;
+          }
+        });
+      }
+      health.polls++;
+      health.last_poll_at = new Date();
+      health.last_error = rejected;
+    } catch (error) {
+      // modbus-serial rejects timeouts and exceptions with plain objects carrying a message
+      const message = error instanceof Error || (error && typeof error === 'object' && 'message' in error)
+        ? String((error as { message: unknown }).message)
+        : String(error);
+      if (health.last_error !== message) {
+        console.error(`❌ Modbus poll of ${device.equipment_id} failed:`, message);
+      }
+      health.errors++;
+      health.last_error = message;
+      // A timed-out request can leave the connection hung; reconnect after the retry delay
+      const connection = this.connections.get(endpointOf(device));
+      if (connection?.client) {
+        connection.client.destroy(() => undefined);
+        connection.client = null;
+        connection.lastAttempt = Date.now();
+      }
+    }
+  }
+
+  // Open connection to a device's endpoint, or null while waiting RECONNECT_DELAY_MS to retry it
+  private async getClient(device: ModbusDevice): Promise<ModbusRTU | null> {
+    const endpoint = endpointOf(device);
+    const connection = this.connections.get(endpoint) || { client: null, lastAttempt: 0 };
+    this.connections.set(endpoint, connection);
+    if (connection.client?.isOpen) {
+      return connection.client;
+    }
+
+    if (Date.now() - connection.lastAttempt < RECONNECT_DELAY_MS) {
+      return null;
+    }
+    connection.lastAttempt = Date.now();
+    connection.client?.close();
+    connection.client = null;
+
+    const client = new ModbusRTU();
+    client.setTimeout(this.options.timeoutMs);
+    await client.connectTCP(device.host, { port: device.port ?? 502 });
+    connection.client = client;
+    console.log(`📡 Connected to Modbus device ${endpoint}`);
+    return client;
+  }
+}
+
+function endpointOf(device: ModbusDevice): string {
+  return `${device.host}:${device.port ?? 502}`;
+}
+
+function registerKey(device: ModbusDevice, register: ModbusRegister): string {
+  return `${device.equipment_id}/${register.register_type || 'holding'}/${register.address}`;
+}
+
+// Group a device's registers into reads of contiguous addresses; gaps are never read
+// since legacy devices reject addresses they do not serve
+function buildBlocks(registers: ModbusRegister[]): RegisterBlock[] {
+  const blocks: RegisterBlock[] = [];
+  (['holding', 'input'] as ModbusRegisterType[]).forEach(type => {
+    const sorted = registers
+      .filter(register => (register.register_type || 'holding') === type)
+      .sort((a, b) => a.address - b.address);
+    let block: RegisterBlock | null = null;
+    sorted.forEach(register => {
+      const end = register.address + REGISTER_WORDS[register.data_type || 'uint16'];
+      if (block && register.address <= block.start + block.length && end - block.start <= MAX_READ_WORDS) {
+        block.length = Math.max(block.length, end - block.start);
+        block.registers.push(register);
+      } else {
+        block = { type, start: register.address, length: end - register.address, registers: [register] };
+        blocks.push(block);
+      }
+    });
+  });
+  return blocks;
+}
+
+function decodeRegister(words: number[], register: ModbusRegister): number {
+  const ordered = register.word_order === 'little' ? [...words].reverse() : words;
+  const buffer = Buffer.alloc(ordered.length * 2);
+  ordered.forEach((word, i) => buffer.writeUInt16BE(word, i * 2));
+  switch (register.data_type || 'uint16') {
+    case 'int16':
+      return buffer.readInt16BE(0);
+    case 'int32':
+      return buffer.readInt32BE(0);
+    case 'uint32':
+      return buffer.readUInt32BE(0);
+    case 'float32':
+      return buffer.readFloatBE(0);
+    default:
+      return buffer.readUInt16BE(0);
+  }
+}
+
+/**
+ * Check a device and its register map; returns an error message or null
+ */
+export function validateModbusDevice(device: ModbusDevice): string | null {
+  if (!PLANT_EQUIPMENT.some(eq => eq.id === device.equipment_id)) {
+    return `${device.equipment_id} is not a known equipment_id`;
+  }
+  if (typeof device.host !== 'string' || !device.host) {
+    return 'a device needs a host';
+  }
+  if (device.port !== undefined && (!Number.isInteger(device.port) || device.port < 1 || device.port > 65535)) {
+    return `port ${device.port} is out of range`;
+  }
+  if (device.unit_id !== undefined && (!Number.isInteger(device.unit_id) || device.unit_id < 0 || device.unit_id > 255)) {
+    return `unit_id ${device.unit_id} must be 0-255`;
+  }
+  if (!Array.isArray(device.registers) || device.registers.length === 0) {
+    return 'a device needs a register map';
+  }
+  for (const register of device.registers) {
+    if (!Number.isInteger(register.address) || register.address < 0 || register.address > 65535) {
+      return `register address ${register.address} must be 0-65535`;
+    }
+    if (register.data_type !== undefined && !(register.data_type in REGISTER_WORDS)) {
+      return `data_type must be one of ${Object.keys(REGISTER_WORDS).join(', ')}`;
+    }
+    if (register.register_type !== undefined && register.register_type !== 'holding' && register.register_type !== 'input') {
+      return 'register_type must be holding or input';
+    }
+    const error = validateLiveTag({ ...register, equipment_id: register.measure ? device.equipment_id : undefined });
+    if (error) {
+      return `register ${register.address}: ${error}`;
+    }
+  }
+  return null;
+}
+
+// Device register maps from a JSON file; invalid devices are skipped with a warning
+function loadDevices(file: string): ModbusDevice[] {
+  if (!fs.existsSync(file)) {
+    console.warn(`⚠️ Modbus register map ${file} not found`);
+    return [];
+  }
+  try {
+    const devices = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!Array.isArray(devices)) {
+      console.warn(`⚠️ ${file} must contain an array of Modbus devices`);
+      return [];
+    }
+    const valid = devices.filter((device: ModbusDevice) => {
+      const error = validateModbusDevice(device);
+      if (error) {
+        console.warn(`⚠️ Skipping Modbus device ${device.equipment_id}: ${error}`);
+      }
+      return !error;
+    });
+    console.log(`📂 Loaded register maps for ${valid.length} Modbus devices from ${file}`);
+    return valid;
+  } catch (error) {
+    console.error('❌ Error loading Modbus register map:', error);
+    return [];
+  }
+}
+
+/**
+ * Modbus polling is enabled by MODBUS_MAP_FILE, a JSON list of devices with their register maps
+ */
+export function createModbusSource(): ModbusSource | null {
+  if (!process.env.MODBUS_MAP_FILE) {
+    return null;
+  }
+  return new ModbusSource({
+    devices: loadDevices(process.env.MODBUS_MAP_FILE),
+    pollIntervalMs: parseInt(process.env.MODBUS_POLL_MS || '1000'),
+    timeoutMs: parseInt(process.env.MODBUS_TIMEOUT_MS || '2000'),
+    staleAfterSeconds: parseInt(process.env.MODBUS_STALE_SECONDS || '30')
+  });
+}
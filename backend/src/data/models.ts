@@ -7,6 +7,18 @@ export interface SensorReading {
   unit: string;
   location: string;
   sensor_type: 'temperature' | 'pressure' | 'flow' | 'power' | 'vibration' | 'ph' | 'humidity';
+  quality?: ReadingQuality;
+}
+
+// Data-quality verdict on one reading: good, usable with a caveat, or not to be trusted
+export type DataQualityCode = 'good' | 'uncertain' | 'bad';
+export type DataQualityFlag = 'stuck' | 'out_of_range' | 'flatline' | 'spike' | 'timestamp_gap';
+
+export interface ReadingQuality {
+  code: DataQualityCode;
+  flags: DataQualityFlag[];
+  substituted: boolean; // value replaced by the channel's last good value
+  raw_value?: number; // value as received, when substituted
 }
 
 export interface ProcessParameters {
@@ -69,6 +81,31 @@ export interface Alert {
   acknowledged: boolean;
   resolved: boolean;
   equipment_id?: string;
+  rule_id?: string; // rule that raised the alert
+  value?: number; // measured value that broke the rule
+  last_seen?: Date; // latest evaluation where the condition still held
+  occurrences?: number; // evaluations folded into this alert
+  cleared_at?: Date; // condition back to normal, alert still awaiting resolution
+  acknowledged_by?: string;
+  acknowledged_at?: Date;
+  resolved_by?: string;
+  resolved_at?: Date;
+}
+
+// Operating limits for one process parameter, optionally specific to a product grade
+export type ThresholdParameter = Exclude<keyof ProcessParameters, 'timestamp'>;
+
+export interface ThresholdRule {
+  id: string;
+  parameter: ThresholdParameter;
+  product_grade: string; // 'default' applies to grades without their own rule
+  min: number;
+  max: number;
+  optimal: number;
+  hysteresis: number; // distance back inside the limits before a violation clears
+  delay_seconds: number; // how long a violation must persist before it alerts
+  severity: Alert['severity'];
+  enabled: boolean;
 }
 
 export interface ProductionBatch {
@@ -119,6 +156,32 @@ export interface AIRecommendation {
   }[];
 }
 
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: Date;
+  stopped?: boolean; // streaming was stopped before the reply finished
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  messages: ConversationMessage[]; // full transcript
+  summary: string | null; // summary of the turns that no longer fit the prompt
+  summarized_count: number; // leading messages covered by the summary
+}
+
+export interface ConversationInfo {
+  id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  message_count: number;
+}
+
 export interface PlantOverview {
   timestamp: Date;
   overall_efficiency: number; // %
@@ -154,15 +217,37 @@ export interface QualityPrediction {
   risk_factors: string[];
   recommendations: string[];
   defect_probability: number; // 0-1
+  factors: QualityRiskFactor[]; // the parameters behind risk_factors, most harmful first
+}
+
+export interface QualityRiskFactor {
+  parameter: ThresholdParameter;
+  current_value: number;
+  typical_value: number; // training average
+  target_value: number; // where to move it: the grade optimum, or the typical value
+  score_impact: number; // points of predicted quality score versus the typical value
+  defect_impact: number; // change in defect probability versus the typical value
 }
 
 export interface AnomalyDetection {
-  timestamp: Date;
-  anomaly_score: number; // 0-1
+  id: string;
+  timestamp: Date; // first snapshot of the episode
+  last_seen: Date;
+  ended_at?: Date; // set once the process is back within normal behavior
+  anomaly_score: number; // 0-1, peak of the episode; 0.5 is the detection limit
   affected_systems: string[];
   severity: 'low' | 'medium' | 'high';
   description: string;
   recommended_actions: string[];
+  contributions: AnomalyContribution[]; // parameters behind the peak, largest share first
+}
+
+export interface AnomalyContribution {
+  parameter: ThresholdParameter;
+  value: number;
+  typical_value: number; // training average
+  z_score: number; // deviation from the training average in standard deviations
+  share: number; // 0-1 of the anomaly score
 }
 
 // API Response Types
@@ -182,6 +267,56 @@ export interface DashboardData {
   active_alerts: Alert[];
   ai_recommendations: AIRecommendation[];
   environmental_data: EnvironmentalData;
+  provenance?: DataProvenance;
+  data_quality?: DataQualitySummary;
+  soft_sensors?: SoftSensorEstimate[];
+  quality_prediction?: QualityPrediction; // for the next quality sample
+}
+
+export interface DataQualityIssue {
+  channel: string; // sensor_id, or a model field such as `process.kiln_temperature`
+  code: Exclude<DataQualityCode, 'good'>;
+  flags: DataQualityFlag[];
+  value: number; // value as received
+  substituted_value?: number;
+}
+
+// Data-quality verdicts of one snapshot's sensors and model fields
+export interface DataQualitySummary {
+  good: number;
+  uncertain: number;
+  bad: number;
+  substituted: number;
+  issues: DataQualityIssue[];
+  excluded_kpis: string[]; // plant overview KPIs held at their last value computed from good inputs
+}
+
+// Lab-only quality variables estimated continuously from process parameters
+export type SoftSensorTarget = 'free_lime' | 'blaine_fineness' | 'compressive_strength_28d';
+
+export interface SoftSensorEstimate {
+  target: SoftSensorTarget;
+  timestamp: Date;
+  value: number; // includes the lab recalibration bias
+  lower: number; // 95% prediction interval
+  upper: number;
+  unit: string;
+  bias: number;
+}
+
+// Where a snapshot's values came from: measured in the source record, held
+// from the last record that had them, filled in by the simulator, or
+// computed from record values only (plant overview KPIs)
+export type ValueProvenance = 'measured' | 'held' | 'simulated' | 'derived';
+
+export interface DataProvenance {
+  source_id: string;
+  source_name: string;
+  source_kind: 'simulation' | 'sample' | 'csv' | 'file' | 'mqtt' | 'opcua' | 'modbus';
+  record_index?: number; // position of the replayed record in its source
+  record_row?: number; // data row in the source file
+  record_timestamp?: Date | null;
+  fields: Record<string, ValueProvenance>; // keyed `process.kiln_temperature`, `quality.chemical_composition.free_lime`, ...
 }
 
 // Simulation Configuration
@@ -190,6 +325,23 @@ export interface SimulationConfig {
   sensor_count: number;
   simulation_speed: number; // 1 = real-time
   noise_level: number; // 0-1
-  anomaly_probability: number; // 0-1
+  anomaly_probability: number; // 0-1, chance of a spontaneous anomaly per simulated hour
   quality_variation: number; // 0-1
+  seed?: number; // PRNG seed; same seed + start_time replays the same data
+  start_time?: Date; // simulated time of the first tick
+  clock?: () => Date; // time source, defaults to the wall clock
+}
+
+// Injected anomalies used to exercise alerting and AI explanation paths
+export type AnomalyType = 'temperature' | 'power' | 'quality' | 'vibration';
+export type AnomalyShape = 'step' | 'drift' | 'spike' | 'oscillation';
+
+export interface InjectedAnomaly {
+  id: string;
+  type: AnomalyType;
+  shape: AnomalyShape;
+  magnitude: number; // relative deviation at full effect (0.1 = +10%)
+  duration_seconds: number;
+  equipment_id: string;
+  start_time: Date;
 }
\ No newline at end of file
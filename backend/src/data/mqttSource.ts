@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import mqtt, { MqttClient } from 'mqtt';
+import { resolveField, valueAtPath } from './csvIngest';
+import { LiveTag, LiveTagTable, validateLiveTag } from './liveTags';
+import { LiveDataSource, LiveSnapshot } from './realDataAdapter';
+
+export const MQTT_SOURCE_ID = 'mqtt';
+
+export interface MqttTag extends LiveTag {
+  topic: string;
+  value_path?: string; // dotted path of the value in a JSON payload (default `value`)
+}
+
+export interface MqttTagState {
+  topic: string;
+  sensor_id: string | null;
+  field: string | null;
+  equipment_id: string | null;
+  measure: string | null;
+  value: number | null;
+  unit: string;
+  last_seen: Date | null;
+  message_count: number;
+  stale: boolean;
+}
+
+export interface MqttHealth {
+  enabled: boolean;
+  broker: string;
+  connected: boolean;
+  subscriptions: string[];
+  messages_received: number;
+  messages_rejected: number;
+  last_message_at: Date | null;
+  last_error: string | null;
+  reconnects: number;
+  tag_count: number;
+  stale_tags: string[];
+}
+
+export interface MqttSourceOptions {
+  url: string;
+  username?: string;
+  password?: string;
+  topicPrefix: string;
+  tags: MqttTag[];
+  staleAfterSeconds: number;
+  maxSensorTopics: number; // sensors created from `<prefix>/sensors/<SENSOR_ID>` topics
+}
+
+/**
+ * Live plant data from an MQTT broker. Besides the configured tags, topics
+ * following `<prefix>/<group>/<field>` (e.g. `cementai/process/kiln_temperature`)
+ * feed model fields and `<prefix>/sensors/<SENSOR_ID>` report sensors, up to
+ * `maxSensorTopics` of them so stray publishers cannot grow the tag table without bound.
+ * Payloads are a bare number or JSON with `value` and optional `unit`/`timestamp`.
+ */
+export class MqttSource implements LiveDataSource {
+  readonly id = MQTT_SOURCE_ID;
+  readonly kind = 'mqtt';
+  readonly name: string;
+  private options: MqttSourceOptions;
+  private client: MqttClient | null = null;
+  private tags: LiveTagTable<MqttTag>;
+  private connected = false;
+  private messagesReceived = 0;
+  private messagesRejected = 0;
+  private lastMessageAt: Date | null = null;
+  private lastError: string | null = null;
+  private reconnects = 0;
+  private sensorTopics = 0;
+
+  constructor(options: MqttSourceOptions) {
+    this.options = options;
+    this.name = `MQTT ${options.url}`;
+    this.tags = new LiveTagTable(options.staleAfterSeconds, topic => `MQTT ${topic}`);
+    options.tags.forEach(tag => this.tags.add(tag.topic, tag));
+  }
+
+  connect(): void {
+    const subscriptions = this.getSubscriptions();
+    this.client = mqtt.connect(this.options.url, {
+      username: this.options.username,
+      password: this.options.password,
+      clientId: `cementai-${Math.random().toString(16).slice(2, 10)}`,
+      reconnectPeriod: 5000,
+      connectTimeout: 10000
+    });
+
+    this.client.on('connect', () => {
+      this.connected = true;
+      this.lastError = null;
+      console.log(`📡 Connected to MQTT broker ${this.options.url}`);
+      this.client?.subscribe(subscriptions, { qos: 1 }, error => {
+        if (error) {
+          this.lastError = `Subscribe failed: ${error.message}`;
+          console.error('❌ MQTT subscribe error:', error.message);
+        }
+      });
+    });
+    this.client.on('reconnect', () => {
+      this.reconnects++;
+    });
+    this.client.on('close', () => {
+      if (this.connected) {
+        console.warn(`⚠️ MQTT broker ${this.options.url} disconnected`);
+      }
+      this.connected = false;
+    });
+    this.client.on('error', error => {
+      this.lastError = error.message;
+      console.error('❌ MQTT error:', error.message);
+    });
+    this.client.on('message', (topic, payload) => this.handleMessage(topic, payload.toString()));
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.endAsync();
+      this.client = null;
+    }
+    this.connected = false;
+  }
+
+  snapshot(): LiveSnapshot {
+    return this.tags.snapshot();
+  }
+
+  getTagStates(): MqttTagState[] {
+    return this.tags.states().map(({ key, ...state }) => ({ topic: key, ...state }));
+  }
+
+  getHealth(): MqttHealth {
+    return {
+      enabled: true,
+      broker: this.options.url,
+      connected: this.connected,
+      subscriptions: this.getSubscriptions(),
+      messages_received: this.messagesReceived,
+      messages_rejected: this.messagesRejected,
+      last_message_at: this.lastMessageAt,
+      last_error: this.lastError,
+      reconnects: this.reconnects,
+      tag_count: this.tags.keys().length,
+      stale_tags: this.tags.staleTags()
+    };
+  }
+
+  private getSubscriptions(): string[] {
+    const topics = new Set(this.options.tags.map(tag => tag.topic));
+    topics.add(`${this.options.topicPrefix}/#`);
+    return Array.from(topics);
+  }
+
+  private handleMessage(topic: string, payload: string): void {
+    this.messagesReceived++;
+    this.lastMessageAt = new Date();
+
+    const tag = this.tags.get(topic) || this.conventionTag(topic);
+    if (!tag) {
+      return;
+    }
+    const reading = typeof tag === 'string' ? tag : this.parsePayload(tag, payload);
+    const error = typeof reading === 'string'
+      ? reading
+      : this.tags.record(topic, reading.value, reading.unit, reading.timestamp);
+    if (error) {
+      this.messagesRejected++;
+      this.lastError = `${topic}: ${error}`;
+    }
+  }
+
+  // Tag for a topic under the prefix, created on its first message, or the
+  // reason a sensor topic was refused
+  private conventionTag(topic: string): MqttTag | string | null {
+    const prefix = `${this.options.topicPrefix}/`;
+    if (!topic.startsWith(prefix)) {
+      return null;
+    }
+    const [group, ...rest] = topic.slice(prefix.length).split('/');
+    if (rest.length === 0) {
+      return null;
+    }
+    let tag: MqttTag | null = null;
+    if (group === 'sensors' && rest.length === 1) {
+      if (this.sensorTopics >= this.options.maxSensorTopics) {
+        return `sensor topic limit of ${this.options.maxSensorTopics} reached`;
+      }
+      this.sensorTopics++;
+      tag = { topic, sensor_id: rest[0] };
+    } else if (resolveField(`${group}.${rest.join('.')}`)) {
+      tag = { topic, field: `${group}.${rest.join('.')}` };
+    }
+    if (tag) {
+      this.tags.add(topic, tag);
+    }
+    return tag;
+  }
+
+  // Raw value, stated unit and time of a payload, or the reason it was rejected
+  private parsePayload(tag: MqttTag, payload: string): { value: number; unit?: string; timestamp: Date } | string {
+    let raw: unknown = payload.trim();
+    let unit: string | undefined;
+    let timestamp = new Date();
+
+    if (typeof raw === 'string' && raw.startsWith('{')) {
+      let json: Record<string, unknown>;
+      try {
+        json = JSON.parse(raw);
+      } catch {
+        return 'invalid JSON payload';
+      }
+      raw = valueAtPath(json, tag.value_path || 'value');
+      unit = typeof json.unit === 'string' ? json.unit : undefined;
+      const time = json.timestamp ?? json.ts;
+      if (typeof time === 'string' || typeof time === 'number') {
+        const parsed = new Date(time);
+        if (isNaN(parsed.getTime())) {
+          return `invalid timestamp ${time}`;
+        }
+        timestamp = parsed;
+      }
+    }
+
+    const value = typeof raw === 'number' ? raw : Number(raw);
+    if (raw === '' || raw === null || !isFinite(value)) {
+      return `value ${JSON.stringify(raw)} is not a number`;
+    }
+    return { value, unit, timestamp };
+  }
+}
+
+// Tag list from a JSON file; invalid entries are skipped with a warning
+function loadTags(file: string): MqttTag[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  try {
+    const tags = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!Array.isArray(tags)) {
+      console.warn(`⚠️ ${file} must contain an array of MQTT tags`);
+      return [];
+    }
+    const valid = tags.filter((tag: MqttTag) => {
+      const error = typeof tag.topic === 'string' ? validateLiveTag(tag) : 'a tag needs a topic';
+      if (error) {
+        console.warn(`⚠️ Skipping MQTT tag ${JSON.stringify(tag)}: ${error}`);
+      }
+      return !error;
+    });
+    console.log(`📂 Loaded ${valid.length} MQTT tags from ${file}`);
+    return valid;
+  } catch (error) {
+    console.error('❌ Error loading MQTT tags:', error);
+    return [];
+  }
+}
+
+/**
+ * MQTT ingest is enabled by MQTT_URL (e.g. mqtt://localhost:1883)
+ */
+export function createMqttSource(): MqttSource | null {
+  if (!process.env.MQTT_URL) {
+    return null;
+  }
+  return new MqttSource({
+    url: process.env.MQTT_URL,
+    username: process.env.MQTT_USERNAME,
+    password: process.env.MQTT_PASSWORD,
+    topicPrefix: process.env.MQTT_TOPIC_PREFIX || 'cementai',
+    tags: loadTags(process.env.MQTT_TAGS_FILE || path.join('data', 'mqtt-tags.json')),
+    staleAfterSeconds: parseInt(process.env.MQTT_STALE_SECONDS || '30'),
+    maxSensorTopics: parseInt(process.env.MQTT_MAX_SENSOR_TOPICS || '200')
+  });
+}
@@ -0,0 +1,447 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AttributeIds,
+  BrowseDirection,
+  ClientMonitoredItem,
+  ClientSession,
+  ClientSubscription,
+  DataType,
+  DataValue,
+  MessageSecurityMode,
+  NodeClass,
+  OPCUAClient,
+  SecurityPolicy,
+  TimestampsToReturn,
+  resolveNodeId
+} from 'node-opcua';
+import { MAPPABLE_FIELDS, MappingGroup, resolveField } from './csvIngest';
+import { LiveTag, LiveTagTable, validateLiveTag } from './liveTags';
+import { LiveDataSource, LiveSnapshot } from './realDataAdapter';
+
+export const OPCUA_SOURCE_ID = 'opcua';
+
+export interface OpcUaTag extends LiveTag {
+  node_id: string;
+}
+
+export interface OpcUaTagState {
+  node_id: string;
+  sensor_id: string | null;
+  field: string | null;
+  equipment_id: string | null;
+  measure: string | null;
+  value: number | null;
+  unit: string;
+  status: string; // OPC UA status code of the last notification
+  last_seen: Date | null;
+  message_count: number;
+  stale: boolean;
+}
+
+export interface OpcUaBrowseNode {
+  node_id: string;
+  browse_name: string;
+  display_name: string;
+  node_class: string;
+  data_type: string | null;
+  value: number | string | boolean | null;
+  description: string | null;
+  has_children: boolean;
+  suggested: { sensor_id?: string; field?: string } | null;
+  mapped: OpcUaTag | null;
+}
+
+export interface OpcUaHealth {
+  enabled: boolean;
+  endpoint: string;
+  connected: boolean;
+  subscription_active: boolean;
+  sampling_interval_ms: number;
+  monitored_items: number;
+  notifications_received: number;
+  values_rejected: number;
+  last_notification_at: Date | null;
+  last_error: string | null;
+  reconnects: number;
+  tag_count: number;
+  stale_tags: string[];
+}
+
+export interface OpcUaSourceOptions {
+  endpoint: string;
+  mappingFile: string;
+  samplingIntervalMs: number;
+  staleAfterSeconds: number;
+}
+
+const NUMERIC_DATA_TYPES = new Set<DataType>([
+  DataType.Boolean, DataType.SByte, DataType.Byte, DataType.Int16, DataType.UInt16, DataType.Int32,
+  DataType.UInt32, DataType.Int64, DataType.UInt64, DataType.Float, DataType.Double
+]);
+
+/**
+ * Live plant data from an OPC UA server. Mapped nodes are monitored in one
+ * subscription; since servers only report changes, every publish from a live
+ * subscription keeps the unchanged tags fresh.
+ */
+export class OpcUaSource implements LiveDataSource {
+  readonly id = OPCUA_SOURCE_ID;
+  readonly kind = 'opcua';
+  readonly name: string;
+  private options: OpcUaSourceOptions;
+  private mapping: OpcUaTag[];
+  private tags: LiveTagTable<OpcUaTag>;
+  private statuses = new Map<string, string>();
+  private client: OPCUAClient | null = null;
+  private session: ClientSession | null = null;
+  private subscription: ClientSubscription | null = null;
+  private monitoredItems: ClientMonitoredItem[] = [];
+  private connected = false;
+  private notificationsReceived = 0;
+  private valuesRejected = 0;
+  private lastNotificationAt: Date | null = null;
+  private lastError: string | null = null;
+  private reconnects = 0;
+
+  constructor(options: OpcUaSourceOptions) {
+    this.options = options;
+    this.name = `OPC UA ${options.endpoint}`;
+    this.tags = new LiveTagTable(options.staleAfterSeconds, nodeId => `OPC UA ${nodeId}`);
+    this.mapping = loadMapping(options.mappingFile);
+    this.mapping.forEach(tag => this.tags.add(tag.node_id, tag));
+  }
+
+  async connect(): Promise<void> {
+    this.client = OPCUAClient.create({
+      applicationName: 'CementAI Nexus',
+      endpointMustExist: false,
+      securityMode: MessageSecurityMode.None,
+      securityPolicy: SecurityPolicy.None,
+      connectionStrategy: { initialDelay: 1000, maxDelay: 10000, maxRetry: Number.MAX_SAFE_INTEGER }
+    });
+    this.client.on('backoff', (count, delay) => {
+      this.lastError = `Connection attempt ${count} failed, retrying in ${delay}ms`;
+    });
+    this.client.on('connection_lost', () => {
+      console.warn(`⚠️ OPC UA server ${this.options.endpoint} disconnected`);
+      this.connected = false;
+    });
+    this.client.on('connection_reestablished', () => {
+      this.reconnects++;
+      this.connected = true;
+      console.log(`📡 Reconnected to OPC UA server ${this.options.endpoint}`);
+    });
+
+    try {
+      await this.client.connect(this.options.endpoint);
+      this.session = await this.client.createSession();
+      this.connected = true;
+      this.lastError = null;
+      console.log(`📡 Connected to OPC UA server ${this.options.endpoint}`);
+      await this.subscribe();
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error('❌ OPC UA connection error:', this.lastError);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.unsubscribe();
+    if (this.session) {
+      await this.session.close();
+      this.session = null;
+    }
+    if (this.client) {
+      await this.client.disconnect();
+      this.client = null;
+    }
+    this.connected = false;
+  }
+
+  snapshot(): LiveSnapshot {
+    return this.tags.snapshot();
+  }
+
+  getMapping(): OpcUaTag[] {
+    return this.mapping;
+  }
+
+  /**
+   * Replace the node mapping, monitor the new node set and persist it.
+   * Returns an error message, or null when the mapping was applied. When the
+   * new nodes cannot be subscribed the previous mapping is restored and the
+   * error is thrown.
+   */
+  async setMapping(tags: OpcUaTag[]): Promise<string | null> {
+    const normalized: OpcUaTag[] = [];
+    for (const tag of tags) {
+      const nodeId = typeof tag.node_id === 'string' ? normalizeNodeId(tag.node_id) : null;
+      if (!nodeId) {
+        return `Invalid node id ${JSON.stringify(tag.node_id)}`;
+      }
+      const error = validateLiveTag(tag);
+      if (error) {
+        return `${nodeId}: ${error}`;
+      }
+      if (normalized.some(existing => existing.node_id === nodeId)) {
+        return `${nodeId} is mapped more than once`;
+      }
+      normalized.push({ ...tag, node_id: nodeId });
+    }
+
+    const previous = this.mapping;
+    this.applyMapping(normalized);
+    if (this.session) {
+      try {
+        await this.unsubscribe();
+        await this.subscribe();
+      } catch (error) {
+        this.applyMapping(previous);
+        await this.unsubscribe().then(() => this.subscribe()).catch(restoreError => {
+          console.error('❌ Error restoring the previous OPC UA subscription:', restoreError);
+        });
+        throw error;
+      }
+    }
+    saveMapping(this.options.mappingFile, normalized);
+    return null;
+  }
+
+  /**
+   * Children of a node (the Objects folder by default) with their current
+   * values and a suggested mapping from the browse name
+   */
+  async browse(nodeId: string = 'ObjectsFolder'): Promise<OpcUaBrowseNode[]> {
+    if (!this.session) {
+      throw new Error('Not connected to the OPC UA server');
+    }
+    const result = await this.session.browse({
+      nodeId: resolveNodeId(nodeId),
+      browseDirection: BrowseDirection.Forward,
+      referenceTypeId: 'HierarchicalReferences',
+      includeSubtypes: true,
+      nodeClassMask: NodeClass.Object | NodeClass.Variable,
+      resultMask: 0x3f
+    });
+    const references = result.references || [];
+
+    const variables = references.filter(reference => reference.nodeClass === NodeClass.Variable);
+    const attributes = variables.length > 0
+      ? await this.session.read(variables.flatMap(reference => [
+        { nodeId: reference.nodeId, attributeId: AttributeIds.Value },
+        { nodeId: reference.nodeId, attributeId: AttributeIds.Description }
+      ]))
+      : [];
+
+    return references.map(reference => {
+      const id = reference.nodeId.toString();
+      const browseName = reference.browseName.name || id;
+      const index = variables.indexOf(reference);
+      const value = index >= 0 ? attributes[index * 2] : null;
+      const description = index >= 0 ? attributes[index * 2 + 1]?.value.value?.text : null;
+      const rawValue = value?.value.value;
+      return {
+        node_id: id,
+        browse_name: browseName,
+        display_name: reference.displayName.text || browseName,
+        node_class: NodeClass[reference.nodeClass],
+        data_type: value ? DataType[value.value.dataType] : null,
+        value: typeof rawValue === 'number' || typeof rawValue === 'string' || typeof rawValue === 'boolean' ? rawValue : null,
+        description: description || null,
+        has_children: reference.nodeClass === NodeClass.Object,
+        suggested: reference.nodeClass === NodeClass.Variable ? suggestTarget(browseName) : null,
+        mapped: this.mapping.find(tag => tag.node_id === id) || null
+      };
+    });
+  }
+
+  getTagStates(): OpcUaTagState[] {
+    return this.tags.states().map(({ key, ...state }) => ({
+      node_id: key,
+      ...state,
+      status: this.statuses.get(key) || 'Pending'
+    }));
+  }
+
+  getHealth(): OpcUaHealth {
+    return {
+      enabled: true,
+      endpoint: this.options.endpoint,
+      connected: this.connected,
+      subscription_active: this.subscription !== null,
+      sampling_interval_ms: this.options.samplingIntervalMs,
+      monitored_items: this.monitoredItems.length,
+      notifications_received: this.notificationsReceived,
+      values_rejected: this.valuesRejected,
+      last_notification_at: this.lastNotificationAt,
+      last_error: this.lastError,
+      reconnects: this.reconnects,
+      tag_count: this.mapping.length,
+      stale_tags: this.tags.staleTags()
+    };
+  }
+
+  private async subscribe(): Promise<void> {
+    if (!this.session || this.mapping.length === 0) {
+      return;
+    }
+    const subscription = await this.session.createSubscription2({
+      requestedPublishingInterval: this.options.samplingIntervalMs,
+      requestedLifetimeCount: 100,
+      requestedMaxKeepAliveCount: 10,
+      maxNotificationsPerPublish: 1000,
+      publishingEnabled: true,
+      priority: 10
+    });
+    this.subscription = subscription;
+
+    // Each publish, notification or keep-alive, confirms the values that did not change
+    const confirmUnchanged = () => this.mapping.forEach(tag => {
+      if (this.statuses.get(tag.node_id) === 'Good') {
+        this.tags.confirm(tag.node_id);
+      }
+    });
+    subscription.on('keepalive', confirmUnchanged);
+    subscription.on('received_notifications', confirmUnchanged);
+    subscription.on('error', error => {
+      this.lastError = `Subscription error: ${error.message}`;
+    });
+
+    for (const tag of this.mapping) {
+      const item = await subscription.monitor(
+        { nodeId: tag.node_id, attributeId: AttributeIds.Value },
+        { samplingInterval: this.options.samplingIntervalMs, queueSize: 10, discardOldest: true },
+        TimestampsToReturn.Both
+      );
+      item.on('changed', (dataValue: DataValue) => this.handleValue(tag.node_id, dataValue));
+      item.on('err', message => {
+        this.statuses.set(tag.node_id, 'BadMonitoredItem');
+        this.lastError = `${tag.node_id}: ${message}`;
+      });
+      if (!item.statusCode.isGood()) {
+        this.statuses.set(tag.node_id, item.statusCode.name);
+        this.lastError = `${tag.node_id}: ${item.statusCode.name}`;
+        continue;
+      }
+      this.monitoredItems.push(item);
+    }
+    console.log(`📡 Monitoring ${this.monitoredItems.length} OPC UA nodes every ${this.options.samplingIntervalMs}ms`);
+  }
+
+  private applyMapping(tags: OpcUaTag[]): void {
+    this.mapping = tags;
+    this.tags.clear();
+    this.statuses.clear();
+    tags.forEach(tag => this.tags.add(tag.node_id, tag));
+  }
+
+  private async unsubscribe(): Promise<void> {
+    this.monitoredItems = [];
+    if (this.subscription) {
+      await this.subscription.terminate();
+      this.subscription = null;
+    }
+  }
+
+  private handleValue(nodeId: string, dataValue: DataValue): void {
+    this.notificationsReceived++;
+    this.lastNotificationAt = new Date();
+    this.statuses.set(nodeId, dataValue.statusCode.name);
+
+    let error: string | null;
+    const raw = dataValue.value.value;
+    if (!dataValue.statusCode.isGood()) {
+      error = `status ${dataValue.statusCode.name}`;
+    } else if (!NUMERIC_DATA_TYPES.has(dataValue.value.dataType)) {
+      error = `${DataType[dataValue.value.dataType]} value is not a number`;
+    } else {
+      const value = typeof raw === 'boolean' ? (raw ? 1 : 0) : Number(raw);
+      error = this.tags.record(nodeId, value, undefined, dataValue.sourceTimestamp || undefined);
+    }
+    if (error) {
+      this.valuesRejected++;
+      this.lastError = `${nodeId}: ${error}`;
+    }
+  }
+}
+
+// Canonical form of a node id (`ns=1;s=KILN_TEMP_01`), or null when it does not parse
+function normalizeNodeId(nodeId: string): string | null {
+  try {
+    return resolveNodeId(nodeId.trim()).toString();
+  } catch {
+    return null;
+  }
+}
+
+// A browse name that is a model field or reads like a sensor tag (KILN_TEMP_01)
+function suggestTarget(browseName: string): { sensor_id?: string; field?: string } | null {
+  if (resolveField(browseName)) {
+    return { field: browseName };
+  }
+  for (const group of Object.keys(MAPPABLE_FIELDS) as MappingGroup[]) {
+    const field = Object.keys(MAPPABLE_FIELDS[group])
+      .find(name => name === browseName || name.endsWith(`.${browseName}`));
+    if (field) {
+      return { field: `${group}.${field}` };
+    }
+  }
+  if (/^[A-Z][A-Z0-9]*(_[A-Z0-9]+)+$/.test(browseName)) {
+    return { sensor_id: browseName };
+  }
+  return null;
+}
+
+// Node mapping from a JSON file; invalid entries are skipped with a warning
+function loadMapping(file: string): OpcUaTag[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  try {
+    const tags = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!Array.isArray(tags)) {
+      console.warn(`⚠️ ${file} must contain an array of OPC UA tags`);
+      return [];
+    }
+    const valid: OpcUaTag[] = [];
+    tags.forEach((tag: OpcUaTag) => {
+      const nodeId = typeof tag.node_id === 'string' ? normalizeNodeId(tag.node_id) : null;
+      const error = nodeId ? validateLiveTag(tag) : 'a tag needs a valid node_id';
+      if (error || !nodeId) {
+        console.warn(`⚠️ Skipping OPC UA tag ${JSON.stringify(tag)}: ${error}`);
+        return;
+      }
+      valid.push({ ...tag, node_id: nodeId });
+    });
+    console.log(`📂 Loaded ${valid.length} OPC UA tags from ${file}`);
+    return valid;
+  } catch (error) {
+    console.error('❌ Error loading OPC UA mapping:', error);
+    return [];
+  }
+}
+
+function saveMapping(file: string, tags: OpcUaTag[]): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(tags, null, 2));
+  } catch (error) {
+    console.error('❌ Error saving OPC UA mapping:', error);
+  }
+}
+
+/**
+ * OPC UA ingest is enabled by OPCUA_ENDPOINT (e.g. opc.tcp://localhost:4840/UA/CementPlant)
+ */
+export function createOpcUaSource(): OpcUaSource | null {
+  if (!process.env.OPCUA_ENDPOINT) {
+    return null;
+  }
+  return new OpcUaSource({
+    endpoint: process.env.OPCUA_ENDPOINT,
+    mappingFile: process.env.OPCUA_MAPPING_FILE || path.join('data', 'opcua-mapping.json'),
+    samplingIntervalMs: parseInt(process.env.OPCUA_SAMPLING_MS || '1000'),
+    staleAfterSeconds: parseInt(process.env.OPCUA_STALE_SECONDS || '30')
+  });
+}
@@ -1,18 +1,18 @@
 import { promises as fs } from 'fs';
-import { 
-  SensorReading, 
-  ProcessParameters, 
-  QualityMetrics, 
+import path from 'path';
+import {
+  SensorReading,
+  ProcessParameters,
+  QualityMetrics,
   EnvironmentalData,
-  DashboardData 
+  DashboardData,
+  DataProvenance,
+  EquipmentStatus,
+  PlantOverview,
+  ValueProvenance
 } from './models';
-
-export interface RealDataSource {
-  name: string;
-  type: 'csv' | 'api' | 'database';
-  source: string;
-  mappingConfig: DataMapping;
-}
+import { IngestResult, ingestRows, MAPPABLE_FIELDS, MappingGroup, parseCSV, RealDataRecord, suggestMapping, validateMapping, valueAtPath } from './csvIngest';
+import { CementPlantSimulator, ENERGY_CONSUMPTION_TARGET, isEnvironmentallyCompliant } from '../simulation/dataGenerator';
 
 export interface DataMapping {
   sensorMappings: Record<string, string>; // maps our sensor IDs to dataset columns
@@ -21,104 +21,93 @@ export interface DataMapping {
   environmentalMappings: Record<string, string>; // maps environmental data to dataset columns
   timestampColumn?: string;
   targetColumn?: string;
+  units?: Record<string, string>; // unit of a dataset column whose header doesn't state one
 }
 
-export class RealDataAdapter {
-  private dataSources: RealDataSource[] = [];
-  private loadedData: any[] = [];
-  private currentDataIndex = 0;
+export type DataSourceKind = DataProvenance['source_kind'];
 
-  constructor() {
-    this.initializeDataSources();
-  }
+// How fields a record does not map are filled: from the simulator, or by holding
+// the last value the source measured (falling back to the simulator before the first)
+export type MissingFieldPolicy = 'simulate' | 'hold';
 
-  private initializeDataSources() {
-    // UCI Concrete Compressive Strength Dataset
-    this.dataSources.push({
-      name: 'UCI Concrete Dataset',
-      type: 'csv',
-      source: 'https://archive.ics.uci.edu/ml/machine-learning-databases/concrete/compressive/Concrete_Data.xls',
-      mappingConfig: {
-        sensorMappings: {
-          'CEMENT_CONTENT': 'cement',
-          'WATER_CONTENT': 'water',
-          'SUPERPLAST_CONTENT': 'superplasticizer',
-          'FINENESS_01': 'age' // Map age to fineness for demonstration
-        },
-        processMappings: {
-          'cement_fineness': 'age',
-          'production_rate': 'cement', // Use cement content as proxy for production
-          'raw_meal_flow': 'water'
-        },
-        qualityMappings: {
-          'compressive_strength_28d': 'ccs' // Compressive strength at 28 days
-        },
-        environmentalMappings: {
-          'alternative_fuel_substitution': 'fly_ash', // Map fly ash to alt fuel
-          'energy_consumption_specific': 'cement' // Proxy energy from cement content
-        }
-      }
-    });
+export const SIMULATION_SOURCE_ID = 'simulation';
+export const SAMPLE_SOURCE_ID = 'sample';
 
-    // Manufacturing Process Dataset (simulated real data structure)
-    this.dataSources.push({
-      name: 'Manufacturing Process Data',
-      type: 'csv',
-      source: 'local', // Will be created locally
-      mappingConfig: {
-        sensorMappings: {
-          'KILN_TEMP_01': 'kiln_temperature',
-          'KILN_PRESSURE_01': 'kiln_pressure', 
-          'RAW_MILL_POWER_01': 'raw_mill_power',
-          'CEMENT_MILL_POWER_01': 'cement_mill_power',
-          'PRODUCTION_FLOW_01': 'production_rate'
-        },
-        processMappings: {
-          'kiln_temperature': 'kiln_temperature',
-          'kiln_pressure': 'kiln_pressure',
-          'raw_mill_power': 'raw_mill_power',
-          'cement_mill_power': 'cement_mill_power',
-          'production_rate': 'production_rate'
-        },
-        qualityMappings: {
-          'compressive_strength_28d': 'compressive_strength',
-          'blaine_fineness': 'fineness'
-        },
-        environmentalMappings: {
-          'co2_emissions': 'co2_emissions',
-          'energy_consumption_specific': 'energy_consumption'
-        },
-        timestampColumn: 'timestamp'
-      }
-    });
-  }
+export interface RealDataSource {
+  id: string;
+  name: string;
+  type: 'sample' | 'csv' | 'file';
+  source: string; // file path or upload name
+  mappingConfig: DataMapping;
+  records: RealDataRecord[];
+  timed: boolean; // every record has a timestamp, so records are in time order
+  sensorUnits: Record<string, string>;
+  loadedAt: Date;
+}
 
-  async loadRealData(sourceIndex: number = 0): Promise<boolean> {
-    try {
-      const dataSource = this.dataSources[sourceIndex];
-      console.log(`Loading real data from: ${dataSource.name}`);
+export type LiveSourceKind = Exclude<DataSourceKind, 'simulation' | RealDataSource['type']>;
 
-      if (dataSource.type === 'csv') {
-        if (dataSource.source === 'local') {
-          // Create sample real data locally for demonstration
-          await this.createSampleRealData();
-        }
-        
-        this.loadedData = await this.loadCSVData(dataSource);
-        console.log(`Loaded ${this.loadedData.length} real data records`);
-        return true;
-      }
+// Equipment model values a live feed can measure per asset, in the model's units
+export type EquipmentMeasure = 'temperature' | 'vibration_level' | 'power_consumption';
 
-      return false;
-    } catch (error) {
-      console.error('Error loading real data:', error);
-      return false;
-    }
-  }
+export const EQUIPMENT_MEASURE_UNITS: Record<EquipmentMeasure, string> = {
+  temperature: '°C',
+  vibration_level: 'mm/s',
+  power_consumption: 'kW'
+};
+
+// Current values of a live feed, aggregated since the previous snapshot
+export interface LiveSnapshot {
+  process: Record<string, number>;
+  quality: Record<string, number>;
+  environmental: Record<string, number>;
+  sensors: SensorReading[]; // readings of tags that feed no model field
+  equipment: Record<string, Partial<Pick<EquipmentStatus, EquipmentMeasure>>>; // by equipment_id
+}
+
+// A connected plant feed; every broadcast takes one snapshot of it
+export interface LiveDataSource {
+  readonly id: string;
+  readonly name: string;
+  readonly kind: LiveSourceKind;
+  snapshot(): LiveSnapshot;
+}
 
-  private async createSampleRealData() {
-    // Create a CSV file with realistic cement plant data based on industry standards
-    const csvData = `timestamp,kiln_temperature,kiln_pressure,raw_mill_power,cement_mill_power,production_rate,compressive_strength,fineness,co2_emissions,energy_consumption
+export interface DataSourceInfo {
+  id: string;
+  name: string;
+  kind: DataSourceKind;
+  record_count: number;
+  loaded_at: Date | null;
+  active: boolean;
+}
+
+// Transport state of the dataset replay; times are record time, not wall-clock time
+export interface ReplayState {
+  playing: boolean;
+  speed: number; // record-time milliseconds per broadcast millisecond
+  loop: boolean;
+  position: number; // index of the record on air
+  record_count: number;
+  timed: boolean; // false when records carry no timestamps and are paced one per broadcast
+  replay_time: Date | null;
+  start_time: Date | null;
+  end_time: Date | null;
+  ended: boolean;
+}
+
+export const MIN_REPLAY_SPEED = 0.1;
+export const MAX_REPLAY_SPEED = 86400;
+
+export interface DataSourceLoadResult {
+  source: DataSourceInfo | null;
+  result: IngestResult | null;
+  mapping: DataMapping;
+  error: string | null;
+}
+
+// Realistic cement plant readings based on industry averages and standards
+const SAMPLE_CSV = `timestamp,kiln_temperature,kiln_pressure,raw_mill_power,cement_mill_power,production_rate,compressive_strength,fineness,co2_emissions,energy_consumption
 2024-01-01T00:00:00Z,1450.5,-12.3,2850,3150,1850,42.5,365,875,95.2
 2024-01-01T00:05:00Z,1452.1,-11.8,2890,3180,1870,43.1,358,878,94.8
 2024-01-01T00:10:00Z,1448.7,-13.1,2820,3120,1820,41.9,372,882,96.1
@@ -130,228 +119,620 @@ export class RealDataAdapter {
 2024-01-01T00:40:00Z,1452.7,-12.1,2885,3175,1875,43.3,361,876,95.1
 2024-01-01T00:45:00Z,1450.3,-12.9,2860,3155,1850,42.6,367,880,95.9`;
 
-    const filePath = '/tmp/cement_plant_real_data.csv';
-    await fs.writeFile(filePath, csvData);
-    console.log('Sample real data created at:', filePath);
-  }
-
-  private async loadCSVData(dataSource: RealDataSource): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      const filePath = dataSource.source === 'local' 
-        ? '/tmp/cement_plant_real_data.csv' 
-        : dataSource.source;
-
-      // For demonstration, we'll use the local sample data
-      if (dataSource.source === 'local') {
-        fs.readFile('/tmp/cement_plant_real_data.csv', 'utf8')
-          .then(data => {
-            const lines = data.split('\n');
-            const headers = lines[0].split(',');
-            
-            for (let i = 1; i < lines.length; i++) {
-              if (lines[i].trim()) {
-                const values = lines[i].split(',');
-                const record: any = {};
-                headers.forEach((header, index) => {
-                  record[header.trim()] = values[index]?.trim();
-                });
-                results.push(record);
-              }
-            }
-            resolve(results);
-          })
-          .catch(reject);
-      } else {
-        reject(new Error('External data loading not implemented yet'));
-      }
-    });
+// Sensors shown for every real-data record, read from a resolved process or quality field
+const REAL_DATA_SENSORS: { sensor_id: string; unit: string; location: string; sensor_type: SensorReading['sensor_type']; field: string }[] = [
+  { sensor_id: 'KILN_TEMP_01', unit: '°C', location: 'Kiln Burning Zone', sensor_type: 'temperature', field: 'process.kiln_temperature' },
+  { sensor_id: 'KILN_PRESSURE_01', unit: 'kPa', location: 'Kiln Inlet', sensor_type: 'pressure', field: 'process.kiln_pressure' },
+  { sensor_id: 'RAW_MILL_POWER_01', unit: 'kW', location: 'Raw Mill', sensor_type: 'power', field: 'process.raw_mill_power' },
+  { sensor_id: 'CEMENT_MILL_POWER_01', unit: 'kW', location: 'Cement Mill', sensor_type: 'power', field: 'process.cement_mill_power' },
+  { sensor_id: 'PRODUCTION_FLOW_01', unit: 'TPH', location: 'Cement Silo', sensor_type: 'flow', field: 'process.production_rate' },
+  { sensor_id: 'FINENESS_01', unit: 'm²/kg', location: 'Quality Control Lab', sensor_type: 'flow', field: 'quality.blaine_fineness' }
+];
+
+export const SENSOR_TYPES_BY_UNIT: Record<string, SensorReading['sensor_type']> = {
+  '°C': 'temperature',
+  kPa: 'pressure',
+  kW: 'power',
+  'mm/s': 'vibration',
+  pH: 'ph',
+  '%': 'humidity'
+};
+
+/**
+ * The plant data source behind every broadcast: the simulator, a loaded
+ * dataset replayed record by record, or a live plant feed. Fields a record does not carry are
+ * filled according to the missing-field policy, and every snapshot says which
+ * values were measured, held or simulated.
+ */
+export class RealDataAdapter {
+  private getSimulator: () => CementPlantSimulator;
+  private dataSources: RealDataSource[] = [];
+  private liveSources: LiveDataSource[] = [];
+  private activeSourceId: string = SIMULATION_SOURCE_ID;
+  private lastRealSourceId: string | null = null;
+  private missingFieldPolicy: MissingFieldPolicy = 'simulate';
+  private lastMeasured: Record<string, number> = {};
+  private fileDirectory: string;
+  private tickMs: number;
+
+  // Replay transport; the clock is in record time (index * tickMs for untimed records)
+  private position = 0;
+  private replayClock = 0;
+  private playing = true;
+  private speed = 1;
+  private loop = true;
+  private ended = false;
+  private onAir = false; // the record at `position` has been broadcast
+
+  // The simulator is fetched per snapshot because it is recreated on restart
+  constructor(getSimulator: () => CementPlantSimulator, fileDirectory: string, tickMs: number) {
+    this.getSimulator = getSimulator;
+    this.fileDirectory = fileDirectory;
+    this.tickMs = tickMs;
+  }
+
+  loadSample(): DataSourceLoadResult {
+    return this.loadCSV('Sample Plant Data', SAMPLE_CSV, undefined, 'sample', SAMPLE_SOURCE_ID);
   }
 
-  generateRealSensorReadings(): SensorReading[] {
-    if (this.loadedData.length === 0) {
-      console.warn('No real data loaded, falling back to simulation');
-      return [];
+  /**
+   * Map, validate and register a CSV dataset, then make it the active source.
+   * Without a mapping one is suggested from the headers.
+   */
+  loadCSV(
+    name: string,
+    csv: string,
+    mapping?: DataMapping,
+    type: RealDataSource['type'] = 'csv',
+    id: string = `${type}:${name}`
+  ): DataSourceLoadResult {
+    const table = parseCSV(csv);
+    const mappingConfig = mapping || suggestMapping(table.headers);
+
+    if (table.headers.length === 0) {
+      return { source: null, result: null, mapping: mappingConfig, error: 'CSV has no header row' };
+    }
+    const mappingError = validateMapping(table.headers, mappingConfig);
+    if (mappingError) {
+      return { source: null, result: null, mapping: mappingConfig, error: mappingError };
     }
 
-    const currentData = this.loadedData[this.currentDataIndex % this.loadedData.length];
-    const timestamp = new Date();
-    const sensors: SensorReading[] = [];
-
-    // Map real data to sensor readings
-    const mapping = this.dataSources[0].mappingConfig.sensorMappings;
-    
-    for (const [sensorId, dataColumn] of Object.entries(mapping)) {
-      if (currentData[dataColumn] !== undefined) {
-        sensors.push({
-          timestamp,
-          sensor_id: sensorId,
-          value: parseFloat(currentData[dataColumn]) || 0,
-          unit: this.getUnitForSensor(sensorId),
-          location: this.getLocationForSensor(sensorId),
-          sensor_type: this.getTypeForSensor(sensorId) as "temperature" | "pressure" | "flow" | "power" | "vibration" | "ph" | "humidity"
-        });
-      }
+    const result = ingestRows(table, mappingConfig);
+    // Replay and seeking walk records in time order
+    const timed = result.records.every(record => record.timestamp);
+    if (timed) {
+      result.records.sort((a, b) => (a.timestamp as Date).getTime() - (b.timestamp as Date).getTime());
     }
+    if (result.records.length === 0) {
+      return {
+        source: null,
+        result,
+        mapping: mappingConfig,
+        error: `No valid records: ${result.rejected_rows} of ${result.row_count} rows rejected`
+      };
+    }
+
+    this.dataSources = this.dataSources.filter(source => source.id !== id);
+    this.dataSources.push({
+      id,
+      name,
+      type,
+      source: name,
+      mappingConfig,
+      records: result.records,
+      timed,
+      sensorUnits: result.sensor_units,
+      loadedAt: new Date()
+    });
+    this.selectSource(id);
+    console.log(`📥 Loaded ${result.records.length} ${type} records from ${name} (${result.rejected_rows} rejected)`);
 
-    this.currentDataIndex++;
-    return sensors;
+    return { source: this.getActiveSource(), result, mapping: mappingConfig, error: null };
   }
 
-  generateRealProcessParameters(): ProcessParameters | null {
-    if (this.loadedData.length === 0) {
-      return null;
+  /**
+   * Load a CSV file from the data-source directory
+   */
+  async loadFile(fileName: string, mapping?: DataMapping): Promise<DataSourceLoadResult> {
+    const filePath = path.resolve(this.fileDirectory, fileName);
+    if (!filePath.startsWith(path.resolve(this.fileDirectory) + path.sep)) {
+      return { source: null, result: null, mapping: mapping || suggestMapping([]), error: 'File must be inside the data-source directory' };
     }
+    const csv = await fs.readFile(filePath, 'utf8').catch(() => null);
+    if (csv === null) {
+      return { source: null, result: null, mapping: mapping || suggestMapping([]), error: `File not found: ${fileName}` };
+    }
+    return this.loadCSV(path.basename(filePath), csv, mapping, 'file');
+  }
 
-    const currentData = this.loadedData[this.currentDataIndex % this.loadedData.length];
-    const mapping = this.dataSources[0].mappingConfig.processMappings;
+  /**
+   * Offer a live feed as a selectable source
+   */
+  registerLiveSource(source: LiveDataSource): void {
+    this.liveSources = this.liveSources.filter(existing => existing.id !== source.id);
+    this.liveSources.push(source);
+  }
 
-    return {
-      timestamp: new Date(),
-      kiln_temperature: parseFloat(currentData[mapping.kiln_temperature]) || 1450,
-      kiln_pressure: parseFloat(currentData[mapping.kiln_pressure]) || -12,
-      raw_mill_power: parseFloat(currentData[mapping.raw_mill_power]) || 2850,
-      cement_mill_power: parseFloat(currentData[mapping.cement_mill_power]) || 3150,
-      production_rate: parseFloat(currentData[mapping.production_rate]) || 1850,
-      energy_consumption: parseFloat(currentData['energy_consumption']) || 95,
-      alternative_fuel_rate: Math.random() * 30 + 15, // Fallback to simulation
-      raw_meal_flow: parseFloat(currentData[mapping.production_rate]) * 1.55 || 2850,
-      cement_fineness: parseFloat(currentData['fineness']) || 365,
-      clinker_temperature: parseFloat(currentData[mapping.kiln_temperature]) - 300 || 1150,
-      exhaust_fan_speed: 500 + Math.random() * 40,
-      preheater_temperature: parseFloat(currentData[mapping.kiln_temperature]) - 1100 || 350
-    };
+  selectSource(id: string): boolean {
+    if (id !== SIMULATION_SOURCE_ID && !this.findSource(id) && !this.findLiveSource(id)) {
+      return false;
+    }
+    this.activeSourceId = id;
+    if (id !== SIMULATION_SOURCE_ID) {
+      this.lastRealSourceId = id;
+    }
+    this.lastMeasured = {};
+    this.moveTo(0);
+    this.playing = true;
+    return true;
   }
 
-  generateRealQualityMetrics(): QualityMetrics | null {
-    if (this.loadedData.length === 0) {
-      return null;
+  /**
+   * Switch between the simulator and the most recently used dataset
+   */
+  toggle(): boolean {
+    if (this.isRealDataActive()) {
+      this.selectSource(SIMULATION_SOURCE_ID);
+    } else if (this.lastRealSourceId) {
+      this.selectSource(this.lastRealSourceId);
     }
+    return this.isRealDataActive();
+  }
+
+  isRealDataActive(): boolean {
+    return this.activeSourceId !== SIMULATION_SOURCE_ID;
+  }
+
+  // Only loaded datasets can be replayed; live feeds and the simulator cannot
+  isReplayActive(): boolean {
+    return !!this.findSource(this.activeSourceId);
+  }
+
+  getMissingFieldPolicy(): MissingFieldPolicy {
+    return this.missingFieldPolicy;
+  }
+
+  setMissingFieldPolicy(policy: MissingFieldPolicy): void {
+    this.missingFieldPolicy = policy;
+    this.lastMeasured = {};
+  }
+
+  getSources(): DataSourceInfo[] {
+    const simulation: DataSourceInfo = {
+      id: SIMULATION_SOURCE_ID,
+      name: 'Simulated data',
+      kind: 'simulation',
+      record_count: 0,
+      loaded_at: null,
+      active: !this.isRealDataActive()
+    };
+    const live: DataSourceInfo[] = this.liveSources.map(source => ({
+      id: source.id,
+      name: source.name,
+      kind: source.kind,
+      record_count: 0,
+      loaded_at: null,
+      active: source.id === this.activeSourceId
+    }));
+    return [simulation, ...this.dataSources.map(source => this.describe(source)), ...live];
+  }
 
-    const currentData = this.loadedData[this.currentDataIndex % this.loadedData.length];
-    const mapping = this.dataSources[0].mappingConfig.qualityMappings;
+  getActiveSource(): DataSourceInfo {
+    return this.getSources().find(source => source.active) as DataSourceInfo;
+  }
 
+  getStatus() {
+    const source = this.findSource(this.activeSourceId);
     return {
-      timestamp: new Date(),
-      sample_id: `REAL_QS_${Date.now()}_${this.currentDataIndex}`,
-      blaine_fineness: parseFloat(currentData['fineness']) || 365,
-      compressive_strength_3d: parseFloat(currentData[mapping.compressive_strength_28d]) * 0.5 || 22,
-      compressive_strength_28d: parseFloat(currentData[mapping.compressive_strength_28d]) || 42.5,
-      setting_time_initial: 60 + Math.random() * 30,
-      setting_time_final: 240 + Math.random() * 60,
-      quality_score: Math.min(95, (parseFloat(currentData[mapping.compressive_strength_28d]) || 42.5) * 2),
-      defect_count: Math.floor(Math.random() * 3),
-      consistency: 96 + Math.random() * 3,
-      chemical_composition: {
-        c3s: 55 + Math.random() * 10,
-        c2s: 18 + Math.random() * 7,
-        c3a: 9 + Math.random() * 3,
-        c4af: 9 + Math.random() * 3,
-        so3: 2.8 + Math.random() * 0.7,
-        free_lime: 0.8 + Math.random() * 0.7
-      }
+      realDataEnabled: this.isRealDataActive(),
+      source: this.getActiveSource(),
+      recordCount: source ? source.records.length : 0,
+      currentIndex: this.position,
+      dataSource: this.getActiveSource().name,
+      missingFields: this.missingFieldPolicy,
+      mapping: source ? source.mappingConfig : null,
+      nextRecord: source ? source.records[this.position] : null,
+      replay: this.getReplayState()
+    };
+  }
+
+  getReplayState(): ReplayState {
+    const source = this.findSource(this.activeSourceId);
+    const timed = !!source && source.timed;
+    return {
+      playing: this.playing,
+      speed: this.speed,
+      loop: this.loop,
+      position: this.position,
+      record_count: source ? source.records.length : 0,
+      timed,
+      replay_time: timed ? new Date(this.replayClock) : null,
+      start_time: timed && source ? source.records[0].timestamp : null,
+      end_time: timed && source ? source.records[source.records.length - 1].timestamp : null,
+      ended: this.ended
     };
   }
 
-  generateRealEnvironmentalData(): EnvironmentalData | null {
-    if (this.loadedData.length === 0) {
+  play(): void {
+    // A finished replay without looping starts over
+    if (this.ended) {
+      this.moveTo(0);
+    }
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Pause and move a number of records forward or back
+   */
+  step(steps: number = 1): void {
+    const source = this.findSource(this.activeSourceId);
+    this.playing = false;
+    if (!source) {
+      return;
+    }
+    const count = source.records.length;
+    const target = this.position + steps;
+    this.moveTo(this.loop ? ((target % count) + count) % count : Math.max(0, Math.min(count - 1, target)));
+  }
+
+  /**
+   * Jump to the last record at or before a timestamp, or to a record index.
+   * Returns an error message when the target cannot be resolved.
+   */
+  seek(target: Date | number): string | null {
+    const source = this.findSource(this.activeSourceId);
+    if (!source) {
+      return 'Replay is only available for a real data source';
+    }
+    if (typeof target === 'number') {
+      if (!Number.isInteger(target) || target < 0 || target >= source.records.length) {
+        return `index must be an integer between 0 and ${source.records.length - 1}`;
+      }
+      this.moveTo(target);
       return null;
     }
+    if (!source.timed) {
+      return 'Records of this source have no timestamps; seek by index instead';
+    }
+
+    const time = target.getTime();
+    const start = this.recordTime(source, 0);
+    const end = this.recordTime(source, source.records.length - 1);
+    if (time < start || time > end) {
+      return `timestamp must be between ${new Date(start).toISOString()} and ${new Date(end).toISOString()}`;
+    }
+    this.moveTo(this.indexAt(source, time));
+    this.replayClock = time;
+    return null;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Produce the next snapshot from the active source. While playing, the replay
+   * clock advances by the elapsed broadcast time scaled by the playback speed and
+   * the latest record at or before it goes on air.
+   */
+  nextDashboard(elapsedMs: number = this.tickMs): DashboardData {
+    const live = this.findLiveSource(this.activeSourceId);
+    if (live) {
+      const snapshot = this.liveSnapshot(live);
+      return this.dashboardFromValues(live.id, live.name, live.kind, snapshot, snapshot.sensors, snapshot.equipment, {});
+    }
+    const source = this.findSource(this.activeSourceId);
+    if (!source) {
+      return this.simulatedDashboard();
+    }
+
+    if (this.playing && this.onAir) {
+      this.advance(source, elapsedMs * this.speed);
+    }
+    this.onAir = true;
+    return this.dashboardFromRecord(source, source.records[this.position], this.position);
+  }
+
+  private advance(source: RealDataSource, recordMs: number): void {
+    const lastIndex = source.records.length - 1;
+    const clock = this.replayClock + recordMs;
+
+    if (clock > this.recordTime(source, lastIndex)) {
+      // The last record gets one broadcast before the replay wraps or ends
+      if (this.position < lastIndex) {
+        this.position = lastIndex;
+        this.replayClock = this.recordTime(source, lastIndex);
+      } else if (this.loop) {
+        this.moveTo(0);
+      } else {
+        this.moveTo(lastIndex);
+        this.playing = false;
+        this.ended = true;
+      }
+      return;
+    }
+    this.replayClock = clock;
+    this.position = this.indexAt(source, clock);
+  }
+
+  private moveTo(index: number): void {
+    const source = this.findSource(this.activeSourceId);
+    this.position = index;
+    this.replayClock = source ? this.recordTime(source, index) : 0;
+    this.ended = false;
+    this.onAir = false;
+  }
+
+  private recordTime(source: RealDataSource, index: number): number {
+    return source.timed ? (source.records[index].timestamp as Date).getTime() : index * this.tickMs;
+  }
 
-    const currentData = this.loadedData[this.currentDataIndex % this.loadedData.length];
+  // Last record at or before a record time, found by binary search
+  private indexAt(source: RealDataSource, time: number): number {
+    let low = 0;
+    let high = source.records.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.recordTime(source, middle) <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
 
+  private simulatedDashboard(): DashboardData {
+    const simulator = this.getSimulator();
     return {
-      timestamp: new Date(),
-      co2_emissions: parseFloat(currentData['co2_emissions']) || 875,
-      nox_emissions: 600 + Math.random() * 200, // Fallback to simulation
-      so2_emissions: 100 + Math.random() * 100,
-      dust_emissions: 20 + Math.random() * 10,
-      energy_consumption_specific: parseFloat(currentData['energy_consumption']) || 95,
-      alternative_fuel_substitution: 20 + Math.random() * 15,
-      waste_heat_recovery: parseFloat(currentData['production_rate']) * 25 || 46250,
-      water_consumption: 275 + Math.random() * 75
+      plant_overview: simulator.generatePlantOverview(),
+      recent_sensors: simulator.generateSensorReadings(),
+      current_parameters: simulator.generateProcessParameters(),
+      recent_quality: [simulator.generateQualityMetrics()],
+      equipment_status: simulator.generateEquipmentStatus(),
+      active_alerts: [],
+      ai_recommendations: [],
+      environmental_data: simulator.generateEnvironmentalData(),
+      provenance: {
+        source_id: SIMULATION_SOURCE_ID,
+        source_name: 'Simulated data',
+        source_kind: 'simulation',
+        fields: {}
+      }
     };
   }
 
-  private getUnitForSensor(sensorId: string): string {
-    const units: Record<string, string> = {
-      'KILN_TEMP_01': '°C',
-      'KILN_PRESSURE_01': 'kPa',
-      'RAW_MILL_POWER_01': 'kW',
-      'CEMENT_MILL_POWER_01': 'kW',
-      'PRODUCTION_FLOW_01': 'TPH',
-      'CEMENT_CONTENT': 'kg/m³',
-      'WATER_CONTENT': 'kg/m³',
-      'SUPERPLAST_CONTENT': 'kg/m³',
-      'FINENESS_01': 'm²/kg'
+  private dashboardFromRecord(source: RealDataSource, record: RealDataRecord, index: number): DashboardData {
+    const timestamp = new Date();
+    const sensors: SensorReading[] = Object.entries(record.sensors).map(([sensorId, value]) => {
+      const unit = source.sensorUnits[sensorId] || 'units';
+      return {
+        timestamp,
+        sensor_id: sensorId,
+        value,
+        unit,
+        location: 'Historian import',
+        sensor_type: SENSOR_TYPES_BY_UNIT[unit] || 'flow'
+      };
+    });
+    return this.dashboardFromValues(source.id, source.name, source.type, record, sensors, {}, {
+      record_index: index,
+      record_row: record.row,
+      record_timestamp: record.timestamp
+    });
+  }
+
+  /**
+   * Build a snapshot from a source's field values; fields it lacks are filled by
+   * the missing-field policy and every value's origin lands in the provenance
+   */
+  private dashboardFromValues(
+    sourceId: string,
+    sourceName: string,
+    sourceKind: DataSourceKind,
+    record: Pick<RealDataRecord, MappingGroup>,
+    sensors: SensorReading[],
+    equipment: LiveSnapshot['equipment'],
+    position: Pick<DataProvenance, 'record_index' | 'record_row' | 'record_timestamp'>
+  ): DashboardData {
+    const simulator = this.getSimulator();
+    const timestamp = new Date();
+    const fields: Record<string, ValueProvenance> = {};
+    const values: Record<string, number> = {};
+
+    // Resolve every mappable field of a group over the simulator's values for it
+    const resolveGroup = (group: MappingGroup, simulated: Record<string, any>) => {
+      Object.keys(MAPPABLE_FIELDS[group]).forEach(field => {
+        const key = `${group}.${field}`;
+        const measured = record[group][field];
+        let value: number;
+        if (measured !== undefined) {
+          value = measured;
+          fields[key] = 'measured';
+          this.lastMeasured[key] = measured;
+        } else if (this.missingFieldPolicy === 'hold' && key in this.lastMeasured) {
+          value = this.lastMeasured[key];
+          fields[key] = 'held';
+        } else {
+          value = valueAtPath(simulated, field) as number;
+          fields[key] = 'simulated';
+        }
+        values[key] = value;
+      });
+    };
+
+    const simulatedProcess = simulator.generateProcessParameters();
+    const simulatedQuality = simulator.generateQualityMetrics();
+    const simulatedEnvironment = simulator.generateEnvironmentalData();
+    resolveGroup('process', simulatedProcess);
+    resolveGroup('quality', simulatedQuality);
+    resolveGroup('environmental', simulatedEnvironment);
+
+    const groupValues = (group: MappingGroup) => Object.fromEntries(
+      Object.keys(MAPPABLE_FIELDS[group])
+        .filter(field => !field.includes('.'))
+        .map(field => [field, values[`${group}.${field}`]])
+    );
+
+    const processParameters: ProcessParameters = {
+      ...simulatedProcess,
+      ...groupValues('process'),
+      timestamp
     };
-    return units[sensorId] || 'units';
-  }
-
-  private getLocationForSensor(sensorId: string): string {
-    const locations: Record<string, string> = {
-      'KILN_TEMP_01': 'Kiln Burning Zone',
-      'KILN_PRESSURE_01': 'Kiln Inlet',
-      'RAW_MILL_POWER_01': 'Raw Mill',
-      'CEMENT_MILL_POWER_01': 'Cement Mill',
-      'PRODUCTION_FLOW_01': 'Cement Silo',
-      'CEMENT_CONTENT': 'Mix Design Lab',
-      'WATER_CONTENT': 'Mix Design Lab',
-      'SUPERPLAST_CONTENT': 'Mix Design Lab',
-      'FINENESS_01': 'Quality Control Lab'
+
+    const qualityMetrics: QualityMetrics = {
+      ...simulatedQuality,
+      ...groupValues('quality'),
+      timestamp,
+      sample_id: `REAL_${Date.now()}`,
+      chemical_composition: {
+        c3s: values['quality.chemical_composition.c3s'],
+        c2s: values['quality.chemical_composition.c2s'],
+        c3a: values['quality.chemical_composition.c3a'],
+        c4af: values['quality.chemical_composition.c4af'],
+        so3: values['quality.chemical_composition.so3'],
+        free_lime: values['quality.chemical_composition.free_lime']
+      }
     };
-    return locations[sensorId] || 'Plant Floor';
-  }
-
-  private getTypeForSensor(sensorId: string): string {
-    const types: Record<string, string> = {
-      'KILN_TEMP_01': 'temperature',
-      'KILN_PRESSURE_01': 'pressure',
-      'RAW_MILL_POWER_01': 'power',
-      'CEMENT_MILL_POWER_01': 'power',
-      'PRODUCTION_FLOW_01': 'flow',
-      'CEMENT_CONTENT': 'composition',
-      'WATER_CONTENT': 'composition',
-      'SUPERPLAST_CONTENT': 'composition',
-      'FINENESS_01': 'quality'
+
+    const environmentalData: EnvironmentalData = {
+      ...simulatedEnvironment,
+      ...groupValues('environmental'),
+      timestamp
     };
-    return types[sensorId] || 'measurement';
-  }
 
-  getDataSourceInfo(): { name: string; recordCount: number; currentIndex: number }[] {
-    return this.dataSources.map((source, index) => ({
-      name: source.name,
-      recordCount: index === 0 ? this.loadedData.length : 0,
-      currentIndex: this.currentDataIndex
+    const sensorReadings: SensorReading[] = REAL_DATA_SENSORS.map(sensor => ({
+      timestamp,
+      sensor_id: sensor.sensor_id,
+      value: values[sensor.field],
+      unit: sensor.unit,
+      location: sensor.location,
+      sensor_type: sensor.sensor_type
     }));
+    sensors.forEach(sensor => {
+      fields[`sensors.${sensor.sensor_id}`] = 'measured';
+      sensorReadings.push(sensor);
+    });
+
+    // Asset states come from the simulator's fleet, whose wear and run state follow what
+    // live feeds measure; the measured temperature, vibration and power are shown and
+    // follow the missing-field policy like fields
+    const equipmentStatus = simulator.generateEquipmentStatus(equipment).map(asset => {
+      const resolved = { ...asset };
+      (Object.keys(EQUIPMENT_MEASURE_UNITS) as EquipmentMeasure[]).forEach(measure => {
+        const key = `equipment.${asset.equipment_id}.${measure}`;
+        const measured = equipment[asset.equipment_id]?.[measure];
+        if (measured !== undefined) {
+          resolved[measure] = measured;
+          fields[key] = 'measured';
+          this.lastMeasured[key] = measured;
+        } else if (this.missingFieldPolicy === 'hold' && key in this.lastMeasured) {
+          resolved[measure] = this.lastMeasured[key];
+          fields[key] = 'held';
+        }
+      });
+      return resolved;
+    });
+    fields.equipment_status = 'simulated';
+
+    // KPIs computed like the simulator's; one computed only from record values is
+    // derived, and any simulated input makes it simulated
+    const computedFrom = (...inputs: string[]): ValueProvenance =>
+      inputs.some(input => fields[input] === 'simulated') ? 'simulated' : 'derived';
+    const plantCapacity = simulator.getConfig().plant_capacity;
+    const plantOverview: PlantOverview = {
+      timestamp,
+      overall_efficiency: Math.min(100, processParameters.production_rate / plantCapacity * 100),
+      production_rate_current: processParameters.production_rate,
+      production_rate_target: plantCapacity,
+      energy_consumption_current: processParameters.energy_consumption,
+      energy_consumption_target: ENERGY_CONSUMPTION_TARGET,
+      quality_score_avg: qualityMetrics.quality_score,
+      active_alerts_count: 0,
+      equipment_running_count: equipmentStatus.filter(eq => eq.status === 'running').length,
+      equipment_total_count: equipmentStatus.length,
+      environmental_compliance: isEnvironmentallyCompliant(environmentalData)
+    };
+    Object.assign(fields, {
+      'plant_overview.overall_efficiency': computedFrom('process.production_rate'),
+      'plant_overview.production_rate_current': fields['process.production_rate'],
+      'plant_overview.production_rate_target': 'simulated',
+      'plant_overview.energy_consumption_current': fields['process.energy_consumption'],
+      'plant_overview.energy_consumption_target': 'simulated',
+      'plant_overview.quality_score_avg': fields['quality.quality_score'],
+      'plant_overview.equipment_running_count': 'simulated',
+      'plant_overview.environmental_compliance': computedFrom('environmental.nox_emissions', 'environmental.dust_emissions')
+    });
+
+    return {
+      plant_overview: plantOverview,
+      recent_sensors: sensorReadings,
+      current_parameters: processParameters,
+      recent_quality: [qualityMetrics],
+      equipment_status: equipmentStatus,
+      active_alerts: [],
+      ai_recommendations: [],
+      environmental_data: environmentalData,
+      provenance: {
+        source_id: sourceId,
+        source_name: sourceName,
+        source_kind: sourceKind,
+        ...position,
+        fields
+      }
+    };
+  }
+
+  /**
+   * Snapshot of the selected feed, with every other registered feed filling in
+   * the values it lacks, so Modbus equipment data joins an MQTT or OPC UA feed
+   */
+  private liveSnapshot(selected: LiveDataSource): LiveSnapshot {
+    const merged = selected.snapshot();
+    this.liveSources.filter(source => source !== selected).forEach(source => {
+      const other = source.snapshot();
+      merged.process = { ...other.process, ...merged.process };
+      merged.quality = { ...other.quality, ...merged.quality };
+      merged.environmental = { ...other.environmental, ...merged.environmental };
+      const sensorIds = new Set(merged.sensors.map(sensor => sensor.sensor_id));
+      merged.sensors.push(...other.sensors.filter(sensor => !sensorIds.has(sensor.sensor_id)));
+      Object.entries(other.equipment).forEach(([equipmentId, measures]) => {
+        merged.equipment[equipmentId] = { ...measures, ...merged.equipment[equipmentId] };
+      });
+    });
+    return merged;
   }
 
-  isRealDataAvailable(): boolean {
-    return this.loadedData.length > 0;
+  private findSource(id: string): RealDataSource | undefined {
+    return this.dataSources.find(source => source.id === id);
   }
 
-  resetDataIndex(): void {
-    this.currentDataIndex = 0;
+  private findLiveSource(id: string): LiveDataSource | undefined {
+    return this.liveSources.find(source => source.id === id);
   }
 
-  // Method to add external data sources
-  async addExternalDataSource(url: string, mappingConfig: DataMapping): Promise<boolean> {
-    try {
-      console.log('Adding external data source:', url);
-      // This would implement actual API calls or file downloads
-      // For now, we'll just add it to the configuration
-      this.dataSources.push({
-        name: `External: ${url}`,
-        type: 'api',
-        source: url,
-        mappingConfig
-      });
-      return true;
-    } catch (error) {
-      console.error('Error adding external data source:', error);
-      return false;
-    }
+  private describe(source: RealDataSource): DataSourceInfo {
+    return {
+      id: source.id,
+      name: source.name,
+      kind: source.type,
+      record_count: source.records.length,
+      loaded_at: source.loadedAt,
+      active: source.id === this.activeSourceId
+    };
   }
 }
 
-export default RealDataAdapter;
\ No newline at end of file
+export function createRealDataAdapter(getSimulator: () => CementPlantSimulator, tickMs: number): RealDataAdapter {
+  return new RealDataAdapter(getSimulator, process.env.REAL_DATA_DIR || path.join('data', 'real-data'), tickMs);
+}
+
+export default RealDataAdapter;
@@ -3,10 +3,26 @@ import cors from 'cors';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import dotenv from 'dotenv';
-import { CementPlantSimulator } from './simulation/dataGenerator';
-import { DashboardData, SimulationConfig } from './data/models';
+import { CementPlantSimulator, MAX_SENSOR_COUNT } from './simulation/dataGenerator';
+import { SteppedClock } from './simulation/random';
+import { PLANT_EQUIPMENT } from './simulation/sensorCatalog';
+import { AIRecommendation, Alert, Conversation, DashboardData, EnvironmentalData, ProcessParameters, QualityMetrics, SimulationConfig, SoftSensorTarget } from './data/models';
 import { createGeminiService } from './ai/geminiService';
 import { createFirebaseService } from './services/firebaseService';
+import { createAlertEngine, AlertStatusFilter } from './services/alertEngine';
+import { ConversationContext, createConversationStore } from './services/conversationStore';
+import { createThresholdStore, DEFAULT_GRADE, THRESHOLD_PARAMETERS } from './services/thresholdStore';
+import { createHistoryStore, HISTORY_SERIES, HistorySeries } from './services/historyStore';
+import { createSensorQualityMonitor } from './services/sensorQuality';
+import { createSoftSensorService, SOFT_SENSOR_TARGETS } from './services/softSensors';
+import { createEnergyForecaster, MAX_FORECAST_HORIZON_HOURS } from './services/energyForecaster';
+import { createQualityPredictor } from './services/qualityPredictor';
+import { AnomalyStatusFilter, createAnomalyDetector } from './services/anomalyDetector';
+import { MAPPABLE_FIELDS, parseCSV, suggestMapping } from './data/csvIngest';
+import { createModbusSource } from './data/modbusSource';
+import { createMqttSource } from './data/mqttSource';
+import { createOpcUaSource, OpcUaTag } from './data/opcuaSource';
+import { createRealDataAdapter, DataSourceLoadResult, MAX_REPLAY_SPEED, MIN_REPLAY_SPEED, MissingFieldPolicy } from './data/realDataAdapter';
 
 // Load environment variables
 dotenv.config();
@@ -34,7 +50,10 @@ const io = new Server(server, {
 
 // Middleware
 app.use(cors(corsOptions));
-app.use(express.json());
+// Historian CSV exports are uploaded inside JSON bodies or as text/csv
+const MAX_UPLOAD_SIZE = '10mb';
+app.use(express.json({ limit: MAX_UPLOAD_SIZE }));
+app.use(express.text({ type: 'text/csv', limit: MAX_UPLOAD_SIZE }));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -50,9 +69,15 @@ app.get('/api/health', (req, res) => {
     success: true,
     message: 'CementAI Nexus API is running',
     simulation_running: simulator.isRunning(),
+    simulation_seed: simulator.getSeed(),
     connected_clients: io.engine.clientsCount,
     firebase_status: firebaseService.getProjectInfo(),
-    gemini_enabled: process.env.GEMINI_API_KEY ? true : false,
+    ai_providers: geminiService.getProviders(),
+    data_source: dataSources.getActiveSource(),
+    mqtt: mqttSource ? mqttSource.getHealth() : { enabled: false },
+    opcua: opcuaSource ? opcuaSource.getHealth() : { enabled: false },
+    modbus: modbusSource ? modbusSource.getHealth() : { enabled: false },
+    data_quality: sensorQuality.getSummary(),
     timestamp: new Date()
   });
 });
@@ -67,242 +92,203 @@ const simulationConfig: SimulationConfig = {
   quality_variation: 0.1
 };
 
-const simulator = new CementPlantSimulator(simulationConfig);
-const geminiService = createGeminiService();
-const firebaseService = createFirebaseService();
+const SIMULATION_INTERVAL = parseInt(process.env.SIMULATION_INTERVAL || '5000');
 
-// Function to load sample real cement plant data
-async function loadSampleRealData(): Promise<any[]> {
-  // Sample real cement plant data based on industry averages and standards
-  const realData = [
-    {
-      timestamp: '2024-01-01T00:00:00Z',
-      kiln_temperature: 1450.5, kiln_pressure: -12.3, raw_mill_power: 2850, cement_mill_power: 3150,
-      production_rate: 1850, compressive_strength: 42.5, fineness: 365, co2_emissions: 875, energy_consumption: 95.2
-    },
-    {
-      timestamp: '2024-01-01T00:05:00Z', 
-      kiln_temperature: 1452.1, kiln_pressure: -11.8, raw_mill_power: 2890, cement_mill_power: 3180,
-      production_rate: 1870, compressive_strength: 43.1, fineness: 358, co2_emissions: 878, energy_consumption: 94.8
-    },
-    {
-      timestamp: '2024-01-01T00:10:00Z',
-      kiln_temperature: 1448.7, kiln_pressure: -13.1, raw_mill_power: 2820, cement_mill_power: 3120,
-      production_rate: 1820, compressive_strength: 41.9, fineness: 372, co2_emissions: 882, energy_consumption: 96.1
-    },
-    {
-      timestamp: '2024-01-01T00:15:00Z',
-      kiln_temperature: 1455.3, kiln_pressure: -10.9, raw_mill_power: 2910, cement_mill_power: 3200,
-      production_rate: 1895, compressive_strength: 44.2, fineness: 351, co2_emissions: 869, energy_consumption: 93.7
-    },
-    {
-      timestamp: '2024-01-01T00:20:00Z',
-      kiln_temperature: 1451.8, kiln_pressure: -12.7, raw_mill_power: 2875, cement_mill_power: 3165,
-      production_rate: 1860, compressive_strength: 42.8, fineness: 363, co2_emissions: 873, energy_consumption: 95.5
-    },
-    {
-      timestamp: '2024-01-01T00:25:00Z',
-      kiln_temperature: 1453.4, kiln_pressure: -11.5, raw_mill_power: 2895, cement_mill_power: 3185,
-      production_rate: 1885, compressive_strength: 43.5, fineness: 356, co2_emissions: 871, energy_consumption: 94.3
-    },
-    {
-      timestamp: '2024-01-01T00:30:00Z',
-      kiln_temperature: 1449.9, kiln_pressure: -13.4, raw_mill_power: 2835, cement_mill_power: 3135,
-      production_rate: 1835, compressive_strength: 42.1, fineness: 369, co2_emissions: 885, energy_consumption: 96.8
-    },
-    {
-      timestamp: '2024-01-01T00:35:00Z',
-      kiln_temperature: 1456.2, kiln_pressure: -10.6, raw_mill_power: 2925, cement_mill_power: 3210,
-      production_rate: 1905, compressive_strength: 44.8, fineness: 348, co2_emissions: 865, energy_consumption: 93.2
-    },
-    {
-      timestamp: '2024-01-01T00:40:00Z',
-      kiln_temperature: 1452.7, kiln_pressure: -12.1, raw_mill_power: 2885, cement_mill_power: 3175,
-      production_rate: 1875, compressive_strength: 43.3, fineness: 361, co2_emissions: 876, energy_consumption: 95.1
-    },
-    {
-      timestamp: '2024-01-01T00:45:00Z',
-      kiln_temperature: 1450.3, kiln_pressure: -12.9, raw_mill_power: 2860, cement_mill_power: 3155,
-      production_rate: 1850, compressive_strength: 42.6, fineness: 367, co2_emissions: 880, energy_consumption: 95.9
-    }
-  ];
-  
-  console.log('Loaded sample real cement plant data:', realData.length, 'records');
-  return realData;
+// The simulator runs on a stepped clock that advances one broadcast interval (times
+// simulation_speed) per tick, so a seed plus start time fully determines the
+// generated DashboardData sequence
+let simulationClock: SteppedClock;
+
+function createSimulator(seed?: number, startTime: Date = new Date()): CementPlantSimulator {
+  simulationClock = new SteppedClock(startTime);
+  return new CementPlantSimulator({
+    ...simulationConfig,
+    seed,
+    start_time: startTime,
+    clock: simulationClock.now
+  });
 }
 
-// Function to generate dashboard data from real plant data
-function generateDashboardFromRealData(realData: any): DashboardData {
-  const timestamp = new Date();
-  
-  // Convert real data to sensor readings
-  const sensorReadings: any[] = [
-    {
-      timestamp,
-      sensor_id: 'KILN_TEMP_01',
-      value: realData.kiln_temperature,
-      unit: '°C',
-      location: 'Kiln Burning Zone',
-      sensor_type: 'temperature'
-    },
-    {
-      timestamp,
-      sensor_id: 'KILN_PRESSURE_01', 
-      value: realData.kiln_pressure,
-      unit: 'kPa',
-      location: 'Kiln Inlet',
-      sensor_type: 'pressure'
-    },
-    {
-      timestamp,
-      sensor_id: 'RAW_MILL_POWER_01',
-      value: realData.raw_mill_power,
-      unit: 'kW',
-      location: 'Raw Mill',
-      sensor_type: 'power'
-    },
-    {
-      timestamp,
-      sensor_id: 'CEMENT_MILL_POWER_01',
-      value: realData.cement_mill_power,
-      unit: 'kW', 
-      location: 'Cement Mill',
-      sensor_type: 'power'
-    },
-    {
-      timestamp,
-      sensor_id: 'PRODUCTION_FLOW_01',
-      value: realData.production_rate,
-      unit: 'TPH',
-      location: 'Cement Silo',
-      sensor_type: 'flow'
-    },
-    {
-      timestamp,
-      sensor_id: 'FINENESS_01',
-      value: realData.fineness,
-      unit: 'm²/kg',
-      location: 'Quality Control Lab', 
-      sensor_type: 'flow'
-    }
-  ];
-
-  // Convert real data to process parameters
-  const processParameters: any = {
-    timestamp,
-    kiln_temperature: realData.kiln_temperature,
-    kiln_pressure: realData.kiln_pressure,
-    raw_mill_power: realData.raw_mill_power,
-    cement_mill_power: realData.cement_mill_power,
-    production_rate: realData.production_rate,
-    energy_consumption: realData.energy_consumption,
-    alternative_fuel_rate: 25, // Default value
-    raw_meal_flow: realData.production_rate * 1.55,
-    cement_fineness: realData.fineness,
-    clinker_temperature: realData.kiln_temperature - 300,
-    exhaust_fan_speed: 500,
-    preheater_temperature: realData.kiln_temperature - 1100
-  };
-
-  // Generate quality metrics from real data
-  const qualityMetrics: any = {
-    timestamp,
-    sample_id: `REAL_${Date.now()}`,
-    blaine_fineness: realData.fineness,
-    compressive_strength_3d: realData.compressive_strength * 0.5,
-    compressive_strength_28d: realData.compressive_strength,
-    setting_time_initial: 75,
-    setting_time_final: 270,
-    quality_score: Math.min(95, realData.compressive_strength * 2),
-    defect_count: 1,
-    consistency: 97.5,
-    chemical_composition: {
-      c3s: 60,
-      c2s: 20,
-      c3a: 10,
-      c4af: 10,
-      so3: 3.0,
-      free_lime: 1.0
-    }
-  };
-
-  // Generate environmental data from real data
-  const environmentalData: any = {
-    timestamp,
-    co2_emissions: realData.co2_emissions,
-    nox_emissions: 650,
-    so2_emissions: 120,
-    dust_emissions: 25,
-    energy_consumption_specific: realData.energy_consumption,
-    alternative_fuel_substitution: 25,
-    waste_heat_recovery: realData.production_rate * 25,
-    water_consumption: 300
-  };
-
-  // Generate plant overview from real data
-  const plantOverview: any = {
-    timestamp,
-    overall_efficiency: Math.min(95, 100 - (realData.energy_consumption - 90) * 2),
-    production_rate_current: realData.production_rate,
-    production_rate_target: 2000,
-    energy_consumption_current: realData.energy_consumption,
-    energy_consumption_target: 90,
-    quality_score_avg: Math.min(95, realData.compressive_strength * 2),
-    active_alerts_count: 2,
-    equipment_running_count: 7,
-    equipment_total_count: 8,
-    environmental_compliance: true
-  };
-
-  return {
-    plant_overview: plantOverview,
-    recent_sensors: sensorReadings,
-    current_parameters: processParameters,
-    recent_quality: [qualityMetrics],
-    equipment_status: simulator.generateEquipmentStatus(), // Use simulated equipment status
-    active_alerts: [],
-    ai_recommendations: [],
-    environmental_data: environmentalData
-  };
+let simulator = createSimulator(process.env.SIMULATION_SEED ? parseInt(process.env.SIMULATION_SEED) : undefined);
+
+// Rolling process history handed to new clients so trend charts start populated
+const MAX_PROCESS_HISTORY = 10000;
+const CLIENT_HISTORY_POINTS = 300;
+const MAX_BACKFILL_HOURS = 24 * 30;
+const BACKFILL_STEP_SECONDS = 300;
+let processHistory: ProcessParameters[] = [];
+
+function recordProcessHistory(parameters: ProcessParameters) {
+  processHistory.push(parameters);
+  if (processHistory.length > MAX_PROCESS_HISTORY) {
+    processHistory = processHistory.slice(-MAX_PROCESS_HISTORY);
+  }
+}
+
+// Evenly spaced subset of the history, always keeping the latest point
+function sampleProcessHistory(maxPoints: number = CLIENT_HISTORY_POINTS): ProcessParameters[] {
+  if (processHistory.length <= maxPoints) {
+    return processHistory;
+  }
+  const stride = (processHistory.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => processHistory[Math.round(i * stride)]);
+}
+
+// Reload the newest stored process points so trends survive a restart
+function restoreProcessHistory() {
+  const latest = historyStore.getLatestTimestamp('process');
+  if (!latest) {
+    return;
+  }
+  const stored = historyStore.query('process', {
+    from: new Date(latest.getTime() - 24 * 3600000),
+    to: latest,
+    limit: MAX_PROCESS_HISTORY
+  });
+  processHistory = stored.points as unknown as ProcessParameters[];
+  console.log(`📈 Restored ${processHistory.length} process history points`);
 }
 
+/**
+ * Restart the simulator `hours` before the current simulated time and run it
+ * forward in `stepSeconds` increments, recording each step into the process
+ * history. The window runs at the current setpoints, and the active anomalies
+ * and equipment states are restored at its end, so live ticks continue where
+ * they left off and the trend joins up with the backfilled data.
+ */
+function backfillSimulation(hours: number, stepSeconds: number) {
+  const end = simulationClock.now();
+  const start = new Date(end.getTime() - hours * 3600000);
+  const previous = simulator;
+  const wasRunning = previous.isRunning();
+  const setpoints = previous.getSetpoints();
+  const anomalies = previous.getActiveAnomalies();
+  const assets = previous.getEquipmentAssets();
+
+  previous.stopSimulation();
+  simulator = createSimulator(previous.getSeed(), start);
+  simulator.setSetpoints(setpoints);
+  processHistory = [];
+
+  const quality: QualityMetrics[] = [];
+  const environmental: EnvironmentalData[] = [];
+  while (simulationClock.now().getTime() < end.getTime()) {
+    recordProcessHistory(simulator.generateProcessParameters());
+    quality.push(simulator.generateQualityMetrics());
+    environmental.push(simulator.generateEnvironmentalData());
+    simulationClock.advance(stepSeconds * 1000);
+  }
+  simulator.restoreState(anomalies, assets);
+
+  // The regenerated window replaces whatever the store held for it
+  historyStore.deleteRange('process', start, end);
+  historyStore.deleteRange('quality', start, end);
+  historyStore.deleteRange('environmental', start, end);
+  historyStore.append('process', processHistory);
+  historyStore.append('quality', quality);
+  historyStore.append('environmental', environmental);
+
+  if (wasRunning) {
+    simulator.startSimulation();
+  }
+
+  return { start, end, points: processHistory.length, seed: simulator.getSeed() };
+}
+const geminiService = createGeminiService();
+const conversationStore = createConversationStore();
+// Estimated tokens of conversation history sent with each chat message
+const CONVERSATION_HISTORY_TOKENS = parseInt(process.env.CONVERSATION_HISTORY_TOKENS || '4000');
+const firebaseService = createFirebaseService();
+// Days of persisted dashboard snapshots kept under plant-data/history
+const FIREBASE_HISTORY_DAYS = parseInt(process.env.FIREBASE_HISTORY_DAYS || '30');
+const thresholdStore = createThresholdStore();
+const alertEngine = createAlertEngine(thresholdStore);
+const sensorQuality = createSensorQualityMonitor();
+const historyStore = createHistoryStore();
+const softSensors = createSoftSensorService(historyStore);
+const energyForecaster = createEnergyForecaster(historyStore);
+const qualityPredictor = createQualityPredictor(historyStore);
+const anomalyDetector = createAnomalyDetector(historyStore);
+const dataSources = createRealDataAdapter(() => simulator, SIMULATION_INTERVAL);
+const mqttSource = createMqttSource();
+const opcuaSource = createOpcUaSource();
+const modbusSource = createModbusSource();
+
 // Store latest data for API endpoints
 let latestDashboardData: DashboardData;
-let realDataEnabled = false;
-let realDataSource: any[] = [];
-let realDataIndex = 0;
 
-// Real-time data broadcasting
-const broadcastData = () => {
-  let dashboardData: DashboardData;
-  
-  if (realDataEnabled && realDataSource.length > 0) {
-    // Use real data
-    const currentRealData = realDataSource[realDataIndex % realDataSource.length];
-    dashboardData = generateDashboardFromRealData(currentRealData);
-    realDataIndex++;
-    console.log(`Broadcasting REAL data (record ${realDataIndex}/${realDataSource.length}) to ${io.engine.clientsCount} clients`);
+// Structured AI recommendations ride along with every snapshot until they expire
+const RECOMMENDATION_TTL_MS = 3600000;
+const MAX_DASHBOARD_RECOMMENDATIONS = 10;
+let latestRecommendations: AIRecommendation[] = [];
+
+const currentRecommendations = (): AIRecommendation[] => {
+  const cutoff = Date.now() - RECOMMENDATION_TTL_MS;
+  return latestRecommendations.filter(recommendation => new Date(recommendation.timestamp).getTime() >= cutoff);
+};
+
+const rememberRecommendations = (recommendations: AIRecommendation[] = []) => {
+  latestRecommendations = [...recommendations, ...currentRecommendations()].slice(0, MAX_DASHBOARD_RECOMMENDATIONS);
+  if (latestDashboardData) {
+    latestDashboardData.ai_recommendations = latestRecommendations;
+  }
+};
+
+/**
+ * Grade a snapshot, run the models and alert rules on it, record it and send
+ * it to every client. Broadcast ticks and replay frames both go through here.
+ */
+const publishDashboard = (dashboardData: DashboardData) => {
+  const provenance = dashboardData.provenance;
+  if (provenance && provenance.source_kind !== 'simulation') {
+    const measured = Object.values(provenance.fields).filter(flag => flag === 'measured').length;
+    const position = provenance.record_index !== undefined ? ` record ${provenance.record_index + 1}` : '';
+    console.log(`Broadcasting ${provenance.source_name}${position} (${measured}/${Object.keys(provenance.fields).length} fields measured) to ${io.engine.clientsCount} clients`);
   } else {
-    // Use simulated data
-    dashboardData = {
-      plant_overview: simulator.generatePlantOverview(),
-      recent_sensors: simulator.generateSensorReadings(),
-      current_parameters: simulator.generateProcessParameters(),
-      recent_quality: [simulator.generateQualityMetrics()],
-      equipment_status: simulator.generateEquipmentStatus(),
-      active_alerts: [],
-      ai_recommendations: [],
-      environmental_data: simulator.generateEnvironmentalData()
-    };
     console.log(`Broadcasting simulated data to ${io.engine.clientsCount} clients`);
   }
 
+  // Alerts and the anomaly detector judge what the instruments reported; bad
+  // readings are caught before history and AI prompts see them
+  const reported = structuredClone(dashboardData);
+  const quality = sensorQuality.assess(dashboardData);
+  if (quality.bad > 0) {
+    console.log(`⚠️ Data quality: ${quality.bad} bad, ${quality.uncertain} uncertain (${quality.issues.filter(issue => issue.code === 'bad').map(issue => issue.channel).join(', ')})`);
+  }
+  softSensors.observe(dashboardData);
+  qualityPredictor.observe(dashboardData, thresholdStore.getLimits());
+  anomalyDetector.observe(reported);
+  dashboardData.ai_recommendations = currentRecommendations();
+
+  // Rules run on every snapshot; the open alerts ride along with it
+  alertEngine.evaluate(reported);
+  dashboardData.active_alerts = alertEngine.getActiveAlerts();
+  dashboardData.plant_overview.active_alerts_count = dashboardData.active_alerts.length;
+
   latestDashboardData = dashboardData;
+  recordProcessHistory(dashboardData.current_parameters);
+  historyStore.record(dashboardData);
+  firebaseService.storeDashboardData(dashboardData);
+  firebaseService.storeSensorReadings(dashboardData.recent_sensors);
   
   // Broadcast to all connected clients
   io.emit('dashboard_update', dashboardData);
+  if (dataSources.isReplayActive()) {
+    io.emit('replay_state', dataSources.getReplayState());
+  }
+};
+
+// Real-time data broadcasting
+const broadcastData = () => {
+  publishDashboard(dataSources.nextDashboard(SIMULATION_INTERVAL));
+  simulationClock.advance(SIMULATION_INTERVAL * simulator.getConfig().simulation_speed);
 };
 
+alertEngine.on('alert_raised', alert => io.emit('alert_raised', alert));
+alertEngine.on('alert_updated', alert => io.emit('alert_updated', alert));
+anomalyDetector.on('anomaly_detected', anomaly => io.emit('anomaly_detected', anomaly));
+anomalyDetector.on('anomaly_updated', anomaly => io.emit('anomaly_updated', anomaly));
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
@@ -311,27 +297,50 @@ io.on('connection', (socket) => {
   if (latestDashboardData) {
     socket.emit('dashboard_update', latestDashboardData);
   }
+  if (processHistory.length > 0) {
+    socket.emit('process_history', sampleProcessHistory());
+  }
+  if (dataSources.isReplayActive()) {
+    socket.emit('replay_state', dataSources.getReplayState());
+  }
+  // Recent detections; later ones arrive as anomaly_detected / anomaly_updated
+  socket.emit('anomalies', anomalyDetector.getAnomalies('all', 20));
   
   socket.on('disconnect', () => {
     console.log('Client disconnected:', socket.id);
   });
   
   // Handle client requests for specific data
+  // Answered from the last broadcast so a request never draws from the simulation run
   socket.on('request_sensor_data', () => {
-    socket.emit('sensor_data', simulator.generateSensorReadings());
+    if (latestDashboardData) {
+      socket.emit('sensor_data', latestDashboardData.recent_sensors);
+    }
   });
   
   socket.on('request_process_data', () => {
-    socket.emit('process_data', simulator.generateProcessParameters());
+    if (latestDashboardData) {
+      socket.emit('process_data', latestDashboardData.current_parameters);
+    }
   });
 });
 
 // REST API Endpoints
+// Current values come from the last broadcast snapshot, so polling between
+// ticks neither disagrees with the dashboard nor shifts a seeded run
 
 // Get current sensor readings
 app.get('/api/sensors/realtime', (req, res) => {
   try {
-    const sensorData = simulator.generateSensorReadings();
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const sensorData = latestDashboardData.recent_sensors;
     res.json({
       success: true,
       data: sensorData,
@@ -349,7 +358,15 @@ app.get('/api/sensors/realtime', (req, res) => {
 // Get plant status overview
 app.get('/api/plant/status', (req, res) => {
   try {
-    const plantOverview = simulator.generatePlantOverview();
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const plantOverview = latestDashboardData.plant_overview;
     res.json({
       success: true,
       data: plantOverview,
@@ -367,7 +384,15 @@ app.get('/api/plant/status', (req, res) => {
 // Get current process parameters
 app.get('/api/process/parameters', (req, res) => {
   try {
-    const processParams = simulator.generateProcessParameters();
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const processParams = latestDashboardData.current_parameters;
     res.json({
       success: true,
       data: processParams,
@@ -385,7 +410,15 @@ app.get('/api/process/parameters', (req, res) => {
 // Get quality metrics
 app.get('/api/quality/current', (req, res) => {
   try {
-    const qualityData = simulator.generateQualityMetrics();
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const qualityData = latestDashboardData.recent_quality[latestDashboardData.recent_quality.length - 1];
     res.json({
       success: true,
       data: qualityData,
@@ -403,7 +436,15 @@ app.get('/api/quality/current', (req, res) => {
 // Get equipment status
 app.get('/api/equipment/status', (req, res) => {
   try {
-    const equipmentStatus = simulator.generateEquipmentStatus();
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const equipmentStatus = latestDashboardData.equipment_status;
     res.json({
       success: true,
       data: equipmentStatus,
@@ -418,543 +459,2346 @@ app.get('/api/equipment/status', (req, res) => {
   }
 });
 
-// Get environmental data
-app.get('/api/environmental/current', (req, res) => {
+// Lifecycle state behind the equipment table: health, status timing and failure counts
+app.get('/api/equipment/lifecycle', (req, res) => {
   try {
-    const environmentalData = simulator.generateEnvironmentalData();
     res.json({
       success: true,
-      data: environmentalData,
+      data: simulator.getEquipmentAssets(),
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch environmental data',
+      error: 'Failed to fetch equipment lifecycle',
       timestamp: new Date()
     });
   }
 });
 
-// Get complete dashboard data
-app.get('/api/dashboard/data', (req, res) => {
+app.post('/api/equipment/:id/maintenance', (req, res) => {
   try {
-    if (latestDashboardData) {
-      res.json({
-        success: true,
-        data: latestDashboardData,
+    const { duration_hours } = req.body || {};
+
+    if (duration_hours !== undefined && (typeof duration_hours !== 'number' || duration_hours <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'duration_hours must be a positive number',
         timestamp: new Date()
       });
-    } else {
-      // Generate fresh data if none available
-      const dashboardData: DashboardData = {
-        plant_overview: simulator.generatePlantOverview(),
-        recent_sensors: simulator.generateSensorReadings(),
-        current_parameters: simulator.generateProcessParameters(),
-        recent_quality: [simulator.generateQualityMetrics()],
-        equipment_status: simulator.generateEquipmentStatus(),
-        active_alerts: [],
-        ai_recommendations: [],
-        environmental_data: simulator.generateEnvironmentalData()
-      };
-      
-      res.json({
-        success: true,
-        data: dashboardData,
+    }
+
+    const asset = simulator.scheduleMaintenance(req.params.id, duration_hours);
+    if (!asset) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown equipment: ${req.params.id}`,
         timestamp: new Date()
       });
     }
+
+    res.json({
+      success: true,
+      data: asset,
+      timestamp: new Date()
+    });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch dashboard data',
+      error: 'Failed to schedule maintenance',
       timestamp: new Date()
     });
   }
 });
 
-// Simulation control endpoints
-app.post('/api/simulation/start', (req, res) => {
+const ALERT_STATUSES: AlertStatusFilter[] = ['open', 'unacknowledged', 'acknowledged', 'resolved', 'all'];
+const ALERT_SEVERITIES: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+app.get('/api/alerts', (req, res) => {
   try {
-    simulator.startSimulation();
+    const status = (req.query.status as AlertStatusFilter) || 'open';
+    if (!ALERT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${ALERT_STATUSES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    const severity = req.query.severity as Alert['severity'] | undefined;
+    if (severity !== undefined && !ALERT_SEVERITIES.includes(severity)) {
+      return res.status(400).json({
+        success: false,
+        error: `severity must be one of: ${ALERT_SEVERITIES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    const alerts = alertEngine.getAlerts({
+      status,
+      severity,
+      equipment_id: req.query.equipment_id as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 100
+    });
+
     res.json({
       success: true,
-      message: 'Simulation started',
+      data: alerts,
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to start simulation',
+      error: 'Failed to fetch alerts',
       timestamp: new Date()
     });
   }
 });
 
-app.post('/api/simulation/stop', (req, res) => {
+// Acknowledge or resolve an alert; `user` is recorded against the action
+const updateAlert = (action: 'ack' | 'resolve') => (req: express.Request<{ id: string }>, res: express.Response) => {
   try {
-    simulator.stopSimulation();
+    const existing = alertEngine.getAlert(req.params.id);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown alert: ${req.params.id}`,
+        timestamp: new Date()
+      });
+    }
+
+    if (existing.resolved) {
+      return res.status(409).json({
+        success: false,
+        error: 'Alert is already resolved',
+        timestamp: new Date()
+      });
+    }
+
+    const user = typeof req.body?.user === 'string' && req.body.user.trim() ? req.body.user.trim() : 'operator';
+    const alert = action === 'ack'
+      ? alertEngine.acknowledge(req.params.id, user)
+      : alertEngine.resolve(req.params.id, user);
+
     res.json({
       success: true,
-      message: 'Simulation stopped',
+      data: alert,
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to stop simulation',
+      error: `Failed to ${action === 'ack' ? 'acknowledge' : 'resolve'} alert`,
+      timestamp: new Date()
+    });
+  }
+};
+
+app.post('/api/alerts/:id/ack', updateAlert('ack'));
+app.post('/api/alerts/:id/resolve', updateAlert('resolve'));
+
+// Threshold rules shared by the alert engine, the quality monitor and the AI prompts
+app.get('/api/thresholds', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: thresholdStore.getRules(req.query.grade as string | undefined),
+      active_grade: thresholdStore.getActiveGrade(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch threshold rules',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Effective limits for a grade: default rules overlaid with the grade's own
+app.get('/api/thresholds/limits', (req, res) => {
+  try {
+    const grade = (req.query.grade as string) || thresholdStore.getActiveGrade();
+    res.json({
+      success: true,
+      data: thresholdStore.getLimits(grade).map(limit => ({ ...limit, ...THRESHOLD_PARAMETERS[limit.parameter] })),
+      grade,
+      grades: thresholdStore.getGrades(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch threshold limits',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/thresholds/grade', (req, res) => {
+  res.json({
+    success: true,
+    data: { active_grade: thresholdStore.getActiveGrade(), grades: thresholdStore.getGrades() },
+    timestamp: new Date()
+  });
+});
+
+app.put('/api/thresholds/grade', (req, res) => {
+  try {
+    const { grade } = req.body || {};
+    if (typeof grade !== 'string' || !grade.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'grade must be a non-empty string',
+        timestamp: new Date()
+      });
+    }
+
+    thresholdStore.setActiveGrade(grade.trim());
+    io.emit('thresholds_updated', { active_grade: thresholdStore.getActiveGrade() });
+    res.json({
+      success: true,
+      data: { active_grade: thresholdStore.getActiveGrade(), grades: thresholdStore.getGrades() },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set product grade',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.post('/api/thresholds', (req, res) => {
+  try {
+    const rule = { product_grade: DEFAULT_GRADE, enabled: true, ...req.body };
+    const validationError = thresholdStore.validate(rule);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: new Date()
+      });
+    }
+
+    const created = thresholdStore.create({
+      parameter: rule.parameter,
+      product_grade: rule.product_grade,
+      min: rule.min,
+      max: rule.max,
+      optimal: rule.optimal,
+      hysteresis: rule.hysteresis,
+      delay_seconds: rule.delay_seconds,
+      severity: rule.severity,
+      enabled: rule.enabled !== false
+    });
+    io.emit('thresholds_updated', { active_grade: thresholdStore.getActiveGrade() });
+    res.json({
+      success: true,
+      data: created,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create threshold rule',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.put('/api/thresholds/:id', (req, res) => {
+  try {
+    const existing = thresholdStore.getRule(req.params.id);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown threshold rule: ${req.params.id}`,
+        timestamp: new Date()
+      });
+    }
+
+    const { id, ...updates } = req.body || {};
+    const merged = { ...existing, ...updates };
+    const validationError = thresholdStore.validate(merged, existing.id);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: new Date()
+      });
+    }
+
+    const updated = thresholdStore.update(existing.id, {
+      parameter: merged.parameter,
+      product_grade: merged.product_grade,
+      min: merged.min,
+      max: merged.max,
+      optimal: merged.optimal,
+      hysteresis: merged.hysteresis,
+      delay_seconds: merged.delay_seconds,
+      severity: merged.severity,
+      enabled: merged.enabled !== false
+    });
+    io.emit('thresholds_updated', { active_grade: thresholdStore.getActiveGrade() });
+    res.json({
+      success: true,
+      data: updated,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update threshold rule',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.delete('/api/thresholds/:id', (req, res) => {
+  try {
+    if (!thresholdStore.delete(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown threshold rule: ${req.params.id}`,
+        timestamp: new Date()
+      });
+    }
+
+    io.emit('thresholds_updated', { active_grade: thresholdStore.getActiveGrade() });
+    res.json({
+      success: true,
+      message: 'Threshold rule deleted',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete threshold rule',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Stored series with their retention and extent
+app.get('/api/history', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: historyStore.getSeriesInfo(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch history series',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Query a series over a time range; `bucket` (seconds) or `points` switch to avg/min/max buckets
+app.get('/api/history/:series', (req, res) => {
+  try {
+    const series = req.params.series as HistorySeries;
+    if (!HISTORY_SERIES.includes(series)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown series: ${series}. Available: ${HISTORY_SERIES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    // Ranges default to the last 24 hours of the current (possibly simulated) time
+    const to = req.query.to ? new Date(req.query.to as string) : simulationClock.now();
+    const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 24 * 3600000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid ISO timestamps with from before to',
+        timestamp: new Date()
+      });
+    }
+
+    const bucket = req.query.bucket ? parseFloat(req.query.bucket as string) : undefined;
+    const points = req.query.points ? parseInt(req.query.points as string) : undefined;
+    if ((bucket !== undefined && !(bucket > 0)) || (points !== undefined && !(points > 0))) {
+      return res.status(400).json({
+        success: false,
+        error: 'bucket and points must be positive numbers',
+        timestamp: new Date()
+      });
+    }
+
+    const result = historyStore.query(series, {
+      from,
+      to,
+      bucket_seconds: bucket ?? (points ? Math.max(1, Math.ceil((to.getTime() - from.getTime()) / points / 1000)) : undefined),
+      fields: req.query.fields ? (req.query.fields as string).split(',').map(field => field.trim()) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to query history',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.put('/api/history/:series/retention', (req, res) => {
+  try {
+    const series = req.params.series as HistorySeries;
+    const { days } = req.body || {};
+    if (!HISTORY_SERIES.includes(series)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown series: ${series}. Available: ${HISTORY_SERIES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+    if (typeof days !== 'number' || days <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'days must be a positive number',
+        timestamp: new Date()
+      });
+    }
+
+    historyStore.setRetention(series, days);
+    res.json({
+      success: true,
+      data: historyStore.getSeriesInfo().find(info => info.series === series),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update retention',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Get environmental data
+app.get('/api/environmental/current', (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    const environmentalData = latestDashboardData.environmental_data;
+    res.json({
+      success: true,
+      data: environmentalData,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch environmental data',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Get complete dashboard data
+app.get('/api/dashboard/data', (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+
+    res.json({
+      success: true,
+      data: latestDashboardData,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dashboard data',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Simulation control endpoints
+app.post('/api/simulation/start', (req, res) => {
+  try {
+    const { seed, start_time } = req.body || {};
+
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      return res.status(400).json({
+        success: false,
+        error: 'seed must be an integer',
+        timestamp: new Date()
+      });
+    }
+
+    const startTime = start_time !== undefined ? new Date(start_time) : undefined;
+    if (startTime && isNaN(startTime.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'start_time must be a valid ISO timestamp',
+        timestamp: new Date()
+      });
+    }
+
+    // A seed or start time requests a fresh, replayable run
+    if (seed !== undefined || startTime) {
+      simulator.stopSimulation();
+      simulator = createSimulator(seed, startTime);
+    }
+
+    simulator.startSimulation();
+    res.json({
+      success: true,
+      message: 'Simulation started',
+      seed: simulator.getSeed(),
+      start_time: simulator.getStartTime(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start simulation',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.post('/api/simulation/stop', (req, res) => {
+  try {
+    simulator.stopSimulation();
+    res.json({
+      success: true,
+      message: 'Simulation stopped',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to stop simulation',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Simulation tuning (noise, anomaly rate, quality spread, speed, sensor count)
+app.get('/api/simulation/config', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: simulator.getConfig(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch simulation config',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.put('/api/simulation/config', (req, res) => {
+  try {
+    const limits: Record<string, [number, number]> = {
+      noise_level: [0, 1],
+      anomaly_probability: [0, 1],
+      quality_variation: [0, 1],
+      simulation_speed: [0.1, 10000],
+      sensor_count: [1, MAX_SENSOR_COUNT]
+    };
+    const updates: Partial<SimulationConfig> = {};
+
+    for (const [key, value] of Object.entries(req.body || {})) {
+      const range = limits[key];
+      if (!range) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown config field: ${key}. Must be one of: ${Object.keys(limits).join(', ')}`,
+          timestamp: new Date()
+        });
+      }
+      if (typeof value !== 'number' || value < range[0] || value > range[1] ||
+          (key === 'sensor_count' && !Number.isInteger(value))) {
+        return res.status(400).json({
+          success: false,
+          error: `${key} must be a number between ${range[0]} and ${range[1]}`,
+          timestamp: new Date()
+        });
+      }
+      (updates as Record<string, number>)[key] = value;
+    }
+
+    // Keep the base config in step so seeded restarts use the same settings
+    Object.assign(simulationConfig, updates);
+
+    res.json({
+      success: true,
+      message: 'Simulation config updated',
+      data: simulator.updateConfig(updates),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update simulation config',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Process setpoints (feed rate, fuel mix, kiln temperature, fineness)
+app.get('/api/simulation/setpoints', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: simulator.getSetpoints(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch setpoints',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.put('/api/simulation/setpoints', (req, res) => {
+  try {
+    const limits: Record<string, [number, number]> = {
+      raw_meal_feed: [0, simulationConfig.plant_capacity * 1.55 * 1.2],
+      alternative_fuel_rate: [0, 80],
+      kiln_temperature: [1300, 1550],
+      cement_fineness: [250, 500]
+    };
+    const updates: Record<string, number> = {};
+
+    for (const [key, value] of Object.entries(req.body || {})) {
+      const range = limits[key];
+      if (!range) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown setpoint: ${key}. Must be one of: ${Object.keys(limits).join(', ')}`,
+          timestamp: new Date()
+        });
+      }
+      if (typeof value !== 'number' || value < range[0] || value > range[1]) {
+        return res.status(400).json({
+          success: false,
+          error: `${key} must be a number between ${range[0]} and ${range[1]}`,
+          timestamp: new Date()
+        });
+      }
+      updates[key] = value;
+    }
+
+    res.json({
+      success: true,
+      message: 'Setpoints updated',
+      data: simulator.setSetpoints(updates),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update setpoints',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Inject anomaly for testing
+app.post('/api/simulation/anomaly', (req, res) => {
+  try {
+    const { type, shape, magnitude, duration_seconds, equipment_id } = req.body;
+    const validTypes = ['temperature', 'power', 'quality', 'vibration'];
+    const validShapes = ['step', 'drift', 'spike', 'oscillation'];
+
+    if (!validTypes.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid anomaly type. Must be one of: temperature, power, quality, vibration',
+        timestamp: new Date()
+      });
+    }
+
+    if (shape !== undefined && !validShapes.includes(shape)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid anomaly shape. Must be one of: step, drift, spike, oscillation',
+        timestamp: new Date()
+      });
+    }
+
+    if ((magnitude !== undefined && typeof magnitude !== 'number') ||
+        (duration_seconds !== undefined && (typeof duration_seconds !== 'number' || duration_seconds <= 0))) {
+      return res.status(400).json({
+        success: false,
+        error: 'magnitude must be a number and duration_seconds a positive number',
+        timestamp: new Date()
+      });
+    }
+
+    if (equipment_id !== undefined && !PLANT_EQUIPMENT.some(eq => eq.id === equipment_id)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown equipment_id. Must be one of: ${PLANT_EQUIPMENT.map(eq => eq.id).join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    // Quality is a property of the cement leaving the cement mill, not of one asset
+    if (type === 'quality' && equipment_id !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Quality anomalies apply to the cement product and take no equipment_id',
+        timestamp: new Date()
+      });
+    }
+
+    const anomaly = simulator.injectAnomaly(type, { shape, magnitude, duration_seconds, equipment_id });
+    res.json({
+      success: true,
+      message: `${type} anomaly injected`,
+      data: anomaly,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to inject anomaly',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/simulation/anomalies', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: simulator.getActiveAnomalies(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch active anomalies',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.delete('/api/simulation/anomalies', (req, res) => {
+  try {
+    simulator.clearAnomalies();
+    res.json({
+      success: true,
+      message: 'Active anomalies cleared',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clear anomalies',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Generate timestamped history for a window ending at the current simulated time
+app.post('/api/simulation/backfill', (req, res) => {
+  try {
+    const { hours = 24, step_seconds = BACKFILL_STEP_SECONDS } = req.body || {};
+
+    if (dataSources.isRealDataActive()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Backfill is only available in simulation mode',
+        timestamp: new Date()
+      });
+    }
+
+    if (typeof hours !== 'number' || hours <= 0 || hours > MAX_BACKFILL_HOURS) {
+      return res.status(400).json({
+        success: false,
+        error: `hours must be a number greater than 0 and at most ${MAX_BACKFILL_HOURS}`,
+        timestamp: new Date()
+      });
+    }
+
+    if (typeof step_seconds !== 'number' || step_seconds < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'step_seconds must be a number of at least 1',
+        timestamp: new Date()
+      });
+    }
+
+    if (hours * 3600 / step_seconds > MAX_PROCESS_HISTORY) {
+      return res.status(400).json({
+        success: false,
+        error: `Backfill would generate more than ${MAX_PROCESS_HISTORY} points; increase step_seconds`,
+        timestamp: new Date()
+      });
+    }
+
+    const result = backfillSimulation(hours, step_seconds);
+    console.log(`⏪ Backfilled ${result.points} points from ${result.start.toISOString()} to ${result.end.toISOString()}`);
+
+    // Connected clients replace their trends with the new history
+    io.emit('process_history', sampleProcessHistory());
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to backfill simulation history',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/simulation/history', (req, res) => {
+  try {
+    const points = req.query.points ? parseInt(req.query.points as string) : CLIENT_HISTORY_POINTS;
+    res.json({
+      success: true,
+      data: sampleProcessHistory(Math.max(2, points || CLIENT_HISTORY_POINTS)),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch simulation history',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Conversation a chat message continues: `conversationId`, or a new one when omitted
+const resolveConversation = (conversationId: unknown): Conversation | string => {
+  if (conversationId === undefined || conversationId === null) {
+    return conversationStore.create();
+  }
+  const conversation = typeof conversationId === 'string' ? conversationStore.get(conversationId) : undefined;
+  return conversation || `Unknown conversation: ${conversationId}`;
+};
+
+// Prompt history for a conversation; turns that no longer fit the token budget
+// are folded into its summary first
+const conversationContext = async (conversation: Conversation): Promise<ConversationContext> => {
+  const selection = conversationStore.selectHistory(conversation.id, CONVERSATION_HISTORY_TOKENS);
+  if (selection.to_summarize.length === 0) {
+    return selection.context;
+  }
+  try {
+    const summary = await geminiService.summarizeConversation(conversation.summary, selection.to_summarize);
+    conversationStore.setSummary(conversation.id, summary, conversation.summarized_count + selection.to_summarize.length);
+    console.log(`🗜️ Summarized ${selection.to_summarize.length} earlier messages of conversation ${conversation.id}`);
+    return { summary, messages: selection.context.messages };
+  } catch (error) {
+    // The turns stay unsummarized and are retried on the next message
+    console.error('❌ Error summarizing conversation:', error);
+    return selection.context;
+  }
+};
+
+// A conversation whose first exchange failed is not kept
+const discardIfEmpty = (conversation: Conversation) => {
+  if (conversation.messages.length === 0) {
+    conversationStore.delete(conversation.id);
+  }
+};
+
+// AI Chat endpoint; `conversationId` continues an earlier conversation
+app.post('/api/ai/chat', async (req, res) => {
+  const { message, conversationId } = req.body;
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'message is required',
+      timestamp: new Date()
+    });
+  }
+  const conversation = resolveConversation(conversationId);
+  if (typeof conversation === 'string') {
+    return res.status(404).json({
+      success: false,
+      error: conversation,
+      timestamp: new Date()
+    });
+  }
+
+  try {
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📨 /api/ai/chat endpoint received request');
+    console.log('💬 Question received:', message);
+    console.log(`🧵 Conversation ${conversation.id} (${conversation.messages.length} earlier messages)`);
+    console.log('📊 Dashboard data available:', !!latestDashboardData);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    
+    const history = await conversationContext(conversation);
+    const response = await geminiService.chat(message, history, latestDashboardData);
+    conversationStore.append(conversation.id, 'user', message);
+    conversationStore.append(conversation.id, 'assistant', response.response);
+    
+    console.log('✅ Response generated, sending back to client');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    
+    res.json({
+      success: true,
+      data: { ...response, conversation_id: conversation.id },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('❌ Error in /api/ai/chat:', error);
+    discardIfEmpty(conversation);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process AI request',
+      timestamp: new Date()
+    });
+  }
+});
+
+// AI chat streamed as server-sent events: `conversation` names the conversation,
+// `token` events carry text as it is generated, then `done` the whole reply or
+// `error`. Closing the connection cancels generation; the partial reply is kept
+// in the transcript as stopped.
+app.post('/api/ai/chat/stream', async (req, res) => {
+  const { message, conversationId } = req.body;
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'message is required',
+      timestamp: new Date()
+    });
+  }
+  const conversation = resolveConversation(conversationId);
+  if (typeof conversation === 'string') {
+    return res.status(404).json({
+      success: false,
+      error: conversation,
+      timestamp: new Date()
+    });
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('⏹️ Chat stream cancelled by client');
+      controller.abort();
+    }
+  });
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  send('conversation', { id: conversation.id, title: conversation.title });
+
+  let partial = '';
+  try {
+    const history = await conversationContext(conversation);
+    const response = await geminiService.streamChat(
+      message,
+      history,
+      text => {
+        partial += text;
+        send('token', { text });
+      },
+      latestDashboardData,
+      controller.signal
+    );
+    conversationStore.append(conversation.id, 'user', message);
+    conversationStore.append(conversation.id, 'assistant', response.response);
+    send('done', { ...response, conversation_id: conversation.id });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      conversationStore.append(conversation.id, 'user', message);
+      conversationStore.append(conversation.id, 'assistant', partial, true);
+    } else {
+      console.error('❌ Error in /api/ai/chat/stream:', error);
+      discardIfEmpty(conversation);
+      send('error', { error: 'Failed to process AI request' });
+    }
+  }
+  res.end();
+});
+
+// Assistant conversations, most recently active first
+app.get('/api/ai/conversations', (req, res) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+    res.json({
+      success: true,
+      data: conversationStore.list(limit),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list conversations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Full transcript of a conversation, to resume it
+app.get('/api/ai/conversations/:id', (req, res) => {
+  try {
+    const conversation = conversationStore.get(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown conversation: ${req.params.id}`,
+        timestamp: new Date()
+      });
+    }
+    res.json({
+      success: true,
+      data: conversation,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversation',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.delete('/api/ai/conversations/:id', (req, res) => {
+  try {
+    if (!conversationStore.delete(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown conversation: ${req.params.id}`,
+        timestamp: new Date()
+      });
+    }
+    res.json({
+      success: true,
+      message: 'Conversation deleted',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete conversation',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Get AI optimization recommendations
+app.get('/api/ai/recommendations', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available',
+        timestamp: new Date()
+      });
+    }
+    
+    const recommendations = await geminiService.generateOptimizationRecommendations(latestDashboardData, thresholdStore.getLimits());
+    rememberRecommendations(recommendations.ai_recommendations);
+    firebaseService.storeAIRecommendations(recommendations.ai_recommendations || [], 'optimization', recommendations.response);
+    res.json({
+      success: true,
+      data: recommendations,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('AI recommendations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate recommendations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Explain a detected anomaly (`anomalyId`, or the most recent one)
+app.post('/api/ai/explain-anomaly', async (req, res) => {
+  try {
+    const { anomalyId } = req.body || {};
+    const anomaly = anomalyId ? anomalyDetector.getAnomaly(anomalyId) : anomalyDetector.getAnomalies('all', 1)[0];
+    if (!anomaly) {
+      return res.status(404).json({
+        success: false,
+        error: anomalyId ? 'Anomaly not found' : 'No anomalies detected yet',
+        timestamp: new Date()
+      });
+    }
+
+    const explanation = await geminiService.explainAnomaly(anomaly, latestDashboardData);
+    firebaseService.storeQualityAnalysis({
+      type: 'anomaly_explanation',
+      analysis: explanation,
+      anomaly
+    });
+    res.json({
+      success: true,
+      data: explanation,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Anomaly explanation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to explain anomaly',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Quality fluctuation detection endpoint
+app.post('/api/ai/quality-fluctuations', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available for analysis',
+        timestamp: new Date()
+      });
+    }
+
+    const analysis = await geminiService.detectQualityFluctuations(
+      latestDashboardData,
+      req.body.historicalData,
+      thresholdStore.getLimits()
+    );
+    
+    // Store analysis results to Firebase
+    firebaseService.storeQualityAnalysis({
+      type: 'quality_fluctuations',
+      analysis,
+      plant_data: latestDashboardData.plant_overview
+    }).catch(error => {
+      console.log('📝 Note: Firebase storage failed, continuing with analysis response');
+    });
+    
+    res.json({
+      success: true,
+      data: analysis,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Quality fluctuation analysis error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to analyze quality fluctuations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Quality trends analysis endpoint
+app.post('/api/ai/quality-trends', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available for analysis',
+        timestamp: new Date()
+      });
+    }
+
+    const { qualityHistory } = req.body;
+    const analysis = await geminiService.analyzeQualityTrends(
+      qualityHistory || [],
+      latestDashboardData
+    );
+    firebaseService.storeQualityAnalysis({
+      type: 'quality_trends',
+      analysis,
+      plant_data: latestDashboardData.plant_overview
+    });
+    res.json({
+      success: true,
+      data: analysis,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Quality trends analysis error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to analyze quality trends',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Proactive Quality Corrections endpoint
+app.post('/api/ai/proactive-quality-corrections', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available for analysis',
+        timestamp: new Date()
+      });
+    }
+
+    const { currentData, fluctuations, historicalTrends } = req.body;
+    
+    // Generate comprehensive quality correction recommendations using Gemini
+    const correctionAnalysis = await geminiService.generateProactiveCorrections(
+      currentData || latestDashboardData,
+      fluctuations || [],
+      historicalTrends || [],
+      thresholdStore.getLimits()
+    );
+    rememberRecommendations(correctionAnalysis.ai_recommendations);
+    
+    // Store the analysis results to Firebase for tracking
+    firebaseService.storeQualityAnalysis({
+      type: 'proactive_corrections',
+      analysis: correctionAnalysis,
+      plant_data: latestDashboardData.plant_overview,
+      fluctuations: fluctuations,
+      timestamp: new Date().toISOString()
+    }).catch(error => {
+      console.log('📝 Note: Firebase storage failed, continuing with analysis response');
+    });
+    
+    res.json({
+      success: true,
+      data: correctionAnalysis,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Proactive quality corrections error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate proactive quality corrections',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Input fluctuation monitoring endpoint
+app.post('/api/ai/input-fluctuations', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available for analysis',
+        timestamp: new Date()
+      });
+    }
+
+    const { parameters, grade, historicalData } = req.body;
+    
+    // Analyze input parameter fluctuations and stability
+    const fluctuationAnalysis = await geminiService.analyzeInputFluctuations(
+      parameters || latestDashboardData.current_parameters,
+      thresholdStore.getLimits(grade),
+      historicalData || []
+    );
+    firebaseService.storeQualityAnalysis({
+      type: 'input_fluctuations',
+      analysis: fluctuationAnalysis,
+      grade: grade || thresholdStore.getActiveGrade()
+    });
+    
+    res.json({
+      success: true,
+      data: fluctuationAnalysis,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Input fluctuation analysis error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to analyze input fluctuations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Real-time optimization endpoint
+app.post('/api/ai/real-time-optimization', async (req, res) => {
+  try {
+    if (!latestDashboardData) {
+      return res.status(400).json({
+        success: false,
+        error: 'No plant data available for optimization',
+        timestamp: new Date()
+      });
+    }
+
+    const { objective } = req.body;
+    const validObjectives = ['quality', 'energy', 'production', 'environment'];
+    
+    if (!objective || !validObjectives.includes(objective)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid objective. Must be one of: quality, energy, production, environment',
+        timestamp: new Date()
+      });
+    }
+
+    const optimization = await geminiService.generateRealTimeOptimization(
+      latestDashboardData,
+      objective,
+      thresholdStore.getLimits()
+    );
+    rememberRecommendations(optimization.ai_recommendations);
+    firebaseService.storeAIRecommendations(optimization.ai_recommendations || [], `real_time_optimization:${objective}`, optimization.response);
+    res.json({
+      success: true,
+      data: optimization,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Real-time optimization error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate optimization recommendations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Stored AI analyses, newest first
+app.get('/api/ai/analyses', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    res.json({
+      success: true,
+      data: await firebaseService.getQualityAnalyses(limit, type),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve stored analyses',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Stored AI recommendations, newest first
+app.get('/api/ai/recommendations/history', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+    res.json({
+      success: true,
+      data: await firebaseService.getAIRecommendations(limit),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve stored recommendations',
+      timestamp: new Date()
+    });
+  }
+});
+
+// System prompt management endpoints
+app.get('/api/ai/system-prompt', (req, res) => {
+  try {
+    const currentPrompt = geminiService.getCustomSystemPrompt();
+    
+    res.json({
+      success: true,
+      systemPrompt: currentPrompt,
+      isCustom: currentPrompt !== null,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Get system prompt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get system prompt',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.post('/api/ai/system-prompt', (req, res) => {
+  try {
+    const { systemPrompt } = req.body;
+    
+    if (!systemPrompt || typeof systemPrompt !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'System prompt is required and must be a string',
+        timestamp: new Date()
+      });
+    }
+
+    if (systemPrompt.trim().length < 10) {
+      return res.status(400).json({
+        success: false,
+        error: 'System prompt must be at least 10 characters long',
+        timestamp: new Date()
+      });
+    }
+
+    geminiService.setCustomSystemPrompt(systemPrompt.trim());
+    
+    res.json({
+      success: true,
+      message: 'Custom system prompt set successfully',
+      systemPrompt: systemPrompt.trim(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Set system prompt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set system prompt',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.delete('/api/ai/system-prompt', (req, res) => {
+  try {
+    geminiService.clearCustomSystemPrompt();
+    
+    res.json({
+      success: true,
+      message: 'Custom system prompt cleared, reverted to default',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Clear system prompt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clear system prompt',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Real data management endpoints
+
+// CSV text from a text/csv body or the `csv` field of a JSON body
+function uploadedCSV(body: any): string | null {
+  if (typeof body === 'string') {
+    return body;
+  }
+  return body && typeof body.csv === 'string' ? body.csv : null;
+}
+
+// Parse an upload and show how its columns would be mapped, without loading it
+app.post('/api/real-data/preview', (req, res) => {
+  try {
+    const csv = uploadedCSV(req.body);
+    if (!csv) {
+      return res.status(400).json({
+        success: false,
+        error: 'Send the CSV as a text/csv body or in the csv field',
+        timestamp: new Date()
+      });
+    }
+
+    const table = parseCSV(csv);
+    if (table.headers.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'CSV has no header row',
+        timestamp: new Date()
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        headers: table.headers,
+        rows: table.rows.slice(0, 10),
+        row_count: table.rows.length,
+        suggested_mapping: suggestMapping(table.headers),
+        fields: MAPPABLE_FIELDS
+      },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview CSV',
+      timestamp: new Date()
+    });
+  }
+});
+
+const MISSING_FIELD_POLICIES: MissingFieldPolicy[] = ['simulate', 'hold'];
+
+app.post('/api/real-data/load', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const csv = uploadedCSV(body);
+    const dataType = csv && !body.dataType ? 'csv' : body.dataType;
+
+    if (body.missingFields !== undefined && !MISSING_FIELD_POLICIES.includes(body.missingFields)) {
+      return res.status(400).json({
+        success: false,
+        error: `missingFields must be one of: ${MISSING_FIELD_POLICIES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    let loaded: DataSourceLoadResult;
+    if (dataType === 'sample') {
+      // Load sample real cement plant data
+      loaded = dataSources.loadSample();
+    } else if (dataType === 'csv' && csv) {
+      loaded = dataSources.loadCSV(typeof body.name === 'string' && body.name ? body.name : 'Uploaded CSV', csv, body.mapping);
+    } else if (dataType === 'file' && typeof body.source === 'string') {
+      loaded = await dataSources.loadFile(body.source, body.mapping);
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: 'Unsupported data type. Use "sample" for demo data, "csv" with a csv field or "file" with a source file name.',
+        timestamp: new Date()
+      });
+    }
+
+    if (loaded.error || !loaded.result || !loaded.source) {
+      return res.status(400).json({
+        success: false,
+        error: loaded.error,
+        data: loaded.result ? { ...loaded.result, records: undefined } : undefined,
+        timestamp: new Date()
+      });
+    }
+    if (body.missingFields) {
+      dataSources.setMissingFieldPolicy(body.missingFields);
+    }
+
+    res.json({
+      success: true,
+      message: `Loaded ${loaded.source.record_count} real data records`,
+      dataType,
+      recordCount: loaded.source.record_count,
+      data: {
+        source: loaded.source,
+        row_count: loaded.result.row_count,
+        rejected_rows: loaded.result.rejected_rows,
+        issues: loaded.result.issues,
+        columns: loaded.result.columns,
+        mapping: loaded.mapping,
+        missing_fields: dataSources.getMissingFieldPolicy()
+      },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('❌ Error loading real data:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load real data',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.post('/api/real-data/toggle', (req, res) => {
+  try {
+    const realDataEnabled = dataSources.toggle();
+    
+    res.json({
+      success: true,
+      message: realDataEnabled ? 'Real data mode enabled' : 'Simulation mode enabled',
+      realDataEnabled,
+      currentDataSource: dataSources.getActiveSource().name,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to toggle data mode',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/real-data/status', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: dataSources.getStatus(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get real data status',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/real-data/sources', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        sources: dataSources.getSources(),
+        missing_fields: dataSources.getMissingFieldPolicy()
+      },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get data sources',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Select the source broadcastData reads from and how it fills unmapped fields
+app.put('/api/real-data/source', (req, res) => {
+  try {
+    const { source, missing_fields } = req.body || {};
+
+    if (missing_fields !== undefined && !MISSING_FIELD_POLICIES.includes(missing_fields)) {
+      return res.status(400).json({
+        success: false,
+        error: `missing_fields must be one of: ${MISSING_FIELD_POLICIES.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+    if (source !== undefined && !dataSources.selectSource(source)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown data source: ${source}`,
+        timestamp: new Date()
+      });
+    }
+    if (missing_fields !== undefined) {
+      dataSources.setMissingFieldPolicy(missing_fields);
+    }
+
+    res.json({
+      success: true,
+      data: dataSources.getStatus(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to select data source',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Put the record under the replay cursor on air right away, so a seek or step
+// shows up without waiting for the next broadcast tick
+const publishReplayFrame = () => {
+  publishDashboard(dataSources.nextDashboard(0));
+};
+
+// Replay transport: play, pause, step and seek move through the active dataset by record time
+const controlReplay = (action: 'play' | 'pause' | 'step' | 'seek') => (req: express.Request, res: express.Response) => {
+  try {
+    if (!dataSources.isReplayActive()) {
+      return res.status(409).json({
+        success: false,
+        error: 'Replay is only available for a real data source',
+        timestamp: new Date()
+      });
+    }
+
+    const body = req.body || {};
+    if (action === 'play') {
+      dataSources.play();
+    } else if (action === 'pause') {
+      dataSources.pause();
+    } else if (action === 'step') {
+      const steps = body.steps ?? 1;
+      if (!Number.isInteger(steps) || steps === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'steps must be a non-zero integer',
+          timestamp: new Date()
+        });
+      }
+      dataSources.step(steps);
+    } else {
+      let target: Date | number;
+      if (body.timestamp !== undefined) {
+        target = new Date(body.timestamp);
+        if (isNaN(target.getTime())) {
+          return res.status(400).json({
+            success: false,
+            error: 'timestamp must be a valid ISO timestamp',
+            timestamp: new Date()
+          });
+        }
+      } else if (body.index !== undefined) {
+        if (!Number.isInteger(body.index)) {
+          return res.status(400).json({
+            success: false,
+            error: 'index must be an integer',
+            timestamp: new Date()
+          });
+        }
+        target = body.index;
+      } else {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide a timestamp or a record index to seek to',
+          timestamp: new Date()
+        });
+      }
+      const seekError = dataSources.seek(target);
+      if (seekError) {
+        return res.status(400).json({
+          success: false,
+          error: seekError,
+          timestamp: new Date()
+        });
+      }
+    }
+
+    // Play and pause leave the cursor where it is, so there is no new record to publish
+    if (action === 'step' || action === 'seek') {
+      publishReplayFrame();
+    } else {
+      io.emit('replay_state', dataSources.getReplayState());
+    }
+    res.json({
+      success: true,
+      data: dataSources.getReplayState(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${action} replay`,
+      timestamp: new Date()
+    });
+  }
+};
+
+app.get('/api/real-data/replay', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: dataSources.getReplayState(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get replay state',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.post('/api/real-data/replay/play', controlReplay('play'));
+app.post('/api/real-data/replay/pause', controlReplay('pause'));
+app.post('/api/real-data/replay/step', controlReplay('step'));
+app.post('/api/real-data/replay/seek', controlReplay('seek'));
+
+// Playback speed (record time per broadcast time) and looping
+app.put('/api/real-data/replay', (req, res) => {
+  try {
+    const { speed, loop } = req.body || {};
+
+    if (speed !== undefined && (typeof speed !== 'number' || speed < MIN_REPLAY_SPEED || speed > MAX_REPLAY_SPEED)) {
+      return res.status(400).json({
+        success: false,
+        error: `speed must be a number between ${MIN_REPLAY_SPEED} and ${MAX_REPLAY_SPEED}`,
+        timestamp: new Date()
+      });
+    }
+    if (loop !== undefined && typeof loop !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'loop must be a boolean',
+        timestamp: new Date()
+      });
+    }
+
+    if (speed !== undefined) {
+      dataSources.setSpeed(speed);
+    }
+    if (loop !== undefined) {
+      dataSources.setLoop(loop);
+    }
+    io.emit('replay_state', dataSources.getReplayState());
+
+    res.json({
+      success: true,
+      data: dataSources.getReplayState(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update replay settings',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/mqtt/tags', (req, res) => {
+  try {
+    if (!mqttSource) {
+      return res.status(404).json({
+        success: false,
+        error: 'MQTT ingest is not configured (set MQTT_URL)',
+        timestamp: new Date()
+      });
+    }
+    res.json({
+      success: true,
+      data: mqttSource.getTagStates(),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get MQTT tags',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/opcua/browse', async (req, res) => {
+  try {
+    if (!opcuaSource) {
+      return res.status(404).json({
+        success: false,
+        error: 'OPC UA ingest is not configured (set OPCUA_ENDPOINT)',
+        timestamp: new Date()
+      });
+    }
+    const nodeId = typeof req.query.node_id === 'string' && req.query.node_id ? req.query.node_id : 'ObjectsFolder';
+    if (!opcuaSource.getHealth().connected) {
+      return res.status(409).json({
+        success: false,
+        error: 'Not connected to the OPC UA server',
+        timestamp: new Date()
+      });
+    }
+    res.json({
+      success: true,
+      data: {
+        node_id: nodeId,
+        children: await opcuaSource.browse(nodeId)
+      },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('OPC UA browse error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to browse OPC UA node',
+      timestamp: new Date()
+    });
+  }
+});
+
+app.get('/api/opcua/mapping', (req, res) => {
+  try {
+    if (!opcuaSource) {
+      return res.status(404).json({
+        success: false,
+        error: 'OPC UA ingest is not configured (set OPCUA_ENDPOINT)',
+        timestamp: new Date()
+      });
+    }
+    res.json({
+      success: true,
+      data: {
+        tags: opcuaSource.getMapping(),
+        fields: MAPPABLE_FIELDS
+      },
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get OPC UA mapping',
       timestamp: new Date()
     });
   }
 });
 
-// Inject anomaly for testing
-app.post('/api/simulation/anomaly', (req, res) => {
+app.put('/api/opcua/mapping', async (req, res) => {
   try {
-    const { type } = req.body;
-    simulator.injectAnomaly(type);
+    if (!opcuaSource) {
+      return res.status(404).json({
+        success: false,
+        error: 'OPC UA ingest is not configured (set OPCUA_ENDPOINT)',
+        timestamp: new Date()
+      });
+    }
+    const tags: OpcUaTag[] = req.body?.tags;
+    if (!Array.isArray(tags)) {
+      return res.status(400).json({
+        success: false,
+        error: 'tags must be an array of { node_id, sensor_id?, field?, unit?, scale?, offset? }',
+        timestamp: new Date()
+      });
+    }
+    const error = await opcuaSource.setMapping(tags);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error,
+        timestamp: new Date()
+      });
+    }
+    console.log(`📥 OPC UA mapping updated: ${tags.length} nodes`);
     res.json({
       success: true,
-      message: `${type} anomaly injected`,
+      data: {
+        tags: opcuaSource.getMapping(),
+        fields: MAPPABLE_FIELDS
+      },
       timestamp: new Date()
     });
   } catch (error) {
+    console.error('OPC UA mapping error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to inject anomaly',
+      error: 'Failed to update OPC UA mapping',
       timestamp: new Date()
     });
   }
 });
 
-// AI Chat endpoint using Gemini
-app.post('/api/ai/chat', async (req, res) => {
+app.get('/api/opcua/tags', (req, res) => {
   try {
-    const { message } = req.body;
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('📨 /api/ai/chat endpoint received request');
-    console.log('💬 Question received:', message);
-    console.log('📊 Dashboard data available:', !!latestDashboardData);
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    
-    const response = await geminiService.askGemini(message, latestDashboardData);
-    
-    console.log('✅ Response generated, sending back to client');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    
+    if (!opcuaSource) {
+      return res.status(404).json({
+        success: false,
+        error: 'OPC UA ingest is not configured (set OPCUA_ENDPOINT)',
+        timestamp: new Date()
+      });
+    }
     res.json({
       success: true,
-      data: response,
+      data: opcuaSource.getTagStates(),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('❌ Error in /api/ai/chat:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to process AI request',
+      error: 'Failed to get OPC UA tags',
       timestamp: new Date()
     });
   }
 });
 
-// Get AI optimization recommendations
-app.get('/api/ai/recommendations', async (req, res) => {
+app.get('/api/modbus/registers', (req, res) => {
   try {
-    if (!latestDashboardData) {
-      return res.status(400).json({
+    if (!modbusSource) {
+      return res.status(404).json({
         success: false,
-        error: 'No plant data available',
+        error: 'Modbus polling is not configured (set MODBUS_MAP_FILE)',
         timestamp: new Date()
       });
     }
-    
-    const recommendations = await geminiService.generateOptimizationRecommendations(latestDashboardData);
     res.json({
       success: true,
-      data: recommendations,
+      data: modbusSource.getRegisterStates(),
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to generate recommendations',
+      error: 'Failed to get Modbus registers',
       timestamp: new Date()
     });
   }
 });
 
-// Explain anomaly endpoint
-app.post('/api/ai/explain-anomaly', async (req, res) => {
+// Data-quality verdicts of the latest snapshot and the checker's settings
+app.get('/api/data-quality', (req, res) => {
   try {
-    const { anomalyType, currentValue, normalRange } = req.body;
-    const explanation = await geminiService.explainAnomaly(
-      anomalyType,
-      currentValue,
-      normalRange,
-      latestDashboardData
-    );
     res.json({
       success: true,
-      data: explanation,
+      data: {
+        summary: sensorQuality.getSummary(),
+        config: sensorQuality.getConfig()
+      },
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to explain anomaly',
+      error: 'Failed to get data quality',
       timestamp: new Date()
     });
   }
 });
 
-// Quality fluctuation detection endpoint
-app.post('/api/ai/quality-fluctuations', async (req, res) => {
+// Per-channel sensor health: reading counts by quality code and flag, last good value
+app.get('/api/data-quality/sensors', (req, res) => {
   try {
-    if (!latestDashboardData) {
+    const kind = req.query.kind as string | undefined;
+    if (kind !== undefined && kind !== 'sensor' && kind !== 'field') {
       return res.status(400).json({
         success: false,
-        error: 'No plant data available for analysis',
+        error: 'kind must be sensor or field',
         timestamp: new Date()
       });
     }
 
-    const analysis = await geminiService.detectQualityFluctuations(
-      latestDashboardData,
-      req.body.historicalData
-    );
-    
-    // Store analysis results to Firebase
-    firebaseService.storeQualityAnalysis({
-      type: 'quality_fluctuations',
-      analysis,
-      plant_data: latestDashboardData.plant_overview
-    }).catch(error => {
-      console.log('📝 Note: Firebase storage failed, continuing with analysis response');
-    });
-    
+    const onlyIssues = req.query.issues === 'true';
+    const channels = sensorQuality.getChannelHealth(kind)
+      .filter(channel => !onlyIssues || channel.good < channel.readings);
     res.json({
       success: true,
-      data: analysis,
+      data: channels,
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Quality fluctuation analysis error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to analyze quality fluctuations',
+      error: 'Failed to get sensor health',
       timestamp: new Date()
     });
   }
 });
 
-// Quality trends analysis endpoint
-app.post('/api/ai/quality-trends', async (req, res) => {
+app.put('/api/data-quality', (req, res) => {
   try {
-    if (!latestDashboardData) {
+    const { substitute } = req.body || {};
+    if (typeof substitute !== 'boolean') {
       return res.status(400).json({
         success: false,
-        error: 'No plant data available for analysis',
+        error: 'substitute must be a boolean',
         timestamp: new Date()
       });
     }
 
-    const { qualityHistory } = req.body;
-    const analysis = await geminiService.analyzeQualityTrends(
-      qualityHistory || [],
-      latestDashboardData
-    );
+    sensorQuality.setSubstitution(substitute);
     res.json({
       success: true,
-      data: analysis,
+      data: sensorQuality.getConfig(),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Quality trends analysis error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to analyze quality trends',
+      error: 'Failed to update data quality settings',
       timestamp: new Date()
     });
   }
 });
 
-// Proactive Quality Corrections endpoint
-app.post('/api/ai/proactive-quality-corrections', async (req, res) => {
+// Soft sensors: model status with the latest estimates
+app.get('/api/soft-sensors', (req, res) => {
   try {
-    if (!latestDashboardData) {
-      return res.status(400).json({
-        success: false,
-        error: 'No plant data available for analysis',
-        timestamp: new Date()
-      });
-    }
-
-    const { currentData, fluctuations, historicalTrends } = req.body;
-    
-    // Generate comprehensive quality correction recommendations using Gemini
-    const correctionAnalysis = await geminiService.generateProactiveCorrections(
-      currentData || latestDashboardData,
-      fluctuations || [],
-      historicalTrends || []
-    );
-    
-    // Store the analysis results to Firebase for tracking
-    firebaseService.storeQualityAnalysis({
-      type: 'proactive_corrections',
-      analysis: correctionAnalysis,
-      plant_data: latestDashboardData.plant_overview,
-      fluctuations: fluctuations,
-      timestamp: new Date().toISOString()
-    }).catch(error => {
-      console.log('📝 Note: Firebase storage failed, continuing with analysis response');
-    });
-    
     res.json({
       success: true,
-      data: correctionAnalysis,
+      data: {
+        sensors: softSensors.getStatus(),
+        estimates: latestDashboardData?.soft_sensors || []
+      },
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Proactive quality corrections error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to generate proactive quality corrections',
+      error: 'Failed to get soft sensors',
       timestamp: new Date()
     });
   }
 });
 
-// Input fluctuation monitoring endpoint
-app.post('/api/ai/input-fluctuations', async (req, res) => {
+app.post('/api/soft-sensors/train', (req, res) => {
   try {
-    if (!latestDashboardData) {
-      return res.status(400).json({
-        success: false,
-        error: 'No plant data available for analysis',
-        timestamp: new Date()
-      });
-    }
-
-    const { parameters, thresholds, historicalData } = req.body;
-    
-    // Analyze input parameter fluctuations and stability
-    const fluctuationAnalysis = await geminiService.analyzeInputFluctuations(
-      parameters || latestDashboardData.current_parameters,
-      thresholds || {},
-      historicalData || []
-    );
-    
     res.json({
       success: true,
-      data: fluctuationAnalysis,
+      data: softSensors.train(),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Input fluctuation analysis error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to analyze input fluctuations',
+      error: 'Failed to train soft sensors',
       timestamp: new Date()
     });
   }
 });
 
-// Real-time optimization endpoint
-app.post('/api/ai/real-time-optimization', async (req, res) => {
+// Lab results entered by hand, e.g. `{ "timestamp": "...", "free_lime": 1.4 }`
+app.post('/api/soft-sensors/lab-samples', (req, res) => {
   try {
-    if (!latestDashboardData) {
+    const body = req.body || {};
+    const timestamp = body.timestamp ? new Date(body.timestamp) : simulationClock.now();
+    if (isNaN(timestamp.getTime())) {
       return res.status(400).json({
         success: false,
-        error: 'No plant data available for optimization',
+        error: 'timestamp must be a valid ISO timestamp',
         timestamp: new Date()
       });
     }
 
-    const { objective } = req.body;
-    const validObjectives = ['quality', 'energy', 'production', 'environment'];
-    
-    if (!objective || !validObjectives.includes(objective)) {
+    const values: Partial<Record<SoftSensorTarget, number>> = {};
+    for (const target of SOFT_SENSOR_TARGETS) {
+      if (body[target] === undefined) {
+        continue;
+      }
+      if (typeof body[target] !== 'number' || !isFinite(body[target])) {
+        return res.status(400).json({
+          success: false,
+          error: `${target} must be a number`,
+          timestamp: new Date()
+        });
+      }
+      values[target] = body[target];
+    }
+    if (Object.keys(values).length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid objective. Must be one of: quality, energy, production, environment',
+        error: `A lab sample needs at least one of ${SOFT_SENSOR_TARGETS.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    const error = softSensors.recordLabSample({ timestamp, values });
+    if (error) {
+      return res.status(409).json({
+        success: false,
+        error,
         timestamp: new Date()
       });
     }
 
-    const optimization = await geminiService.generateRealTimeOptimization(
-      latestDashboardData,
-      objective
-    );
     res.json({
       success: true,
-      data: optimization,
+      data: softSensors.getStatus().filter(sensor => sensor.target in values),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Real-time optimization error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to generate optimization recommendations',
+      error: 'Failed to record lab sample',
       timestamp: new Date()
     });
   }
 });
 
-// System prompt management endpoints
-app.get('/api/ai/system-prompt', (req, res) => {
+app.get('/api/soft-sensors/:target/history', (req, res) => {
   try {
-    const currentPrompt = geminiService.getCustomSystemPrompt();
-    
+    const target = req.params.target as SoftSensorTarget;
+    if (!SOFT_SENSOR_TARGETS.includes(target)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown soft sensor: ${target}. Available: ${SOFT_SENSOR_TARGETS.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    const hours = req.query.hours ? parseFloat(req.query.hours as string) : 24;
+    if (!(hours > 0) || hours > MAX_BACKFILL_HOURS) {
+      return res.status(400).json({
+        success: false,
+        error: `hours must be a number greater than 0 and at most ${MAX_BACKFILL_HOURS}`,
+        timestamp: new Date()
+      });
+    }
+
     res.json({
       success: true,
-      systemPrompt: currentPrompt,
-      isCustom: currentPrompt !== null,
+      data: softSensors.getHistory(target, hours),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Get system prompt error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get system prompt',
+      error: 'Failed to get soft sensor history',
       timestamp: new Date()
     });
   }
 });
 
-app.post('/api/ai/system-prompt', (req, res) => {
+// Specific energy forecast for the next `horizon` hours (1-24), attributed to its drivers
+app.get('/api/predictions/energy', (req, res) => {
   try {
-    const { systemPrompt } = req.body;
-    
-    if (!systemPrompt || typeof systemPrompt !== 'string') {
+    const horizon = req.query.horizon ? Number(req.query.horizon) : MAX_FORECAST_HORIZON_HOURS;
+    if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_FORECAST_HORIZON_HOURS) {
       return res.status(400).json({
         success: false,
-        error: 'System prompt is required and must be a string',
+        error: `horizon must be a whole number of hours between 1 and ${MAX_FORECAST_HORIZON_HOURS}`,
         timestamp: new Date()
       });
     }
 
-    if (systemPrompt.trim().length < 10) {
+    const forecast = energyForecaster.forecast(horizon);
+    if (typeof forecast === 'string') {
+      return res.status(409).json({
+        success: false,
+        error: forecast,
+        timestamp: new Date()
+      });
+    }
+
+    res.json({
+      success: true,
+      data: forecast,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to forecast energy consumption',
+      timestamp: new Date()
+    });
+  }
+});
+
+// Anomalies found by the multivariate detector (status=active|ended|all), newest first
+app.get('/api/anomalies', (req, res) => {
+  try {
+    const status = (req.query.status as AnomalyStatusFilter) || 'all';
+    if (!['active', 'ended', 'all'].includes(status)) {
       return res.status(400).json({
         success: false,
-        error: 'System prompt must be at least 10 characters long',
+        error: 'status must be one of: active, ended, all',
         timestamp: new Date()
       });
     }
 
-    geminiService.setCustomSystemPrompt(systemPrompt.trim());
-    
     res.json({
       success: true,
-      message: 'Custom system prompt set successfully',
-      systemPrompt: systemPrompt.trim(),
+      data: anomalyDetector.getAnomalies(status, req.query.limit ? parseInt(req.query.limit as string) : undefined),
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Set system prompt error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to set system prompt',
+      error: 'Failed to fetch anomalies',
       timestamp: new Date()
     });
   }
 });
 
-app.delete('/api/ai/system-prompt', (req, res) => {
+// Learned normal behavior and the score of the latest snapshot
+app.get('/api/anomalies/model', (req, res) => {
   try {
-    geminiService.clearCustomSystemPrompt();
-    
     res.json({
       success: true,
-      message: 'Custom system prompt cleared, reverted to default',
+      data: {
+        ...anomalyDetector.getStatus(),
+        current: latestDashboardData ? anomalyDetector.score(latestDashboardData.current_parameters) : null
+      },
       timestamp: new Date()
     });
   } catch (error) {
-    console.error('Clear system prompt error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to clear system prompt',
+      error: 'Failed to get anomaly model',
       timestamp: new Date()
     });
   }
 });
 
-// Real data management endpoints
-app.post('/api/real-data/load', async (req, res) => {
+// Relearn normal behavior from the stored process history
+app.post('/api/anomalies/train', (req, res) => {
   try {
-    const { dataType, source } = req.body;
-    
-    if (dataType === 'sample') {
-      // Load sample real cement plant data
-      realDataSource = await loadSampleRealData();
-      realDataEnabled = true;
-      realDataIndex = 0;
-      
-      res.json({
-        success: true,
-        message: `Loaded ${realDataSource.length} real data records`,
-        dataType: 'sample',
-        recordCount: realDataSource.length,
-        timestamp: new Date()
-      });
-    } else {
-      res.status(400).json({
+    const result = anomalyDetector.train();
+    if (!result.trained) {
+      return res.status(409).json({
         success: false,
-        error: 'Unsupported data type. Use "sample" for demo data.',
+        error: result.error,
         timestamp: new Date()
       });
     }
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date()
+    });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to load real data',
+      error: 'Failed to train anomaly detector',
       timestamp: new Date()
     });
   }
 });
 
-app.post('/api/real-data/toggle', (req, res) => {
+// Forecast for the next quality sample, with the model it came from
+app.get('/api/predictions/quality', (req, res) => {
   try {
-    realDataEnabled = !realDataEnabled;
-    
     res.json({
       success: true,
-      message: realDataEnabled ? 'Real data mode enabled' : 'Simulation mode enabled',
-      realDataEnabled,
-      currentDataSource: realDataEnabled ? 'Real plant data' : 'Simulated data',
+      data: {
+        model: qualityPredictor.getStatus(),
+        prediction: latestDashboardData?.quality_prediction || null
+      },
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to toggle data mode',
+      error: 'Failed to get quality prediction',
       timestamp: new Date()
     });
   }
 });
 
-app.get('/api/real-data/status', (req, res) => {
+// Refit the quality predictor on the stored history
+app.post('/api/predictions/quality/train', (req, res) => {
   try {
+    const result = qualityPredictor.train();
+    if (!result.trained) {
+      return res.status(409).json({
+        success: false,
+        error: result.error,
+        timestamp: new Date()
+      });
+    }
+
     res.json({
       success: true,
-      data: {
-        realDataEnabled,
-        recordCount: realDataSource.length,
-        currentIndex: realDataIndex,
-        dataSource: realDataEnabled ? 'Real plant data' : 'Simulated data',
-        nextRecord: realDataEnabled && realDataSource.length > 0 
-          ? realDataSource[realDataIndex % realDataSource.length] 
-          : null
-      },
+      data: result,
       timestamp: new Date()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: 'Failed to get real data status',
+      error: 'Failed to train quality predictor',
       timestamp: new Date()
     });
   }
 });
+
 // Firebase integration test endpoint
 app.get('/api/firebase/test', async (req, res) => {
   try {
@@ -1002,9 +2846,50 @@ const startServerWithRetry = (port: number, maxRetries: number = 5): Promise<voi
         
         // Start simulation and data broadcasting
         simulator.startSimulation();
+
+        // Configured plant feeds become live sources and the last one listed is selected
+        // (MQTT over OPC UA over Modbus); the others fill in the values it lacks, and
+        // fields no feed measures follow the missing-field policy
+        [modbusSource, opcuaSource, mqttSource].forEach(source => {
+          if (source) {
+            dataSources.registerLiveSource(source);
+            dataSources.selectSource(source.id);
+            source.connect();
+          }
+        });
+
+        // Trim expired history now and hourly, and restore recent trends from the store
+        historyStore.enforceRetention();
+        firebaseService.pruneHistory(FIREBASE_HISTORY_DAYS);
+        setInterval(() => {
+          historyStore.enforceRetention();
+          firebaseService.pruneHistory(FIREBASE_HISTORY_DAYS);
+        }, 3600000);
+        restoreProcessHistory();
+
+        // Serve the last persisted snapshot until the first broadcast replaces it
+        firebaseService.getDashboardData().then(data => {
+          if (data && !latestDashboardData) {
+            latestDashboardData = data;
+          }
+        });
+
+        const backfillHours = parseFloat(process.env.SIMULATION_BACKFILL_HOURS || '0');
+        if (backfillHours > 0) {
+          const result = backfillSimulation(Math.min(backfillHours, MAX_BACKFILL_HOURS), BACKFILL_STEP_SECONDS);
+          console.log(`⏪ Backfilled ${result.points} points of simulated history`);
+        }
+
+        // Fit the soft sensors, the quality predictor and the anomaly detector on the stored history now and again every retrain period
+        softSensors.train();
+        setInterval(() => softSensors.train(), parseFloat(process.env.SOFT_SENSOR_RETRAIN_HOURS || '24') * 3600000);
+        qualityPredictor.train();
+        setInterval(() => qualityPredictor.train(), parseFloat(process.env.QUALITY_PREDICTION_RETRAIN_HOURS || '24') * 3600000);
+        anomalyDetector.train();
+        setInterval(() => anomalyDetector.train(), parseFloat(process.env.ANOMALY_RETRAIN_HOURS || '24') * 3600000);
         
         // Broadcast data every 5 seconds
-        setInterval(broadcastData, parseInt(process.env.SIMULATION_INTERVAL || '5000'));
+        setInterval(broadcastData, SIMULATION_INTERVAL);
         
         console.log('Real-time data simulation started');
         resolve();
@@ -1041,6 +2926,7 @@ process.on('unhandledRejection', (reason, promise) => {
 
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  softSensors.flush();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -1049,6 +2935,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  softSensors.flush();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
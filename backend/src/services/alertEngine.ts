@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, DashboardData } from '../data/models';
+import { AlertRule, DEFAULT_ALERT_RULES } from './alertRules';
+import { ThresholdStore } from './thresholdStore';
+
+export type AlertStatusFilter = 'open' | 'unacknowledged' | 'acknowledged' | 'resolved' | 'all';
+
+export interface AlertQuery {
+  status?: AlertStatusFilter;
+  severity?: Alert['severity'];
+  equipment_id?: string;
+  limit?: number;
+}
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+// Resolved alerts kept for the history view and the persisted file
+const MAX_RESOLVED_ALERTS = 500;
+
+/**
+ * Raises alerts from rule evaluation and tracks them until an operator
+ * resolves them. A rule firing again for the same asset folds into the open
+ * alert instead of raising a duplicate. Emits `alert_raised` for new alerts
+ * and `alert_updated` for any lifecycle change.
+ */
+export class AlertEngine extends EventEmitter {
+  private getRules: () => AlertRule[];
+  private alerts: Alert[] = [];
+  private storagePath: string | null;
+
+  // Rules are fetched per evaluation so edits to configurable limits apply immediately
+  constructor(getRules: () => AlertRule[] = () => DEFAULT_ALERT_RULES, storagePath: string | null = null) {
+    super();
+    this.getRules = getRules;
+    this.storagePath = storagePath;
+    this.load();
+  }
+
+  /**
+   * Evaluate every rule against a dashboard snapshot
+   */
+  evaluate(data: DashboardData): void {
+    const timestamp = new Date(data.plant_overview.timestamp);
+    const firing = new Set<string>();
+    let changed = false;
+
+    for (const rule of this.getRules()) {
+      for (const condition of rule.evaluate(data)) {
+        const key = this.dedupKey(rule.id, condition.equipment_id);
+        firing.add(key);
+        const open = this.findOpen(key);
+
+        if (!open) {
+          const alert: Alert = {
+            id: uuidv4(),
+            timestamp,
+            severity: condition.severity,
+            type: rule.type,
+            message: condition.message,
+            acknowledged: false,
+            resolved: false,
+            equipment_id: condition.equipment_id,
+            rule_id: rule.id,
+            value: condition.value,
+            last_seen: timestamp,
+            occurrences: 1
+          };
+          this.alerts.push(alert);
+          changed = true;
+          console.log(`🚨 Alert raised [${alert.severity}]: ${alert.message}`);
+          this.emit('alert_raised', alert);
+          continue;
+        }
+
+        open.last_seen = timestamp;
+        open.occurrences = (open.occurrences || 0) + 1;
+        open.value = condition.value;
+
+        // Escalate or re-open; a lower severity keeps the worst seen so far
+        const escalated = SEVERITY_RANK[condition.severity] > SEVERITY_RANK[open.severity];
+        if (escalated || open.cleared_at) {
+          if (escalated) {
+            open.severity = condition.severity;
+            open.message = condition.message;
+          }
+          delete open.cleared_at;
+          changed = true;
+          this.emit('alert_updated', open);
+        }
+      }
+    }
+
+    // Conditions that went away stay open until resolved, but are marked as cleared
+    for (const alert of this.alerts) {
+      if (!alert.resolved && !alert.cleared_at && !firing.has(this.dedupKey(alert.rule_id, alert.equipment_id))) {
+        alert.cleared_at = timestamp;
+        changed = true;
+        this.emit('alert_updated', alert);
+      }
+    }
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  getAlerts(query: AlertQuery = {}): Alert[] {
+    const { status = 'open', severity, equipment_id, limit } = query;
+    const matches = this.alerts
+      .filter(alert => {
+        switch (status) {
+          case 'open':
+            return !alert.resolved;
+          case 'unacknowledged':
+            return !alert.resolved && !alert.acknowledged;
+          case 'acknowledged':
+            return !alert.resolved && alert.acknowledged;
+          case 'resolved':
+            return alert.resolved;
+          default:
+            return true;
+        }
+      })
+      .filter(alert => !severity || alert.severity === severity)
+      .filter(alert => !equipment_id || alert.equipment_id === equipment_id)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  getActiveAlerts(): Alert[] {
+    return this.getAlerts({ status: 'open' });
+  }
+
+  getAlert(id: string): Alert | undefined {
+    return this.alerts.find(alert => alert.id === id);
+  }
+
+  acknowledge(id: string, user: string): Alert | undefined {
+    const alert = this.getAlert(id);
+    if (!alert || alert.resolved || alert.acknowledged) {
+      return alert;
+    }
+
+    alert.acknowledged = true;
+    alert.acknowledged_by = user;
+    alert.acknowledged_at = new Date();
+    this.save();
+    this.emit('alert_updated', alert);
+    return alert;
+  }
+
+  /**
+   * Close an alert. If its condition still holds the next evaluation raises a new one.
+   */
+  resolve(id: string, user: string): Alert | undefined {
+    const alert = this.getAlert(id);
+    if (!alert || alert.resolved) {
+      return alert;
+    }
+
+    alert.resolved = true;
+    alert.resolved_by = user;
+    alert.resolved_at = new Date();
+    this.pruneResolved();
+    this.save();
+    this.emit('alert_updated', alert);
+    return alert;
+  }
+
+  private dedupKey(ruleId: string | undefined, equipmentId: string | undefined): string {
+    return `${ruleId}:${equipmentId || 'plant'}`;
+  }
+
+  private findOpen(key: string): Alert | undefined {
+    return this.alerts.find(alert => !alert.resolved && this.dedupKey(alert.rule_id, alert.equipment_id) === key);
+  }
+
+  private pruneResolved(): void {
+    const resolved = this.alerts.filter(alert => alert.resolved);
+    if (resolved.length > MAX_RESOLVED_ALERTS) {
+      const dropped = new Set(resolved.slice(0, resolved.length - MAX_RESOLVED_ALERTS));
+      this.alerts = this.alerts.filter(alert => !dropped.has(alert));
+    }
+  }
+
+  private load(): void {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+      return;
+    }
+    try {
+      this.alerts = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8'));
+      console.log(`📂 Loaded ${this.alerts.length} alerts from ${this.storagePath}`);
+    } catch (error) {
+      console.error('❌ Error loading persisted alerts:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.storagePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+      fs.writeFileSync(this.storagePath, JSON.stringify(this.alerts, null, 2));
+    } catch (error) {
+      console.error('❌ Error persisting alerts:', error);
+    }
+  }
+}
+
+export function createAlertEngine(thresholdStore: ThresholdStore): AlertEngine {
+  return new AlertEngine(
+    () => [...DEFAULT_ALERT_RULES, ...thresholdStore.getAlertRules()],
+    process.env.ALERTS_FILE || path.join('data', 'alerts.json')
+  );
+}
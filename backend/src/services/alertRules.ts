@@ -0,0 +1,97 @@
+import { Alert, DashboardData } from '../data/models';
+
+// A rule violation found in one snapshot; equipment-scoped rules return one per asset
+export interface AlertCondition {
+  severity: Alert['severity'];
+  message: string;
+  value?: number;
+  equipment_id?: string;
+}
+
+export interface AlertRule {
+  id: string;
+  type: Alert['type'];
+  description: string;
+  evaluate: (data: DashboardData) => AlertCondition[];
+}
+
+// ISO 10816 zone boundaries for large machines (mm/s RMS)
+const VIBRATION_WARNING = 4.5;
+const VIBRATION_DANGER = 7.1;
+const BEARING_TEMPERATURE_LIMIT = 80; // °C
+
+// Equipment and lab rules; process parameter limits come from the threshold store
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'equipment_trip',
+    type: 'maintenance',
+    description: 'Equipment tripped and is under repair',
+    evaluate: data => data.equipment_status
+      .filter(eq => eq.status === 'error')
+      .map(eq => ({
+        severity: 'critical',
+        message: `${eq.equipment_name} tripped`,
+        equipment_id: eq.equipment_id
+      }))
+  },
+  {
+    id: 'equipment_vibration',
+    type: 'vibration',
+    description: `Bearing vibration above ${VIBRATION_WARNING} mm/s`,
+    evaluate: data => data.equipment_status
+      .filter(eq => eq.vibration_level > VIBRATION_WARNING)
+      .map(eq => ({
+        severity: eq.vibration_level > VIBRATION_DANGER ? 'high' : 'medium',
+        message: `${eq.equipment_name} vibration ${eq.vibration_level.toFixed(1)} mm/s`,
+        value: eq.vibration_level,
+        equipment_id: eq.equipment_id
+      }))
+  },
+  {
+    id: 'equipment_temperature',
+    type: 'temperature',
+    description: `Bearing temperature above ${BEARING_TEMPERATURE_LIMIT} °C`,
+    evaluate: data => data.equipment_status
+      .filter(eq => eq.temperature > BEARING_TEMPERATURE_LIMIT)
+      .map(eq => ({
+        severity: 'medium',
+        message: `${eq.equipment_name} bearing temperature ${eq.temperature.toFixed(0)} °C`,
+        value: eq.temperature,
+        equipment_id: eq.equipment_id
+      }))
+  },
+  {
+    id: 'quality_score',
+    type: 'quality',
+    description: 'Average quality score below 85',
+    evaluate: data => {
+      const value = data.plant_overview.quality_score_avg;
+      if (value >= 85) {
+        return [];
+      }
+      return [{
+        severity: value < 75 ? 'high' : 'medium',
+        message: `Quality score ${value.toFixed(1)} below 85`,
+        value
+      }];
+    }
+  },
+  {
+    id: 'free_lime',
+    type: 'quality',
+    description: 'Clinker free lime above 2%',
+    evaluate: data => {
+      const latest = data.recent_quality[data.recent_quality.length - 1];
+      const value = latest?.chemical_composition.free_lime;
+      if (value === undefined || value <= 2) {
+        return [];
+      }
+      return [{
+        severity: value > 3 ? 'high' : 'medium',
+        message: `Free lime ${value.toFixed(2)}% above 2%`,
+        value,
+        equipment_id: 'KILN_01'
+      }];
+    }
+  }
+];
@@ -0,0 +1,124 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnomalyDetection, DashboardData, ProcessParameters } from '../data/models';
+import { CementPlantSimulator } from '../simulation/dataGenerator';
+import { SteppedClock } from '../simulation/random';
+import { AnomalyDetector } from './anomalyDetector';
+import { HistoryStore } from './historyStore';
+
+const START = new Date('2026-01-01T00:00:00Z');
+const STEP_MS = 5 * 60 * 1000;
+const TRAINING_RECORDS = 400;
+
+// Seeded process history without injected or spontaneous anomalies
+function recordHistory(history: HistoryStore, count: number): ProcessParameters[] {
+  const clock = new SteppedClock(START);
+  const simulator = new CementPlantSimulator({
+    plant_capacity: 2000,
+    sensor_count: 50,
+    simulation_speed: 1,
+    noise_level: 0.1,
+    anomaly_probability: 0,
+    quality_variation: 0.1,
+    seed: 11,
+    start_time: START,
+    clock: clock.now
+  });
+  const records: ProcessParameters[] = [];
+  for (let i = 0; i < count; i++) {
+    records.push(simulator.generateProcessParameters());
+    clock.advance(STEP_MS);
+  }
+  history.append('process', records);
+  return records;
+}
+
+function snapshot(params: ProcessParameters, tick: number): DashboardData {
+  return {
+    plant_overview: { timestamp: new Date(START.getTime() + (TRAINING_RECORDS + tick) * STEP_MS) },
+    current_parameters: params
+  } as unknown as DashboardData;
+}
+
+function average(records: ProcessParameters[]): ProcessParameters {
+  const mean = { ...records[0] };
+  (Object.keys(mean) as (keyof ProcessParameters)[]).forEach(key => {
+    if (typeof mean[key] === 'number') {
+      (mean[key] as number) = records.reduce((sum, record) => sum + (record[key] as number), 0) / records.length;
+    }
+  });
+  return mean;
+}
+
+describe('AnomalyDetector', () => {
+  let directory: string;
+  let history: HistoryStore;
+  let records: ProcessParameters[];
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'anomaly-detector-'));
+    history = new HistoryStore(directory);
+    records = recordHistory(history, TRAINING_RECORDS);
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('does not score until trained and needs enough history to train', () => {
+    const small = new HistoryStore(path.join(directory, 'small'));
+    recordHistory(small, 20);
+    const detector = new AnomalyDetector(small);
+    assert.equal(detector.observe(snapshot(records[0], 0)), null);
+    const result = detector.train();
+    assert.equal(result.trained, false);
+    assert.equal(result.error, '20 process records; at least 100 are needed');
+  });
+
+  it('keeps 99% of the training history under the detection limit', () => {
+    const detector = new AnomalyDetector(history);
+    const result = detector.train();
+    assert.equal(result.trained, true);
+    assert.equal(result.samples, TRAINING_RECORDS);
+    const over = records.filter(record => detector.score(record)!.ratio > 1).length;
+    assert.ok(over <= TRAINING_RECORDS * 0.02, `${over} training records over the limit`);
+  });
+
+  it('raises an anomaly after a run of snapshots over the limit and ends it once the process settles', () => {
+    const detector = new AnomalyDetector(history);
+    detector.train();
+    const detected: AnomalyDetection[] = [];
+    const updated: AnomalyDetection[] = [];
+    detector.on('anomaly_detected', anomaly => detected.push(anomaly));
+    detector.on('anomaly_updated', anomaly => updated.push(anomaly));
+
+    const normal = average(records);
+    const upset = { ...normal, kiln_temperature: normal.kiln_temperature + 150 };
+    let tick = 0;
+
+    assert.ok(detector.observe(snapshot(normal, tick++))!.ratio < 1);
+    detector.observe(snapshot(upset, tick++));
+    detector.observe(snapshot(upset, tick++));
+    assert.equal(detected.length, 0);
+    detector.observe(snapshot(upset, tick++));
+    assert.equal(detected.length, 1);
+
+    const [anomaly] = detected;
+    assert.equal(anomaly.severity, 'high');
+    assert.equal(anomaly.contributions[0].parameter, 'kiln_temperature');
+    assert.ok(anomaly.affected_systems.includes('Kiln'));
+    assert.deepEqual(detector.getAnomalies('active').map(active => active.id), [anomaly.id]);
+
+    for (let i = 0; i < 5; i++) {
+      detector.observe(snapshot(normal, tick++));
+    }
+    assert.equal(updated.length, 0);
+    detector.observe(snapshot(normal, tick++));
+    assert.equal(updated.length, 1);
+    assert.ok(updated[0].ended_at);
+    assert.deepEqual(detector.getAnomalies('active'), []);
+  });
+});
@@ -0,0 +1,420 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AnomalyContribution, AnomalyDetection, DashboardData, ProcessParameters, ThresholdParameter } from '../data/models';
+import { HistoryRecord, HistoryStore } from './historyStore';
+import { THRESHOLD_PARAMETERS } from './thresholdStore';
+
+// Plant system each process parameter belongs to, for `affected_systems`
+const SYSTEMS: Record<ThresholdParameter, string> = {
+  kiln_temperature: 'Kiln',
+  kiln_pressure: 'Kiln',
+  preheater_temperature: 'Preheater',
+  clinker_temperature: 'Clinker cooler',
+  raw_mill_power: 'Raw mill',
+  raw_meal_flow: 'Raw mill',
+  cement_mill_power: 'Cement mill',
+  cement_fineness: 'Cement mill',
+  alternative_fuel_rate: 'Fuel system',
+  exhaust_fan_speed: 'ID fan',
+  production_rate: 'Production',
+  energy_consumption: 'Energy'
+};
+
+const FEATURES = Object.keys(SYSTEMS) as ThresholdParameter[];
+
+const MIN_TRAINING_SAMPLES = 100;
+const MAX_TRAINING_SAMPLES = 5000;
+// Principal components kept until they explain this share of the variance
+const EXPLAINED_VARIANCE = 0.9;
+// Detection limits sit at this percentile of the training scores
+const LIMIT_PERCENTILE = 0.99;
+// Consecutive snapshots over the limit before an anomaly is raised, and under it before it ends
+const CONFIRM_SNAPSHOTS = 3;
+const CLEAR_SNAPSHOTS = 6;
+// Limit multiples at which an anomaly becomes medium and high severity
+const MEDIUM_RATIO = 2;
+const HIGH_RATIO = 4;
+const MIN_CONTRIBUTION_SHARE = 0.15;
+const MAX_AFFECTED_PARAMETERS = 4;
+const SEVERITY_RANK: Record<AnomalyDetection['severity'], number> = { low: 0, medium: 1, high: 2 };
+// Ended anomalies kept for the history view and the persisted file
+const MAX_ENDED_ANOMALIES = 200;
+
+export type AnomalyStatusFilter = 'active' | 'ended' | 'all';
+
+export interface AnomalyModelStatus {
+  trained: boolean;
+  trained_at: string | null;
+  samples: number;
+  features: ThresholdParameter[];
+  components: number;
+  explained_variance: number | null;
+  t2_limit: number | null;
+  spe_limit: number | null;
+}
+
+export interface AnomalyTrainingResult {
+  trained: boolean;
+  samples: number;
+  components: number;
+  explained_variance: number | null;
+  error?: string;
+}
+
+export interface AnomalyScore {
+  t2: number; // Hotelling's T² inside the principal subspace
+  spe: number; // squared reconstruction error outside it
+  ratio: number; // the larger of both over its limit; above 1 is abnormal
+  anomaly_score: number;
+  contributions: AnomalyContribution[];
+}
+
+interface PcaModel {
+  trained_at: string;
+  samples: number;
+  means: number[];
+  scales: number[];
+  loadings: number[][]; // one unit-length eigenvector per retained component
+  eigenvalues: number[];
+  explained_variance: number;
+  t2_limit: number;
+  spe_limit: number;
+}
+
+// Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations; vectors are the columns of `vectors`
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = matrix.map((_, i) => matrix.map((__, j) => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        off += a[p][q] ** 2;
+      }
+    }
+    if (off < 1e-18) {
+      break;
+    }
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) {
+          continue;
+        }
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((x, y) => x - y);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * (sorted.length - 1)))];
+}
+
+/**
+ * Scores every process snapshot against normal behavior learned from the
+ * history store with principal component analysis. Hotelling's T² catches
+ * moves that stay within the usual correlations, and the reconstruction
+ * error (SPE) catches parameters that break them; each is compared with the
+ * 99th percentile of its training values. A run of snapshots over the limit
+ * raises an anomaly that lists the parameters and plant systems behind it,
+ * escalates with its peak and ends when the process settles. Emits
+ * `anomaly_detected` for new anomalies and `anomaly_updated` for escalations
+ * and endings.
+ */
+export class AnomalyDetector extends EventEmitter {
+  private history: HistoryStore;
+  private storagePath: string | null;
+  private trainingDays: number;
+  private model: PcaModel | null = null;
+  private anomalies: AnomalyDetection[] = [];
+  private overLimit = 0;
+  private underLimit = 0;
+
+  constructor(history: HistoryStore, storagePath: string | null = null, trainingDays: number = 7) {
+    super();
+    this.history = history;
+    this.storagePath = storagePath;
+    this.trainingDays = trainingDays;
+    this.load();
+  }
+
+  /**
+   * Learn normal behavior from the stored raw process history; with too few
+   * records the previous model is kept
+   */
+  train(): AnomalyTrainingResult {
+    const latest = this.history.getLatestTimestamp('process');
+    if (!latest) {
+      return { trained: false, samples: 0, components: 0, explained_variance: null, error: 'No process history to train on' };
+    }
+
+    const records = this.history.query('process', {
+      from: new Date(latest.getTime() - this.trainingDays * 24 * 3600000),
+      to: latest,
+      fields: FEATURES,
+      limit: MAX_TRAINING_SAMPLES
+    }).points as HistoryRecord[];
+    const rows = records
+      .filter(record => FEATURES.every(feature => typeof record[feature] === 'number'))
+      .map(record => FEATURES.map(feature => record[feature] as number));
+
+    if (rows.length < MIN_TRAINING_SAMPLES) {
+      return {
+        trained: false,
+        samples: rows.length,
+        components: 0,
+        explained_variance: null,
+        error: `${rows.length} process records; at least ${MIN_TRAINING_SAMPLES} are needed`
+      };
+    }
+
+    const n = rows.length;
+    const means = FEATURES.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+    const scales = FEATURES.map((_, j) => {
+      const variance = rows.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / (n - 1);
+      return variance > 0 ? Math.sqrt(variance) : 1;
+    });
+    const z = rows.map(row => row.map((value, j) => (value - means[j]) / scales[j]));
+    const covariance = FEATURES.map((_, i) => FEATURES.map((__, j) =>
+      z.reduce((sum, row) => sum + row[i] * row[j], 0) / (n - 1)));
+
+    const { values, vectors } = symmetricEigen(covariance);
+    const order = values.map((value, i) => ({ value: Math.max(0, value), i })).sort((a, b) => b.value - a.value);
+    const total = order.reduce((sum, entry) => sum + entry.value, 0);
+    // Keep at least one component out of the subspace so the reconstruction error means something
+    let components = 0;
+    let explained = 0;
+    while (components < FEATURES.length - 1 && explained < EXPLAINED_VARIANCE * total) {
+      explained += order[components].value;
+      components++;
+    }
+    const retained = order.slice(0, components).filter(entry => entry.value > 1e-9);
+    const model: PcaModel = {
+      trained_at: new Date().toISOString(),
+      samples: n,
+      means,
+      scales,
+      loadings: retained.map(entry => vectors.map(row => row[entry.i])),
+      eigenvalues: retained.map(entry => entry.value),
+      explained_variance: total > 0 ? retained.reduce((sum, entry) => sum + entry.value, 0) / total : 0,
+      t2_limit: 1,
+      spe_limit: 1
+    };
+
+    const scores = z.map(row => this.decompose(model, row));
+    model.t2_limit = Math.max(1e-9, percentile(scores.map(score => score.t2), LIMIT_PERCENTILE));
+    model.spe_limit = Math.max(1e-9, percentile(scores.map(score => score.spe), LIMIT_PERCENTILE));
+    this.model = model;
+
+    console.log(`🧪 Trained anomaly detector: ${n} records, ${retained.length} components (${(model.explained_variance * 100).toFixed(0)}% variance)`);
+    return { trained: true, samples: n, components: retained.length, explained_variance: model.explained_variance };
+  }
+
+  /**
+   * Score a snapshot and advance the anomaly episode; null until trained
+   */
+  observe(data: DashboardData): AnomalyScore | null {
+    const score = this.score(data.current_parameters);
+    if (!score) {
+      return null;
+    }
+    const timestamp = new Date(data.plant_overview.timestamp);
+    const active = this.getActive();
+
+    if (score.ratio > 1) {
+      this.overLimit++;
+      this.underLimit = 0;
+      if (!active && this.overLimit >= CONFIRM_SNAPSHOTS) {
+        const anomaly: AnomalyDetection = { id: uuidv4(), timestamp, last_seen: timestamp, ...this.describe(score) };
+        this.anomalies.push(anomaly);
+        this.pruneEnded();
+        this.save();
+        console.log(`🚨 Anomaly detected [${anomaly.severity}]: ${anomaly.description}`);
+        this.emit('anomaly_detected', anomaly);
+      } else if (active) {
+        active.last_seen = timestamp;
+        if (score.anomaly_score > active.anomaly_score) {
+          const escalated = SEVERITY_RANK[this.severity(score.ratio)] > SEVERITY_RANK[active.severity];
+          Object.assign(active, this.describe(score));
+          if (escalated) {
+            this.save();
+            this.emit('anomaly_updated', active);
+          }
+        }
+      }
+    } else {
+      this.overLimit = 0;
+      this.underLimit++;
+      if (active && this.underLimit >= CLEAR_SNAPSHOTS) {
+        active.ended_at = timestamp;
+        this.save();
+        this.emit('anomaly_updated', active);
+      }
+    }
+    return score;
+  }
+
+  score(params: ProcessParameters): AnomalyScore | null {
+    const model = this.model;
+    if (!model) {
+      return null;
+    }
+    const z = FEATURES.map((feature, j) => (params[feature] - model.means[j]) / model.scales[j]);
+    const { t2, spe, t2Parts, residuals } = this.decompose(model, z);
+
+    // Each parameter's part of both statistics, each relative to its limit
+    const parts = FEATURES.map((_, j) => Math.max(0, t2Parts[j] / model.t2_limit + residuals[j] ** 2 / model.spe_limit));
+    const total = parts.reduce((sum, part) => sum + part, 0);
+    const contributions = FEATURES.map((parameter, j) => ({
+      parameter,
+      value: params[parameter],
+      typical_value: model.means[j],
+      z_score: z[j],
+      share: total > 0 ? parts[j] / total : 0
+    })).sort((a, b) => b.share - a.share);
+
+    const ratio = Math.max(t2 / model.t2_limit, spe / model.spe_limit);
+    return { t2, spe, ratio, anomaly_score: ratio / (1 + ratio), contributions };
+  }
+
+  getAnomalies(status: AnomalyStatusFilter = 'all', limit?: number): AnomalyDetection[] {
+    const matches = this.anomalies
+      .filter(anomaly => status === 'all' || (status === 'active') === !anomaly.ended_at)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  getAnomaly(id: string): AnomalyDetection | undefined {
+    return this.anomalies.find(anomaly => anomaly.id === id);
+  }
+
+  getStatus(): AnomalyModelStatus {
+    const model = this.model;
+    return {
+      trained: model !== null,
+      trained_at: model?.trained_at ?? null,
+      samples: model?.samples ?? 0,
+      features: FEATURES,
+      components: model?.eigenvalues.length ?? 0,
+      explained_variance: model?.explained_variance ?? null,
+      t2_limit: model?.t2_limit ?? null,
+      spe_limit: model?.spe_limit ?? null
+    };
+  }
+
+  private getActive(): AnomalyDetection | undefined {
+    return this.anomalies.find(anomaly => !anomaly.ended_at);
+  }
+
+  private decompose(model: PcaModel, z: number[]): { t2: number; spe: number; t2Parts: number[]; residuals: number[] } {
+    const scores = model.loadings.map(loading => loading.reduce((sum, weight, j) => sum + weight * z[j], 0));
+    const t2 = scores.reduce((sum, t, k) => sum + t * t / model.eigenvalues[k], 0);
+    // T² split per parameter: zⱼ · Σₖ pₖⱼ tₖ / λₖ, which sums to T²
+    const t2Parts = z.map((value, j) =>
+      value * model.loadings.reduce((sum, loading, k) => sum + loading[j] * scores[k] / model.eigenvalues[k], 0));
+    const residuals = z.map((value, j) =>
+      value - model.loadings.reduce((sum, loading, k) => sum + loading[j] * scores[k], 0));
+    return { t2, spe: residuals.reduce((sum, e) => sum + e * e, 0), t2Parts, residuals };
+  }
+
+  private severity(ratio: number): AnomalyDetection['severity'] {
+    return ratio >= HIGH_RATIO ? 'high' : ratio >= MEDIUM_RATIO ? 'medium' : 'low';
+  }
+
+  private describe(score: AnomalyScore): Pick<AnomalyDetection,
+    'anomaly_score' | 'severity' | 'affected_systems' | 'description' | 'recommended_actions' | 'contributions'> {
+    const affected = score.contributions
+      .filter((contribution, i) => i === 0 || contribution.share >= MIN_CONTRIBUTION_SHARE)
+      .slice(0, MAX_AFFECTED_PARAMETERS);
+    const readings = affected.map(({ parameter, value, typical_value, z_score }) => {
+      const { label, unit } = THRESHOLD_PARAMETERS[parameter];
+      return `${label.toLowerCase()} ${value.toFixed(1)} ${unit} (typical ${typical_value.toFixed(1)}, ${z_score >= 0 ? '+' : ''}${z_score.toFixed(1)}σ)`;
+    });
+    const model = this.model!;
+    const kind = score.spe / model.spe_limit > score.t2 / model.t2_limit
+      ? 'Broken correlation between process parameters'
+      : 'Process outside its usual operating region';
+
+    return {
+      anomaly_score: score.anomaly_score,
+      severity: this.severity(score.ratio),
+      affected_systems: Array.from(new Set(affected.map(({ parameter }) => SYSTEMS[parameter]))),
+      description: `${kind}: ${readings.join(', ')}`,
+      recommended_actions: affected.map(({ parameter, z_score }) => {
+        const { label } = THRESHOLD_PARAMETERS[parameter];
+        return `Check the ${SYSTEMS[parameter].toLowerCase()} instrumentation and why ${label.toLowerCase()} is ${z_score >= 0 ? 'above' : 'below'} normal`;
+      }),
+      contributions: affected
+    };
+  }
+
+  private pruneEnded(): void {
+    const ended = this.anomalies.filter(anomaly => anomaly.ended_at);
+    if (ended.length > MAX_ENDED_ANOMALIES) {
+      const dropped = new Set(ended.slice(0, ended.length - MAX_ENDED_ANOMALIES));
+      this.anomalies = this.anomalies.filter(anomaly => !dropped.has(anomaly));
+    }
+  }
+
+  private load(): void {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+      return;
+    }
+    try {
+      this.anomalies = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8'));
+      // An episode open at shutdown cannot be continued
+      this.anomalies.filter(anomaly => !anomaly.ended_at).forEach(anomaly => {
+        anomaly.ended_at = anomaly.last_seen;
+      });
+      console.log(`📂 Loaded ${this.anomalies.length} anomalies from ${this.storagePath}`);
+    } catch (error) {
+      console.error('❌ Error loading persisted anomalies:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.storagePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+      fs.writeFileSync(this.storagePath, JSON.stringify(this.anomalies, null, 2));
+    } catch (error) {
+      console.error('❌ Error persisting anomalies:', error);
+    }
+  }
+}
+
+export function createAnomalyDetector(history: HistoryStore): AnomalyDetector {
+  return new AnomalyDetector(
+    history,
+    process.env.ANOMALIES_FILE || path.join('data', 'anomalies.json'),
+    parseFloat(process.env.ANOMALY_TRAINING_DAYS || '7')
+  );
+}
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, ConversationInfo, ConversationMessage } from '../data/models';
+
+// What of a conversation goes into the next prompt
+export interface ConversationContext {
+  summary: string | null;
+  messages: ConversationMessage[];
+}
+
+export interface HistorySelection {
+  context: ConversationContext;
+  // Messages that no longer fit and are not yet covered by the summary
+  to_summarize: ConversationMessage[];
+}
+
+const MAX_TITLE_LENGTH = 60;
+// The most recent turns are always sent verbatim, whatever the budget
+const MIN_RECENT_MESSAGES = 2;
+
+// Rough token count; the exact tokenizer depends on the provider
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * AI Assistant conversations, one JSON transcript per conversation under
+ * `directory`. The full transcript is kept; prompts get the recent turns that
+ * fit the token budget plus a running summary of the older ones.
+ */
+export class ConversationStore {
+  private directory: string;
+  private conversations = new Map<string, Conversation>();
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.load();
+  }
+
+  create(): Conversation {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: 'New conversation',
+      created_at: now,
+      updated_at: now,
+      messages: [],
+      summary: null,
+      summarized_count: 0
+    };
+    this.conversations.set(conversation.id, conversation);
+    this.save(conversation);
+    return conversation;
+  }
+
+  get(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  /**
+   * Conversations without their transcripts, most recently active first
+   */
+  list(limit: number = 50): ConversationInfo[] {
+    return [...this.conversations.values()]
+      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+      .slice(0, limit)
+      .map(({ id, title, created_at, updated_at, messages }) => ({ id, title, created_at, updated_at, message_count: messages.length }));
+  }
+
+  delete(id: string): boolean {
+    if (!this.conversations.delete(id)) {
+      return false;
+    }
+    try {
+      fs.rmSync(this.filePath(id), { force: true });
+    } catch (error) {
+      console.error('❌ Error deleting conversation transcript:', error);
+    }
+    return true;
+  }
+
+  append(id: string, role: ConversationMessage['role'], text: string, stopped?: boolean): ConversationMessage | undefined {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      return undefined;
+    }
+    const message: ConversationMessage = { id: uuidv4(), role, text, timestamp: new Date() };
+    if (stopped) {
+      message.stopped = true;
+    }
+    conversation.messages.push(message);
+    conversation.updated_at = message.timestamp;
+    // The first question names the conversation
+    if (role === 'user' && conversation.messages.filter(entry => entry.role === 'user').length === 1) {
+      const title = text.trim().replace(/\s+/g, ' ');
+      conversation.title = title.length > MAX_TITLE_LENGTH ? `${title.substring(0, MAX_TITLE_LENGTH - 3)}...` : title;
+    }
+    this.save(conversation);
+    return message;
+  }
+
+  setSummary(id: string, summary: string, summarizedCount: number): void {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      return;
+    }
+    conversation.summary = summary;
+    conversation.summarized_count = summarizedCount;
+    this.save(conversation);
+  }
+
+  /**
+   * Newest messages that fit `budgetTokens` alongside the summary. Older
+   * messages past the summarized prefix are returned for summarization.
+   */
+  selectHistory(id: string, budgetTokens: number): HistorySelection {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      return { context: { summary: null, messages: [] }, to_summarize: [] };
+    }
+
+    const messages = conversation.messages;
+    let remaining = budgetTokens - estimateTokens(conversation.summary || '');
+    let start = messages.length;
+    while (start > conversation.summarized_count) {
+      const cost = estimateTokens(messages[start - 1].text);
+      if (messages.length - start >= MIN_RECENT_MESSAGES && cost > remaining) {
+        break;
+      }
+      remaining -= cost;
+      start--;
+    }
+
+    return {
+      context: { summary: conversation.summary, messages: messages.slice(start) },
+      to_summarize: messages.slice(conversation.summarized_count, start)
+    };
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.directory)) {
+      return;
+    }
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.directory).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      console.error('❌ Error loading persisted conversations:', error);
+      return;
+    }
+    // A corrupt transcript is skipped so the others still load
+    files.forEach(file => {
+      try {
+        const conversation: Conversation = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf-8'));
+        this.conversations.set(conversation.id, conversation);
+      } catch (error) {
+        console.error(`❌ Error loading conversation transcript ${file}:`, error);
+      }
+    });
+    console.log(`📂 Loaded ${this.conversations.size} conversations from ${this.directory}`);
+  }
+
+  private save(conversation: Conversation): void {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(this.filePath(conversation.id), JSON.stringify(conversation, null, 2));
+    } catch (error) {
+      console.error('❌ Error persisting conversation:', error);
+    }
+  }
+}
+
+export function createConversationStore(): ConversationStore {
+  return new ConversationStore(process.env.CONVERSATIONS_DIR || path.join('data', 'conversations'));
+}
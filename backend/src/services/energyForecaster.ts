@@ -0,0 +1,216 @@
+import { EnergyPrediction } from '../data/models';
+import { HistoryBucket, HistoryStore } from './historyStore';
+import { fitLinearModel, LinearModel, predictLinear } from './regression';
+
+export const MAX_FORECAST_HORIZON_HOURS = 24;
+
+// Drivers of specific energy the forecast is attributed to, each read from hourly process averages
+const FACTORS: { factor: string; value: (avg: Record<string, number>) => number | undefined }[] = [
+  { factor: 'kiln_temperature', value: avg => avg.kiln_temperature },
+  {
+    factor: 'mill_power',
+    value: avg => avg.raw_mill_power !== undefined && avg.cement_mill_power !== undefined
+      ? avg.raw_mill_power + avg.cement_mill_power
+      : undefined
+  },
+  { factor: 'alternative_fuel_rate', value: avg => avg.alternative_fuel_rate }
+];
+
+const BUCKET_SECONDS = 3600;
+const MIN_TRAINING_HOURS = 12;
+// A fitted forecast is reused until it is this old or the history moves on by an hour
+const REFIT_AFTER_MS = 10 * 60 * 1000;
+// Holt smoothing constants tried per series; the one with the smallest one-step error wins
+const ALPHAS = [0.2, 0.4, 0.6, 0.8];
+const BETAS = [0.05, 0.2];
+const DAMPING = 0.9;
+const Z_95 = 1.96;
+
+interface HoltFit {
+  level: number;
+  trend: number;
+  error_std: number; // one-step-ahead error
+}
+
+export interface EnergyForecastModel {
+  trained_at: string;
+  history_end: string;
+  samples: number; // hourly buckets
+  r2: number;
+  residual_std: number;
+  coefficients: Record<string, number>; // kWh/t per unit of each factor
+}
+
+export interface EnergyForecast {
+  model: EnergyForecastModel;
+  history: { timestamp: string; energy_consumption: number }[];
+  predictions: EnergyPrediction[];
+}
+
+interface FittedForecast {
+  fittedAt: number;
+  historyEnd: Date;
+  regression: LinearModel;
+  factorFits: HoltFit[];
+  residualLevel: number; // smoothed part of specific energy the factors do not explain
+  model: EnergyForecastModel;
+  history: EnergyForecast['history'];
+}
+
+// Damped Holt's linear method over an evenly spaced series
+function fitHolt(series: number[]): HoltFit {
+  let best: HoltFit | null = null;
+  let bestSse = Infinity;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      let level = series[0];
+      let trend = series.length > 1 ? series[1] - series[0] : 0;
+      let sse = 0;
+      for (let i = 1; i < series.length; i++) {
+        const forecast = level + DAMPING * trend;
+        sse += (series[i] - forecast) ** 2;
+        const previousLevel = level;
+        level = alpha * series[i] + (1 - alpha) * forecast;
+        trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+      }
+      if (sse < bestSse) {
+        bestSse = sse;
+        best = { level, trend, error_std: Math.sqrt(sse / Math.max(1, series.length - 1)) };
+      }
+    }
+  }
+  return best!;
+}
+
+function holtForecast(fit: HoltFit, hours: number): { value: number; std: number } {
+  let damped = 0;
+  for (let i = 1; i <= hours; i++) {
+    damped += Math.pow(DAMPING, i);
+  }
+  // Errors compound roughly like a random walk over the horizon
+  return { value: fit.level + damped * fit.trend, std: fit.error_std * Math.sqrt(hours) };
+}
+
+/**
+ * Forecasts specific energy (kWh/t) hour by hour from the process history.
+ * Kiln temperature, total mill power and alternative fuel rate are each
+ * projected with damped Holt smoothing, a regression turns the projected
+ * drivers into specific energy, and the part the drivers do not explain is
+ * carried forward as a smoothed level. Each prediction attributes its
+ * deviation from the historical mean to the three drivers.
+ */
+export class EnergyForecaster {
+  private history: HistoryStore;
+  private trainingDays: number;
+  private fitted: FittedForecast | null = null;
+
+  constructor(history: HistoryStore, trainingDays: number = 14) {
+    this.history = history;
+    this.trainingDays = trainingDays;
+  }
+
+  /**
+   * Predictions for each hour up to `horizonHours`; returns an error message
+   * instead when the history is too short to fit
+   */
+  forecast(horizonHours: number): EnergyForecast | string {
+    const fitted = this.fit();
+    if (typeof fitted === 'string') {
+      return fitted;
+    }
+
+    const predictions: EnergyPrediction[] = [];
+    for (let hours = 1; hours <= horizonHours; hours++) {
+      const drivers = fitted.factorFits.map(fit => holtForecast(fit, hours));
+      const row = drivers.map(driver => driver.value);
+      const regression = predictLinear(fitted.regression, row);
+      const value = regression.value + fitted.residualLevel;
+
+      // Driver uncertainty propagates through the regression slopes
+      const slopes = fitted.regression.coefficients.map((c, j) => c / fitted.regression.scales[j]);
+      const variance = regression.std ** 2 + drivers.reduce((sum, driver, j) => sum + (slopes[j] * driver.std) ** 2, 0);
+      const std = Math.sqrt(variance);
+
+      const contributions = row.map((x, j) => slopes[j] * (x - fitted.regression.means[j]));
+      const total = contributions.reduce((sum, c) => sum + Math.abs(c), 0);
+
+      predictions.push({
+        timestamp: new Date(fitted.historyEnd.getTime() + hours * 3600000),
+        predicted_consumption: value,
+        confidence_interval: { lower: value - Z_95 * std, upper: value + Z_95 * std },
+        prediction_horizon: hours,
+        factors: FACTORS.map(({ factor }, j) => ({
+          factor,
+          impact: total > 0 ? contributions[j] / total : 0
+        }))
+      });
+    }
+
+    return { model: fitted.model, history: fitted.history, predictions };
+  }
+
+  private fit(): FittedForecast | string {
+    const latest = this.history.getLatestTimestamp('process');
+    if (!latest) {
+      return 'No process history to forecast from';
+    }
+    if (this.fitted
+      && Date.now() - this.fitted.fittedAt < REFIT_AFTER_MS
+      && latest.getTime() - this.fitted.historyEnd.getTime() < BUCKET_SECONDS * 1000) {
+      return this.fitted;
+    }
+
+    const buckets = this.history.query('process', {
+      from: new Date(latest.getTime() - this.trainingDays * 24 * 3600000),
+      to: latest,
+      bucket_seconds: BUCKET_SECONDS,
+      fields: ['energy_consumption', 'kiln_temperature', 'raw_mill_power', 'cement_mill_power', 'alternative_fuel_rate']
+    }).points as HistoryBucket[];
+
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    const history: EnergyForecast['history'] = [];
+    buckets.forEach(bucket => {
+      const drivers = FACTORS.map(({ value }) => value(bucket.avg));
+      if (bucket.avg.energy_consumption === undefined || drivers.some(value => value === undefined)) {
+        return;
+      }
+      rows.push(drivers as number[]);
+      targets.push(bucket.avg.energy_consumption);
+      history.push({ timestamp: bucket.timestamp, energy_consumption: bucket.avg.energy_consumption });
+    });
+
+    if (rows.length < MIN_TRAINING_HOURS) {
+      return `${rows.length} hours of process history; at least ${MIN_TRAINING_HOURS} are needed to forecast`;
+    }
+    const regression = fitLinearModel(FACTORS.map(({ factor }) => factor), rows, targets);
+    if (!regression) {
+      return 'Process history is degenerate; the energy model could not be fitted';
+    }
+
+    const residuals = rows.map((row, i) => targets[i] - predictLinear(regression, row).value);
+    const factorFits = FACTORS.map((_, j) => fitHolt(rows.map(row => row[j])));
+
+    this.fitted = {
+      fittedAt: Date.now(),
+      historyEnd: latest,
+      regression,
+      factorFits,
+      residualLevel: fitHolt(residuals).level,
+      model: {
+        trained_at: new Date().toISOString(),
+        history_end: latest.toISOString(),
+        samples: rows.length,
+        r2: regression.r2,
+        residual_std: regression.residual_std,
+        coefficients: Object.fromEntries(FACTORS.map(({ factor }, j) => [factor, regression.coefficients[j] / regression.scales[j]]))
+      },
+      history: history.slice(-MAX_FORECAST_HORIZON_HOURS * 2)
+    };
+    return this.fitted;
+  }
+}
+
+export function createEnergyForecaster(history: HistoryStore): EnergyForecaster {
+  return new EnergyForecaster(history, parseFloat(process.env.ENERGY_FORECAST_TRAINING_DAYS || '14'));
+}
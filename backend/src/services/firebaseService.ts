@@ -1,56 +1,43 @@
-import admin from 'firebase-admin';
-import { DashboardData, SensorReading, ProcessParameters } from '../data/models';
+import { DashboardData, SensorReading } from '../data/models';
+import { createPersistenceBackend, PersistenceBackend } from './persistence';
 
-export class FirebaseService {
-  private db: admin.database.Database | null = null;
-  private isInitialized: boolean = false;
-
-  constructor() {
-    this.initializeFirebase();
-  }
+// History snapshots are thinned to one per interval; the dashboard document is replaced on every call
+const DEFAULT_HISTORY_INTERVAL_SECONDS = 60;
 
-  private initializeFirebase() {
-    try {
-      console.log('📝 Firebase running in demo mode (local storage only)');
-      console.log('   ℹ️  Data will be processed locally without cloud persistence');
-      this.isInitialized = true;
-      this.db = null;
-    } catch (error) {
-      console.error('❌ Firebase initialization error:', error);
-      this.isInitialized = false;
-    }
+export class FirebaseService {
+  private backend: PersistenceBackend;
+  private historyIntervalMs: number;
+  private lastHistoryWrite = 0;
+
+  constructor(backend: PersistenceBackend, historyIntervalSeconds: number = DEFAULT_HISTORY_INTERVAL_SECONDS) {
+    this.backend = backend;
+    this.historyIntervalMs = historyIntervalSeconds * 1000;
+    console.log(`💾 Persistence backend: ${backend.kind} (${backend.location})`);
   }
 
   /**
    * Store real-time dashboard data to Firebase
    */
   async storeDashboardData(data: DashboardData): Promise<void> {
-    if (!this.isInitialized || !this.db) {
-      console.log('🔄 Firebase not initialized, skipping data storage');
-      return;
-    }
-
     try {
       const timestamp = Date.now();
-      const dataRef = this.db.ref('plant-data/dashboard');
-      
-      await dataRef.set({
+      await this.backend.set('plant-data/dashboard', {
         ...data,
         timestamp,
         last_updated: new Date().toISOString()
       });
 
       // Also store in historical data
-      const historyRef = this.db.ref(`plant-data/history/${timestamp}`);
-      await historyRef.set({
-        plant_overview: data.plant_overview,
-        current_parameters: data.current_parameters,
-        environmental_data: data.environmental_data,
-        timestamp,
-        date: new Date().toISOString()
-      });
-
-      console.log('📊 Dashboard data stored to Firebase successfully');
+      if (timestamp - this.lastHistoryWrite >= this.historyIntervalMs) {
+        this.lastHistoryWrite = timestamp;
+        await this.backend.push('plant-data/history', {
+          plant_overview: data.plant_overview,
+          current_parameters: data.current_parameters,
+          environmental_data: data.environmental_data,
+          timestamp,
+          date: new Date().toISOString()
+        }, timestamp.toString());
+      }
     } catch (error) {
       console.error('❌ Error storing dashboard data to Firebase:', error);
     }
@@ -60,12 +47,8 @@ export class FirebaseService {
    * Store sensor readings to Firebase
    */
   async storeSensorReadings(readings: SensorReading[]): Promise<void> {
-    if (!this.isInitialized || !this.db) return;
-
     try {
       const timestamp = Date.now();
-      const sensorsRef = this.db.ref('plant-data/sensors');
-      
       const sensorData = readings.reduce((acc, reading) => {
         acc[reading.sensor_id] = {
           ...reading,
@@ -74,8 +57,7 @@ export class FirebaseService {
         return acc;
       }, {} as any);
 
-      await sensorsRef.set(sensorData);
-      console.log(`📡 ${readings.length} sensor readings stored to Firebase`);
+      await this.backend.set('plant-data/sensors', sensorData);
     } catch (error) {
       console.error('❌ Error storing sensor readings to Firebase:', error);
     }
@@ -84,16 +66,13 @@ export class FirebaseService {
   /**
    * Store AI recommendations to Firebase
    */
-  async storeAIRecommendations(recommendations: any[], context: string): Promise<void> {
-    if (!this.isInitialized || !this.db) return;
-
+  async storeAIRecommendations(recommendations: any[], context: string, summary?: string): Promise<void> {
     try {
       const timestamp = Date.now();
-      const aiRef = this.db.ref('ai-insights/recommendations');
-      
-      await aiRef.push({
+      await this.backend.push('ai-insights/recommendations', {
         recommendations,
         context,
+        summary: summary ?? null,
         timestamp,
         date: new Date().toISOString()
       });
@@ -108,13 +87,9 @@ export class FirebaseService {
    * Store quality analysis results to Firebase
    */
   async storeQualityAnalysis(analysis: any): Promise<void> {
-    if (!this.isInitialized || !this.db) return;
-
     try {
       const timestamp = Date.now();
-      const qualityRef = this.db.ref('quality-monitoring/analysis');
-      
-      await qualityRef.push({
+      await this.backend.push('quality-monitoring/analysis', {
         ...analysis,
         timestamp,
         date: new Date().toISOString()
@@ -130,19 +105,12 @@ export class FirebaseService {
    * Retrieve dashboard data from Firebase
    */
   async getDashboardData(): Promise<DashboardData | null> {
-    if (!this.isInitialized || !this.db) return null;
-
     try {
-      const dataRef = this.db.ref('plant-data/dashboard');
-      const snapshot = await dataRef.once('value');
-      
-      if (snapshot.exists()) {
-        const data = snapshot.val();
+      const data = await this.backend.get<DashboardData>('plant-data/dashboard');
+      if (data) {
         console.log('📊 Dashboard data retrieved from Firebase');
-        return data;
       }
-      
-      return null;
+      return data;
     } catch (error) {
       console.error('❌ Error retrieving dashboard data from Firebase:', error);
       return null;
@@ -153,27 +121,16 @@ export class FirebaseService {
    * Retrieve historical data for analysis
    */
   async getHistoricalData(hoursBack: number = 24): Promise<any[]> {
-    if (!this.isInitialized || !this.db) return [];
-
     try {
       const endTime = Date.now();
       const startTime = endTime - (hoursBack * 60 * 60 * 1000);
-      
-      const historyRef = this.db.ref('plant-data/history')
-        .orderByKey()
-        .startAt(startTime.toString())
-        .endAt(endTime.toString());
-      
-      const snapshot = await historyRef.once('value');
-      
-      if (snapshot.exists()) {
-        const data = snapshot.val();
-        const historicalData = Object.values(data);
-        console.log(`📈 Retrieved ${historicalData.length} historical records from Firebase`);
-        return historicalData;
-      }
-      
-      return [];
+
+      const historicalData = await this.backend.list('plant-data/history', {
+        startKey: startTime.toString(),
+        endKey: endTime.toString()
+      });
+      console.log(`📈 Retrieved ${historicalData.length} historical records from Firebase`);
+      return historicalData;
     } catch (error) {
       console.error('❌ Error retrieving historical data from Firebase:', error);
       return [];
@@ -181,23 +138,58 @@ export class FirebaseService {
   }
 
   /**
-   * Set up real-time listeners for dashboard updates
+   * Retrieve the most recent stored quality analyses, newest first
    */
-  setupRealtimeListeners(callback: (data: DashboardData) => void): void {
-    if (!this.isInitialized || !this.db) {
-      console.log('🔄 Firebase not initialized, skipping real-time listeners');
-      return;
+  async getQualityAnalyses(limit: number = 50, type?: string): Promise<any[]> {
+    try {
+      // Filter after reading so a type filter still returns up to `limit` matches from recent history
+      const analyses = await this.backend.list('quality-monitoring/analysis', type ? {} : { limit });
+      return analyses
+        .filter(analysis => !type || analysis.type === type)
+        .slice(-limit)
+        .reverse();
+    } catch (error) {
+      console.error('❌ Error retrieving quality analyses from Firebase:', error);
+      return [];
     }
+  }
+
+  /**
+   * Retrieve the most recent stored AI recommendations, newest first
+   */
+  async getAIRecommendations(limit: number = 50): Promise<any[]> {
+    try {
+      const recommendations = await this.backend.list('ai-insights/recommendations', { limit });
+      return recommendations.reverse();
+    } catch (error) {
+      console.error('❌ Error retrieving AI recommendations from Firebase:', error);
+      return [];
+    }
+  }
 
+  /**
+   * Drop historical snapshots older than the retention period
+   */
+  async pruneHistory(retentionDays: number): Promise<void> {
+    try {
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const removed = await this.backend.removeBefore('plant-data/history', cutoff.toString());
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} expired Firebase history records`);
+      }
+    } catch (error) {
+      console.error('❌ Error pruning Firebase history:', error);
+    }
+  }
+
+  /**
+   * Set up real-time listeners for dashboard updates
+   */
+  setupRealtimeListeners(callback: (data: DashboardData) => void): void {
     try {
-      const dataRef = this.db.ref('plant-data/dashboard');
-      
-      dataRef.on('value', (snapshot) => {
-        if (snapshot.exists()) {
-          const data = snapshot.val();
-          callback(data);
-          console.log('🔄 Real-time data update received from Firebase');
-        }
+      this.backend.onValue('plant-data/dashboard', data => {
+        callback(data);
+        console.log('🔄 Real-time data update received from Firebase');
       });
 
       console.log('👂 Firebase real-time listeners set up successfully');
@@ -210,7 +202,7 @@ export class FirebaseService {
    * Check Firebase connection status
    */
   isConnected(): boolean {
-    return this.isInitialized;
+    return this.backend.isConnected();
   }
 
   /**
@@ -219,13 +211,18 @@ export class FirebaseService {
   getProjectInfo() {
     return {
       projectId: process.env.FIREBASE_PROJECT_ID,
-      isConnected: this.isInitialized,
-      databaseURL: process.env.FIREBASE_DATABASE_URL
+      isConnected: this.backend.isConnected(),
+      databaseURL: process.env.FIREBASE_DATABASE_URL,
+      backend: this.backend.kind,
+      location: this.backend.location
     };
   }
 }
 
 // Factory function to create Firebase service instance
 export function createFirebaseService(): FirebaseService {
-  return new FirebaseService();
+  return new FirebaseService(
+    createPersistenceBackend(),
+    parseInt(process.env.FIREBASE_HISTORY_INTERVAL_SECONDS || DEFAULT_HISTORY_INTERVAL_SECONDS.toString())
+  );
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryStore } from './historyStore';
+
+const DAY = '2026-01-01';
+const FROM = new Date(`${DAY}T00:00:00Z`);
+const TO = new Date(`${DAY}T23:59:59Z`);
+
+describe('HistoryStore', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps the readable records of a day with a half-written line', () => {
+    const history = new HistoryStore(directory);
+    history.append('process', [
+      { timestamp: new Date(`${DAY}T00:00:00Z`), kiln_temperature: 1450 },
+      { timestamp: new Date(`${DAY}T00:05:00Z`), kiln_temperature: 1452 }
+    ]);
+    fs.appendFileSync(path.join(directory, 'process', `${DAY}.jsonl`), '{"timestamp":"2026-01-01T00:10');
+
+    const { points } = history.query('process', { from: FROM, to: TO });
+    assert.deepEqual(points.map(point => point.timestamp), ['2026-01-01T00:00:00.000Z', '2026-01-01T00:05:00.000Z']);
+  });
+});
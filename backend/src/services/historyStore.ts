@@ -0,0 +1,385 @@
+import fs from 'fs';
+import path from 'path';
+import { DashboardData } from '../data/models';
+
+export type HistorySeries = 'process' | 'sensors' | 'quality' | 'environmental' | 'soft_sensors';
+
+export const HISTORY_SERIES: HistorySeries[] = ['process', 'sensors', 'quality', 'environmental', 'soft_sensors'];
+
+// One stored sample: the timestamp plus the numeric fields of the source record
+export interface HistoryRecord {
+  timestamp: string;
+  [field: string]: number | string;
+}
+
+export interface HistoryBucket {
+  timestamp: string; // bucket start
+  count: number;
+  avg: Record<string, number>;
+  min: Record<string, number>;
+  max: Record<string, number>;
+}
+
+export interface HistoryQuery {
+  from: Date;
+  to: Date;
+  bucket_seconds?: number; // aggregate into buckets of this width; raw records when omitted
+  fields?: string[];
+  limit?: number; // raw queries keep the most recent `limit` records
+}
+
+export interface HistoryQueryResult {
+  series: HistorySeries;
+  from: Date;
+  to: Date;
+  bucket_seconds?: number;
+  truncated: boolean;
+  points: HistoryRecord[] | HistoryBucket[];
+}
+
+export interface HistorySeriesInfo {
+  series: HistorySeries;
+  retention_days: number;
+  first_day: string | null;
+  last_day: string | null;
+  size_bytes: number;
+}
+
+// Sensor snapshots are large, so they are kept for less time than the process series
+const DEFAULT_RETENTION_DAYS: Record<HistorySeries, number> = {
+  process: 90,
+  sensors: 7,
+  quality: 365,
+  environmental: 90,
+  soft_sensors: 90
+};
+
+const DEFAULT_RAW_LIMIT = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Embedded time-series store. Each series is an append-only JSON-lines file
+ * per UTC day under the data directory, so retention is enforced by dropping
+ * whole day files and queries only read the days their range covers.
+ * Records are flattened to numeric fields; sensor snapshots are keyed by sensor_id
+ * and soft-sensor estimates by `<target>.value|lower|upper`.
+ */
+export class HistoryStore {
+  private directory: string;
+  private retention: Record<HistorySeries, number>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.retention = { ...DEFAULT_RETENTION_DAYS, ...this.loadRetention() };
+  }
+
+  /**
+   * Append the series carried by one dashboard snapshot
+   */
+  record(data: DashboardData): void {
+    this.append('process', [data.current_parameters]);
+    this.append('quality', data.recent_quality);
+    this.append('environmental', [data.environmental_data]);
+    if (data.recent_sensors.length > 0) {
+      const snapshot: HistoryRecord = { timestamp: new Date(data.recent_sensors[0].timestamp).toISOString() };
+      data.recent_sensors.forEach(sensor => {
+        snapshot[sensor.sensor_id] = sensor.value;
+      });
+      this.append('sensors', [snapshot]);
+    }
+    if (data.soft_sensors && data.soft_sensors.length > 0) {
+      const estimates: HistoryRecord = { timestamp: new Date(data.soft_sensors[0].timestamp).toISOString() };
+      data.soft_sensors.forEach(estimate => {
+        estimates[`${estimate.target}.value`] = estimate.value;
+        estimates[`${estimate.target}.lower`] = estimate.lower;
+        estimates[`${estimate.target}.upper`] = estimate.upper;
+      });
+      this.append('soft_sensors', [estimates]);
+    }
+  }
+
+  /**
+   * Append records to a series; they may be any mix of days
+   */
+  append(series: HistorySeries, records: object[]): void {
+    const byDay = new Map<string, string[]>();
+    for (const record of records) {
+      const flat = this.flatten(record);
+      const day = flat.timestamp.slice(0, 10);
+      if (!byDay.has(day)) {
+        byDay.set(day, []);
+      }
+      byDay.get(day)!.push(JSON.stringify(flat));
+    }
+
+    try {
+      fs.mkdirSync(this.seriesDirectory(series), { recursive: true });
+      byDay.forEach((lines, day) => {
+        fs.appendFileSync(this.dayFile(series, day), lines.join('\n') + '\n');
+      });
+    } catch (error) {
+      console.error(`❌ Error writing ${series} history:`, error);
+    }
+  }
+
+  query(series: HistorySeries, query: HistoryQuery): HistoryQueryResult {
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+    let records = this.read(series, from, to);
+
+    if (query.fields && query.fields.length > 0) {
+      const fields = query.fields;
+      records = records.map(record => {
+        const picked: HistoryRecord = { timestamp: record.timestamp };
+        fields.forEach(field => {
+          if (field in record) {
+            picked[field] = record[field];
+          }
+        });
+        return picked;
+      });
+    }
+
+    if (query.bucket_seconds) {
+      return {
+        series,
+        from: query.from,
+        to: query.to,
+        bucket_seconds: query.bucket_seconds,
+        truncated: false,
+        points: this.aggregate(records, query.bucket_seconds * 1000)
+      };
+    }
+
+    const limit = query.limit ?? DEFAULT_RAW_LIMIT;
+    return {
+      series,
+      from: query.from,
+      to: query.to,
+      truncated: records.length > limit,
+      points: records.slice(-limit)
+    };
+  }
+
+  /**
+   * Remove a time range from a series, e.g. before backfilling it again
+   */
+  deleteRange(series: HistorySeries, from: Date, to: Date): void {
+    const start = from.getTime();
+    const end = to.getTime();
+    for (const day of this.listDays(series)) {
+      if (!this.dayOverlaps(day, start, end)) {
+        continue;
+      }
+      const kept = this.readDay(series, day).filter(record => {
+        const time = Date.parse(record.timestamp);
+        return time < start || time > end;
+      });
+      if (kept.length === 0) {
+        this.removeDay(series, day);
+        continue;
+      }
+      try {
+        fs.writeFileSync(this.dayFile(series, day), kept.map(record => JSON.stringify(record)).join('\n') + '\n');
+      } catch (error) {
+        console.error(`❌ Error rewriting ${series} history for ${day}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Drop day files older than each series' retention, measured from its newest day
+   * so simulated or replayed timelines are not cut against the wall clock
+   */
+  enforceRetention(): void {
+    for (const series of HISTORY_SERIES) {
+      const days = this.listDays(series);
+      if (days.length === 0) {
+        continue;
+      }
+      const cutoff = Date.parse(days[days.length - 1]) - this.retention[series] * DAY_MS;
+      const removed = days
+        .filter(day => Date.parse(day) < cutoff)
+        .filter(day => this.removeDay(series, day));
+      if (removed.length > 0) {
+        console.log(`🧹 Removed ${removed.length} expired ${series} history files`);
+      }
+    }
+  }
+
+  setRetention(series: HistorySeries, days: number): void {
+    this.retention[series] = days;
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(path.join(this.directory, 'retention.json'), JSON.stringify(this.retention, null, 2));
+    } catch (error) {
+      console.error('❌ Error persisting history retention:', error);
+    }
+    this.enforceRetention();
+  }
+
+  getSeriesInfo(): HistorySeriesInfo[] {
+    return HISTORY_SERIES.map(series => {
+      const days = this.listDays(series);
+      return {
+        series,
+        retention_days: this.retention[series],
+        first_day: days[0] || null,
+        last_day: days[days.length - 1] || null,
+        size_bytes: days.reduce((total, day) => total + fs.statSync(this.dayFile(series, day)).size, 0)
+      };
+    });
+  }
+
+  /**
+   * Timestamp of the newest stored record in a series
+   */
+  getLatestTimestamp(series: HistorySeries): Date | null {
+    const days = this.listDays(series);
+    if (days.length === 0) {
+      return null;
+    }
+    const records = this.readDay(series, days[days.length - 1]);
+    return records.length > 0 ? new Date(records[records.length - 1].timestamp) : null;
+  }
+
+  private flatten(source: object, prefix: string = '', target: HistoryRecord = { timestamp: '' }): HistoryRecord {
+    Object.entries(source).forEach(([key, value]) => {
+      if (!prefix && key === 'timestamp') {
+        target.timestamp = new Date(value as string | Date).toISOString();
+      } else if (typeof value === 'number') {
+        target[prefix + key] = value;
+      } else if (value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value)) {
+        this.flatten(value, `${prefix}${key}.`, target);
+      }
+    });
+    return target;
+  }
+
+  private aggregate(records: HistoryRecord[], bucketMs: number): HistoryBucket[] {
+    const buckets = new Map<number, { count: number; sum: Record<string, number>; n: Record<string, number>; min: Record<string, number>; max: Record<string, number> }>();
+
+    for (const record of records) {
+      const start = Math.floor(Date.parse(record.timestamp) / bucketMs) * bucketMs;
+      let bucket = buckets.get(start);
+      if (!bucket) {
+        bucket = { count: 0, sum: {}, n: {}, min: {}, max: {} };
+        buckets.set(start, bucket);
+      }
+      bucket.count++;
+      Object.entries(record).forEach(([field, value]) => {
+        if (typeof value !== 'number') {
+          return;
+        }
+        bucket!.sum[field] = (bucket!.sum[field] || 0) + value;
+        bucket!.n[field] = (bucket!.n[field] || 0) + 1;
+        bucket!.min[field] = field in bucket!.min ? Math.min(bucket!.min[field], value) : value;
+        bucket!.max[field] = field in bucket!.max ? Math.max(bucket!.max[field], value) : value;
+      });
+    }
+
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([start, bucket]) => ({
+        timestamp: new Date(start).toISOString(),
+        count: bucket.count,
+        avg: Object.fromEntries(Object.entries(bucket.sum).map(([field, sum]) => [field, sum / bucket.n[field]])),
+        min: bucket.min,
+        max: bucket.max
+      }));
+  }
+
+  private read(series: HistorySeries, from: number, to: number): HistoryRecord[] {
+    const records: HistoryRecord[] = [];
+    for (const day of this.listDays(series)) {
+      if (!this.dayOverlaps(day, from, to)) {
+        continue;
+      }
+      for (const record of this.readDay(series, day)) {
+        const time = Date.parse(record.timestamp);
+        if (time >= from && time <= to) {
+          records.push(record);
+        }
+      }
+    }
+    // Backfills can append out of order
+    return records.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+
+  // A line that does not parse, such as a half-written append, is skipped on its own
+  private readDay(series: HistorySeries, day: string): HistoryRecord[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.dayFile(series, day), 'utf-8');
+    } catch (error) {
+      console.error(`❌ Error reading ${series} history for ${day}:`, error);
+      return [];
+    }
+
+    const records: HistoryRecord[] = [];
+    let skipped = 0;
+    content.split('\n').filter(line => line.trim()).forEach(line => {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        skipped++;
+      }
+    });
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} unreadable ${series} history lines for ${day}`);
+    }
+    return records;
+  }
+
+  // Delete a day file; a failure is logged and the file is left for the next attempt
+  private removeDay(series: HistorySeries, day: string): boolean {
+    try {
+      fs.unlinkSync(this.dayFile(series, day));
+      return true;
+    } catch (error) {
+      console.error(`❌ Error removing ${series} history for ${day}:`, error);
+      return false;
+    }
+  }
+
+  private listDays(series: HistorySeries): string[] {
+    const directory = this.seriesDirectory(series);
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => file.replace('.jsonl', ''))
+      .sort();
+  }
+
+  private dayOverlaps(day: string, from: number, to: number): boolean {
+    const start = Date.parse(day);
+    return start <= to && start + DAY_MS > from;
+  }
+
+  private seriesDirectory(series: HistorySeries): string {
+    return path.join(this.directory, series);
+  }
+
+  private dayFile(series: HistorySeries, day: string): string {
+    return path.join(this.seriesDirectory(series), `${day}.jsonl`);
+  }
+
+  private loadRetention(): Partial<Record<HistorySeries, number>> {
+    const file = path.join(this.directory, 'retention.json');
+    if (!fs.existsSync(file)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.error('❌ Error loading history retention:', error);
+      return {};
+    }
+  }
+}
+
+export function createHistoryStore(): HistoryStore {
+  return new HistoryStore(process.env.HISTORY_DIR || path.join('data', 'history'));
+}
@@ -0,0 +1,259 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import admin from 'firebase-admin';
+
+export type PersistenceBackendKind = 'firebase' | 'file';
+
+export interface ListQuery {
+  startKey?: string;
+  endKey?: string;
+  limit?: number; // keep the last `limit` children
+}
+
+/**
+ * Storage behind FirebaseService, addressed by Realtime Database style paths.
+ * A path is used either as a document (`set`/`get`) or as a list of keyed
+ * children (`push`/`list`/`removeBefore`); list keys sort in insertion time order.
+ */
+export interface PersistenceBackend {
+  readonly kind: PersistenceBackendKind;
+  readonly location: string;
+  set(path: string, value: any): Promise<void>;
+  get<T = any>(path: string): Promise<T | null>;
+  push(path: string, value: any, key?: string): Promise<string>;
+  list<T = any>(path: string, query?: ListQuery): Promise<T[]>;
+  removeBefore(path: string, key: string): Promise<number>;
+  onValue(path: string, callback: (value: any) => void): void;
+  isConnected(): boolean;
+}
+
+// Reads against an unreachable database would otherwise wait for a connection forever
+const FIREBASE_READ_TIMEOUT_MS = 10000;
+
+/**
+ * Firebase Admin SDK backend. When FIREBASE_DATABASE_EMULATOR_HOST is set the
+ * SDK talks to the local Realtime Database emulator and needs no credentials.
+ */
+export class FirebaseAdminBackend implements PersistenceBackend {
+  readonly kind = 'firebase';
+  readonly location: string;
+  private db: admin.database.Database;
+  private connected = false;
+
+  constructor(projectId: string, databaseURL: string) {
+    const options: admin.AppOptions = { projectId, databaseURL };
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS && !process.env.FIREBASE_DATABASE_EMULATOR_HOST) {
+      options.credential = admin.credential.applicationDefault();
+    }
+    const app = admin.apps.find(existing => existing?.name === 'cementai-persistence')
+      || admin.initializeApp(options, 'cementai-persistence');
+
+    this.db = app.database();
+    this.location = process.env.FIREBASE_DATABASE_EMULATOR_HOST
+      ? `emulator ${process.env.FIREBASE_DATABASE_EMULATOR_HOST} (${projectId})`
+      : databaseURL;
+
+    this.db.ref('.info/connected').on('value', snapshot => {
+      this.connected = snapshot.val() === true;
+      console.log(this.connected ? '🔥 Connected to Firebase Realtime Database' : '⚠️ Firebase Realtime Database disconnected');
+    });
+  }
+
+  async set(path: string, value: any): Promise<void> {
+    await this.db.ref(path).set(this.serialize(value));
+  }
+
+  async get<T = any>(path: string): Promise<T | null> {
+    const snapshot = await this.withTimeout(this.db.ref(path).once('value'));
+    return snapshot.exists() ? snapshot.val() : null;
+  }
+
+  async push(path: string, value: any, key?: string): Promise<string> {
+    const ref = key ? this.db.ref(path).child(key) : this.db.ref(path).push();
+    await ref.set(this.serialize(value));
+    return ref.key as string;
+  }
+
+  async list<T = any>(path: string, query: ListQuery = {}): Promise<T[]> {
+    let ref: admin.database.Query = this.db.ref(path).orderByKey();
+    if (query.startKey) {
+      ref = ref.startAt(query.startKey);
+    }
+    if (query.endKey) {
+      ref = ref.endAt(query.endKey);
+    }
+    if (query.limit) {
+      ref = ref.limitToLast(query.limit);
+    }
+    const snapshot = await this.withTimeout(ref.once('value'));
+    const children: T[] = [];
+    snapshot.forEach(child => {
+      children.push(child.val());
+    });
+    return children;
+  }
+
+  async removeBefore(path: string, key: string): Promise<number> {
+    const snapshot = await this.withTimeout(this.db.ref(path).orderByKey().endBefore(key).once('value'));
+    const updates: Record<string, null> = {};
+    snapshot.forEach(child => {
+      updates[child.key as string] = null;
+    });
+    const count = Object.keys(updates).length;
+    if (count > 0) {
+      await this.db.ref(path).update(updates);
+    }
+    return count;
+  }
+
+  onValue(path: string, callback: (value: any) => void): void {
+    this.db.ref(path).on('value', snapshot => {
+      if (snapshot.exists()) {
+        callback(snapshot.val());
+      }
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // The database rejects undefined values and cannot store Date objects
+  private serialize(value: any): any {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Firebase read timed out')), FIREBASE_READ_TIMEOUT_MS);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/**
+ * Local fallback under a data directory: documents are `<path>.json` files
+ * and lists are `<path>.jsonl` files of `{ key, value }` lines.
+ */
+export class FileBackend implements PersistenceBackend {
+  readonly kind = 'file';
+  readonly location: string;
+  private events = new EventEmitter();
+  private lastKeyTime = 0;
+  private keySequence = 0;
+
+  constructor(directory: string) {
+    this.location = directory;
+  }
+
+  async set(dbPath: string, value: any): Promise<void> {
+    const file = this.documentFile(dbPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(value));
+    this.events.emit(dbPath, JSON.parse(JSON.stringify(value)));
+  }
+
+  async get<T = any>(dbPath: string): Promise<T | null> {
+    const file = this.documentFile(dbPath);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  }
+
+  async push(dbPath: string, value: any, key: string = this.nextKey()): Promise<string> {
+    const file = this.listFile(dbPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify({ key, value }) + '\n');
+    return key;
+  }
+
+  async list<T = any>(dbPath: string, query: ListQuery = {}): Promise<T[]> {
+    const entries = this.readList(dbPath)
+      .filter(entry => (!query.startKey || entry.key >= query.startKey) && (!query.endKey || entry.key <= query.endKey));
+    return (query.limit ? entries.slice(-query.limit) : entries).map(entry => entry.value);
+  }
+
+  async removeBefore(dbPath: string, key: string): Promise<number> {
+    const entries = this.readList(dbPath);
+    const kept = entries.filter(entry => entry.key >= key);
+    if (kept.length < entries.length) {
+      fs.writeFileSync(this.listFile(dbPath), kept.map(entry => JSON.stringify(entry) + '\n').join(''));
+    }
+    return entries.length - kept.length;
+  }
+
+  onValue(dbPath: string, callback: (value: any) => void): void {
+    this.events.on(dbPath, callback);
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  // Millisecond timestamp plus a sequence number, so keys sort like Firebase push ids
+  private nextKey(): string {
+    const now = Date.now();
+    this.keySequence = now === this.lastKeyTime ? this.keySequence + 1 : 0;
+    this.lastKeyTime = now;
+    return `${now}-${this.keySequence.toString().padStart(4, '0')}`;
+  }
+
+  private readList(dbPath: string): { key: string; value: any }[] {
+    const file = this.listFile(dbPath);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    return fs.readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  private documentFile(dbPath: string): string {
+    return path.join(this.location, `${this.normalize(dbPath)}.json`);
+  }
+
+  private listFile(dbPath: string): string {
+    return path.join(this.location, `${this.normalize(dbPath)}.jsonl`);
+  }
+
+  private normalize(dbPath: string): string {
+    return dbPath.split('/').filter(segment => segment && segment !== '.' && segment !== '..').join(path.sep);
+  }
+}
+
+/**
+ * Pick the backend from PERSISTENCE_BACKEND. Firebase is also used whenever the
+ * emulator is configured; if the SDK cannot be set up the file backend takes over.
+ */
+export function createPersistenceBackend(): PersistenceBackend {
+  const requested = process.env.PERSISTENCE_BACKEND
+    || (process.env.FIREBASE_DATABASE_EMULATOR_HOST ? 'firebase' : 'file');
+  const directory = process.env.PERSISTENCE_DIR || path.join('data', 'firebase');
+
+  if (requested === 'firebase') {
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GOOGLE_CLOUD_PROJECT_ID || 'cementai-nexus';
+    const databaseURL = process.env.FIREBASE_DATABASE_URL || `https://${projectId}-default-rtdb.firebaseio.com`;
+    try {
+      return new FirebaseAdminBackend(projectId, databaseURL);
+    } catch (error) {
+      console.error('❌ Firebase initialization error, falling back to file persistence:', error);
+    }
+  } else if (requested !== 'file') {
+    console.warn(`⚠️ Unknown PERSISTENCE_BACKEND "${requested}", using file persistence`);
+  }
+
+  return new FileBackend(directory);
+}
@@ -0,0 +1,227 @@
+import { DashboardData, ProcessParameters, QualityPrediction, QualityRiskFactor, ThresholdParameter, ThresholdRule } from '../data/models';
+import { HistoryBucket, HistoryStore } from './historyStore';
+import { fitLinearModel, fitLogisticModel, LinearModel, LogisticModel, logisticLogit, predictLinear, sigmoid } from './regression';
+import { THRESHOLD_PARAMETERS } from './thresholdStore';
+
+// Controllable process inputs; specific energy is an outcome of them, not a cause of quality
+const FEATURES: ThresholdParameter[] = [
+  'kiln_temperature', 'kiln_pressure', 'clinker_temperature', 'preheater_temperature', 'raw_mill_power',
+  'cement_mill_power', 'production_rate', 'alternative_fuel_rate', 'raw_meal_flow', 'cement_fineness', 'exhaust_fan_speed'
+];
+
+// Process averages over one bucket are paired with the quality of the bucket after it
+const BUCKET_SECONDS = 300;
+const MIN_TRAINING_SAMPLES = 30;
+// The defect model needs this many buckets both with and without defects; below that the base rate is used
+const MIN_DEFECT_CLASS_SAMPLES = 5;
+// A point of quality score weighs the same as one percentage point of defect probability
+const DEFECT_WEIGHT = 100;
+const MIN_RISK = 0.5;
+const MAX_RISK_FACTORS = 5;
+
+export interface QualityPredictorTrainingResult {
+  trained: boolean;
+  samples: number;
+  r2: number | null;
+  defect_model: 'logistic' | 'base_rate' | null;
+  error?: string;
+}
+
+export interface QualityPredictorStatus {
+  trained: boolean;
+  trained_at: string | null;
+  history_end: string | null;
+  samples: number;
+  features: ThresholdParameter[];
+  horizon_seconds: number;
+  score_r2: number | null;
+  score_residual_std: number | null;
+  defect_model: 'logistic' | 'base_rate' | null;
+  defect_rate: number | null; // share of training buckets with a defect
+}
+
+interface TrainedModels {
+  trained_at: string;
+  history_end: string;
+  score: LinearModel;
+  defect: LogisticModel | null;
+  defect_rate: number;
+}
+
+/**
+ * Forecasts the next quality sample from the current process parameters. A
+ * ridge regression predicts the quality score and a logistic model the
+ * probability of a defect, both trained on process history paired with the
+ * quality history one bucket later. Parameters that pull the forecast below
+ * what the training history typically gives are reported as risk factors,
+ * with the direction to move them.
+ */
+export class QualityPredictor {
+  private history: HistoryStore;
+  private trainingDays: number;
+  private models: TrainedModels | null = null;
+
+  constructor(history: HistoryStore, trainingDays: number = 30) {
+    this.history = history;
+    this.trainingDays = trainingDays;
+  }
+
+  /**
+   * Refit on the stored history; with too few pairs the previous models are kept
+   */
+  train(): QualityPredictorTrainingResult {
+    const latest = this.history.getLatestTimestamp('process');
+    if (!latest) {
+      return { trained: false, samples: 0, r2: null, defect_model: null, error: 'No process history to train on' };
+    }
+
+    const range = {
+      from: new Date(latest.getTime() - this.trainingDays * 24 * 3600000),
+      to: latest,
+      bucket_seconds: BUCKET_SECONDS
+    };
+    const process = this.history.query('process', range).points as HistoryBucket[];
+    const quality = this.history.query('quality', range).points as HistoryBucket[];
+    const processByBucket = new Map(process.map(bucket => [Date.parse(bucket.timestamp), bucket.avg]));
+
+    const rows: number[][] = [];
+    const scores: number[] = [];
+    const defects: boolean[] = [];
+    quality.forEach(bucket => {
+      const inputs = processByBucket.get(Date.parse(bucket.timestamp) - BUCKET_SECONDS * 1000);
+      const score = bucket.avg.quality_score;
+      const defectCount = bucket.max.defect_count;
+      if (!inputs || score === undefined || defectCount === undefined || FEATURES.some(feature => inputs[feature] === undefined)) {
+        return;
+      }
+      rows.push(FEATURES.map(feature => inputs[feature]));
+      scores.push(score);
+      defects.push(defectCount > 0);
+    });
+
+    if (rows.length < MIN_TRAINING_SAMPLES) {
+      return {
+        trained: false,
+        samples: rows.length,
+        r2: null,
+        defect_model: null,
+        error: `${rows.length} paired process and quality samples; at least ${MIN_TRAINING_SAMPLES} are needed`
+      };
+    }
+    const score = fitLinearModel(FEATURES, rows, scores);
+    if (!score) {
+      return { trained: false, samples: rows.length, r2: null, defect_model: null, error: 'Process inputs are degenerate; the model could not be fitted' };
+    }
+
+    const positives = defects.filter(Boolean).length;
+    const defect = positives >= MIN_DEFECT_CLASS_SAMPLES && rows.length - positives >= MIN_DEFECT_CLASS_SAMPLES
+      ? fitLogisticModel(FEATURES, rows, defects)
+      : null;
+
+    this.models = {
+      trained_at: new Date().toISOString(),
+      history_end: latest.toISOString(),
+      score,
+      defect,
+      // Laplace smoothing keeps the base rate off 0 and 1 on short histories
+      defect_rate: (positives + 1) / (rows.length + 2)
+    };
+    const defectModel = defect ? 'logistic' : 'base_rate';
+    console.log(`🧪 Trained quality predictor: ${rows.length} samples, score R² ${score.r2.toFixed(2)}, defects ${defectModel}`);
+    return { trained: true, samples: rows.length, r2: score.r2, defect_model: defectModel };
+  }
+
+  /**
+   * Attach the forecast for a snapshot's process parameters as `quality_prediction`
+   */
+  observe(data: DashboardData, limits: ThresholdRule[]): QualityPrediction | null {
+    const prediction = this.predict(data.current_parameters, new Date(data.plant_overview.timestamp), limits);
+    data.quality_prediction = prediction || undefined;
+    return prediction;
+  }
+
+  /**
+   * Forecast for the quality sample one bucket after `timestamp`. Targets come
+   * from the limits' optimum when it lies on the helpful side; null until trained.
+   */
+  predict(params: ProcessParameters, timestamp: Date, limits: ThresholdRule[] = []): QualityPrediction | null {
+    if (!this.models) {
+      return null;
+    }
+    const { score, defect, defect_rate } = this.models;
+    const row = FEATURES.map(feature => params[feature]);
+
+    const predictedScore = Math.max(0, Math.min(100, predictLinear(score, row).value));
+    const logit = defect ? logisticLogit(defect, row) : 0;
+    const defectProbability = defect ? sigmoid(logit) : defect_rate;
+
+    const factors: (QualityRiskFactor & { risk: number })[] = FEATURES.map((parameter, j) => {
+      const typical = score.means[j];
+      const scoreImpact = score.coefficients[j] / score.scales[j] * (row[j] - typical);
+      // Probability change from moving this parameter alone back to its typical value
+      const defectImpact = defect
+        ? defectProbability - sigmoid(logit - defect.coefficients[j] * (row[j] - defect.means[j]) / defect.scales[j])
+        : 0;
+      // Moving toward the typical value lowers this risk, so the optimum only serves as target in that direction
+      const optimal = limits.find(limit => limit.parameter === parameter)?.optimal;
+      const target = optimal !== undefined && Math.sign(optimal - row[j]) === Math.sign(typical - row[j]) ? optimal : typical;
+      return {
+        parameter,
+        current_value: row[j],
+        typical_value: typical,
+        target_value: target,
+        score_impact: scoreImpact,
+        defect_impact: defectImpact,
+        risk: -scoreImpact + DEFECT_WEIGHT * defectImpact
+      };
+    })
+      .filter(factor => factor.risk >= MIN_RISK)
+      .sort((a, b) => b.risk - a.risk)
+      .slice(0, MAX_RISK_FACTORS);
+
+    return {
+      timestamp: new Date(timestamp.getTime() + BUCKET_SECONDS * 1000),
+      predicted_quality_score: predictedScore,
+      defect_probability: defectProbability,
+      risk_factors: factors.map(factor => this.describeRisk(factor)),
+      recommendations: factors.map(factor => {
+        const { label, unit } = THRESHOLD_PARAMETERS[factor.parameter];
+        const verb = factor.target_value > factor.current_value ? 'Increase' : 'Decrease';
+        return `${verb} ${label.toLowerCase()} from ${factor.current_value.toFixed(1)} to ${factor.target_value.toFixed(1)} ${unit}`;
+      }),
+      factors: factors.map(({ risk, ...factor }) => factor)
+    };
+  }
+
+  getStatus(): QualityPredictorStatus {
+    const models = this.models;
+    return {
+      trained: models !== null,
+      trained_at: models?.trained_at ?? null,
+      history_end: models?.history_end ?? null,
+      samples: models?.score.samples ?? 0,
+      features: FEATURES,
+      horizon_seconds: BUCKET_SECONDS,
+      score_r2: models?.score.r2 ?? null,
+      score_residual_std: models?.score.residual_std ?? null,
+      defect_model: models ? (models.defect ? 'logistic' : 'base_rate') : null,
+      defect_rate: models?.defect_rate ?? null
+    };
+  }
+
+  private describeRisk(factor: QualityRiskFactor): string {
+    const { label, unit } = THRESHOLD_PARAMETERS[factor.parameter];
+    const effects: string[] = [];
+    if (factor.score_impact < 0) {
+      effects.push(`lowers the predicted score by ${(-factor.score_impact).toFixed(1)}`);
+    }
+    if (factor.defect_impact > 0) {
+      effects.push(`adds ${(factor.defect_impact * 100).toFixed(1)}% defect probability`);
+    }
+    return `${label} at ${factor.current_value.toFixed(1)} ${unit} (typical ${factor.typical_value.toFixed(1)}) ${effects.join(' and ')}`;
+  }
+}
+
+export function createQualityPredictor(history: HistoryStore): QualityPredictor {
+  return new QualityPredictor(history, parseFloat(process.env.QUALITY_PREDICTION_TRAINING_DAYS || '30'));
+}
@@ -0,0 +1,184 @@
+/**
+ * A linear model fitted by ridge regression on standardized features. It keeps
+ * the inverse of the regularized normal matrix so predictions carry a standard
+ * error, and it serializes to plain JSON for persistence.
+ */
+export interface LinearModel {
+  features: string[];
+  means: number[];
+  scales: number[];
+  coefficients: number[]; // per standardized feature
+  intercept: number;
+  inverse: number[][]; // (ZᵀZ + λI)⁻¹ of the standardized design matrix
+  residual_std: number;
+  r2: number;
+  samples: number;
+}
+
+export interface LinearPrediction {
+  value: number;
+  std: number; // standard error of a new observation at this point
+}
+
+// Solve A·x = b for every column of `rhs` by Gauss-Jordan elimination with partial pivoting
+function solve(matrix: number[][], rhs: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const divisor = a[col][col];
+    for (let k = col; k < a[col].length; k++) {
+      a[col][k] /= divisor;
+    }
+    for (let row = 0; row < n; row++) {
+      if (row !== col && a[row][col] !== 0) {
+        const factor = a[row][col];
+        for (let k = col; k < a[row].length; k++) {
+          a[row][k] -= factor * a[col][k];
+        }
+      }
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * Fit `targets` from `rows` (one value per feature, in `features` order).
+ * `ridge` scales the penalty with the sample count so collinear inputs stay
+ * stable without shrinking well-determined fits. Returns null when there are
+ * too few rows to fit.
+ */
+export function fitLinearModel(features: string[], rows: number[][], targets: number[], ridge: number = 0.01): LinearModel | null {
+  const n = rows.length;
+  const p = features.length;
+  if (n < p + 2) {
+    return null;
+  }
+
+  const means = features.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+  const scales = features.map((_, j) => {
+    const variance = rows.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / n;
+    return variance > 0 ? Math.sqrt(variance) : 1;
+  });
+  const z = rows.map(row => row.map((value, j) => (value - means[j]) / scales[j]));
+  const intercept = targets.reduce((sum, y) => sum + y, 0) / n;
+
+  const normal = features.map((_, i) => features.map((__, j) =>
+    z.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? ridge * n : 0)));
+  const identity = features.map((_, i) => features.map((__, j) => (i === j ? 1 : 0)));
+  const inverse = solve(normal, identity);
+  if (!inverse) {
+    return null;
+  }
+  const moments = features.map((_, i) => z.reduce((sum, row, k) => sum + row[i] * (targets[k] - intercept), 0));
+  const coefficients = inverse.map(row => row.reduce((sum, value, j) => sum + value * moments[j], 0));
+
+  let sse = 0;
+  let sst = 0;
+  z.forEach((row, k) => {
+    const fitted = intercept + row.reduce((sum, value, j) => sum + value * coefficients[j], 0);
+    sse += (targets[k] - fitted) ** 2;
+    sst += (targets[k] - intercept) ** 2;
+  });
+
+  return {
+    features,
+    means,
+    scales,
+    coefficients,
+    intercept,
+    inverse,
+    residual_std: Math.sqrt(sse / Math.max(1, n - p - 1)),
+    r2: sst > 0 ? 1 - sse / sst : 0,
+    samples: n
+  };
+}
+
+export function predictLinear(model: LinearModel, row: number[]): LinearPrediction {
+  const z = row.map((value, j) => (value - model.means[j]) / model.scales[j]);
+  const value = model.intercept + z.reduce((sum, v, j) => sum + v * model.coefficients[j], 0);
+  const leverage = z.reduce((sum, vi, i) =>
+    sum + vi * model.inverse[i].reduce((inner, vij, j) => inner + vij * z[j], 0), 0);
+  return {
+    value,
+    std: model.residual_std * Math.sqrt(1 + 1 / model.samples + Math.max(0, leverage))
+  };
+}
+
+/**
+ * A logistic model of the probability that a binary outcome occurs, fitted by
+ * penalized Newton iterations on standardized features
+ */
+export interface LogisticModel {
+  features: string[];
+  means: number[];
+  scales: number[];
+  coefficients: number[]; // log-odds per standardized feature
+  intercept: number;
+  samples: number;
+  positives: number;
+}
+
+const MAX_NEWTON_ITERATIONS = 50;
+
+export const sigmoid = (logit: number): number => 1 / (1 + Math.exp(-logit));
+
+/**
+ * Fit the probability that `outcomes` is true from `rows`. The ridge penalty
+ * (scaled by the sample count, intercept unpenalized) keeps the fit finite
+ * when the classes separate. Returns null when there are too few rows or the
+ * iterations do not converge.
+ */
+export function fitLogisticModel(features: string[], rows: number[][], outcomes: boolean[], ridge: number = 0.01): LogisticModel | null {
+  const n = rows.length;
+  const p = features.length;
+  if (n < p + 2) {
+    return null;
+  }
+
+  const means = features.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+  const scales = features.map((_, j) => {
+    const variance = rows.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / n;
+    return variance > 0 ? Math.sqrt(variance) : 1;
+  });
+  // Leading 1 for the intercept
+  const x = rows.map(row => [1, ...row.map((value, j) => (value - means[j]) / scales[j])]);
+  const y = outcomes.map(outcome => (outcome ? 1 : 0));
+  const positives = y.reduce<number>((sum, value) => sum + value, 0);
+
+  const beta = new Array(p + 1).fill(0);
+  beta[0] = Math.log((positives + 0.5) / (n - positives + 0.5));
+  for (let iteration = 0; iteration < MAX_NEWTON_ITERATIONS; iteration++) {
+    const probabilities = x.map(row => sigmoid(row.reduce((sum, value, j) => sum + value * beta[j], 0)));
+    const gradient = beta.map((b, i) =>
+      x.reduce((sum, row, k) => sum + row[i] * (y[k] - probabilities[k]), 0) - (i > 0 ? ridge * n * b : 0));
+    const hessian = beta.map((_, i) => beta.map((__, j) =>
+      x.reduce((sum, row, k) => sum + row[i] * row[j] * probabilities[k] * (1 - probabilities[k]), 0) + (i === j && i > 0 ? ridge * n : 0)));
+    const step = solve(hessian, gradient.map(g => [g]));
+    if (!step) {
+      return null;
+    }
+    let change = 0;
+    step.forEach(([delta], i) => {
+      beta[i] += delta;
+      change = Math.max(change, Math.abs(delta));
+    });
+    if (change < 1e-6) {
+      return { features, means, scales, coefficients: beta.slice(1), intercept: beta[0], samples: n, positives };
+    }
+  }
+  return null;
+}
+
+export function logisticLogit(model: LogisticModel, row: number[]): number {
+  return model.intercept + row.reduce((sum, value, j) => sum + model.coefficients[j] * (value - model.means[j]) / model.scales[j], 0);
+}
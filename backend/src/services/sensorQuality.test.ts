@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DashboardData, DataQualitySummary, SensorReading } from '../data/models';
+import { SensorQualityMonitor } from './sensorQuality';
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+const INTERVAL_MS = 5000;
+
+// Snapshot carrying one kiln temperature reading; model fields are left out
+function snapshot(value: number, tick: number, timeMs: number = START + tick * INTERVAL_MS): DashboardData {
+  const timestamp = new Date(timeMs);
+  const reading: SensorReading = {
+    timestamp,
+    sensor_id: 'KILN_TEMP_01',
+    value,
+    unit: '°C',
+    location: 'Kiln Burning Zone',
+    sensor_type: 'temperature'
+  };
+  return {
+    plant_overview: { timestamp },
+    recent_sensors: [reading],
+    current_parameters: {},
+    recent_quality: [],
+    environmental_data: {}
+  } as unknown as DashboardData;
+}
+
+// Readings varying a little around 1450 °C
+const normal = (tick: number) => 1450 + (tick % 3) - 1;
+
+function feed(monitor: SensorQualityMonitor, values: number[]): { data: DashboardData; summary: DataQualitySummary }[] {
+  return values.map((value, tick) => {
+    const data = snapshot(value, tick);
+    return { data, summary: monitor.assess(data) };
+  });
+}
+
+describe('SensorQualityMonitor', () => {
+  it('passes a varying reading as good', () => {
+    const results = feed(new SensorQualityMonitor({ substitute: false }), Array.from({ length: 12 }, (_, tick) => normal(tick)));
+    assert.ok(results.every(({ data }) => data.recent_sensors[0].quality?.code === 'good'));
+    assert.deepEqual(results[results.length - 1].summary.issues, []);
+  });
+
+  it('marks a physically impossible reading bad and substitutes it only when enabled', () => {
+    const values = [...Array.from({ length: 8 }, (_, tick) => normal(tick)), 5000];
+    const kept = feed(new SensorQualityMonitor({ substitute: false }), values).pop()!;
+    assert.equal(kept.data.recent_sensors[0].value, 5000);
+    assert.deepEqual(kept.data.recent_sensors[0].quality, { code: 'bad', flags: ['out_of_range', 'spike'], substituted: false });
+
+    const replaced = feed(new SensorQualityMonitor({ substitute: true }), values).pop()!;
+    assert.equal(replaced.data.recent_sensors[0].value, normal(7));
+    assert.equal(replaced.data.recent_sensors[0].quality?.raw_value, 5000);
+    assert.equal(replaced.summary.substituted, 1);
+  });
+
+  it('marks a reading stuck after five identical values on a channel that moved before', () => {
+    const values = [1449, 1450, 1451, 1452, 1452, 1452, 1452, 1452];
+    const results = feed(new SensorQualityMonitor({ substitute: false }), values);
+    assert.equal(results[6].data.recent_sensors[0].quality?.code, 'good');
+    assert.deepEqual(results[7].data.recent_sensors[0].quality?.flags, ['stuck']);
+    assert.equal(results[7].data.recent_sensors[0].quality?.code, 'bad');
+  });
+
+  it('flags a spike as uncertain and never replaces it', () => {
+    const values = [...Array.from({ length: 8 }, (_, tick) => normal(tick)), 1600];
+    const { data } = feed(new SensorQualityMonitor({ substitute: true }), values).pop()!;
+    assert.equal(data.recent_sensors[0].value, 1600);
+    assert.deepEqual(data.recent_sensors[0].quality, { code: 'uncertain', flags: ['spike'], substituted: false });
+  });
+
+  it('flags a reading that arrives long after the usual interval', () => {
+    const monitor = new SensorQualityMonitor({ substitute: false });
+    feed(monitor, Array.from({ length: 6 }, (_, tick) => normal(tick)));
+    const late = snapshot(normal(6), 6, START + 20 * INTERVAL_MS);
+    monitor.assess(late);
+    assert.deepEqual(late.recent_sensors[0].quality?.flags, ['timestamp_gap']);
+  });
+
+  it('reports per-channel health', () => {
+    const monitor = new SensorQualityMonitor({ substitute: false });
+    feed(monitor, [...Array.from({ length: 8 }, (_, tick) => normal(tick)), 5000]);
+    const [health] = monitor.getChannelHealth('sensor');
+    assert.equal(health.channel, 'KILN_TEMP_01');
+    assert.equal(health.readings, 9);
+    assert.equal(health.bad, 1);
+    assert.equal(health.last_good_value, normal(7));
+    assert.equal(health.typical_interval_seconds, INTERVAL_MS / 1000);
+  });
+});
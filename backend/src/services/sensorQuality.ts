@@ -0,0 +1,373 @@
+import {
+  DashboardData,
+  DataQualityCode,
+  DataQualityFlag,
+  DataQualityIssue,
+  DataQualitySummary,
+  PlantOverview,
+  ReadingQuality
+} from '../data/models';
+import { MAPPABLE_FIELDS, MappingGroup } from '../data/csvIngest';
+
+// Physically possible sensor values by unit; a reading outside them is a fault, not a process state
+const PHYSICAL_LIMITS: Record<string, [number, number]> = {
+  '°C': [-40, 1800],
+  kPa: [-100, 100],
+  kW: [0, 20000],
+  't/h': [0, 8000],
+  TPH: [0, 8000],
+  'mm/s': [0, 100],
+  'mg/Nm³': [0, 10000],
+  'm²/kg': [100, 800],
+  '%': [0, 100],
+  RPM: [0, 3000],
+  pH: [0, 14]
+};
+
+const FLAG_CODES: Record<DataQualityFlag, Exclude<DataQualityCode, 'good'>> = {
+  stuck: 'bad',
+  out_of_range: 'bad',
+  spike: 'uncertain', // real process upsets jump too; flagged, never replaced
+  flatline: 'uncertain',
+  timestamp_gap: 'uncertain'
+};
+
+// Numeric plant overview fields
+type OverviewKpi = { [K in keyof PlantOverview]: PlantOverview[K] extends number ? K : never }[keyof PlantOverview];
+
+// Plant overview KPIs and the model fields they are computed from
+const KPI_INPUTS: Partial<Record<OverviewKpi, string[]>> = {
+  production_rate_current: ['process.production_rate'],
+  energy_consumption_current: ['process.energy_consumption'],
+  overall_efficiency: ['process.production_rate'],
+  quality_score_avg: ['quality.quality_score']
+};
+
+// Only readings that cannot be a process value are worth replacing
+const SUBSTITUTED_FLAGS: DataQualityFlag[] = ['out_of_range', 'stuck'];
+
+const HISTORY_LENGTH = 20;
+const STUCK_COUNT = 5; // identical readings in a row
+const FLATLINE_COUNT = 10; // readings whose range is below FLATLINE_FRACTION of the span
+const FLATLINE_FRACTION = 1e-6;
+const SPIKE_MIN_HISTORY = 6;
+const SPIKE_SIGMAS = 8;
+const GAP_FACTOR = 3; // interval over this many typical intervals
+
+export interface DataQualityConfig {
+  substitute: boolean; // replace out-of-range and stuck readings with the channel's last good value
+}
+
+export interface ChannelHealth {
+  channel: string;
+  kind: 'sensor' | 'field';
+  unit: string;
+  limits: [number, number] | null;
+  readings: number;
+  good: number;
+  uncertain: number;
+  bad: number;
+  substituted: number;
+  good_ratio: number | null;
+  flag_counts: Record<DataQualityFlag, number>;
+  last_code: DataQualityCode | null;
+  last_flags: DataQualityFlag[];
+  last_value: number | null;
+  last_good_value: number | null;
+  last_good_at: Date | null;
+  last_seen: Date | null;
+  typical_interval_seconds: number | null;
+}
+
+interface Sample {
+  value: number;
+  time: number;
+}
+
+interface Channel {
+  kind: ChannelHealth['kind'];
+  unit: string;
+  limits: [number, number] | null;
+  samples: Sample[]; // raw readings, oldest first
+  lastGood: Sample | null;
+  varied: boolean; // has ever changed value; constant channels are setpoints, not frozen transmitters
+  lastCode: DataQualityCode | null;
+  lastFlags: DataQualityFlag[];
+  counts: Record<DataQualityCode, number>;
+  flagCounts: Record<DataQualityFlag, number>;
+  substituted: number;
+}
+
+interface Verdict extends ReadingQuality {
+  value: number; // value to use downstream
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Checks every sensor reading and model field of a snapshot before it reaches
+ * alerts, history and AI prompts. Each channel keeps a short window of raw
+ * readings to detect stuck, flatlined and spiking values and timestamp gaps;
+ * impossible values are judged against physical limits. Out-of-range and stuck
+ * readings can be replaced by the channel's last good value, and plant KPIs
+ * computed from bad inputs hold their last good value.
+ */
+export class SensorQualityMonitor {
+  private config: DataQualityConfig;
+  private channels = new Map<string, Channel>();
+  private goodKpis: Partial<Record<OverviewKpi, number>> = {};
+  private latest: DataQualitySummary | null = null;
+
+  constructor(config: DataQualityConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Grade a snapshot in place: tags each sensor reading with its quality,
+   * substitutes out-of-range and stuck values when enabled and attaches the summary as `data_quality`
+   */
+  assess(data: DashboardData): DataQualitySummary {
+    const summary: DataQualitySummary = { good: 0, uncertain: 0, bad: 0, substituted: 0, issues: [], excluded_kpis: [] };
+    const badFields = new Set<string>();
+    const snapshotTime = new Date(data.plant_overview.timestamp).getTime();
+
+    const tally = (channel: string, verdict: Verdict, raw: number) => {
+      summary[verdict.code]++;
+      if (verdict.substituted) {
+        summary.substituted++;
+      }
+      if (verdict.code !== 'good') {
+        summary.issues.push({
+          channel,
+          code: verdict.code,
+          flags: verdict.flags,
+          value: raw,
+          ...(verdict.substituted ? { substituted_value: verdict.value } : {})
+        });
+      }
+    };
+
+    data.recent_sensors.forEach(reading => {
+      const raw = reading.value;
+      const verdict = this.check(reading.sensor_id, 'sensor', reading.unit, PHYSICAL_LIMITS[reading.unit] || null,
+        raw, new Date(reading.timestamp).getTime());
+      reading.value = verdict.value;
+      reading.quality = {
+        code: verdict.code,
+        flags: verdict.flags,
+        substituted: verdict.substituted,
+        ...(verdict.substituted ? { raw_value: raw } : {})
+      };
+      tally(reading.sensor_id, verdict, raw);
+    });
+
+    const groups: Record<MappingGroup, any> = {
+      process: data.current_parameters,
+      quality: data.recent_quality[data.recent_quality.length - 1],
+      environmental: data.environmental_data
+    };
+    (Object.keys(MAPPABLE_FIELDS) as MappingGroup[]).forEach(group => {
+      const target = groups[group];
+      Object.entries(MAPPABLE_FIELDS[group]).forEach(([field, spec]) => {
+        const channel = `${group}.${field}`;
+        const path = field.split('.');
+        const parent = path.slice(0, -1).reduce((obj, part) => obj?.[part], target);
+        const raw = parent?.[path[path.length - 1]];
+        // Held values repeat an earlier reading and gap-filled ones were never read
+        const origin = data.provenance?.fields[channel];
+        if (typeof raw !== 'number' || origin === 'held' || origin === 'simulated') {
+          return;
+        }
+
+        const verdict = this.check(channel, 'field', spec.unit, [spec.min, spec.max], raw, snapshotTime);
+        parent[path[path.length - 1]] = verdict.value;
+        if (verdict.code === 'bad') {
+          badFields.add(channel);
+        }
+        tally(channel, verdict, raw);
+      });
+    });
+
+    const overview = data.plant_overview;
+    (Object.entries(KPI_INPUTS) as [OverviewKpi, string[]][]).forEach(([kpi, inputs]) => {
+      if (inputs.some(input => badFields.has(input))) {
+        const good = this.goodKpis[kpi];
+        if (good !== undefined) {
+          overview[kpi] = good;
+        }
+        summary.excluded_kpis.push(kpi);
+      } else {
+        this.goodKpis[kpi] = overview[kpi];
+      }
+    });
+
+    data.data_quality = summary;
+    this.latest = summary;
+    return summary;
+  }
+
+  getSummary(): DataQualitySummary | null {
+    return this.latest;
+  }
+
+  getConfig(): DataQualityConfig {
+    return { ...this.config };
+  }
+
+  setSubstitution(enabled: boolean): void {
+    this.config.substitute = enabled;
+  }
+
+  getChannelHealth(kind?: ChannelHealth['kind']): ChannelHealth[] {
+    return Array.from(this.channels.entries())
+      .filter(([, state]) => !kind || state.kind === kind)
+      .map(([channel, state]) => {
+        const readings = state.counts.good + state.counts.uncertain + state.counts.bad;
+        const last = state.samples[state.samples.length - 1];
+        const interval = this.typicalInterval(state.samples);
+        return {
+          channel,
+          kind: state.kind,
+          unit: state.unit,
+          limits: state.limits,
+          readings,
+          good: state.counts.good,
+          uncertain: state.counts.uncertain,
+          bad: state.counts.bad,
+          substituted: state.substituted,
+          good_ratio: readings > 0 ? state.counts.good / readings : null,
+          flag_counts: { ...state.flagCounts },
+          last_code: state.lastCode,
+          last_flags: state.lastFlags,
+          last_value: last ? last.value : null,
+          last_good_value: state.lastGood ? state.lastGood.value : null,
+          last_good_at: state.lastGood ? new Date(state.lastGood.time) : null,
+          last_seen: last ? new Date(last.time) : null,
+          typical_interval_seconds: interval !== null ? interval / 1000 : null
+        };
+      });
+  }
+
+  private check(id: string, kind: Channel['kind'], unit: string, limits: [number, number] | null,
+    value: number, time: number): Verdict {
+    let channel = this.channels.get(id);
+    if (!channel) {
+      channel = {
+        kind,
+        unit,
+        limits,
+        samples: [],
+        lastGood: null,
+        varied: false,
+        lastCode: null,
+        lastFlags: [],
+        counts: { good: 0, uncertain: 0, bad: 0 },
+        flagCounts: { stuck: 0, out_of_range: 0, flatline: 0, spike: 0, timestamp_gap: 0 },
+        substituted: 0
+      };
+      this.channels.set(id, channel);
+    }
+
+    // A live feed without a new reading repeats the last one; judge it as before
+    const previous = channel.samples[channel.samples.length - 1];
+    if (previous && previous.time === time && previous.value === value) {
+      return this.verdict(channel, channel.lastCode || 'good', channel.lastFlags, value);
+    }
+
+    const flags = this.detect(channel, value, time);
+    channel.varied = channel.varied || (previous !== undefined && previous.value !== value);
+    channel.samples.push({ value, time });
+    if (channel.samples.length > HISTORY_LENGTH) {
+      channel.samples.shift();
+    }
+
+    const code: DataQualityCode = flags.some(flag => FLAG_CODES[flag] === 'bad')
+      ? 'bad'
+      : flags.length > 0 ? 'uncertain' : 'good';
+    channel.counts[code]++;
+    flags.forEach(flag => channel!.flagCounts[flag]++);
+    channel.lastCode = code;
+    channel.lastFlags = flags;
+    if (code === 'good') {
+      channel.lastGood = { value, time };
+    }
+
+    const verdict = this.verdict(channel, code, flags, value);
+    if (verdict.substituted) {
+      channel.substituted++;
+    }
+    return verdict;
+  }
+
+  private verdict(channel: Channel, code: DataQualityCode, flags: DataQualityFlag[], value: number): Verdict {
+    const substitute = this.config.substitute && channel.lastGood !== null
+      && flags.some(flag => SUBSTITUTED_FLAGS.includes(flag));
+    return {
+      code,
+      flags,
+      substituted: substitute,
+      value: substitute ? channel.lastGood!.value : value
+    };
+  }
+
+  private detect(channel: Channel, value: number, time: number): DataQualityFlag[] {
+    const flags: DataQualityFlag[] = [];
+    const history = channel.samples;
+    const span = channel.limits ? channel.limits[1] - channel.limits[0] : Math.max(Math.abs(value), 1);
+
+    if (channel.limits && (value < channel.limits[0] || value > channel.limits[1])) {
+      flags.push('out_of_range');
+    }
+
+    // A constant zero is a stopped asset, not a frozen transmitter
+    const recent = [...history.slice(-(STUCK_COUNT - 1)), { value, time }];
+    if (channel.varied && value !== 0 && recent.length === STUCK_COUNT && recent.every(sample => sample.value === value)) {
+      flags.push('stuck');
+    } else {
+      const window = [...history.slice(-(FLATLINE_COUNT - 1)).map(sample => sample.value), value];
+      const range = Math.max(...window) - Math.min(...window);
+      if (window.length === FLATLINE_COUNT && range > 0 && range < span * FLATLINE_FRACTION) {
+        flags.push('flatline');
+      }
+    }
+
+    if (history.length >= SPIKE_MIN_HISTORY) {
+      const values = history.map(sample => sample.value);
+      const center = median(values);
+      const mad = median(values.map(v => Math.abs(v - center))) * 1.4826;
+      const threshold = Math.max(SPIKE_SIGMAS * mad, 0.02 * Math.abs(center), 0.01 * span);
+      const last = values[values.length - 1];
+      if (Math.abs(value - center) > threshold && Math.abs(value - last) > threshold) {
+        flags.push('spike');
+      }
+    }
+
+    const previous = history[history.length - 1];
+    if (previous) {
+      const interval = this.typicalInterval(history);
+      if (time < previous.time || (interval !== null && time - previous.time > GAP_FACTOR * interval)) {
+        flags.push('timestamp_gap');
+      }
+    }
+
+    return flags;
+  }
+
+  // Median spacing of a channel's readings in ms, once there are enough to tell
+  private typicalInterval(samples: Sample[]): number | null {
+    const intervals = samples.slice(1)
+      .map((sample, index) => sample.time - samples[index].time)
+      .filter(interval => interval > 0);
+    return intervals.length >= 3 ? median(intervals) : null;
+  }
+}
+
+export function createSensorQualityMonitor(): SensorQualityMonitor {
+  return new SensorQualityMonitor({
+    substitute: process.env.DATA_QUALITY_SUBSTITUTE === 'true'
+  });
+}
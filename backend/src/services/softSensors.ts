@@ -0,0 +1,412 @@
+import fs from 'fs';
+import path from 'path';
+import { DashboardData, ProcessParameters, QualityMetrics, SoftSensorEstimate, SoftSensorTarget } from '../data/models';
+import { HistoryBucket, HistoryStore } from './historyStore';
+import { fitLinearModel, LinearModel, predictLinear } from './regression';
+
+type ProcessFeature = Exclude<keyof ProcessParameters, 'timestamp'>;
+type CompositionField = keyof QualityMetrics['chemical_composition'];
+type LabField = 'blaine_fineness' | 'compressive_strength_28d' | `chemical_composition.${CompositionField}`;
+
+interface SoftSensorSpec {
+  label: string;
+  unit: string;
+  quality_field: LabField; // flattened QualityMetrics key holding the lab value
+  features: ProcessFeature[];
+}
+
+export const SOFT_SENSORS: Record<SoftSensorTarget, SoftSensorSpec> = {
+  free_lime: {
+    label: 'Free lime',
+    unit: '%',
+    quality_field: 'chemical_composition.free_lime',
+    features: ['kiln_temperature', 'clinker_temperature', 'preheater_temperature', 'kiln_pressure',
+      'production_rate', 'raw_meal_flow', 'alternative_fuel_rate', 'exhaust_fan_speed']
+  },
+  blaine_fineness: {
+    label: 'Blaine fineness',
+    unit: 'm²/kg',
+    quality_field: 'blaine_fineness',
+    features: ['cement_fineness', 'cement_mill_power', 'production_rate']
+  },
+  compressive_strength_28d: {
+    label: '28-day strength',
+    unit: 'MPa',
+    quality_field: 'compressive_strength_28d',
+    features: ['kiln_temperature', 'clinker_temperature', 'cement_fineness', 'cement_mill_power',
+      'production_rate', 'alternative_fuel_rate']
+  }
+};
+
+export const SOFT_SENSOR_TARGETS = Object.keys(SOFT_SENSORS) as SoftSensorTarget[];
+
+// Process and lab history are paired per bucket of this width
+const TRAINING_BUCKET_SECONDS = 300;
+const MIN_TRAINING_SAMPLES = 30;
+// Share of each lab residual folded into the bias
+const RECALIBRATION_GAIN = 0.3;
+// Lab residuals kept to widen the band when the model drifts from the lab
+const MAX_RESIDUALS = 30;
+const MIN_RESIDUALS_FOR_SPREAD = 5;
+const Z_95 = 1.96;
+const MAX_CHART_POINTS = 200;
+// Lab results arriving close together are persisted in one write
+const SAVE_DELAY_MS = 30000;
+
+export interface LabSample {
+  timestamp: Date;
+  values: Partial<Record<SoftSensorTarget, number>>;
+}
+
+export interface SoftSensorTrainingResult {
+  target: SoftSensorTarget;
+  trained: boolean;
+  samples: number;
+  r2: number | null;
+  residual_std: number | null;
+  error?: string;
+}
+
+export interface SoftSensorStatus {
+  target: SoftSensorTarget;
+  label: string;
+  unit: string;
+  features: ProcessFeature[];
+  trained: boolean;
+  trained_at: string | null;
+  samples: number;
+  r2: number | null;
+  residual_std: number | null;
+  bias: number;
+  lab_samples: number; // since the last training
+  last_lab: { timestamp: string; value: number; estimate: number } | null;
+}
+
+export interface SoftSensorHistory {
+  target: SoftSensorTarget;
+  unit: string;
+  bucket_seconds: number;
+  estimates: { timestamp: string; value: number; lower: number; upper: number }[];
+  lab: { timestamp: string; value: number }[];
+}
+
+interface SensorState {
+  model: LinearModel | null;
+  trained_at: string | null;
+  bias: number;
+  residuals: number[]; // lab value minus the estimate at the time, newest last
+  lab_samples: number;
+  last_lab: SoftSensorStatus['last_lab'];
+}
+
+const COMPOSITION_PREFIX = 'chemical_composition.';
+
+const readLabField = (quality: QualityMetrics, field: LabField): number =>
+  field.startsWith(COMPOSITION_PREFIX)
+    ? quality.chemical_composition[field.slice(COMPOSITION_PREFIX.length) as CompositionField]
+    : quality[field as Exclude<LabField, `chemical_composition.${CompositionField}`>];
+
+/**
+ * Estimates lab-only quality variables (free lime, Blaine, 28-day strength)
+ * from process parameters. Each target has a ridge regression trained on
+ * process and lab history paired per time bucket; every lab result that
+ * arrives afterwards nudges a bias term toward the lab, and the spread of
+ * recent lab residuals widens the uncertainty band when the model drifts.
+ */
+export class SoftSensorService {
+  private history: HistoryStore;
+  private storagePath: string | null;
+  private trainingDays: number;
+  private sensors = {} as Record<SoftSensorTarget, SensorState>;
+  private lastLabValues: Partial<Record<SoftSensorTarget, number>> = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(history: HistoryStore, storagePath: string | null = null, trainingDays: number = 30) {
+    this.history = history;
+    this.storagePath = storagePath;
+    this.trainingDays = trainingDays;
+    SOFT_SENSOR_TARGETS.forEach(target => {
+      this.sensors[target] = { model: null, trained_at: null, bias: 0, residuals: [], lab_samples: 0, last_lab: null };
+    });
+    this.load();
+  }
+
+  /**
+   * Refit every model on the stored history. A target without enough paired
+   * samples keeps its previous model.
+   */
+  train(): SoftSensorTrainingResult[] {
+    const latest = this.history.getLatestTimestamp('process');
+    if (!latest) {
+      return SOFT_SENSOR_TARGETS.map(target => ({
+        target, trained: false, samples: 0, r2: null, residual_std: null, error: 'No process history to train on'
+      }));
+    }
+
+    const range = {
+      from: new Date(latest.getTime() - this.trainingDays * 24 * 3600000),
+      to: latest,
+      bucket_seconds: TRAINING_BUCKET_SECONDS
+    };
+    const process = this.history.query('process', range).points as HistoryBucket[];
+    const quality = this.history.query('quality', range).points as HistoryBucket[];
+    const processByBucket = new Map(process.map(bucket => [bucket.timestamp, bucket.avg]));
+
+    const results = SOFT_SENSOR_TARGETS.map(target => {
+      const spec = SOFT_SENSORS[target];
+      const rows: number[][] = [];
+      const targets: number[] = [];
+      quality.forEach(bucket => {
+        const lab = bucket.avg[spec.quality_field];
+        const inputs = processByBucket.get(bucket.timestamp);
+        if (lab === undefined || !inputs || spec.features.some(feature => inputs[feature] === undefined)) {
+          return;
+        }
+        rows.push(spec.features.map(feature => inputs[feature]));
+        targets.push(lab);
+      });
+
+      const result: SoftSensorTrainingResult = { target, trained: false, samples: rows.length, r2: null, residual_std: null };
+      if (rows.length < MIN_TRAINING_SAMPLES) {
+        result.error = `${rows.length} paired process and lab samples; at least ${MIN_TRAINING_SAMPLES} are needed`;
+        return result;
+      }
+      const model = fitLinearModel(spec.features, rows, targets);
+      if (!model) {
+        result.error = 'Process inputs are degenerate; the model could not be fitted';
+        return result;
+      }
+
+      this.sensors[target] = {
+        model,
+        trained_at: new Date().toISOString(),
+        bias: 0,
+        residuals: [],
+        lab_samples: 0,
+        last_lab: this.sensors[target].last_lab
+      };
+      return { ...result, trained: true, r2: model.r2, residual_std: model.residual_std };
+    });
+
+    this.save();
+    const trained = results.filter(result => result.trained);
+    if (trained.length > 0) {
+      console.log(`🧪 Trained soft sensors: ${trained.map(result => `${result.target} (${result.samples} samples, R² ${result.r2!.toFixed(2)})`).join(', ')}`);
+    }
+    return results;
+  }
+
+  /**
+   * Recalibrate on lab values a data source measured, then attach the
+   * estimates for the snapshot's process parameters as `soft_sensors`
+   */
+  observe(data: DashboardData): SoftSensorEstimate[] {
+    const quality = data.recent_quality[data.recent_quality.length - 1];
+    const timestamp = new Date(data.plant_overview.timestamp);
+
+    SOFT_SENSOR_TARGETS.forEach(target => {
+      const key = `quality.${SOFT_SENSORS[target].quality_field}`;
+      const value = quality ? readLabField(quality, SOFT_SENSORS[target].quality_field) : undefined;
+      // Only a new value from a real source is a lab sample: the simulator draws new
+      // quality values every tick, held values repeat an earlier sample, and
+      // bad-quality lab values must not steer the bias
+      const measured = data.provenance?.fields[key] === 'measured';
+      const rejected = data.data_quality?.issues.some(issue => issue.channel === key && issue.code === 'bad');
+      if (typeof value !== 'number' || !measured || rejected || value === this.lastLabValues[target]) {
+        return;
+      }
+      this.lastLabValues[target] = value;
+      this.recalibrate(target, value, data.current_parameters, timestamp);
+    });
+
+    const estimates = this.estimate(data.current_parameters, timestamp);
+    data.soft_sensors = estimates;
+    return estimates;
+  }
+
+  estimate(params: ProcessParameters, timestamp: Date): SoftSensorEstimate[] {
+    return SOFT_SENSOR_TARGETS
+      .filter(target => this.sensors[target].model)
+      .map(target => {
+        const { value, std } = this.predict(target, params);
+        return {
+          target,
+          timestamp,
+          value,
+          lower: value - Z_95 * std,
+          upper: value + Z_95 * std,
+          unit: SOFT_SENSORS[target].unit,
+          bias: this.sensors[target].bias
+        };
+      });
+  }
+
+  /**
+   * Recalibrate on a lab result entered by hand. Process inputs at the sample
+   * time come from the history store; the sample is stored with the quality
+   * history so the next training includes it. Returns why it was rejected, or null.
+   */
+  recordLabSample(sample: LabSample): string | null {
+    const targets = Object.keys(sample.values) as SoftSensorTarget[];
+    const untrained = targets.filter(target => !this.sensors[target].model);
+    if (untrained.length > 0) {
+      return `${untrained.join(', ')} ${untrained.length > 1 ? 'are' : 'is'} not trained yet`;
+    }
+
+    const inputs = this.history.query('process', {
+      from: new Date(sample.timestamp.getTime() - TRAINING_BUCKET_SECONDS * 1000),
+      to: sample.timestamp,
+      bucket_seconds: TRAINING_BUCKET_SECONDS * 2
+    }).points as HistoryBucket[];
+    if (inputs.length === 0) {
+      return `no process history within ${TRAINING_BUCKET_SECONDS / 60} minutes before ${sample.timestamp.toISOString()}`;
+    }
+    const params = inputs[inputs.length - 1].avg as unknown as ProcessParameters;
+
+    targets.forEach(target => this.recalibrate(target, sample.values[target]!, params, sample.timestamp));
+
+    // Written under the flattened field names the history store uses
+    const record: Record<string, Date | number> = { timestamp: sample.timestamp };
+    targets.forEach(target => {
+      record[SOFT_SENSORS[target].quality_field] = sample.values[target]!;
+    });
+    this.history.append('quality', [record]);
+    return null;
+  }
+
+  // Write a pending recalibration now, e.g. on shutdown
+  flush(): void {
+    if (this.saveTimer) {
+      this.save();
+    }
+  }
+
+  getStatus(): SoftSensorStatus[] {
+    return SOFT_SENSOR_TARGETS.map(target => {
+      const spec = SOFT_SENSORS[target];
+      const state = this.sensors[target];
+      return {
+        target,
+        label: spec.label,
+        unit: spec.unit,
+        features: spec.features,
+        trained: state.model !== null,
+        trained_at: state.trained_at,
+        samples: state.model ? state.model.samples : 0,
+        r2: state.model ? state.model.r2 : null,
+        residual_std: state.model ? state.model.residual_std : null,
+        bias: state.bias,
+        lab_samples: state.lab_samples,
+        last_lab: state.last_lab
+      };
+    });
+  }
+
+  /**
+   * Stored estimates with their band, next to the lab values over the same
+   * window, bucketed to a chartable number of points
+   */
+  getHistory(target: SoftSensorTarget, hours: number): SoftSensorHistory {
+    const spec = SOFT_SENSORS[target];
+    const bucketSeconds = Math.max(60, Math.round(hours * 3600 / MAX_CHART_POINTS));
+    const latest = this.history.getLatestTimestamp('soft_sensors') || this.history.getLatestTimestamp('quality');
+    const result: SoftSensorHistory = { target, unit: spec.unit, bucket_seconds: bucketSeconds, estimates: [], lab: [] };
+    if (!latest) {
+      return result;
+    }
+
+    const range = { from: new Date(latest.getTime() - hours * 3600000), to: latest, bucket_seconds: bucketSeconds };
+    const estimates = this.history.query('soft_sensors', {
+      ...range,
+      fields: [`${target}.value`, `${target}.lower`, `${target}.upper`]
+    }).points as HistoryBucket[];
+    result.estimates = estimates
+      .filter(bucket => bucket.avg[`${target}.value`] !== undefined)
+      .map(bucket => ({
+        timestamp: bucket.timestamp,
+        value: bucket.avg[`${target}.value`],
+        lower: bucket.avg[`${target}.lower`],
+        upper: bucket.avg[`${target}.upper`]
+      }));
+
+    const lab = this.history.query('quality', { ...range, fields: [spec.quality_field] }).points as HistoryBucket[];
+    result.lab = lab
+      .filter(bucket => bucket.avg[spec.quality_field] !== undefined)
+      .map(bucket => ({ timestamp: bucket.timestamp, value: bucket.avg[spec.quality_field] }));
+    return result;
+  }
+
+  private predict(target: SoftSensorTarget, params: ProcessParameters): { value: number; std: number } {
+    const state = this.sensors[target];
+    const prediction = predictLinear(state.model!, SOFT_SENSORS[target].features.map(feature => params[feature]));
+    let std = prediction.std;
+    if (state.residuals.length >= MIN_RESIDUALS_FOR_SPREAD) {
+      const rms = Math.sqrt(state.residuals.reduce((sum, r) => sum + r * r, 0) / state.residuals.length);
+      std = Math.max(std, rms);
+    }
+    return { value: prediction.value + state.bias, std };
+  }
+
+  private recalibrate(target: SoftSensorTarget, labValue: number, params: ProcessParameters, timestamp: Date): void {
+    const state = this.sensors[target];
+    if (!state.model) {
+      return;
+    }
+    const estimate = this.predict(target, params).value;
+    const residual = labValue - estimate;
+    state.bias += RECALIBRATION_GAIN * residual;
+    state.residuals = [...state.residuals, residual].slice(-MAX_RESIDUALS);
+    state.lab_samples++;
+    state.last_lab = { timestamp: timestamp.toISOString(), value: labValue, estimate };
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private load(): void {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+      return;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8')) as Partial<Record<SoftSensorTarget, SensorState>>;
+      SOFT_SENSOR_TARGETS.forEach(target => {
+        if (stored[target]) {
+          this.sensors[target] = { ...this.sensors[target], ...stored[target] };
+        }
+      });
+      console.log(`📂 Loaded soft sensor models from ${this.storagePath}`);
+    } catch (error) {
+      console.error('❌ Error loading soft sensor models:', error);
+    }
+  }
+
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.storagePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+      fs.writeFileSync(this.storagePath, JSON.stringify(this.sensors));
+    } catch (error) {
+      console.error('❌ Error persisting soft sensor models:', error);
+    }
+  }
+}
+
+export function createSoftSensorService(history: HistoryStore): SoftSensorService {
+  return new SoftSensorService(
+    history,
+    process.env.SOFT_SENSORS_FILE || path.join('data', 'soft-sensors.json'),
+    parseFloat(process.env.SOFT_SENSOR_TRAINING_DAYS || '30')
+  );
+}
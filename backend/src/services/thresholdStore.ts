@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, DashboardData, ThresholdParameter, ThresholdRule } from '../data/models';
+import { AlertRule } from './alertRules';
+
+export const DEFAULT_GRADE = 'default';
+
+// Display and alert routing details for each parameter a rule can watch
+export const THRESHOLD_PARAMETERS: Record<ThresholdParameter, {
+  label: string;
+  unit: string;
+  type: Alert['type'];
+  equipment_id?: string;
+}> = {
+  kiln_temperature: { label: 'Kiln temperature', unit: '°C', type: 'temperature', equipment_id: 'KILN_01' },
+  kiln_pressure: { label: 'Kiln pressure', unit: 'kPa', type: 'efficiency', equipment_id: 'KILN_01' },
+  raw_mill_power: { label: 'Raw mill power', unit: 'kW', type: 'power', equipment_id: 'RAW_MILL_01' },
+  cement_mill_power: { label: 'Cement mill power', unit: 'kW', type: 'power', equipment_id: 'CEMENT_MILL_01' },
+  production_rate: { label: 'Production rate', unit: 'TPH', type: 'efficiency' },
+  energy_consumption: { label: 'Specific energy', unit: 'kWh/t', type: 'efficiency' },
+  alternative_fuel_rate: { label: 'Alternative fuel rate', unit: '%', type: 'efficiency' },
+  raw_meal_flow: { label: 'Raw meal flow', unit: 'TPH', type: 'efficiency', equipment_id: 'RAW_MILL_01' },
+  cement_fineness: { label: 'Cement fineness', unit: 'm²/kg', type: 'quality', equipment_id: 'CEMENT_MILL_01' },
+  clinker_temperature: { label: 'Clinker temperature', unit: '°C', type: 'temperature', equipment_id: 'COOLER_01' },
+  exhaust_fan_speed: { label: 'Exhaust fan speed', unit: 'RPM', type: 'efficiency', equipment_id: 'FAN_01' },
+  preheater_temperature: { label: 'Preheater exit temperature', unit: '°C', type: 'temperature', equipment_id: 'PREHEATER_01' }
+};
+
+const SEVERITIES: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+type RuleDefaults = Omit<ThresholdRule, 'id' | 'enabled'>;
+
+// Seed limits around the simulator's nominal operating point for a 2000 TPH plant
+const DEFAULT_RULES: RuleDefaults[] = [
+  { parameter: 'kiln_temperature', product_grade: DEFAULT_GRADE, min: 1420, max: 1480, optimal: 1450, hysteresis: 5, delay_seconds: 60, severity: 'high' },
+  { parameter: 'clinker_temperature', product_grade: DEFAULT_GRADE, min: 1100, max: 1200, optimal: 1150, hysteresis: 5, delay_seconds: 60, severity: 'medium' },
+  { parameter: 'preheater_temperature', product_grade: DEFAULT_GRADE, min: 320, max: 380, optimal: 345, hysteresis: 3, delay_seconds: 120, severity: 'medium' },
+  { parameter: 'raw_mill_power', product_grade: DEFAULT_GRADE, min: 2400, max: 3300, optimal: 2800, hysteresis: 50, delay_seconds: 60, severity: 'medium' },
+  { parameter: 'cement_mill_power', product_grade: DEFAULT_GRADE, min: 2700, max: 3800, optimal: 3200, hysteresis: 50, delay_seconds: 60, severity: 'medium' },
+  { parameter: 'raw_meal_flow', product_grade: DEFAULT_GRADE, min: 2350, max: 2950, optimal: 2635, hysteresis: 20, delay_seconds: 120, severity: 'low' },
+  { parameter: 'alternative_fuel_rate', product_grade: DEFAULT_GRADE, min: 15, max: 35, optimal: 25, hysteresis: 1, delay_seconds: 300, severity: 'low' },
+  { parameter: 'energy_consumption', product_grade: DEFAULT_GRADE, min: 80, max: 110, optimal: 95, hysteresis: 2, delay_seconds: 300, severity: 'low' },
+  { parameter: 'cement_fineness', product_grade: DEFAULT_GRADE, min: 330, max: 390, optimal: 360, hysteresis: 3, delay_seconds: 120, severity: 'medium' },
+  // Higher strength grades are ground finer
+  { parameter: 'cement_fineness', product_grade: 'OPC 53', min: 360, max: 420, optimal: 390, hysteresis: 3, delay_seconds: 120, severity: 'medium' },
+  { parameter: 'cement_mill_power', product_grade: 'OPC 53', min: 3000, max: 4300, optimal: 3700, hysteresis: 50, delay_seconds: 60, severity: 'medium' }
+];
+
+interface StoredThresholds {
+  active_grade: string;
+  rules: ThresholdRule[];
+}
+
+// Per-parameter evaluation state so hysteresis and delay span evaluations
+interface ViolationState {
+  since: number | null; // first evaluation outside the limits
+  active: boolean;
+}
+
+/**
+ * Server-side store of parameter limits. Rules for the `default` grade apply
+ * to every grade; a grade-specific rule for the same parameter replaces it.
+ * The monitor, the alert engine and the AI prompts all read limits from here.
+ */
+export class ThresholdStore {
+  private rules: ThresholdRule[] = [];
+  private activeGrade: string = DEFAULT_GRADE;
+  private storagePath: string | null;
+  private violations = new Map<ThresholdParameter, ViolationState>();
+
+  constructor(storagePath: string | null = null) {
+    this.storagePath = storagePath;
+    if (!this.load()) {
+      this.rules = DEFAULT_RULES.map(rule => ({ ...rule, id: uuidv4(), enabled: true }));
+      this.save();
+    }
+  }
+
+  getRules(grade?: string): ThresholdRule[] {
+    return grade ? this.rules.filter(rule => rule.product_grade === grade) : [...this.rules];
+  }
+
+  getRule(id: string): ThresholdRule | undefined {
+    return this.rules.find(rule => rule.id === id);
+  }
+
+  /**
+   * Effective enabled limits for a grade (the active grade by default)
+   */
+  getLimits(grade: string = this.activeGrade): ThresholdRule[] {
+    const limits = new Map<ThresholdParameter, ThresholdRule>();
+    for (const rule of this.rules) {
+      if (rule.product_grade === DEFAULT_GRADE && !limits.has(rule.parameter)) {
+        limits.set(rule.parameter, rule);
+      }
+    }
+    for (const rule of this.rules) {
+      if (rule.product_grade === grade) {
+        limits.set(rule.parameter, rule);
+      }
+    }
+    return Array.from(limits.values()).filter(rule => rule.enabled);
+  }
+
+  getGrades(): string[] {
+    return Array.from(new Set([DEFAULT_GRADE, this.activeGrade, ...this.rules.map(rule => rule.product_grade)]));
+  }
+
+  getActiveGrade(): string {
+    return this.activeGrade;
+  }
+
+  setActiveGrade(grade: string): void {
+    this.activeGrade = grade;
+    this.violations.clear();
+    this.save();
+  }
+
+  /**
+   * Check a rule before it is stored; returns an error message or null
+   */
+  validate(rule: Partial<ThresholdRule>, existingId?: string): string | null {
+    if (!rule.parameter || !(rule.parameter in THRESHOLD_PARAMETERS)) {
+      return `parameter must be one of: ${Object.keys(THRESHOLD_PARAMETERS).join(', ')}`;
+    }
+    if (typeof rule.product_grade !== 'string' || !rule.product_grade.trim()) {
+      return 'product_grade must be a non-empty string';
+    }
+    for (const field of ['min', 'max', 'optimal', 'hysteresis', 'delay_seconds'] as const) {
+      if (typeof rule[field] !== 'number' || !isFinite(rule[field] as number)) {
+        return `${field} must be a number`;
+      }
+    }
+    const { min, max, optimal, hysteresis, delay_seconds } = rule as ThresholdRule;
+    if (min >= max) {
+      return 'min must be less than max';
+    }
+    if (optimal < min || optimal > max) {
+      return 'optimal must lie between min and max';
+    }
+    if (hysteresis < 0 || hysteresis * 2 >= max - min) {
+      return 'hysteresis must be non-negative and less than half the min-max band';
+    }
+    if (delay_seconds < 0) {
+      return 'delay_seconds must be non-negative';
+    }
+    if (!rule.severity || !SEVERITIES.includes(rule.severity)) {
+      return `severity must be one of: ${SEVERITIES.join(', ')}`;
+    }
+    const grade = rule.product_grade.trim();
+    const duplicate = this.rules.find(r =>
+      r.id !== existingId && r.parameter === rule.parameter && r.product_grade === grade
+    );
+    if (duplicate) {
+      return `A ${rule.parameter} rule already exists for grade ${rule.product_grade}`;
+    }
+    return null;
+  }
+
+  create(rule: Omit<ThresholdRule, 'id'>): ThresholdRule {
+    const created: ThresholdRule = { ...rule, product_grade: rule.product_grade.trim(), id: uuidv4() };
+    this.rules.push(created);
+    this.violations.delete(created.parameter);
+    this.save();
+    return created;
+  }
+
+  update(id: string, updates: Partial<ThresholdRule>): ThresholdRule | undefined {
+    const rule = this.getRule(id);
+    if (!rule) {
+      return undefined;
+    }
+    Object.assign(rule, updates, { id });
+    rule.product_grade = rule.product_grade.trim();
+    this.violations.delete(rule.parameter);
+    this.save();
+    return rule;
+  }
+
+  delete(id: string): boolean {
+    const rule = this.getRule(id);
+    if (!rule) {
+      return false;
+    }
+    this.rules = this.rules.filter(r => r.id !== id);
+    this.violations.delete(rule.parameter);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Alert rules for the active grade's limits. A value must stay outside its
+   * limits for `delay_seconds` before it alerts, and must come back inside by
+   * `hysteresis` before the violation clears.
+   */
+  getAlertRules(): AlertRule[] {
+    return this.getLimits().map(limit => {
+      const info = THRESHOLD_PARAMETERS[limit.parameter];
+      return {
+        id: `threshold_${limit.parameter}`,
+        type: info.type,
+        description: `${info.label} outside ${limit.min}-${limit.max} ${info.unit}`,
+        evaluate: (data: DashboardData) => {
+          const value = data.current_parameters[limit.parameter];
+          const time = new Date(data.current_parameters.timestamp).getTime();
+          if (typeof value !== 'number' || !this.isViolating(limit, value, time)) {
+            return [];
+          }
+          return [{
+            severity: limit.severity,
+            message: `${info.label} ${value.toFixed(1)} ${info.unit} ${value < limit.min ? 'below' : 'above'} limit ${value < limit.min ? limit.min : limit.max} ${info.unit}`,
+            value,
+            equipment_id: info.equipment_id
+          }];
+        }
+      };
+    });
+  }
+
+  private isViolating(limit: ThresholdRule, value: number, time: number): boolean {
+    const state = this.violations.get(limit.parameter) || { since: null, active: false };
+    this.violations.set(limit.parameter, state);
+
+    if (value < limit.min || value > limit.max) {
+      state.since = state.since ?? time;
+      if (time - state.since >= limit.delay_seconds * 1000) {
+        state.active = true;
+      }
+    } else if (!state.active || (value >= limit.min + limit.hysteresis && value <= limit.max - limit.hysteresis)) {
+      state.since = null;
+      state.active = false;
+    }
+
+    return state.active;
+  }
+
+  private load(): boolean {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+      return false;
+    }
+    try {
+      const stored: StoredThresholds = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8'));
+      this.rules = stored.rules;
+      this.activeGrade = stored.active_grade || DEFAULT_GRADE;
+      console.log(`📂 Loaded ${this.rules.length} threshold rules from ${this.storagePath}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error loading threshold rules:', error);
+      return false;
+    }
+  }
+
+  private save(): void {
+    if (!this.storagePath) {
+      return;
+    }
+    try {
+      const stored: StoredThresholds = { active_grade: this.activeGrade, rules: this.rules };
+      fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+      fs.writeFileSync(this.storagePath, JSON.stringify(stored, null, 2));
+    } catch (error) {
+      console.error('❌ Error persisting threshold rules:', error);
+    }
+  }
+}
+
+export function createThresholdStore(): ThresholdStore {
+  return new ThresholdStore(process.env.THRESHOLDS_FILE || path.join('data', 'thresholds.json'));
+}
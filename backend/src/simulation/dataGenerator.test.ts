@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import { DashboardData, SimulationConfig } from '../data/models';
+import { RealDataAdapter } from '../data/realDataAdapter';
+import { CementPlantSimulator } from './dataGenerator';
+import { SteppedClock } from './random';
+
+const START = new Date('2026-01-01T00:00:00Z');
+const TICK_MS = 5000;
+const CONFIG: SimulationConfig = {
+  plant_capacity: 2000,
+  sensor_count: 50,
+  simulation_speed: 1,
+  noise_level: 0.1,
+  anomaly_probability: 0.05,
+  quality_variation: 0.1
+};
+
+// Snapshots as a client receives them, so dates compare as strings.
+// `betweenTicks` stands in for reads that arrive while the run waits.
+function run(
+  seed: number,
+  ticks: number,
+  start: Date = START,
+  betweenTicks: (simulator: CementPlantSimulator) => void = () => {}
+): DashboardData[] {
+  const clock = new SteppedClock(start);
+  const simulator = new CementPlantSimulator({ ...CONFIG, seed, start_time: start, clock: clock.now });
+  const adapter = new RealDataAdapter(() => simulator, os.tmpdir(), TICK_MS);
+  const snapshots: DashboardData[] = [];
+  for (let i = 0; i < ticks; i++) {
+    snapshots.push(adapter.nextDashboard());
+    clock.advance(TICK_MS);
+    betweenTicks(simulator);
+  }
+  return JSON.parse(JSON.stringify(snapshots));
+}
+
+describe('CementPlantSimulator', () => {
+  it('replays the same DashboardData sequence for a seed and start time', () => {
+    assert.deepEqual(run(42, 50), run(42, 50));
+  });
+
+  it('is not moved by generator reads between ticks', () => {
+    const polled = run(42, 50, START, simulator => {
+      simulator.generateSensorReadings();
+      simulator.generateQualityMetrics();
+      simulator.generateEquipmentStatus();
+      simulator.generateEnvironmentalData();
+    });
+    assert.deepEqual(polled, run(42, 50));
+  });
+
+  it('produces different data for a different seed', () => {
+    const [a, b] = [run(42, 5), run(43, 5)];
+    assert.notDeepEqual(a.map(data => data.current_parameters), b.map(data => data.current_parameters));
+  });
+
+  it('stamps snapshots from the injected clock', () => {
+    const snapshots = run(7, 3, new Date('2025-06-01T12:00:00Z'));
+    assert.deepEqual(
+      snapshots.map(data => data.current_parameters.timestamp),
+      ['2025-06-01T12:00:00.000Z', '2025-06-01T12:00:05.000Z', '2025-06-01T12:00:10.000Z']
+    );
+  });
+
+  it('injects anomalies with ids derived from the seed', () => {
+    const inject = () => {
+      const simulator = new CementPlantSimulator({ ...CONFIG, seed: 99, start_time: START, clock: () => START });
+      return simulator.injectAnomaly('temperature').id;
+    };
+    assert.equal(inject(), inject());
+  });
+});
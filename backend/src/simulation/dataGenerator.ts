@@ -4,47 +4,276 @@ import {
   ProcessParameters, 
   QualityMetrics, 
   EquipmentStatus, 
-  Alert, 
   EnvironmentalData,
   SimulationConfig,
-  PlantOverview
+  PlantOverview,
+  AnomalyType,
+  AnomalyShape,
+  InjectedAnomaly
 } from '../data/models';
-import RealDataAdapter from '../data/realDataAdapter';
+import { RandomSource, createSeededRandom, deriveSeed, generateSeed } from './random';
+import { KilnProcessModel, ProcessSetpoints, ProcessState } from './processModel';
+import { PLANT_EQUIPMENT, SensorTag, buildAuxiliarySensorTags, equipmentMotorPower } from './sensorCatalog';
+import { EquipmentAssetState, EquipmentFleetModel } from './equipmentModel';
+
+// Values a live feed measured per asset, by equipment_id
+export type MeasuredEquipment = Record<string, Partial<Pick<EquipmentStatus, 'temperature' | 'vibration_level' | 'power_consumption'>>>;
+
+// Bearing and motor temperatures run hotter and vibration grows as an asset wears
+const runningTemperature = (wear: number) => 45 + 25 * wear; // °C
+const runningVibration = (wear: number) => 1.5 + 6 * Math.pow(wear, 1.5); // mm/s
+
+export interface AnomalyOptions {
+  shape?: AnomalyShape;
+  magnitude?: number;
+  duration_seconds?: number;
+  equipment_id?: string;
+}
+
+// Defaults applied when an injection request leaves a field out
+const ANOMALY_DEFAULTS: Record<AnomalyType, { magnitude: number; equipment_id: string }> = {
+  temperature: { magnitude: 0.05, equipment_id: 'KILN_01' },
+  power: { magnitude: 0.2, equipment_id: 'CEMENT_MILL_01' },
+  quality: { magnitude: 0.15, equipment_id: 'CEMENT_MILL_01' },
+  vibration: { magnitude: 1.0, equipment_id: 'RAW_MILL_01' }
+};
+
+const DEFAULT_ANOMALY_DURATION_SECONDS = 300;
+const OSCILLATION_CYCLES = 4;
+
+// Config values the hardcoded noise figures were tuned against
+const REFERENCE_NOISE_LEVEL = 0.1;
+const REFERENCE_QUALITY_VARIATION = 0.1;
+
+// Headline sensors come first; the catalog supplies the rest up to sensor_count
+const CORE_SENSOR_COUNT = 8;
+export const MAX_SENSOR_COUNT = CORE_SENSOR_COUNT + buildAuxiliarySensorTags(Number.MAX_SAFE_INTEGER).length;
+
+// Specific energy the plant is run against, kWh/ton
+export const ENERGY_CONSUMPTION_TARGET = 90;
+
+/**
+ * Whether emissions are inside indicative limits: 800 mg/Nm³ NOx, 30 mg/Nm³ dust
+ */
+export function isEnvironmentallyCompliant(emissions: Pick<EnvironmentalData, 'nox_emissions' | 'dust_emissions'>): boolean {
+  return emissions.nox_emissions < 800 && emissions.dust_emissions < 30;
+}
+
+const ANOMALY_TYPES: AnomalyType[] = ['temperature', 'power', 'quality', 'vibration'];
+const ANOMALY_SHAPES: AnomalyShape[] = ['step', 'drift', 'spike', 'oscillation'];
 
 export class CementPlantSimulator {
   private config: SimulationConfig;
   private baseTime: Date;
   private simulationRunning: boolean = false;
   private lastParameters: ProcessParameters | null = null;
-  private realDataAdapter: any; // RealDataAdapter
-  private useRealData: boolean = false;
+  private activeAnomalies: InjectedAnomaly[] = [];
+  private seed: number;
+  // Process, equipment and anomaly stream; only drawn from as simulated time moves
+  private random: RandomSource;
+  // Instrument and lab noise, restarted for every generator call by startNoise()
+  private noise: RandomSource;
+  private processModel: KilnProcessModel;
+  private equipmentModel: EquipmentFleetModel;
+  private auxiliaryTags: SensorTag[];
+  private lastAnomalyRollTime: number;
 
   constructor(config: SimulationConfig) {
-    this.config = config;
-    this.baseTime = new Date();
+    this.config = { ...config };
+    this.seed = config.seed ?? generateSeed();
+    this.random = createSeededRandom(this.seed);
+    this.noise = createSeededRandom(this.seed);
+    this.baseTime = config.start_time ?? this.now();
+    this.lastAnomalyRollTime = this.baseTime.getTime();
+    this.processModel = new KilnProcessModel(config.plant_capacity, this.random);
+    this.equipmentModel = new EquipmentFleetModel(this.baseTime, this.random);
+    this.auxiliaryTags = buildAuxiliarySensorTags(config.sensor_count - CORE_SENSOR_COUNT);
+  }
+
+  private now(): Date {
+    return this.config.clock ? this.config.clock() : new Date();
+  }
+
+  private generateId(): string {
+    const bytes = new Uint8Array(16);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(this.random() * 256);
+    }
+    return uuidv4({ random: bytes });
   }
 
-  private getRandomInRange(min: number, max: number, noise: number = 0.1): number {
-    const base = min + Math.random() * (max - min);
-    const noiseValue = base * noise * (Math.random() - 0.5) * 2;
+  private getRandomInRange(min: number, max: number, noise: number = this.config.noise_level): number {
+    const base = min + this.noise() * (max - min);
+    const noiseValue = base * noise * (this.noise() - 0.5) * 2;
     return Math.max(min, Math.min(max, base + noiseValue));
   }
 
   private generateCyclicalValue(baseValue: number, amplitude: number, period: number, phase: number = 0): number {
-    const timeInHours = (Date.now() - this.baseTime.getTime()) / (1000 * 60 * 60);
+    const timeInHours = (this.now().getTime() - this.baseTime.getTime()) / (1000 * 60 * 60);
     const cyclical = Math.sin((2 * Math.PI * timeInHours / period) + phase);
     return baseValue + (amplitude * cyclical);
   }
 
+  /**
+   * Restart the noise stream for a generator at the current simulated time.
+   * Reading again at the same time returns the same values and leaves the
+   * process stream alone, so reads between ticks do not change a seeded run.
+   */
+  private startNoise(generator: string): void {
+    this.noise = createSeededRandom(deriveSeed(this.seed, this.now().getTime(), generator));
+  }
+
+  /**
+   * Add instrument noise to a true process value, scaled by the configured noise level
+   */
+  private measure(value: number, relativeNoise: number = 0.005): number {
+    const scaled = relativeNoise * this.config.noise_level / REFERENCE_NOISE_LEVEL;
+    return value * (1 + scaled * (this.noise() - 0.5) * 2);
+  }
+
+  /**
+   * Lab result with sample-to-sample spread scaled by the configured quality variation
+   */
+  private measureLab(value: number, relativeSpread: number): number {
+    const scaled = relativeSpread * this.config.quality_variation / REFERENCE_QUALITY_VARIATION;
+    return value * (1 + scaled * (this.noise() - 0.5) * 2);
+  }
+
+  /**
+   * Start a spontaneous anomaly with `anomaly_probability` chance per simulated hour
+   */
+  private rollSpontaneousAnomaly(now: number): void {
+    const elapsedHours = (now - this.lastAnomalyRollTime) / (1000 * 60 * 60);
+    if (elapsedHours <= 0) {
+      return;
+    }
+    this.lastAnomalyRollTime = now;
+
+    const probability = 1 - Math.pow(1 - this.config.anomaly_probability, elapsedHours);
+    if (this.random() >= probability) {
+      return;
+    }
+
+    const type = ANOMALY_TYPES[Math.floor(this.random() * ANOMALY_TYPES.length)];
+    const equipment = PLANT_EQUIPMENT[Math.floor(this.random() * PLANT_EQUIPMENT.length)];
+    this.injectAnomaly(type, {
+      shape: ANOMALY_SHAPES[Math.floor(this.random() * ANOMALY_SHAPES.length)],
+      magnitude: ANOMALY_DEFAULTS[type].magnitude * (0.5 + this.random()),
+      duration_seconds: DEFAULT_ANOMALY_DURATION_SECONDS * (0.5 + this.random() * 1.5),
+      equipment_id: type === 'vibration' ? equipment.id : undefined
+    });
+  }
+
+  /**
+   * Bring the process model up to the current simulated time and return its state
+   */
+  private getProcessState(): ProcessState {
+    const timestamp = this.now();
+    const timeHours = (timestamp.getTime() - this.baseTime.getTime()) / (1000 * 60 * 60);
+    const qualityScale = this.config.quality_variation / REFERENCE_QUALITY_VARIATION;
+    this.rollSpontaneousAnomaly(timestamp.getTime());
+
+    // Daily production cycle moves the feed around its setpoint; the shorter
+    // cycles stand in for raw mix burnability and material hardness swings
+    const demandFactor = 1 + 0.08 * Math.sin(2 * Math.PI * timeHours / 24);
+    this.processModel.step(timestamp, demandFactor, {
+      kiln_temperature: this.getAnomalyDeviation('temperature', 'KILN_01'),
+      raw_mix_burnability: this.generateCyclicalValue(0, 15 * qualityScale, 4),
+      raw_mill_load: this.generateCyclicalValue(0, 0.07, 6, Math.PI/4),
+      clinker_grindability: this.generateCyclicalValue(0, 0.08, 8, Math.PI/2)
+    });
+
+    return this.processModel.getState();
+  }
+
+  /**
+   * Bring the equipment state machines up to the current simulated time.
+   * Abnormal vibration and overheating wear an asset faster; measured values
+   * replace the injected anomalies there, and measured power sets whether the
+   * asset runs.
+   */
+  private getEquipmentStates(measured: MeasuredEquipment = {}): EquipmentAssetState[] {
+    const wear = new Map(this.equipmentModel.getAssets().map(asset => [asset.equipment_id, 1 - asset.health]));
+    this.equipmentModel.step(this.now(), equipmentId => {
+      const values = measured[equipmentId] || {};
+      const assetWear = wear.get(equipmentId) ?? 0;
+      const vibration = values.vibration_level !== undefined
+        ? Math.max(0, values.vibration_level / runningVibration(assetWear) - 1)
+        : this.getAnomalyDeviation('vibration', equipmentId);
+      const temperature = values.temperature !== undefined
+        ? Math.max(0, values.temperature / runningTemperature(assetWear) - 1)
+        : this.getAnomalyDeviation('temperature', equipmentId);
+      return 1 + 2 * Math.abs(vibration) + 10 * Math.abs(temperature);
+    });
+    Object.entries(measured).forEach(([equipmentId, values]) => {
+      if (values.power_consumption !== undefined) {
+        this.equipmentModel.applyRunState(equipmentId, values.power_consumption > 0, this.now());
+      }
+    });
+    return this.equipmentModel.getAssets();
+  }
+
+  /**
+   * Lab-style quality score from strength, free lime and fineness deviation
+   */
+  private calculateQualityScore(state: ProcessState): number {
+    const score = 95 -
+      2 * Math.abs(state.compressive_strength_28d - 48) -
+      12 * Math.max(0, state.free_lime - 1.5) -
+      0.15 * Math.abs(state.blaine_fineness - this.processModel.getSetpoints().cement_fineness);
+    return Math.max(0, Math.min(100, score));
+  }
+
+  private pruneExpiredAnomalies(): void {
+    const now = this.now().getTime();
+    this.activeAnomalies = this.activeAnomalies.filter(
+      anomaly => now - anomaly.start_time.getTime() < anomaly.duration_seconds * 1000
+    );
+  }
+
+  /**
+   * Ramp profile of an anomaly at the given moment, scaled to [-1, 1]
+   */
+  private getAnomalyShapeFactor(anomaly: InjectedAnomaly, now: number): number {
+    const progress = Math.min(1, (now - anomaly.start_time.getTime()) / (anomaly.duration_seconds * 1000));
+
+    switch (anomaly.shape) {
+      case 'drift':
+        return progress;
+      case 'spike':
+        return Math.exp(-6 * progress);
+      case 'oscillation':
+        return Math.sin(2 * Math.PI * OSCILLATION_CYCLES * progress);
+      case 'step':
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Combined relative deviation of all active anomalies of a type,
+   * optionally limited to those targeting a single piece of equipment
+   */
+  private getAnomalyDeviation(type: AnomalyType, equipmentId?: string): number {
+    this.pruneExpiredAnomalies();
+    const now = this.now().getTime();
+
+    return this.activeAnomalies
+      .filter(anomaly => anomaly.type === type && (!equipmentId || anomaly.equipment_id === equipmentId))
+      .reduce((total, anomaly) => total + anomaly.magnitude * this.getAnomalyShapeFactor(anomaly, now), 0);
+  }
+
   generateSensorReadings(): SensorReading[] {
     const sensors: SensorReading[] = [];
-    const timestamp = new Date();
+    const timestamp = this.now();
+    const state = this.getProcessState();
+    this.startNoise('sensors');
 
     // Kiln sensors
     sensors.push({
       timestamp,
       sensor_id: 'KILN_TEMP_01',
-      value: this.generateCyclicalValue(1450, 50, 4, 0), // 4-hour cycle
+      value: this.measure(state.kiln_temperature),
       unit: '°C',
       location: 'Kiln Burning Zone',
       sensor_type: 'temperature'
@@ -53,7 +282,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'KILN_PRESSURE_01',
-      value: this.getRandomInRange(-15, -5),
+      value: this.measure(-10 * state.exhaust_fan_speed / 500, 0.1),
       unit: 'kPa',
       location: 'Kiln Inlet',
       sensor_type: 'pressure'
@@ -63,7 +292,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'RAW_MILL_POWER_01',
-      value: this.generateCyclicalValue(2800, 200, 6, Math.PI/4),
+      value: this.measure(state.raw_mill_power * (1 + this.getAnomalyDeviation('power', 'RAW_MILL_01')), 0.01),
       unit: 'kW',
       location: 'Raw Mill',
       sensor_type: 'power'
@@ -72,7 +301,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'CEMENT_MILL_POWER_01',
-      value: this.generateCyclicalValue(3200, 300, 8, Math.PI/2),
+      value: this.measure(state.cement_mill_power * (1 + this.getAnomalyDeviation('power', 'CEMENT_MILL_01')), 0.01),
       unit: 'kW',
       location: 'Cement Mill',
       sensor_type: 'power'
@@ -82,7 +311,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'PRODUCTION_FLOW_01',
-      value: this.generateCyclicalValue(this.config.plant_capacity * 0.85, this.config.plant_capacity * 0.1, 12),
+      value: this.measure(state.production_rate, 0.01),
       unit: 'TPH',
       location: 'Cement Silo',
       sensor_type: 'flow'
@@ -92,7 +321,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'EXHAUST_TEMP_01',
-      value: this.getRandomInRange(320, 380),
+      value: this.measure(state.preheater_temperature * (1 + this.getAnomalyDeviation('temperature', 'PREHEATER_01'))),
       unit: '°C',
       location: 'Preheater Exit',
       sensor_type: 'temperature'
@@ -101,7 +330,7 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'DUST_LEVEL_01',
-      value: this.getRandomInRange(15, 25),
+      value: this.measure(state.dust_emissions, 0.1),
       unit: 'mg/Nm³',
       location: 'Stack',
       sensor_type: 'flow'
@@ -111,37 +340,49 @@ export class CementPlantSimulator {
     sensors.push({
       timestamp,
       sensor_id: 'FINENESS_01',
-      value: this.getRandomInRange(340, 380),
+      value: this.measure(state.blaine_fineness * (1 - this.getAnomalyDeviation('quality')), 0.01),
       unit: 'm²/kg',
       location: 'Cement Mill Exit',
       sensor_type: 'flow'
     });
 
-    return sensors;
+    // Additional tags across the plant sections up to the configured sensor count
+    this.auxiliaryTags.forEach(tag => {
+      const deviation = tag.equipment_id && tag.anomaly_type
+        ? this.getAnomalyDeviation(tag.anomaly_type, tag.equipment_id)
+        : 0;
+      sensors.push({
+        timestamp,
+        sensor_id: tag.sensor_id,
+        value: this.measure(tag.read(state) * (1 + deviation), tag.relative_noise),
+        unit: tag.unit,
+        location: tag.location,
+        sensor_type: tag.sensor_type
+      });
+    });
+
+    return sensors.slice(0, this.config.sensor_count);
   }
 
   generateProcessParameters(): ProcessParameters {
-    const timestamp = new Date();
-    const timeHours = (timestamp.getTime() - this.baseTime.getTime()) / (1000 * 60 * 60);
-    
-    // Simulate daily production cycles
-    const productionCycle = Math.sin(2 * Math.PI * timeHours / 24);
-    const efficiency = 0.8 + 0.15 * productionCycle + this.getRandomInRange(-0.05, 0.05, 0.5);
+    const timestamp = this.now();
+    const state = this.getProcessState();
+    this.startNoise('process');
     
     const parameters: ProcessParameters = {
       timestamp,
-      kiln_temperature: this.generateCyclicalValue(1450, 40, 4),
-      kiln_pressure: this.getRandomInRange(-15, -5),
-      raw_mill_power: this.generateCyclicalValue(2800, 200, 6) * efficiency,
-      cement_mill_power: this.generateCyclicalValue(3200, 250, 8) * efficiency,
-      production_rate: this.config.plant_capacity * efficiency,
-      energy_consumption: this.getRandomInRange(85, 105) / efficiency, // kWh/ton
-      alternative_fuel_rate: this.getRandomInRange(15, 35),
-      raw_meal_flow: this.config.plant_capacity * 1.55 * efficiency, // Raw meal to clinker ratio ~1.55
-      cement_fineness: this.getRandomInRange(340, 380),
-      clinker_temperature: this.getRandomInRange(1100, 1200),
-      exhaust_fan_speed: this.getRandomInRange(480, 520),
-      preheater_temperature: this.getRandomInRange(320, 380)
+      kiln_temperature: this.measure(state.kiln_temperature),
+      kiln_pressure: this.measure(-10 * state.exhaust_fan_speed / 500, 0.1),
+      raw_mill_power: this.measure(state.raw_mill_power * (1 + this.getAnomalyDeviation('power', 'RAW_MILL_01')), 0.01),
+      cement_mill_power: this.measure(state.cement_mill_power * (1 + this.getAnomalyDeviation('power', 'CEMENT_MILL_01')), 0.01),
+      production_rate: this.measure(state.production_rate, 0.01),
+      energy_consumption: this.measure(state.specific_energy * (1 + this.getAnomalyDeviation('power')), 0.01), // kWh/ton
+      alternative_fuel_rate: this.measure(state.alternative_fuel_rate, 0.02),
+      raw_meal_flow: this.measure(state.raw_meal_flow, 0.01),
+      cement_fineness: this.measure(state.blaine_fineness * (1 - this.getAnomalyDeviation('quality')), 0.01),
+      clinker_temperature: this.measure(state.clinker_temperature * (1 + this.getAnomalyDeviation('temperature', 'COOLER_01'))),
+      exhaust_fan_speed: this.measure(state.exhaust_fan_speed, 0.01),
+      preheater_temperature: this.measure(state.preheater_temperature * (1 + this.getAnomalyDeviation('temperature', 'PREHEATER_01')))
     };
 
     this.lastParameters = parameters;
@@ -149,120 +390,159 @@ export class CementPlantSimulator {
   }
 
   generateQualityMetrics(): QualityMetrics {
-    const timestamp = new Date();
-    const qualityBase = 75 + Math.random() * 20; // Base quality 75-95
+    const timestamp = this.now();
+    const state = this.getProcessState();
+    this.startNoise('quality');
+    const deviation = this.getAnomalyDeviation('quality');
+    const freeLime = state.free_lime * (1 + deviation * 4);
+    const blaine = state.blaine_fineness * (1 - deviation);
+    const c3a = this.measureLab(10, 0.2);
+    // Finer cement and more reactive C3A both shorten setting
+    const settingInitial = Math.max(30, 70 - 0.1 * (blaine - 360) - 3 * (c3a - 10));
 
     return {
       timestamp,
-      sample_id: `QS_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
-      blaine_fineness: this.getRandomInRange(340, 380),
-      compressive_strength_3d: this.getRandomInRange(18, 25),
-      compressive_strength_28d: this.getRandomInRange(42, 52),
-      setting_time_initial: this.getRandomInRange(45, 90),
-      setting_time_final: this.getRandomInRange(180, 300),
-      quality_score: qualityBase,
-      defect_count: Math.floor(this.getRandomInRange(0, 5)),
-      consistency: this.getRandomInRange(95, 99.5),
+      sample_id: `QS_${this.now().getTime()}_${Math.floor(this.noise() * 1000)}`,
+      blaine_fineness: this.measureLab(blaine, 0.01),
+      compressive_strength_3d: this.measureLab(state.compressive_strength_3d * (1 - deviation), 0.03),
+      compressive_strength_28d: this.measureLab(state.compressive_strength_28d * (1 - deviation), 0.02),
+      setting_time_initial: this.measureLab(settingInitial, 0.05),
+      setting_time_final: this.measureLab(settingInitial * 3.5, 0.05),
+      quality_score: this.calculateQualityScore(state) * (1 - deviation),
+      defect_count: Math.floor(this.noise() * (1 + 3 * Math.max(0, freeLime - 1.5) + 10 * Math.max(0, deviation))),
+      consistency: Math.max(90, 99 - 0.05 * Math.abs(blaine - this.processModel.getSetpoints().cement_fineness) - this.noise()),
       chemical_composition: {
-        c3s: this.getRandomInRange(50, 65),
-        c2s: this.getRandomInRange(15, 25),
-        c3a: this.getRandomInRange(8, 12),
-        c4af: this.getRandomInRange(8, 12),
-        so3: this.getRandomInRange(2.5, 3.5),
-        free_lime: this.getRandomInRange(0.5, 1.5)
+        c3s: this.measureLab(state.c3s, 0.01),
+        c2s: this.measureLab(state.c2s, 0.02),
+        c3a,
+        c4af: this.measureLab(10, 0.2),
+        so3: this.measureLab(3, 0.17),
+        free_lime: this.measureLab(freeLime, 0.03)
       }
     };
   }
 
-  generateEquipmentStatus(): EquipmentStatus[] {
-    const equipment = [
-      { id: 'KILN_01', name: 'Rotary Kiln #1' },
-      { id: 'RAW_MILL_01', name: 'Raw Mill #1' },
-      { id: 'CEMENT_MILL_01', name: 'Cement Mill #1' },
-      { id: 'PREHEATER_01', name: 'Preheater Tower' },
-      { id: 'COOLER_01', name: 'Grate Cooler' },
-      { id: 'CRUSHER_01', name: 'Limestone Crusher' },
-      { id: 'SEPARATOR_01', name: 'Cement Separator' },
-      { id: 'FAN_01', name: 'Exhaust Fan' }
-    ];
-
-    return equipment.map(eq => ({
-      equipment_id: eq.id,
-      equipment_name: eq.name,
-      status: Math.random() > 0.05 ? 'running' : Math.random() > 0.5 ? 'maintenance' : 'error',
-      efficiency: this.getRandomInRange(85, 98),
-      temperature: this.getRandomInRange(45, 85),
-      vibration_level: this.getRandomInRange(0.5, 8.0),
-      power_consumption: this.getRandomInRange(800, 3500), // kW
-      runtime_hours: this.getRandomInRange(1000, 8760), // Annual hours
-      last_maintenance: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000), // Last 30 days
-      location: `Plant Section ${Math.floor(Math.random() * 3) + 1}`,
-      alerts: this.generateAlertsForEquipment(eq.id).map(alert => alert.message)
-    }));
-  }
-
-  private generateAlertsForEquipment(equipmentId: string): Alert[] {
-    const alerts: Alert[] = [];
-    
-    // Random chance of alerts
-    if (Math.random() < 0.3) {
-      alerts.push({
-        id: uuidv4(),
-        timestamp: new Date(Date.now() - Math.random() * 24 * 60 * 60 * 1000),
-        severity: Math.random() > 0.7 ? 'high' : Math.random() > 0.4 ? 'medium' : 'low',
-        type: ['temperature', 'vibration', 'power', 'efficiency'][Math.floor(Math.random() * 4)] as any,
-        message: `${equipmentId}: Parameter deviation detected`,
-        acknowledged: Math.random() > 0.3,
-        resolved: Math.random() > 0.6,
-        equipment_id: equipmentId
-      });
-    }
+  /**
+   * Status of every asset. Values measured by a live feed drive the assets'
+   * wear and run state; the returned readings are still simulated.
+   */
+  generateEquipmentStatus(measured: MeasuredEquipment = {}): EquipmentStatus[] {
+    const state = this.getProcessState();
+    const assets = this.getEquipmentStates(measured);
+    this.startNoise('equipment');
 
-    return alerts;
+    return PLANT_EQUIPMENT.map((eq, index) => {
+      const asset = assets[index];
+      const running = asset.status === 'running';
+      const wear = 1 - asset.health;
+
+      return {
+        equipment_id: eq.id,
+        equipment_name: eq.name,
+        status: asset.status,
+        efficiency: running ? this.measure(80 + 18 * asset.health, 0.01) : 0,
+        temperature: (running ? this.measure(runningTemperature(wear), 0.02) : this.measure(30, 0.02)) *
+          (1 + this.getAnomalyDeviation('temperature', eq.id)),
+        vibration_level: (running ? this.measure(runningVibration(wear), 0.08) : 0) *
+          (1 + this.getAnomalyDeviation('vibration', eq.id)),
+        power_consumption: (running ? this.measure(equipmentMotorPower(eq, state), 0.02) : 0) *
+          (1 + this.getAnomalyDeviation('power', eq.id)), // kW
+        runtime_hours: asset.runtime_hours,
+        last_maintenance: asset.last_maintenance,
+        location: eq.section,
+        alerts: this.getEquipmentAlerts(eq.name, asset)
+      };
+    });
+  }
+
+  private getEquipmentAlerts(name: string, asset: EquipmentAssetState): string[] {
+    switch (asset.status) {
+      case 'error':
+        return [`${name} tripped - repair in progress`];
+      case 'maintenance':
+        return [`${name} down for maintenance`];
+      case 'stopped':
+        return [`${name} restarting after repair`];
+      default:
+        return asset.health < 0.5 ? [`${name} wear high - maintenance due soon`] : [];
+    }
   }
 
   generateEnvironmentalData(): EnvironmentalData {
-    const timestamp = new Date();
-    const productionRate = this.lastParameters?.production_rate || this.config.plant_capacity * 0.8;
+    const timestamp = this.now();
+    const state = this.getProcessState();
+    this.startNoise('environmental');
 
     return {
       timestamp,
-      co2_emissions: this.getRandomInRange(820, 950), // kg CO2/ton cement
-      nox_emissions: this.getRandomInRange(400, 800),
-      so2_emissions: this.getRandomInRange(50, 200),
-      dust_emissions: this.getRandomInRange(15, 30),
-      energy_consumption_specific: this.getRandomInRange(85, 105),
-      alternative_fuel_substitution: this.getRandomInRange(15, 35),
-      waste_heat_recovery: productionRate * this.getRandomInRange(20, 35), // kWh
+      co2_emissions: this.measure(state.co2_emissions, 0.01), // kg CO2/ton cement
+      nox_emissions: this.measure(state.nox_emissions, 0.03),
+      so2_emissions: this.measure(state.so2_emissions, 0.1),
+      dust_emissions: this.measure(state.dust_emissions, 0.1),
+      energy_consumption_specific: this.measure(state.specific_energy, 0.01),
+      alternative_fuel_substitution: state.alternative_fuel_rate,
+      // Recoverable heat scales with throughput and preheater exit temperature
+      waste_heat_recovery: state.production_rate * Math.max(0, state.preheater_temperature - 250) / 4, // kWh
       water_consumption: this.getRandomInRange(200, 350) // L/ton
     };
   }
 
   generatePlantOverview(): PlantOverview {
-    const timestamp = new Date();
+    const timestamp = this.now();
+    const state = this.getProcessState();
     const equipmentStatus = this.generateEquipmentStatus();
     const runningEquipment = equipmentStatus.filter(eq => eq.status === 'running').length;
     const activeAlerts = equipmentStatus.reduce((total, eq) => total + eq.alerts.length, 0);
 
     return {
       timestamp,
-      overall_efficiency: this.getRandomInRange(82, 94),
-      production_rate_current: this.lastParameters?.production_rate || this.config.plant_capacity * 0.85,
+      overall_efficiency: Math.min(100, state.production_rate / this.config.plant_capacity * 100),
+      production_rate_current: state.production_rate,
       production_rate_target: this.config.plant_capacity,
-      energy_consumption_current: this.getRandomInRange(85, 105),
-      energy_consumption_target: 90,
-      quality_score_avg: this.getRandomInRange(88, 96),
+      energy_consumption_current: state.specific_energy,
+      energy_consumption_target: ENERGY_CONSUMPTION_TARGET,
+      quality_score_avg: this.calculateQualityScore(state),
       active_alerts_count: activeAlerts,
       equipment_running_count: runningEquipment,
       equipment_total_count: equipmentStatus.length,
-      environmental_compliance: Math.random() > 0.1 // 90% compliance
+      environmental_compliance: isEnvironmentallyCompliant(state)
     };
   }
 
   // Simulate anomalies for testing AI detection
-  injectAnomaly(type: 'temperature' | 'power' | 'quality' | 'vibration'): void {
-    // This method would modify the next generated data to include anomalies
-    console.log(`Injecting ${type} anomaly for testing`);
+  injectAnomaly(type: AnomalyType, options: AnomalyOptions = {}): InjectedAnomaly {
+    const defaults = ANOMALY_DEFAULTS[type];
+    const anomaly: InjectedAnomaly = {
+      id: this.generateId(),
+      type,
+      shape: options.shape || 'step',
+      magnitude: options.magnitude ?? defaults.magnitude,
+      duration_seconds: options.duration_seconds ?? DEFAULT_ANOMALY_DURATION_SECONDS,
+      equipment_id: options.equipment_id || defaults.equipment_id,
+      start_time: this.now()
+    };
+
+    this.activeAnomalies.push(anomaly);
+    console.log(`Injecting ${anomaly.shape} ${type} anomaly on ${anomaly.equipment_id} (magnitude ${anomaly.magnitude}, ${anomaly.duration_seconds}s)`);
+    return anomaly;
+  }
+
+  getActiveAnomalies(): InjectedAnomaly[] {
+    this.pruneExpiredAnomalies();
+    return [...this.activeAnomalies];
+  }
+
+  clearAnomalies(): void {
+    this.activeAnomalies = [];
+  }
+
+  /**
+   * Carry on from another run: its active anomalies and equipment states
+   * replace this simulator's, e.g. after regenerating the history before them
+   */
+  restoreState(anomalies: InjectedAnomaly[], assets: EquipmentAssetState[]): void {
+    this.activeAnomalies = anomalies.map(anomaly => ({ ...anomaly }));
+    this.equipmentModel.restore(assets, this.now());
   }
 
   startSimulation(interval: number = 5000): void {
@@ -278,4 +558,43 @@ export class CementPlantSimulator {
   isRunning(): boolean {
     return this.simulationRunning;
   }
+
+  getEquipmentAssets(): EquipmentAssetState[] {
+    return this.getEquipmentStates();
+  }
+
+  // Take an asset down for maintenance at the current simulated time
+  scheduleMaintenance(equipmentId: string, durationHours?: number): EquipmentAssetState | undefined {
+    this.getEquipmentStates();
+    return this.equipmentModel.scheduleMaintenance(equipmentId, this.now(), durationHours);
+  }
+
+  getSetpoints(): ProcessSetpoints {
+    return this.processModel.getSetpoints();
+  }
+
+  // Move the operator levers; the process follows through its lags
+  setSetpoints(setpoints: Partial<ProcessSetpoints>): ProcessSetpoints {
+    return this.processModel.setSetpoints(setpoints);
+  }
+
+  getConfig(): SimulationConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(updates: Partial<SimulationConfig>): SimulationConfig {
+    this.config = { ...this.config, ...updates };
+    if (updates.sensor_count !== undefined) {
+      this.auxiliaryTags = buildAuxiliarySensorTags(this.config.sensor_count - CORE_SENSOR_COUNT);
+    }
+    return this.getConfig();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getStartTime(): Date {
+    return this.baseTime;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { EquipmentStatus } from '../data/models';
+import { RandomSource } from './random';
+import { PLANT_EQUIPMENT } from './sensorCatalog';
+
+// Reliability figures driving failures and preventive maintenance
+interface ReliabilityProfile {
+  mtbf_hours: number; // mean running hours between failures at full health
+  maintenance_interval_hours: number; // running hours between preventive maintenance
+  maintenance_duration_hours: number;
+}
+
+const DEFAULT_RELIABILITY: ReliabilityProfile = {
+  mtbf_hours: 2000,
+  maintenance_interval_hours: 1000,
+  maintenance_duration_hours: 8
+};
+
+const RELIABILITY: Record<string, Partial<ReliabilityProfile>> = {
+  KILN_01: { mtbf_hours: 4000, maintenance_interval_hours: 1800, maintenance_duration_hours: 48 },
+  RAW_MILL_01: { mtbf_hours: 1500, maintenance_interval_hours: 720, maintenance_duration_hours: 12 },
+  CEMENT_MILL_01: { mtbf_hours: 1500, maintenance_interval_hours: 720, maintenance_duration_hours: 12 },
+  CRUSHER_01: { mtbf_hours: 1000, maintenance_interval_hours: 500 }
+};
+
+// Health lost per running hour under normal stress (1 = as new)
+const DEGRADATION_PER_HOUR = 1 / 3000;
+// Condition-based maintenance is called below this health
+const MAINTENANCE_HEALTH_THRESHOLD = 0.35;
+// Worn assets fail up to this many times more often than new ones
+const WEAR_FAILURE_MULTIPLIER = 9;
+const REPAIR_HOURS = { min: 2, max: 12 };
+const RESTART_HOURS = 0.5;
+// Long gaps are integrated in chunks so transitions land at the right time
+const MAX_STEP_HOURS = 1;
+
+export type EquipmentState = EquipmentStatus['status'];
+
+export interface EquipmentAssetState {
+  equipment_id: string;
+  status: EquipmentState;
+  health: number; // 0-1, 1 = as new
+  runtime_hours: number;
+  hours_since_maintenance: number;
+  last_maintenance: Date;
+  status_since: Date;
+  status_until: Date | null; // end of the current repair, maintenance or restart
+  failure_count: number;
+}
+
+/**
+ * Persistent state machine per plant asset. Running assets accumulate hours
+ * and wear, which raises their failure rate; they are taken down for
+ * preventive or condition-based maintenance, and tripped assets are repaired
+ * and restarted before running again.
+ *
+ *   running → error (failure) → stopped (restart) → running
+ *   running → maintenance → running
+ */
+export class EquipmentFleetModel {
+  private random: RandomSource;
+  private assets: EquipmentAssetState[];
+  private lastStepTime: number | null = null;
+
+  constructor(startTime: Date, random: RandomSource) {
+    this.random = random;
+
+    // Stagger the fleet so assets don't all reach their maintenance interval together
+    this.assets = PLANT_EQUIPMENT.map(eq => {
+      const profile = this.getProfile(eq.id);
+      const hoursToThreshold = (1 - MAINTENANCE_HEALTH_THRESHOLD) / DEGRADATION_PER_HOUR;
+      const hoursSinceMaintenance = this.random() * Math.min(profile.maintenance_interval_hours, hoursToThreshold) * 0.8;
+      return {
+        equipment_id: eq.id,
+        status: 'running' as EquipmentState,
+        health: 1 - hoursSinceMaintenance * DEGRADATION_PER_HOUR,
+        runtime_hours: 1000 + this.random() * 7760,
+        hours_since_maintenance: hoursSinceMaintenance,
+        last_maintenance: new Date(startTime.getTime() - hoursSinceMaintenance * 3600000),
+        status_since: startTime,
+        status_until: null,
+        failure_count: 0
+      };
+    });
+  }
+
+  /**
+   * Advance every asset to the given time. `stress` returns a multiplier on
+   * wear for an asset (1 = normal), e.g. while it is vibrating abnormally.
+   */
+  step(time: Date, stress: (equipmentId: string) => number = () => 1): void {
+    const now = time.getTime();
+    const start = this.lastStepTime ?? now;
+    this.lastStepTime = Math.max(start, now);
+
+    let cursor = start;
+    while (cursor < now) {
+      const next = Math.min(now, cursor + MAX_STEP_HOURS * 3600000);
+      const hours = (next - cursor) / 3600000;
+      this.assets.forEach(asset => this.stepAsset(asset, new Date(next), hours, stress(asset.equipment_id)));
+      cursor = next;
+    }
+  }
+
+  getAssets(): EquipmentAssetState[] {
+    return this.assets.map(asset => ({ ...asset }));
+  }
+
+  /**
+   * Replace the fleet with asset states taken from another model at `time`
+   */
+  restore(assets: EquipmentAssetState[], time: Date): void {
+    this.assets = assets.map(asset => ({ ...asset }));
+    this.lastStepTime = time.getTime();
+  }
+
+  /**
+   * Take an asset down for maintenance now. Assets that are already down for
+   * repair or maintenance are left as they are.
+   */
+  scheduleMaintenance(equipmentId: string, time: Date, durationHours?: number): EquipmentAssetState | undefined {
+    const asset = this.assets.find(a => a.equipment_id === equipmentId);
+    if (!asset) {
+      return undefined;
+    }
+    if (asset.status === 'running' || asset.status === 'stopped') {
+      this.startMaintenance(asset, time, durationHours);
+    }
+    return { ...asset };
+  }
+
+  /**
+   * Align an asset with its measured run state. An asset drawing power is
+   * running; one drawing none is held stopped and restarts RESTART_HOURS after
+   * the last such measurement. Tripped assets stay down until repaired.
+   */
+  applyRunState(equipmentId: string, running: boolean, time: Date): void {
+    const asset = this.assets.find(a => a.equipment_id === equipmentId);
+    if (!asset) {
+      return;
+    }
+    if (running) {
+      if (asset.status !== 'running') {
+        this.transition(asset, 'running', time, null);
+      }
+    } else if (asset.status === 'running') {
+      this.transition(asset, 'stopped', time, RESTART_HOURS);
+    } else if (asset.status === 'stopped') {
+      asset.status_until = new Date(time.getTime() + RESTART_HOURS * 3600000);
+    }
+  }
+
+  private getProfile(equipmentId: string): ReliabilityProfile {
+    return { ...DEFAULT_RELIABILITY, ...RELIABILITY[equipmentId] };
+  }
+
+  private stepAsset(asset: EquipmentAssetState, time: Date, hours: number, stress: number): void {
+    const profile = this.getProfile(asset.equipment_id);
+    const due = asset.status_until !== null && time.getTime() >= asset.status_until.getTime();
+
+    switch (asset.status) {
+      case 'running': {
+        asset.runtime_hours += hours;
+        asset.hours_since_maintenance += hours;
+        asset.health = Math.max(0, asset.health - hours * DEGRADATION_PER_HOUR * stress);
+
+        if (asset.hours_since_maintenance >= profile.maintenance_interval_hours ||
+            asset.health < MAINTENANCE_HEALTH_THRESHOLD) {
+          this.startMaintenance(asset, time);
+          break;
+        }
+
+        const failureRate = (1 + WEAR_FAILURE_MULTIPLIER * Math.pow(1 - asset.health, 2)) / profile.mtbf_hours;
+        if (this.random() < 1 - Math.exp(-failureRate * hours)) {
+          const repairHours = REPAIR_HOURS.min + this.random() * (REPAIR_HOURS.max - REPAIR_HOURS.min);
+          this.transition(asset, 'error', time, repairHours);
+          asset.failure_count++;
+        }
+        break;
+      }
+      case 'error':
+        // Repairs fix the failed part but not the general wear
+        if (due) {
+          asset.health = Math.min(1, asset.health + 0.15);
+          this.transition(asset, 'stopped', time, RESTART_HOURS);
+        }
+        break;
+      case 'maintenance':
+        if (due) {
+          asset.health = 1;
+          asset.hours_since_maintenance = 0;
+          asset.last_maintenance = time;
+          this.transition(asset, 'running', time, null);
+        }
+        break;
+      case 'stopped':
+        if (due) {
+          this.transition(asset, 'running', time, null);
+        }
+        break;
+    }
+  }
+
+  private startMaintenance(asset: EquipmentAssetState, time: Date, durationHours?: number): void {
+    this.transition(asset, 'maintenance', time, durationHours ?? this.getProfile(asset.equipment_id).maintenance_duration_hours);
+  }
+
+  private transition(asset: EquipmentAssetState, status: EquipmentState, time: Date, durationHours: number | null): void {
+    asset.status = status;
+    asset.status_since = time;
+    asset.status_until = durationHours === null ? null : new Date(time.getTime() + durationHours * 3600000);
+  }
+}
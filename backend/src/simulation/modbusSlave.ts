@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { ServerTCP } from 'modbus-serial';
+import { CementPlantSimulator } from './dataGenerator';
+import { PLANT_EQUIPMENT } from './sensorCatalog';
+import { ModbusDevice } from '../data/modbusSource';
+
+/**
+ * A local Modbus TCP slave backed by the plant simulator, for testing the
+ * Modbus data source without PLCs. Every equipment asset answers on its own
+ * unit id (1 for KILN_01, 2 for RAW_MILL_01, ...) with the same register layout
+ * in its holding and input registers:
+ *
+ *   0     temperature, int16, 0.1 °C
+ *   1     vibration, uint16, 0.01 mm/s
+ *   2-3   motor power, float32 (high word first), kW
+ *
+ *   npm run modbus-slave -- --map data/modbus-map.json
+ *
+ * writes the matching register map for MODBUS_MAP_FILE before serving.
+ */
+
+dotenv.config();
+
+const HOST = process.env.MODBUS_SLAVE_HOST || '127.0.0.1';
+const PORT = parseInt(process.env.MODBUS_SLAVE_PORT || '5020');
+const UPDATE_INTERVAL = parseInt(process.env.MODBUS_SLAVE_INTERVAL_MS || '1000');
+
+const simulator = new CementPlantSimulator({
+  plant_capacity: parseInt(process.env.PLANT_CAPACITY || '2000'),
+  sensor_count: parseInt(process.env.SENSOR_COUNT || '50'),
+  simulation_speed: 1,
+  noise_level: 0.1,
+  anomaly_probability: 0.05,
+  quality_variation: 0.1,
+  seed: process.env.SIMULATION_SEED ? parseInt(process.env.SIMULATION_SEED) : undefined
+});
+
+// Register words of each unit id
+const registers = new Map<number, number[]>();
+
+function updateRegisters(): void {
+  simulator.generateEquipmentStatus().forEach((asset, index) => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeInt16BE(Math.round(asset.temperature * 10), 0);
+    buffer.writeUInt16BE(Math.min(65535, Math.round(asset.vibration_level * 100)), 2);
+    buffer.writeFloatBE(asset.power_consumption, 4);
+    registers.set(index + 1, [0, 2, 4, 6].map(offset => buffer.readUInt16BE(offset)));
+  });
+}
+
+function readRegister(address: number, unitId: number): number {
+  const words = registers.get(unitId);
+  if (!words || address >= words.length) {
+    throw { modbusErrorCode: 0x02, msg: 'Illegal data address' };
+  }
+  return words[address];
+}
+
+function registerMap(): ModbusDevice[] {
+  return PLANT_EQUIPMENT.map((equipment, index) => ({
+    equipment_id: equipment.id,
+    host: HOST,
+    port: PORT,
+    unit_id: index + 1,
+    registers: [
+      { address: 0, data_type: 'int16', scale: 0.1, unit: '°C', measure: 'temperature' },
+      { address: 1, data_type: 'uint16', scale: 0.01, unit: 'mm/s', measure: 'vibration_level', sensor_id: `MODBUS_VIB_${equipment.id}` },
+      { address: 2, data_type: 'float32', unit: 'kW', measure: 'power_consumption' }
+    ]
+  }));
+}
+
+const mapIndex = process.argv.indexOf('--map');
+if (mapIndex >= 0 && process.argv[mapIndex + 1]) {
+  const file = process.argv[mapIndex + 1];
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(registerMap(), null, 2));
+  console.log(`📂 Wrote the register map to ${file}`);
+}
+
+updateRegisters();
+setInterval(updateRegisters, UPDATE_INTERVAL);
+
+const server = new ServerTCP({
+  getHoldingRegister: readRegister,
+  getInputRegister: readRegister
+}, { host: HOST, port: PORT, unitID: 255 });
+
+server.on('initialized', () => {
+  console.log(`📡 Simulated Modbus slave listening on ${HOST}:${PORT} (unit ids 1-${PLANT_EQUIPMENT.length}, seed ${simulator.getSeed()})`);
+});
+server.on('socketError', error => {
+  console.error('❌ Modbus socket error:', error?.message);
+});
@@ -0,0 +1,118 @@
+import dotenv from 'dotenv';
+import { DataType, Namespace, OPCUAServer, UAObject, UAVariable, Variant } from 'node-opcua';
+import { CementPlantSimulator } from './dataGenerator';
+import { MAPPABLE_FIELDS, MappingGroup, valueAtPath } from '../data/csvIngest';
+
+/**
+ * A local OPC UA server backed by the plant simulator, for testing the OPC UA
+ * data source without plant hardware. Model fields are published under
+ * CementPlant/<Group>/<field> (`ns=1;s=CementPlant.process.kiln_temperature`) and
+ * sensors under CementPlant/Sensors (`ns=1;s=CementPlant.Sensors.KILN_TEMP_01`).
+ *
+ *   npm run opcua-server
+ */
+
+dotenv.config();
+
+const PORT = parseInt(process.env.OPCUA_SERVER_PORT || '4840');
+const UPDATE_INTERVAL = parseInt(process.env.OPCUA_SERVER_INTERVAL_MS || '1000');
+
+const GROUP_FOLDERS: Record<MappingGroup, string> = {
+  process: 'Process',
+  quality: 'Quality',
+  environmental: 'Environmental'
+};
+
+const simulator = new CementPlantSimulator({
+  plant_capacity: parseInt(process.env.PLANT_CAPACITY || '2000'),
+  sensor_count: parseInt(process.env.SENSOR_COUNT || '50'),
+  simulation_speed: 1,
+  noise_level: 0.1,
+  anomaly_probability: 0.05,
+  quality_variation: 0.1,
+  seed: process.env.SIMULATION_SEED ? parseInt(process.env.SIMULATION_SEED) : undefined
+});
+
+// Current simulated values by node id, read by the variables' getters
+const values = new Map<string, number>();
+
+function addDoubleVariable(namespace: Namespace, parent: UAObject, nodeId: string, browseName: string, description: string): UAVariable {
+  return namespace.addVariable({
+    componentOf: parent,
+    nodeId: `s=${nodeId}`,
+    browseName,
+    description,
+    dataType: 'Double',
+    minimumSamplingInterval: 100,
+    value: {
+      get: () => values.has(nodeId)
+        ? new Variant({ dataType: DataType.Double, value: values.get(nodeId) })
+        : new Variant({ dataType: DataType.Null })
+    }
+  });
+}
+
+function updateValues(): void {
+  const groups: Record<MappingGroup, object> = {
+    process: simulator.generateProcessParameters(),
+    quality: simulator.generateQualityMetrics(),
+    environmental: simulator.generateEnvironmentalData()
+  };
+  (Object.keys(MAPPABLE_FIELDS) as MappingGroup[]).forEach(group => {
+    Object.keys(MAPPABLE_FIELDS[group]).forEach(field => {
+      const value = valueAtPath(groups[group], field);
+      if (typeof value === 'number') {
+        values.set(`CementPlant.${group}.${field}`, value);
+      }
+    });
+  });
+  simulator.generateSensorReadings().forEach(reading => {
+    values.set(`CementPlant.Sensors.${reading.sensor_id}`, reading.value);
+  });
+}
+
+async function main(): Promise<void> {
+  const server = new OPCUAServer({
+    port: PORT,
+    resourcePath: '/UA/CementPlant',
+    buildInfo: { productName: 'CementAI Nexus Plant Simulator', buildNumber: '1' }
+  });
+  await server.initialize();
+
+  const addressSpace = server.engine.addressSpace!;
+  const namespace = addressSpace.getOwnNamespace();
+  const plant = namespace.addObject({
+    organizedBy: addressSpace.rootFolder.objects,
+    nodeId: 's=CementPlant',
+    browseName: 'CementPlant'
+  });
+
+  (Object.keys(MAPPABLE_FIELDS) as MappingGroup[]).forEach(group => {
+    const folder = namespace.addObject({ componentOf: plant, nodeId: `s=CementPlant.${group}`, browseName: GROUP_FOLDERS[group] });
+    Object.entries(MAPPABLE_FIELDS[group]).forEach(([field, spec]) => {
+      addDoubleVariable(namespace, folder, `CementPlant.${group}.${field}`, field, `${spec.label} (${spec.unit})`);
+    });
+  });
+
+  const sensorFolder = namespace.addObject({ componentOf: plant, nodeId: 's=CementPlant.Sensors', browseName: 'Sensors' });
+  simulator.generateSensorReadings().forEach(reading => {
+    addDoubleVariable(namespace, sensorFolder, `CementPlant.Sensors.${reading.sensor_id}`, reading.sensor_id, `${reading.location} (${reading.unit})`);
+  });
+
+  updateValues();
+  setInterval(updateValues, UPDATE_INTERVAL);
+
+  await server.start();
+  console.log(`📡 Simulated OPC UA server listening on ${server.getEndpointUrl()}`);
+  console.log(`Publishing ${values.size} variables every ${UPDATE_INTERVAL}ms (seed ${simulator.getSeed()})`);
+
+  process.on('SIGINT', async () => {
+    await server.shutdown(1000);
+    process.exit(0);
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start the OPC UA server:', error);
+  process.exit(1);
+});
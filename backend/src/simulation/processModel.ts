@@ -0,0 +1,230 @@
+import { RandomSource } from './random';
+
+// Operator levers the AI recommendations act on
+export interface ProcessSetpoints {
+  raw_meal_feed: number; // TPH
+  alternative_fuel_rate: number; // %
+  kiln_temperature: number; // °C
+  cement_fineness: number; // Blaine (m²/kg)
+}
+
+// External disturbances applied on top of the setpoints
+export interface ProcessDisturbances {
+  kiln_temperature?: number; // relative upset of the burning zone, acts immediately
+  raw_mix_burnability?: number; // °C shift of the kiln temperature the raw mix settles at
+  raw_mill_load?: number; // relative change in raw mill power (material hardness)
+  clinker_grindability?: number; // relative change in cement mill power
+}
+
+// Lagged plant state plus the quantities derived from it
+export interface ProcessState {
+  raw_meal_flow: number; // TPH
+  production_rate: number; // TPH cement
+  alternative_fuel_rate: number; // %
+  kiln_temperature: number; // °C
+  clinker_temperature: number; // °C
+  preheater_temperature: number; // °C
+  exhaust_fan_speed: number; // RPM
+  raw_mill_power: number; // kW
+  cement_mill_power: number; // kW
+  blaine_fineness: number; // m²/kg
+  free_lime: number; // %
+  c3s: number; // %
+  c2s: number; // %
+  compressive_strength_3d: number; // MPa
+  compressive_strength_28d: number; // MPa
+  specific_energy: number; // kWh/ton
+  thermal_energy: number; // GJ/ton clinker
+  co2_emissions: number; // kg/ton cement
+  nox_emissions: number; // mg/Nm³
+  so2_emissions: number; // mg/Nm³
+  dust_emissions: number; // mg/Nm³
+}
+
+// Time constants (minutes) of the first-order lags between levers and responses
+const TAU = {
+  feed: 5,
+  fuel_mix: 30,
+  kiln_temperature: 20,
+  clinker_temperature: 10,
+  preheater_temperature: 10,
+  blaine: 15,
+  clinker_chemistry: 45
+};
+
+const RAW_MEAL_TO_CEMENT_RATIO = 1.55;
+const NOMINAL_LOAD = 0.85; // fraction of plant capacity at the default feed setpoint
+const NOMINAL_RAW_MILL_POWER = 2800; // kW at nominal feed
+const NOMINAL_CEMENT_MILL_POWER = 3200; // kW at nominal production and 360 Blaine
+const NOMINAL_BLAINE = 360;
+const CLINKER_FACTOR = 0.95;
+const CALCINATION_CO2 = 525; // kg CO2 per ton clinker
+const COAL_EMISSION_FACTOR = 95; // kg CO2/GJ
+const ALT_FUEL_EMISSION_FACTOR = 30; // kg CO2/GJ (fossil share of alternative fuels)
+const GRID_EMISSION_FACTOR = 0.85; // kg CO2/kWh
+
+/**
+ * Coupled kiln and finish-mill model. Feed rate, fuel mix, kiln temperature
+ * and fineness are driven towards their setpoints through first-order lags,
+ * and clinker chemistry, strength, energy and emissions follow from that state.
+ */
+export class KilnProcessModel {
+  private setpoints: ProcessSetpoints;
+  private nominalFeed: number;
+  private random: RandomSource;
+  private lastStepTime: number | null = null;
+  private disturbances: ProcessDisturbances = {};
+
+  // Lagged state
+  private feed: number;
+  private altFuel: number;
+  private kilnTemp: number;
+  private clinkerTemp: number;
+  private preheaterTemp: number;
+  private blaine: number;
+  private freeLime: number;
+  private c3s: number;
+
+  constructor(plantCapacity: number, random: RandomSource) {
+    this.random = random;
+    this.nominalFeed = plantCapacity * RAW_MEAL_TO_CEMENT_RATIO * NOMINAL_LOAD;
+    this.setpoints = {
+      raw_meal_feed: this.nominalFeed,
+      alternative_fuel_rate: 25,
+      kiln_temperature: 1450,
+      cement_fineness: NOMINAL_BLAINE
+    };
+
+    // Start at steady state for the default setpoints
+    this.feed = this.setpoints.raw_meal_feed;
+    this.altFuel = this.setpoints.alternative_fuel_rate;
+    this.kilnTemp = this.kilnTemperatureTarget();
+    this.clinkerTemp = this.kilnTemp - 300;
+    this.preheaterTemp = this.preheaterTemperatureTarget();
+    this.blaine = this.setpoints.cement_fineness;
+    this.freeLime = this.freeLimeTarget();
+    this.c3s = this.c3sTarget();
+  }
+
+  getSetpoints(): ProcessSetpoints {
+    return { ...this.setpoints };
+  }
+
+  setSetpoints(setpoints: Partial<ProcessSetpoints>): ProcessSetpoints {
+    this.setpoints = { ...this.setpoints, ...setpoints };
+    return this.getSetpoints();
+  }
+
+  /**
+   * Advance the lagged state to the given time. Repeated calls with the same
+   * time are no-ops, so every generator of a tick sees the same state.
+   * `demandFactor` modulates the feed around its setpoint (production cycles).
+   */
+  step(time: Date, demandFactor: number = 1, disturbances: ProcessDisturbances = {}): void {
+    const now = time.getTime();
+    this.disturbances = disturbances;
+    const dtMinutes = this.lastStepTime === null ? 0 : Math.max(0, (now - this.lastStepTime) / 60000);
+    this.lastStepTime = now;
+    if (dtMinutes === 0) {
+      return;
+    }
+
+    const lag = (current: number, target: number, tau: number) =>
+      current + (target - current) * (1 - Math.exp(-dtMinutes / tau));
+
+    this.feed = lag(this.feed, this.setpoints.raw_meal_feed * demandFactor, TAU.feed);
+    this.altFuel = lag(this.altFuel, this.setpoints.alternative_fuel_rate, TAU.fuel_mix);
+
+    // Small random walk for burner and raw mix variability
+    const kilnNoise = (this.random() - 0.5) * 2 * Math.sqrt(dtMinutes);
+    this.kilnTemp = lag(this.kilnTemp, this.kilnTemperatureTarget(), TAU.kiln_temperature) + kilnNoise;
+
+    this.clinkerTemp = lag(this.clinkerTemp, this.burningZoneTemperature() - 300, TAU.clinker_temperature);
+    this.preheaterTemp = lag(this.preheaterTemp, this.preheaterTemperatureTarget(), TAU.preheater_temperature);
+    this.blaine = lag(this.blaine, this.setpoints.cement_fineness, TAU.blaine);
+    this.freeLime = lag(this.freeLime, this.freeLimeTarget(), TAU.clinker_chemistry);
+    this.c3s = lag(this.c3s, this.c3sTarget(), TAU.clinker_chemistry);
+  }
+
+  getState(): ProcessState {
+    const kilnTemp = this.burningZoneTemperature();
+    const productionRate = this.feed / RAW_MEAL_TO_CEMENT_RATIO;
+    const nominalProduction = this.nominalFeed / RAW_MEAL_TO_CEMENT_RATIO;
+    const feedRatio = this.feed / this.nominalFeed;
+    const productionRatio = productionRate / nominalProduction;
+
+    const rawMillPower = NOMINAL_RAW_MILL_POWER * feedRatio * (1 + (this.disturbances.raw_mill_load || 0));
+    // Grinding energy rises steeply with fineness
+    const cementMillPower = NOMINAL_CEMENT_MILL_POWER * productionRatio * Math.pow(this.blaine / NOMINAL_BLAINE, 2) *
+      (1 + (this.disturbances.clinker_grindability || 0));
+
+    // Fixed auxiliaries spread over throughput, mill specific energy, kiln drives
+    const specificEnergy = 95 * (
+      0.4 / productionRatio +
+      0.3 * (rawMillPower / this.feed) / (NOMINAL_RAW_MILL_POWER / this.nominalFeed) +
+      0.3 * (cementMillPower / productionRate) / (NOMINAL_CEMENT_MILL_POWER / nominalProduction)
+    ) * (1 + 0.001 * (kilnTemp - 1450));
+
+    // Alternative fuels carry moisture, so heat demand rises with substitution
+    const thermalEnergy = 3.3 * (1 + 0.0015 * (kilnTemp - 1450)) * (1 + 0.004 * (this.altFuel - 25));
+    const altShare = this.altFuel / 100;
+    const fuelEmissionFactor = COAL_EMISSION_FACTOR * (1 - altShare) + ALT_FUEL_EMISSION_FACTOR * altShare;
+    const co2 = CLINKER_FACTOR * (CALCINATION_CO2 + thermalEnergy * fuelEmissionFactor) +
+      specificEnergy * GRID_EMISSION_FACTOR;
+
+    const exhaustFanSpeed = 500 * (0.5 + 0.5 * feedRatio);
+    const c2s = Math.max(5, 78 - this.c3s);
+
+    return {
+      raw_meal_flow: this.feed,
+      production_rate: productionRate,
+      alternative_fuel_rate: this.altFuel,
+      kiln_temperature: kilnTemp,
+      clinker_temperature: this.clinkerTemp,
+      preheater_temperature: this.preheaterTemp,
+      exhaust_fan_speed: exhaustFanSpeed,
+      raw_mill_power: rawMillPower,
+      cement_mill_power: cementMillPower,
+      blaine_fineness: this.blaine,
+      free_lime: this.freeLime,
+      c3s: this.c3s,
+      c2s,
+      compressive_strength_3d: 21.5 + 0.05 * (this.blaine - NOMINAL_BLAINE) + 0.25 * (this.c3s - 58) - 1.0 * (this.freeLime - 1),
+      compressive_strength_28d: 47 + 0.06 * (this.blaine - NOMINAL_BLAINE) + 0.35 * (this.c3s - 58) - 2.5 * (this.freeLime - 1),
+      specific_energy: specificEnergy,
+      thermal_energy: thermalEnergy,
+      co2_emissions: co2,
+      // Thermal NOx grows exponentially with flame temperature; alternative fuels burn cooler
+      nox_emissions: 600 * Math.exp((kilnTemp - 1450) / 150) * (1 - 0.004 * (this.altFuel - 25)),
+      so2_emissions: 120 * feedRatio,
+      dust_emissions: 20 * Math.pow(exhaustFanSpeed / 500, 2)
+    };
+  }
+
+  private kilnTemperatureTarget(): number {
+    // Extra feed and wetter fuel mixes pull the burning zone down
+    return this.setpoints.kiln_temperature -
+      0.05 * (this.feed - this.nominalFeed) -
+      0.8 * (this.altFuel - 25) +
+      (this.disturbances.raw_mix_burnability || 0);
+  }
+
+  // Lagged kiln temperature with any immediate upset applied
+  private burningZoneTemperature(): number {
+    return this.kilnTemp * (1 + (this.disturbances.kiln_temperature || 0));
+  }
+
+  private preheaterTemperatureTarget(): number {
+    return 345 + 0.1 * (this.burningZoneTemperature() - 1450) + 0.01 * (this.feed - this.nominalFeed) + 0.3 * (this.altFuel - 25);
+  }
+
+  private freeLimeTarget(): number {
+    // Under-burnt clinker leaves uncombined lime
+    const target = 1.0 + 0.025 * (1450 - this.burningZoneTemperature()) + 0.002 * (this.feed - this.nominalFeed);
+    return Math.max(0.2, Math.min(5, target));
+  }
+
+  private c3sTarget(): number {
+    return 58 + 0.06 * (this.burningZoneTemperature() - 1450) - 2 * (this.freeLime - 1);
+  }
+}
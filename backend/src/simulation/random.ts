@@ -0,0 +1,63 @@
+// Deterministic randomness and time sources for reproducible simulation runs
+
+export type RandomSource = () => number;
+export type SimulationClock = () => Date;
+
+/**
+ * Mulberry32 PRNG - small, fast and good enough for process simulation.
+ * The same seed always yields the same sequence in [0, 1).
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed for a sub-stream keyed by a run seed, a moment in simulated time and
+ * a label. Draws for one key never depend on how often other keys were drawn.
+ */
+export function deriveSeed(seed: number, time: number, label: string): number {
+  let hash = Math.imul(seed ^ 0x9E3779B9, 0x85EBCA6B);
+  const mix = (value: number) => {
+    hash = Math.imul(hash ^ value, 0xC2B2AE35);
+    hash ^= hash >>> 16;
+  };
+  mix(time % 0x100000000);
+  mix(Math.floor(time / 0x100000000));
+  for (let i = 0; i < label.length; i++) {
+    mix(label.charCodeAt(i));
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a fresh seed for runs that did not request one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0xFFFFFFFF);
+}
+
+/**
+ * Clock that only moves when told to, so a run's timestamps depend on
+ * the number of ticks rather than on wall-clock scheduling jitter
+ */
+export class SteppedClock {
+  private currentTime: number;
+
+  constructor(startTime: Date) {
+    this.currentTime = startTime.getTime();
+  }
+
+  now: SimulationClock = () => new Date(this.currentTime);
+
+  advance(milliseconds: number): void {
+    this.currentTime += milliseconds;
+  }
+}
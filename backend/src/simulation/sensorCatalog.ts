@@ -0,0 +1,200 @@
+import { SensorReading, AnomalyType } from '../data/models';
+import { ProcessState } from './processModel';
+
+// Plant assets shared by the equipment model and the per-asset sensor tags
+export const PLANT_EQUIPMENT = [
+  { id: 'KILN_01', name: 'Rotary Kiln #1', section: 'Pyroprocessing', motor_kw: 650 },
+  { id: 'RAW_MILL_01', name: 'Raw Mill #1', section: 'Raw Material Grinding', motor_kw: 2800 },
+  { id: 'CEMENT_MILL_01', name: 'Cement Mill #1', section: 'Cement Grinding', motor_kw: 3200 },
+  { id: 'PREHEATER_01', name: 'Preheater Tower', section: 'Pyroprocessing', motor_kw: 120 },
+  { id: 'COOLER_01', name: 'Grate Cooler', section: 'Clinker Cooling', motor_kw: 900 },
+  { id: 'CRUSHER_01', name: 'Limestone Crusher', section: 'Raw Material Preparation', motor_kw: 800 },
+  { id: 'SEPARATOR_01', name: 'Cement Separator', section: 'Cement Grinding', motor_kw: 350 },
+  { id: 'FAN_01', name: 'Exhaust Fan', section: 'Pyroprocessing', motor_kw: 1800 }
+];
+
+type PlantEquipment = typeof PLANT_EQUIPMENT[number];
+
+// Motor draw of a running asset: fan power follows the cube of its speed, the rest track throughput
+export function equipmentMotorPower(equipment: PlantEquipment, state: ProcessState): number {
+  return equipment.id === 'FAN_01'
+    ? equipment.motor_kw * Math.pow(state.exhaust_fan_speed / 500, 3)
+    : equipment.motor_kw * state.production_rate / 1700;
+}
+
+export interface SensorTag {
+  sensor_id: string;
+  unit: string;
+  location: string;
+  sensor_type: SensorReading['sensor_type'];
+  relative_noise: number;
+  equipment_id?: string;
+  anomaly_type?: AnomalyType; // injected anomalies of this type on the equipment move the tag
+  read: (state: ProcessState) => number;
+}
+
+interface SensorFamily {
+  max_instances: number;
+  create: (instance: number) => SensorTag;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Families of auxiliary tags, each spread across a plant section
+const SENSOR_FAMILIES: SensorFamily[] = [
+  {
+    max_instances: 5,
+    create: stage => ({
+      sensor_id: `CYCLONE_TEMP_${pad(stage)}`,
+      unit: '°C',
+      location: `Preheater Cyclone Stage ${stage}`,
+      sensor_type: 'temperature',
+      relative_noise: 0.005,
+      equipment_id: 'PREHEATER_01',
+      anomaly_type: 'temperature',
+      // Gas cools from ~870 °C at the bottom stage to the exit temperature at the top
+      read: state => state.preheater_temperature + (stage - 1) * 130 * state.kiln_temperature / 1450
+    })
+  },
+  {
+    max_instances: 8,
+    create: zone => ({
+      sensor_id: `KILN_SHELL_TEMP_${pad(zone)}`,
+      unit: '°C',
+      location: `Kiln Shell Zone ${zone}`,
+      sensor_type: 'temperature',
+      relative_noise: 0.01,
+      equipment_id: 'KILN_01',
+      anomaly_type: 'temperature',
+      // Shell is hottest around the burning zone, two thirds down the kiln
+      read: state => 220 + 110 * Math.sin(Math.PI * zone / 9) + 0.3 * (state.kiln_temperature - 1450)
+    })
+  },
+  {
+    max_instances: PLANT_EQUIPMENT.length,
+    create: index => {
+      const equipment = PLANT_EQUIPMENT[index - 1];
+      return {
+        sensor_id: `BEARING_VIB_${equipment.id}`,
+        unit: 'mm/s',
+        location: equipment.name,
+        sensor_type: 'vibration',
+        relative_noise: 0.08,
+        equipment_id: equipment.id,
+        anomaly_type: 'vibration',
+        read: () => 2.5
+      };
+    }
+  },
+  {
+    max_instances: 6,
+    create: chamber => ({
+      sensor_id: `COOLER_GRATE_PRESSURE_${pad(chamber)}`,
+      unit: 'kPa',
+      location: `Cooler Grate Chamber ${chamber}`,
+      sensor_type: 'pressure',
+      relative_noise: 0.03,
+      equipment_id: 'COOLER_01',
+      // Thicker clinker bed under the kiln discharge needs more air pressure
+      read: state => (7 - chamber) * 0.9 * state.production_rate / 1700
+    })
+  },
+  {
+    max_instances: PLANT_EQUIPMENT.length,
+    create: index => {
+      const equipment = PLANT_EQUIPMENT[index - 1];
+      return {
+        sensor_id: `MOTOR_POWER_${equipment.id}`,
+        unit: 'kW',
+        location: equipment.name,
+        sensor_type: 'power',
+        relative_noise: 0.02,
+        equipment_id: equipment.id,
+        anomaly_type: 'power',
+        read: state => equipmentMotorPower(equipment, state)
+      };
+    }
+  },
+  {
+    max_instances: 3,
+    create: filter => ({
+      sensor_id: `BAG_FILTER_DP_${pad(filter)}`,
+      unit: 'kPa',
+      location: `Bag Filter ${filter}`,
+      sensor_type: 'pressure',
+      relative_noise: 0.05,
+      read: state => 1.2 * state.exhaust_fan_speed / 500
+    })
+  },
+  {
+    max_instances: 1,
+    create: () => ({
+      sensor_id: 'COAL_FEED_FLOW_01',
+      unit: 't/h',
+      location: 'Kiln Main Burner',
+      sensor_type: 'flow',
+      relative_noise: 0.02,
+      // Fossil share of the heat demand at ~25 GJ/t coal
+      read: state => state.thermal_energy * state.production_rate * 0.95 * (1 - state.alternative_fuel_rate / 100) / 25
+    })
+  },
+  {
+    max_instances: 1,
+    create: () => ({
+      sensor_id: 'RAW_MEAL_MOISTURE_01',
+      unit: '%',
+      location: 'Raw Mill Outlet',
+      sensor_type: 'humidity',
+      relative_noise: 0.1,
+      read: () => 0.6
+    })
+  },
+  {
+    max_instances: 1,
+    create: () => ({
+      sensor_id: 'STACK_HUMIDITY_01',
+      unit: '%',
+      location: 'Stack',
+      sensor_type: 'humidity',
+      relative_noise: 0.05,
+      read: state => 8 + 0.1 * state.alternative_fuel_rate
+    })
+  },
+  {
+    max_instances: 1,
+    create: () => ({
+      sensor_id: 'WATER_TREATMENT_PH_01',
+      unit: 'pH',
+      location: 'Water Treatment Plant',
+      sensor_type: 'ph',
+      relative_noise: 0.01,
+      read: () => 7.8
+    })
+  }
+];
+
+/**
+ * Build `count` auxiliary tags by taking one instance from each family in
+ * turn, so extra tags are spread across the plant instead of piling up in
+ * one section. The list is capped by the families' instance limits.
+ */
+export function buildAuxiliarySensorTags(count: number): SensorTag[] {
+  const tags: SensorTag[] = [];
+  const used = SENSOR_FAMILIES.map(() => 0);
+
+  while (tags.length < count) {
+    let added = false;
+    SENSOR_FAMILIES.forEach((family, index) => {
+      if (tags.length < count && used[index] < family.max_instances) {
+        used[index]++;
+        tags.push(family.create(used[index]));
+        added = true;
+      }
+    });
+    if (!added) {
+      break;
+    }
+  }
+
+  return tags;
+}
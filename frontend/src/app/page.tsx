@@ -47,7 +47,7 @@ import {
   Memory
 } from '@mui/icons-material';
 import io, { Socket } from 'socket.io-client';
-import { DashboardData, ProcessParameters } from '../types/models';
+import { AnomalyDetection, DashboardData, ProcessParameters } from '../types/models';
 import { buildWsUrl } from '../config/api';
 import AIAssistant from '../components/AIAssistant';
 import RealTimeTestDashboard from '../components/RealTimeTestDashboard';
@@ -55,6 +55,9 @@ import QualityConsistencyMonitor from '../components/QualityConsistencyMonitor';
 import SystemPromptConfig from '../components/SystemPromptConfig';
 import ReportGenerator from '../components/ReportGenerator';
 import LookerStudio from '../components/LookerStudio';
+import EnergyForecastChart from '../components/EnergyForecastChart';
+import AnomalyPanel from '../components/AnomalyPanel';
+import RecommendationCards from '../components/RecommendationCards';
 
 const menuItems = [
   { id: 'looker-studio', label: 'Looker Studio', icon: SmartToy, color: '#00E5FF' },
@@ -64,10 +67,16 @@ const menuItems = [
   { id: 'settings', label: 'Settings', icon: Settings, color: '#90A4AE' },
 ];
 
+// Matches the number of points the backend sends with its process history
+const MAX_HISTORY_POINTS = 300;
+
 export default function FuturisticDashboard() {
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [processHistory, setProcessHistory] = useState<ProcessParameters[]>([]);
+  const [anomalies, setAnomalies] = useState<AnomalyDetection[]>([]);
+  // Bumped whenever threshold rules or the active grade change on the server
+  const [thresholdsRevision, setThresholdsRevision] = useState(0);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   const [testMode, setTestMode] = useState(false);
@@ -115,7 +124,7 @@ export default function FuturisticDashboard() {
   const renderActiveViewContent = () => {
     if (activeView === 'quality-consistency') {
       // Return dedicated Quality Consistency Monitor
-      return <QualityConsistencyMonitor dashboardData={dashboardData || undefined} />;
+      return <QualityConsistencyMonitor dashboardData={dashboardData || undefined} thresholdsRevision={thresholdsRevision} />;
     } else if (activeView === 'reports') {
       // Return dedicated Reports Generator
       return <ReportGenerator dashboardData={dashboardData || undefined} />;
@@ -772,7 +781,7 @@ export default function FuturisticDashboard() {
                   <Box>
                     <Typography variant="body2" sx={{ color: '#A0AEC0', fontSize: '0.75rem' }}>Raw Meal Flow</Typography>
                     <Typography variant="h6" sx={{ color: '#E0E6ED', fontWeight: 700 }}>
-                      {current_parameters?.raw_mill_flow?.toFixed(1) || '0.0'} TPH
+                      {current_parameters?.raw_meal_flow?.toFixed(1) || '0.0'} TPH
                     </Typography>
                   </Box>
                   <Box>
@@ -889,6 +898,27 @@ export default function FuturisticDashboard() {
             </Box>
           </Box>
 
+          {/* Energy Consumption Forecast */}
+          <EnergyForecastChart />
+
+          {/* Multivariate anomaly detection */}
+          <AnomalyPanel anomalies={anomalies} />
+
+          {/* Structured AI recommendations from the last hour */}
+          {dashboardData && dashboardData.ai_recommendations.length > 0 && (
+            <Paper sx={{
+              p: 3,
+              mb: 4,
+              background: 'linear-gradient(135deg, #1A1F2E 0%, #242B3D 100%)',
+              border: '1px solid rgba(0, 229, 255, 0.2)'
+            }}>
+              <Typography variant="h6" sx={{ color: '#00E5FF', fontWeight: 600, mb: 2 }}>
+                🤖 AI Recommendations
+              </Typography>
+              <RecommendationCards recommendations={dashboardData.ai_recommendations} />
+            </Paper>
+          )}
+
           {/* AI Quality Analysis & Monitoring */}
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mb: 4 }}>
             <Box sx={{ flex: '1 1 600px', minWidth: '600px' }}>
@@ -1453,10 +1483,25 @@ export default function FuturisticDashboard() {
       setDashboardData(data);
       setProcessHistory(prev => {
         const newHistory = [...prev, data.current_parameters];
-        return newHistory.slice(-50);
+        return newHistory.slice(-MAX_HISTORY_POINTS);
       });
     });
 
+    // Backfilled or accumulated history, sent on connect and after a backfill
+    newSocket.on('process_history', (history: ProcessParameters[]) => {
+      setProcessHistory(history.slice(-MAX_HISTORY_POINTS));
+    });
+
+    // Recent anomalies arrive on connect, then one at a time as they are detected or change
+    newSocket.on('anomalies', (recent: AnomalyDetection[]) => setAnomalies(recent));
+    newSocket.on('anomaly_detected', (anomaly: AnomalyDetection) => {
+      setAnomalies(prev => [anomaly, ...prev.filter(entry => entry.id !== anomaly.id)]);
+    });
+    newSocket.on('anomaly_updated', (anomaly: AnomalyDetection) => {
+      setAnomalies(prev => prev.map(entry => (entry.id === anomaly.id ? anomaly : entry)));
+    });
+    newSocket.on('thresholds_updated', () => setThresholdsRevision(prev => prev + 1));
+
     return () => {
       console.log('🧹 Cleaning up socket connection');
       newSocket.off('connect');
@@ -1466,6 +1511,11 @@ export default function FuturisticDashboard() {
       newSocket.off('reconnect_error');
       newSocket.off('reconnect_attempt');
       newSocket.off('dashboard_update');
+      newSocket.off('process_history');
+      newSocket.off('anomalies');
+      newSocket.off('anomaly_detected');
+      newSocket.off('anomaly_updated');
+      newSocket.off('thresholds_updated');
       newSocket.close();
     };
   }, []);
@@ -12,10 +12,18 @@ import {
   Avatar,
   Chip,
   Button,
-  Collapse
+  Collapse,
+  Menu,
+  MenuItem,
+  ListItemText,
+  Divider
 } from '@mui/material';
 import {
   Send as SendIcon,
+  Stop as StopIcon,
+  History as HistoryIcon,
+  Add as AddIcon,
+  DeleteOutline as DeleteIcon,
   SmartToy as AIIcon,
   Person as PersonIcon,
   ExpandMore as ExpandMoreIcon,
@@ -24,7 +32,8 @@ import {
   AutoFixHigh as OptimizeIcon,
   Warning as WarningIcon
 } from '@mui/icons-material';
-import { DashboardData } from '../types/models';
+import { AIRecommendation, Conversation, ConversationInfo, DashboardData } from '../types/models';
+import RecommendationCards from './RecommendationCards';
 
 interface Message {
   id: string;
@@ -32,26 +41,35 @@ interface Message {
   sender: 'user' | 'ai';
   timestamp: Date;
   recommendations?: string[];
+  aiRecommendations?: AIRecommendation[];
+  stopped?: boolean; // streaming was stopped before the reply finished
 }
 
+const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'https://backend2-0-lrcn.onrender.com';
+
 interface AIAssistantProps {
   dashboardData?: DashboardData;
 }
 
+const greeting = (): Message => ({
+  id: '1',
+  text: 'Hello! I\'m your CementAI Nexus Assistant. I can help you optimize plant operations, explain anomalies, and provide recommendations. What would you like to know?',
+  sender: 'ai',
+  timestamp: new Date()
+});
+
 export default function AIAssistant({ dashboardData }: AIAssistantProps) {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: 'Hello! I\'m your CementAI Nexus Assistant. I can help you optimize plant operations, explain anomalies, and provide recommendations. What would you like to know?',
-      sender: 'ai',
-      timestamp: new Date()
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [greeting()]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  // Server-side conversation the chat continues; null until the first reply starts one
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationInfo[]>([]);
+  const [historyAnchor, setHistoryAnchor] = useState<HTMLElement | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'https://backend2-0-lrcn.onrender.com';
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -61,6 +79,9 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
     scrollToBottom();
   }, [messages]);
 
+  // A reply still streaming when the assistant unmounts is cancelled on the server too
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
   // Listen for custom events from the main dashboard
   useEffect(() => {
     const handleQualityAnalysisEvent = () => {
@@ -152,6 +173,141 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
     }
   };
 
+  /**
+   * Stream the reply from the server-sent events of the chat stream endpoint
+   * into a message that grows with every token
+   */
+  const streamReply = async (messageText: string) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    const replyId = (Date.now() + 1).toString();
+    const updateReply = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(message => (message.id === replyId ? update(message) : message)));
+    };
+    setMessages(prev => [...prev, { id: replyId, text: '', sender: 'ai', timestamp: new Date() }]);
+    setStreamingId(replyId);
+
+    try {
+      const response = await fetch(`${backendUrl}/api/ai/chat/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: messageText,
+          conversationId: conversationId ?? undefined
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Chat stream failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const handleEvent = (block: string) => {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const data = block.match(/^data: (.*)$/m)?.[1];
+        if (!data) return;
+        const payload = JSON.parse(data);
+        if (event === 'conversation') {
+          setConversationId(payload.id);
+        } else if (event === 'token') {
+          updateReply(message => ({ ...message, text: message.text + payload.text }));
+        } else if (event === 'error') {
+          throw new Error(payload.error);
+        }
+      };
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop() || '';
+        events.forEach(handleEvent);
+      }
+      // The last event may end without a blank line
+      buffered += decoder.decode();
+      if (buffered.trim()) {
+        handleEvent(buffered);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateReply(message => ({ ...message, stopped: true }));
+        return;
+      }
+      // Keep what already arrived; an empty reply makes way for the error message
+      setMessages(prev => prev.filter(message => message.id !== replyId || message.text));
+      throw error;
+    } finally {
+      streamAbortRef.current = null;
+      setStreamingId(null);
+    }
+  };
+
+  const stopStreaming = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const openHistory = async (anchor: HTMLElement) => {
+    setHistoryAnchor(anchor);
+    try {
+      const response = await fetch(`${backendUrl}/api/ai/conversations`);
+      const result = await response.json();
+      if (result.success) {
+        setConversations(result.data);
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    setHistoryAnchor(null);
+    setConversationId(null);
+    setMessages([greeting()]);
+  };
+
+  // Load a stored transcript; the next message continues it on the server
+  const resumeConversation = async (id: string) => {
+    setHistoryAnchor(null);
+    try {
+      const response = await fetch(`${backendUrl}/api/ai/conversations/${id}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      const conversation: Conversation = result.data;
+      setConversationId(conversation.id);
+      setMessages([
+        greeting(),
+        ...conversation.messages.map(message => ({
+          id: message.id,
+          text: message.text,
+          sender: message.role === 'user' ? 'user' as const : 'ai' as const,
+          timestamp: new Date(message.timestamp),
+          stopped: message.stopped
+        }))
+      ]);
+    } catch (error) {
+      console.error('Error resuming conversation:', error);
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await fetch(`${backendUrl}/api/ai/conversations/${id}`, { method: 'DELETE' });
+      setConversations(prev => prev.filter(conversation => conversation.id !== id));
+      if (id === conversationId) {
+        setConversationId(null);
+        setMessages([greeting()]);
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
   const sendMessageToAI = async (messageText: string) => {
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -182,32 +338,8 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
         };
         setMessages(prev => [...prev, aiMessage]);
       } else {
-        // Regular API call for non-predefined questions
-        const response = await fetch(`${backendUrl}/api/ai/chat`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: messageText,
-            dashboardData: dashboardData
-          }),
-        });
-
-        const result = await response.json();
-        
-        if (result.success) {
-          const aiMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            text: result.data.response,
-            sender: 'ai',
-            timestamp: new Date(),
-            recommendations: result.data.recommendations
-          };
-          setMessages(prev => [...prev, aiMessage]);
-        } else {
-          throw new Error(result.error);
-        }
+        // Regular API call for non-predefined questions, streamed as it is generated
+        await streamReply(messageText);
       }
     } catch (error) {
       console.error('AI chat error:', error);
@@ -287,7 +419,7 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
       console.error('Quality analysis error:', error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        text: 'I apologize, but I\'m having trouble accessing the quality analysis system. The analysis features require the Gemini API to be properly configured.',
+        text: 'I apologize, but I\'m having trouble accessing the quality analysis system. The analysis features require a reachable AI provider (see LLM_PROVIDER).',
         sender: 'ai',
         timestamp: new Date()
       };
@@ -344,7 +476,7 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
           text: result.data.response,
           sender: 'ai',
           timestamp: new Date(),
-          recommendations: result.data.recommendations
+          aiRecommendations: result.data.ai_recommendations
         };
         setMessages(prev => [...prev, aiMessage]);
       } else {
@@ -354,7 +486,7 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
       console.error('Optimization error:', error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        text: 'I apologize, but I\'m having trouble accessing the optimization system. The optimization features require the Gemini API to be properly configured.',
+        text: 'I apologize, but I\'m having trouble accessing the optimization system. The optimization features require a reachable AI provider (see LLM_PROVIDER).',
         sender: 'ai',
         timestamp: new Date()
       };
@@ -402,9 +534,63 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
           <AIIcon sx={{ color: '#00E5FF', mr: 1 }} />
           <Typography variant="h6" sx={{ color: '#00E5FF', fontWeight: 600 }}>AI Assistant</Typography>
         </Box>
-        <IconButton onClick={() => setIsExpanded(!isExpanded)} sx={{ color: '#00E5FF' }}>
-          <ExpandMoreIcon sx={{ transform: isExpanded ? 'rotate(180deg)' : 'none' }} />
-        </IconButton>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <IconButton
+            onClick={(event) => openHistory(event.currentTarget)}
+            disabled={isLoading}
+            aria-label="Conversations"
+            sx={{ color: '#00E5FF' }}
+          >
+            <HistoryIcon />
+          </IconButton>
+          <IconButton onClick={() => setIsExpanded(!isExpanded)} sx={{ color: '#00E5FF' }}>
+            <ExpandMoreIcon sx={{ transform: isExpanded ? 'rotate(180deg)' : 'none' }} />
+          </IconButton>
+        </Box>
+        <Menu
+          anchorEl={historyAnchor}
+          open={Boolean(historyAnchor)}
+          onClose={() => setHistoryAnchor(null)}
+          slotProps={{ paper: { sx: { backgroundColor: '#1A1F2E', border: '1px solid rgba(0, 229, 255, 0.3)', maxHeight: 400, width: 320 } } }}
+        >
+          <MenuItem onClick={startNewConversation} sx={{ color: '#00E5FF' }}>
+            <AddIcon fontSize="small" sx={{ mr: 1 }} />
+            New conversation
+          </MenuItem>
+          <Divider sx={{ borderColor: 'rgba(0, 229, 255, 0.2)' }} />
+          {conversations.length === 0 && (
+            <MenuItem disabled>
+              <Typography variant="body2" sx={{ color: '#A0AEC0' }}>No saved conversations</Typography>
+            </MenuItem>
+          )}
+          {conversations.map(conversation => (
+            <MenuItem
+              key={conversation.id}
+              selected={conversation.id === conversationId}
+              onClick={() => resumeConversation(conversation.id)}
+            >
+              <ListItemText
+                primary={conversation.title}
+                secondary={`${new Date(conversation.updated_at).toLocaleString()} · ${conversation.message_count} messages`}
+                slotProps={{
+                  primary: { noWrap: true, sx: { color: '#E0E6ED' } },
+                  secondary: { sx: { color: '#A0AEC0' } }
+                }}
+              />
+              <IconButton
+                size="small"
+                aria-label="Delete conversation"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  deleteConversation(conversation.id);
+                }}
+                sx={{ color: '#A0AEC0', ml: 1 }}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </MenuItem>
+          ))}
+        </Menu>
       </Box>
 
       {/* Quick Questions */}
@@ -510,7 +696,7 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
       {/* Messages */}
       <Box sx={{ flexGrow: 1, overflow: 'auto', p: 1 }}>
         <List>
-          {messages.map((message) => (
+          {messages.filter(message => message.text).map((message) => (
             <ListItem
               key={message.id}
               sx={{
@@ -572,13 +758,19 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
                     ))}
                   </Box>
                 )}
+                {message.aiRecommendations && message.aiRecommendations.length > 0 && (
+                  <Box sx={{ mt: 1, pt: 1, borderTop: '1px solid rgba(0, 229, 255, 0.3)' }}>
+                    <RecommendationCards recommendations={message.aiRecommendations} />
+                  </Box>
+                )}
                 <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: '#A0AEC0', fontSize: '0.7rem' }}>
                   {message.timestamp.toLocaleTimeString()}
+                  {message.stopped && ' · stopped'}
                 </Typography>
               </Box>
             </ListItem>
           ))}
-          {isLoading && (
+          {isLoading && !messages.some(message => message.id === streamingId && message.text) && (
             <ListItem>
               <Avatar sx={{ bgcolor: '#00E5FF', width: 32, height: 32, mr: 1, boxShadow: '0 0 10px rgba(0, 229, 255, 0.4)' }}>
                 <AIIcon fontSize="small" />
@@ -648,26 +840,45 @@ export default function AIAssistant({ dashboardData }: AIAssistantProps) {
             }
           }}
         />
-        <IconButton 
-          onClick={handleSendMessage}
-          disabled={!inputText.trim() || isLoading}
-          sx={{ 
-            ml: 1,
-            color: '#00E5FF',
-            backgroundColor: 'rgba(0, 229, 255, 0.1)',
-            border: '1px solid rgba(0, 229, 255, 0.3)',
-            '&:hover': {
-              backgroundColor: 'rgba(0, 229, 255, 0.2)',
-              boxShadow: '0 0 10px rgba(0, 229, 255, 0.4)'
-            },
-            '&:disabled': {
-              color: '#666',
-              backgroundColor: 'rgba(255, 255, 255, 0.05)'
-            }
-          }}
-        >
-          <SendIcon />
-        </IconButton>
+        {streamingId ? (
+          <IconButton 
+            onClick={stopStreaming}
+            aria-label="Stop generating"
+            sx={{ 
+              ml: 1,
+              color: '#FF6B35',
+              backgroundColor: 'rgba(255, 107, 53, 0.1)',
+              border: '1px solid rgba(255, 107, 53, 0.3)',
+              '&:hover': {
+                backgroundColor: 'rgba(255, 107, 53, 0.2)',
+                boxShadow: '0 0 10px rgba(255, 107, 53, 0.4)'
+              }
+            }}
+          >
+            <StopIcon />
+          </IconButton>
+        ) : (
+          <IconButton 
+            onClick={handleSendMessage}
+            disabled={!inputText.trim() || isLoading}
+            sx={{ 
+              ml: 1,
+              color: '#00E5FF',
+              backgroundColor: 'rgba(0, 229, 255, 0.1)',
+              border: '1px solid rgba(0, 229, 255, 0.3)',
+              '&:hover': {
+                backgroundColor: 'rgba(0, 229, 255, 0.2)',
+                boxShadow: '0 0 10px rgba(0, 229, 255, 0.4)'
+              },
+              '&:disabled': {
+                color: '#666',
+                backgroundColor: 'rgba(255, 255, 255, 0.05)'
+              }
+            }}
+          >
+            <SendIcon />
+          </IconButton>
+        )}
       </Box>
     </Paper>
   );
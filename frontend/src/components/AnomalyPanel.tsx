@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+  AlertTitle,
+  Collapse,
+  LinearProgress
+} from '@mui/material';
+import { Psychology } from '@mui/icons-material';
+import { AnomalyDetection } from '../types/models';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api';
+
+const SEVERITY_COLORS: Record<AnomalyDetection['severity'], string> = {
+  low: '#FFC107',
+  medium: '#FF9800',
+  high: '#F44336'
+};
+
+const MAX_LISTED = 5;
+
+interface AnomalyPanelProps {
+  anomalies: AnomalyDetection[];
+}
+
+/**
+ * Anomalies found by the backend's multivariate detector, newest first, with
+ * the parameters behind each one and an AI explanation on request
+ */
+export default function AnomalyPanel({ anomalies }: AnomalyPanelProps) {
+  const [explanations, setExplanations] = useState<Record<string, string>>({});
+  const [explaining, setExplaining] = useState<string | null>(null);
+
+  const explain = async (anomaly: AnomalyDetection) => {
+    setExplaining(anomaly.id);
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.aiExplainAnomaly), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anomalyId: anomaly.id }),
+      });
+      const result = await response.json();
+      setExplanations(prev => ({ ...prev, [anomaly.id]: result.success ? result.data.response : result.error }));
+    } catch (error) {
+      console.error('Error explaining anomaly:', error);
+      setExplanations(prev => ({ ...prev, [anomaly.id]: 'Failed to explain anomaly' }));
+    } finally {
+      setExplaining(null);
+    }
+  };
+
+  const listed = anomalies.slice(0, MAX_LISTED);
+
+  return (
+    <Paper sx={{
+      p: 3,
+      mb: 4,
+      background: 'linear-gradient(135deg, #1A1F2E 0%, #242B3D 100%)',
+      border: '1px solid rgba(244, 67, 54, 0.2)'
+    }}>
+      <Typography variant="h6" sx={{ color: '#FF8A80', fontWeight: 600, mb: 2 }}>
+        🔍 Detected Process Anomalies
+      </Typography>
+
+      {listed.length === 0 ? (
+        <Typography variant="body2" sx={{ color: '#A0AEC0', py: 2, textAlign: 'center' }}>
+          No anomalies detected. Every process snapshot is scored against normal behavior learned from the plant history.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {listed.map(anomaly => (
+            <Alert
+              key={anomaly.id}
+              severity={anomaly.ended_at ? 'info' : anomaly.severity === 'high' ? 'error' : 'warning'}
+              sx={{
+                backgroundColor: `${SEVERITY_COLORS[anomaly.severity]}15`,
+                border: `1px solid ${SEVERITY_COLORS[anomaly.severity]}50`,
+                '& .MuiAlert-message': { width: '100%' }
+              }}
+              action={
+                <Button
+                  size="small"
+                  startIcon={<Psychology />}
+                  onClick={() => explain(anomaly)}
+                  disabled={explaining === anomaly.id}
+                  sx={{ color: '#00E5FF' }}
+                >
+                  {explaining === anomaly.id ? 'Explaining...' : 'Explain'}
+                </Button>
+              }
+            >
+              <AlertTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                {anomaly.affected_systems.join(', ')}
+                <Chip
+                  size="small"
+                  label={anomaly.severity.toUpperCase()}
+                  sx={{ backgroundColor: SEVERITY_COLORS[anomaly.severity], color: '#000', fontWeight: 600 }}
+                />
+                <Typography variant="caption" sx={{ color: '#A0AEC0' }}>
+                  {new Date(anomaly.timestamp).toLocaleTimeString()}
+                  {anomaly.ended_at ? ` - ${new Date(anomaly.ended_at).toLocaleTimeString()}` : ' - ongoing'}
+                </Typography>
+              </AlertTitle>
+              <Typography variant="body2" sx={{ color: '#E0E6ED', mb: 1 }}>
+                {anomaly.description}
+              </Typography>
+              {anomaly.contributions.map(contribution => (
+                <Box key={contribution.parameter} sx={{ mb: 0.5, maxWidth: 400 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="caption" sx={{ color: '#A0AEC0', textTransform: 'capitalize' }}>
+                      {contribution.parameter.replace(/_/g, ' ')}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: '#A0AEC0' }}>
+                      {(contribution.share * 100).toFixed(0)}%
+                    </Typography>
+                  </Box>
+                  <LinearProgress
+                    variant="determinate"
+                    value={contribution.share * 100}
+                    color={anomaly.severity === 'high' ? 'error' : 'warning'}
+                    sx={{ height: 4, borderRadius: 2 }}
+                  />
+                </Box>
+              ))}
+              {anomaly.recommended_actions.map(action => (
+                <Typography key={action} variant="body2" sx={{ color: '#00E5FF', mt: 0.5 }}>
+                  • {action}
+                </Typography>
+              ))}
+              <Collapse in={Boolean(explanations[anomaly.id])}>
+                <Typography variant="body2" sx={{ color: '#E0E6ED', mt: 1, whiteSpace: 'pre-wrap' }}>
+                  {explanations[anomaly.id]}
+                </Typography>
+              </Collapse>
+            </Alert>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+}
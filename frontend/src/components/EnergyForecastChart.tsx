@@ -0,0 +1,194 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  LinearProgress
+} from '@mui/material';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { EnergyPrediction } from '../types/models';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api';
+
+interface EnergyForecast {
+  model: { samples: number; r2: number; residual_std: number };
+  history: { timestamp: string; energy_consumption: number }[];
+  predictions: EnergyPrediction[];
+}
+
+interface ChartPoint {
+  time: number;
+  actual?: number;
+  forecast?: number;
+  band?: [number, number];
+}
+
+const HORIZONS = [6, 12, 24];
+const REFRESH_MS = 5 * 60 * 1000;
+
+const FACTOR_LABELS: Record<string, string> = {
+  kiln_temperature: 'Kiln temperature',
+  mill_power: 'Mill power',
+  alternative_fuel_rate: 'Alternative fuel rate'
+};
+
+/**
+ * Hourly specific-energy forecast with its 95% interval, following the recent
+ * hourly averages, and what drives the prediction at the end of the horizon
+ */
+export default function EnergyForecastChart() {
+  const [horizon, setHorizon] = useState(12);
+  const [forecast, setForecast] = useState<EnergyForecast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadForecast = useCallback(async () => {
+    try {
+      const response = await fetch(buildApiUrl(`${API_ENDPOINTS.energyPrediction}?horizon=${horizon}`));
+      const result = await response.json();
+      if (result.success) {
+        setForecast(result.data);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error loading energy forecast:', err);
+      setError('Failed to load energy forecast');
+    }
+  }, [horizon]);
+
+  useEffect(() => {
+    loadForecast();
+    const interval = setInterval(loadForecast, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadForecast]);
+
+  const chartData: ChartPoint[] = forecast ? [
+    ...forecast.history.map(point => ({ time: Date.parse(point.timestamp), actual: point.energy_consumption })),
+    ...forecast.predictions.map(prediction => ({
+      time: new Date(prediction.timestamp).getTime(),
+      forecast: prediction.predicted_consumption,
+      band: [prediction.confidence_interval.lower, prediction.confidence_interval.upper] as [number, number]
+    }))
+  ] : [];
+  const last = forecast?.predictions[forecast.predictions.length - 1];
+
+  return (
+    <Paper sx={{
+      p: 3,
+      mb: 4,
+      background: 'linear-gradient(135deg, #1A1F2E 0%, #242B3D 100%)',
+      border: '1px solid rgba(255, 183, 77, 0.2)'
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Typography variant="h6" sx={{ color: '#FFB74D', fontWeight: 600 }}>
+          ⚡ Energy Consumption Forecast
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {HORIZONS.map(hours => (
+            <Chip
+              key={hours}
+              label={`${hours}h`}
+              size="small"
+              onClick={() => setHorizon(hours)}
+              variant={horizon === hours ? 'filled' : 'outlined'}
+              sx={{
+                backgroundColor: horizon === hours ? '#FFB74D' : 'transparent',
+                color: horizon === hours ? '#000' : '#FFB74D',
+                borderColor: '#FFB74D'
+              }}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      {error || !forecast ? (
+        <Typography variant="body2" sx={{ color: '#A0AEC0', py: 4, textAlign: 'center' }}>
+          {error || 'Loading forecast...'}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+          <Box sx={{ flex: '3 1 400px', height: 300 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  stroke="#A0AEC0"
+                  tickFormatter={(value) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                />
+                <YAxis stroke="#A0AEC0" domain={['auto', 'auto']} unit=" kWh/t" width={90} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#1A1F2E',
+                    border: '1px solid rgba(255, 183, 77, 0.3)',
+                    borderRadius: '8px'
+                  }}
+                  labelFormatter={(value) => new Date(value).toLocaleString()}
+                  formatter={(value) => Array.isArray(value)
+                    ? `${Number(value[0]).toFixed(1)} - ${Number(value[1]).toFixed(1)}`
+                    : Number(value).toFixed(1)}
+                />
+                <Legend />
+                <Area dataKey="band" name="95% interval" stroke="none" fill="rgba(255, 183, 77, 0.2)" />
+                <Line dataKey="actual" name="Hourly average" stroke="#40C4FF" strokeWidth={2} dot={false} />
+                <Line dataKey="forecast" name="Forecast" stroke="#FFB74D" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </Box>
+
+          {last && (
+            <Box sx={{ flex: '1 1 220px' }}>
+              <Typography variant="body2" sx={{ color: '#A0AEC0' }}>
+                In {last.prediction_horizon} hours
+              </Typography>
+              <Typography variant="h4" sx={{ color: '#FFB74D', fontWeight: 700 }}>
+                {last.predicted_consumption.toFixed(1)} <Typography component="span" variant="body1">kWh/t</Typography>
+              </Typography>
+              <Typography variant="body2" sx={{ color: '#A0AEC0', mb: 2 }}>
+                95%: {last.confidence_interval.lower.toFixed(1)} - {last.confidence_interval.upper.toFixed(1)} kWh/t
+              </Typography>
+
+              <Typography variant="body2" sx={{ color: '#E0E6ED', fontWeight: 600, mb: 1 }}>
+                Drivers vs. historical average
+              </Typography>
+              {last.factors.map(({ factor, impact }) => (
+                <Box key={factor} sx={{ mb: 1 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="caption" sx={{ color: '#A0AEC0' }}>{FACTOR_LABELS[factor] || factor}</Typography>
+                    <Typography variant="caption" sx={{ color: impact > 0 ? '#FF8A65' : '#81C784' }}>
+                      {impact > 0 ? '+' : ''}{(impact * 100).toFixed(0)}%
+                    </Typography>
+                  </Box>
+                  <LinearProgress
+                    variant="determinate"
+                    value={Math.abs(impact) * 100}
+                    color={impact > 0 ? 'warning' : 'success'}
+                    sx={{ height: 6, borderRadius: 3 }}
+                  />
+                </Box>
+              ))}
+              <Typography variant="caption" sx={{ color: '#A0AEC0' }}>
+                Fitted on {forecast.model.samples} hours (R² {forecast.model.r2.toFixed(2)})
+              </Typography>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,324 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  TextField,
+  Breadcrumbs,
+  Link
+} from '@mui/material';
+import { AutoFixHigh, Folder, Refresh, Save } from '@mui/icons-material';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api';
+
+type MappingGroup = 'process' | 'quality' | 'environmental';
+
+const MAPPING_GROUPS: MappingGroup[] = ['process', 'quality', 'environmental'];
+
+interface MappableField {
+  label: string;
+  unit: string;
+}
+
+interface OpcUaTag {
+  node_id: string;
+  sensor_id?: string;
+  field?: string;
+  unit?: string;
+}
+
+interface BrowseNode {
+  node_id: string;
+  browse_name: string;
+  display_name: string;
+  node_class: string;
+  data_type: string | null;
+  value: number | string | boolean | null;
+  description: string | null;
+  has_children: boolean;
+  suggested: { sensor_id?: string; field?: string } | null;
+}
+
+interface TagState {
+  node_id: string;
+  sensor_id: string | null;
+  field: string | null;
+  value: number | null;
+  unit: string;
+  status: string;
+  stale: boolean;
+}
+
+const ROOT = { node_id: 'ObjectsFolder', name: 'Objects' };
+
+/**
+ * Browse the connected OPC UA server and map its nodes to sensor ids and model fields
+ */
+export default function OpcUaTagPicker() {
+  const [path, setPath] = useState([ROOT]);
+  const [children, setChildren] = useState<BrowseNode[]>([]);
+  const [mapping, setMapping] = useState<Record<string, OpcUaTag>>({});
+  const [fields, setFields] = useState<Record<MappingGroup, Record<string, MappableField>> | null>(null);
+  const [tagStates, setTagStates] = useState<TagState[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const loadMapping = async () => {
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.opcuaMapping));
+      const result = await response.json();
+      if (result.success) {
+        setFields(result.data.fields);
+        setMapping(Object.fromEntries(result.data.tags.map((tag: OpcUaTag) => [tag.node_id, tag])));
+      }
+    } catch (err) {
+      console.error('Failed to load OPC UA mapping:', err);
+    }
+  };
+
+  const loadTagStates = async () => {
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.opcuaTags));
+      const result = await response.json();
+      if (result.success) {
+        setTagStates(result.data);
+      }
+    } catch (err) {
+      console.error('Failed to load OPC UA tags:', err);
+    }
+  };
+
+  const browse = useCallback(async (nodeId: string) => {
+    try {
+      const response = await fetch(buildApiUrl(`${API_ENDPOINTS.opcuaBrowse}?node_id=${encodeURIComponent(nodeId)}`));
+      const result = await response.json();
+      if (result.success) {
+        setChildren(result.data.children);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Failed to browse OPC UA server:', err);
+      setError('Failed to browse OPC UA server');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMapping();
+    loadTagStates();
+    const interval = setInterval(loadTagStates, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    browse(path[path.length - 1].node_id);
+  }, [path, browse]);
+
+  const updateTag = (nodeId: string, updates: Partial<OpcUaTag>) => {
+    setSaved(false);
+    setMapping(prev => {
+      const tag = { ...prev[nodeId], node_id: nodeId, ...updates };
+      const next = { ...prev };
+      if (tag.sensor_id || tag.field) {
+        next[nodeId] = tag;
+      } else {
+        delete next[nodeId];
+      }
+      return next;
+    });
+  };
+
+  const mapSuggested = () => {
+    children
+      .filter(node => node.suggested && !mapping[node.node_id])
+      .forEach(node => updateTag(node.node_id, node.suggested!));
+  };
+
+  const saveMapping = async () => {
+    try {
+      const tags = Object.values(mapping).map(tag => ({
+        node_id: tag.node_id,
+        ...(tag.sensor_id ? { sensor_id: tag.sensor_id } : {}),
+        ...(tag.field ? { field: tag.field } : {}),
+        ...(tag.unit ? { unit: tag.unit } : {})
+      }));
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.opcuaMapping), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags })
+      });
+      const result = await response.json();
+      if (result.success) {
+        setError(null);
+        setSaved(true);
+        loadTagStates();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Failed to save OPC UA mapping:', err);
+      setError('Failed to save OPC UA mapping');
+    }
+  };
+
+  return (
+    <Box mb={2}>
+      <Typography variant="subtitle1" sx={{ color: '#E0E6ED', mb: 1 }}>
+        OPC UA tag picker
+      </Typography>
+
+      <Box display="flex" gap={2} alignItems="center" flexWrap="wrap" mb={2}>
+        <Breadcrumbs sx={{ color: '#A0AEC0', flexGrow: 1 }}>
+          {path.map((entry, index) => (
+            <Link
+              key={entry.node_id}
+              component="button"
+              underline="hover"
+              color={index === path.length - 1 ? '#E0E6ED' : 'inherit'}
+              onClick={() => setPath(path.slice(0, index + 1))}
+            >
+              {entry.name}
+            </Link>
+          ))}
+        </Breadcrumbs>
+        <Button size="small" variant="outlined" startIcon={<Refresh />} onClick={() => browse(path[path.length - 1].node_id)}>
+          Refresh
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<AutoFixHigh />} onClick={mapSuggested}>
+          Map Suggested
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={<Save />}
+          onClick={saveMapping}
+          sx={{ backgroundColor: '#00E5FF', color: '#000' }}
+        >
+          Save Mapping ({Object.keys(mapping).length})
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {saved && <Alert severity="success" sx={{ mb: 2 }}>Mapping saved; mapped nodes are now monitored</Alert>}
+
+      <TableContainer sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Node</TableCell>
+              <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Value</TableCell>
+              <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Sensor ID</TableCell>
+              <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Model Field</TableCell>
+              <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Source Unit</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {children.map(node => {
+              const tag = mapping[node.node_id];
+              return (
+                <TableRow key={node.node_id}>
+                  <TableCell>
+                    {node.has_children ? (
+                      <Link
+                        component="button"
+                        underline="hover"
+                        onClick={() => setPath([...path, { node_id: node.node_id, name: node.display_name }])}
+                        sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+                      >
+                        <Folder fontSize="small" /> {node.display_name}
+                      </Link>
+                    ) : (
+                      <Typography variant="body2" sx={{ color: '#E0E6ED' }}>{node.display_name}</Typography>
+                    )}
+                    <Typography variant="caption" sx={{ color: '#A0AEC0' }}>
+                      {node.node_id}{node.description ? ` · ${node.description}` : ''}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ color: '#E0E6ED', fontFamily: 'monospace' }}>
+                    {typeof node.value === 'number' ? node.value.toFixed(2) : node.value ?? '-'}
+                    {node.data_type && (
+                      <Typography variant="caption" display="block" sx={{ color: '#A0AEC0' }}>{node.data_type}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {node.node_class === 'Variable' && (
+                      <TextField
+                        size="small"
+                        value={tag?.sensor_id || ''}
+                        placeholder={node.suggested?.sensor_id}
+                        onChange={(e) => updateTag(node.node_id, { sensor_id: e.target.value || undefined })}
+                        sx={{ width: 180 }}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {node.node_class === 'Variable' && fields && (
+                      <TextField
+                        select
+                        size="small"
+                        value={tag?.field || ''}
+                        onChange={(e) => updateTag(node.node_id, { field: e.target.value || undefined })}
+                        SelectProps={{ native: true }}
+                        sx={{ width: 220 }}
+                      >
+                        <option value="">{node.suggested?.field ? `Not mapped (suggested ${node.suggested.field})` : 'Not mapped'}</option>
+                        {MAPPING_GROUPS.map(group => (
+                          <optgroup key={group} label={group}>
+                            {Object.entries(fields[group]).map(([name, field]) => (
+                              <option key={name} value={`${group}.${name}`}>{field.label} ({field.unit})</option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </TextField>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {node.node_class === 'Variable' && (
+                      <TextField
+                        size="small"
+                        value={tag?.unit || ''}
+                        disabled={!tag}
+                        onChange={(e) => updateTag(node.node_id, { unit: e.target.value || undefined })}
+                        sx={{ width: 100 }}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {tagStates.length > 0 && (
+        <>
+          <Typography variant="subtitle1" sx={{ color: '#E0E6ED', mb: 1 }}>
+            Monitored Nodes
+          </Typography>
+          <Box display="flex" gap={1} flexWrap="wrap">
+            {tagStates.map(state => (
+              <Chip
+                key={state.node_id}
+                size="small"
+                label={`${state.sensor_id || state.field}: ${state.value !== null ? `${state.value.toFixed(2)} ${state.unit}` : state.status}`}
+                color={state.status !== 'Good' && state.status !== 'Pending' ? 'error' : state.stale ? 'warning' : 'success'}
+                variant="outlined"
+                title={`${state.node_id} (${state.status})`}
+              />
+            ))}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
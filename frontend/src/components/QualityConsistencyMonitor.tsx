@@ -35,8 +35,9 @@ import {
   PlayArrow,
   Stop
 } from '@mui/icons-material';
-import { DashboardData, ProcessParameters } from '../types/models';
-import { buildApiUrl } from '../config/api';
+import { Alert as PlantAlert, DashboardData, ProcessParameters, QualityPrediction, ThresholdLimit, ThresholdParameter } from '../types/models';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api';
+import SoftSensorPanel from './SoftSensorPanel';
 
 interface QualityFluctuation {
   parameter: string;
@@ -49,22 +50,24 @@ interface QualityFluctuation {
   correction_action: string;
 }
 
-interface InputMonitoringData {
+type InputMonitoringData = Omit<ProcessParameters, 'timestamp'> & {
   timestamp: string;
-  kiln_temperature: number;
-  raw_mill_power: number;
-  cement_mill_power: number;
-  raw_mill_flow: number;
-  alternative_fuel_rate: number;
-  clinker_temperature: number;
   quality_score: number;
-}
+};
+
+// Forecast risk of a parameter in points of quality score, where a percentage
+// point of defect probability counts as one point (as on the server)
+const forecastRisk = (factor: QualityPrediction['factors'][number]) =>
+  -factor.score_impact + 100 * factor.defect_impact;
+const FORECAST_RISK_CRITICAL = 5;
+const FORECAST_RISK_HIGH = 2;
 
 interface QualityConsistencyMonitorProps {
   dashboardData?: DashboardData;
+  thresholdsRevision?: number; // changes when the server's threshold rules change
 }
 
-export default function QualityConsistencyMonitor({ dashboardData }: QualityConsistencyMonitorProps) {
+export default function QualityConsistencyMonitor({ dashboardData, thresholdsRevision }: QualityConsistencyMonitorProps) {
   const [isMonitoring, setIsMonitoring] = useState(true);
   const [fluctuations, setFluctuations] = useState<QualityFluctuation[]>([]);
   const [historicalData, setHistoricalData] = useState<InputMonitoringData[]>([]);
@@ -72,19 +75,47 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
   const [selectedParameter, setSelectedParameter] = useState<string>('kiln_temperature');
   const [isExpanded, setIsExpanded] = useState(true);
   const [alertsCount, setAlertsCount] = useState({ critical: 0, high: 0, medium: 0 });
+  // Parameter limits come from the server-side threshold rules for the active product grade
+  const [limits, setLimits] = useState<ThresholdLimit[]>([]);
+  const [grade, setGrade] = useState<string>('default');
+  const [grades, setGrades] = useState<string[]>([]);
+
+  const loadLimits = useCallback(async () => {
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.thresholdLimits));
+      const result = await response.json();
+      if (result.success) {
+        setLimits(result.data);
+        setGrade(result.grade);
+        setGrades(result.grades);
+      }
+    } catch (error) {
+      console.error('Error loading threshold limits:', error);
+    }
+  }, []);
 
-  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'https://nexus2-0.onrender.com';
+  useEffect(() => {
+    loadLimits();
+  }, [loadLimits, thresholdsRevision]);
 
-  // Quality thresholds for input parameters
-  const qualityThresholds = {
-    kiln_temperature: { min: 1450, max: 1500, optimal: 1475 },
-    raw_mill_power: { min: 2800, max: 3000, optimal: 2900 },
-    cement_mill_power: { min: 3100, max: 3300, optimal: 3200 },
-    raw_mill_flow: { min: 2800, max: 3100, optimal: 2950 },
-    alternative_fuel_rate: { min: 20, max: 35, optimal: 28 },
-    clinker_temperature: { min: 1100, max: 1200, optimal: 1150 }
+  const changeGrade = async (newGrade: string) => {
+    try {
+      await fetch(buildApiUrl(API_ENDPOINTS.thresholdGrade), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ grade: newGrade }),
+      });
+      await loadLimits();
+    } catch (error) {
+      console.error('Error changing product grade:', error);
+    }
   };
 
+  const selectedLimit = limits.find(limit => limit.parameter === selectedParameter);
+  const prediction = dashboardData?.quality_prediction;
+
   // Monitor input fluctuations in real-time
   useEffect(() => {
     if (!dashboardData || !isMonitoring) return;
@@ -94,61 +125,71 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
 
     // Add to historical data
     const newDataPoint: InputMonitoringData = {
+      ...currentParams,
       timestamp,
-      kiln_temperature: currentParams.kiln_temperature,
-      raw_mill_power: currentParams.raw_mill_power,
-      cement_mill_power: currentParams.cement_mill_power,
-      raw_mill_flow: currentParams.raw_mill_flow,
-      alternative_fuel_rate: currentParams.alternative_fuel_rate,
-      clinker_temperature: currentParams.clinker_temperature,
       quality_score: dashboardData.plant_overview.quality_score_avg
     };
 
     setHistoricalData(prev => [...prev.slice(-49), newDataPoint]);
 
     // Analyze fluctuations
-    analyzeInputFluctuations(currentParams);
+    analyzeInputFluctuations(currentParams, dashboardData.active_alerts, dashboardData.quality_prediction);
   }, [dashboardData, isMonitoring]); // Remove problematic dependency
 
-  const analyzeInputFluctuations = useCallback((params: ProcessParameters) => {
+  // A parameter breaking its limits takes its severity from the server's threshold
+  // rule, so the rule's delay and hysteresis decide when it starts and stops.
+  // Otherwise, with a quality forecast, corrections target the parameters predicted
+  // to hurt the next sample; without one the deviation from optimal is only advisory.
+  const analyzeInputFluctuations = useCallback((params: ProcessParameters, activeAlerts: PlantAlert[], prediction?: QualityPrediction) => {
     const newFluctuations: QualityFluctuation[] = [];
     const alerts = { critical: 0, high: 0, medium: 0 };
+    const parameters = new Set<ThresholdParameter>([
+      ...limits.map(limit => limit.parameter),
+      ...(prediction?.factors.map(factor => factor.parameter) || [])
+    ]);
 
-    Object.entries(qualityThresholds).forEach(([param, thresholds]) => {
-      const currentValue = params[param as keyof ProcessParameters] as number;
-      const deviation = Math.abs(currentValue - thresholds.optimal) / thresholds.optimal * 100;
+    parameters.forEach(param => {
+      const thresholds = limits.find(limit => limit.parameter === param);
+      const factorIndex = prediction ? prediction.factors.findIndex(factor => factor.parameter === param) : -1;
+      const factor = factorIndex >= 0 ? prediction!.factors[factorIndex] : undefined;
+      const violation = activeAlerts.find(alert => alert.rule_id === `threshold_${param}` && !alert.cleared_at);
+      const currentValue = params[param];
+      const targetValue = factor?.target_value ?? thresholds?.optimal ?? currentValue;
+      const deviation = targetValue !== 0 ? Math.abs(currentValue - targetValue) / Math.abs(targetValue) * 100 : 0;
       
       let severity: QualityFluctuation['severity'] = 'low';
       let recommendation = '';
       let correctionAction = '';
 
-      if (currentValue < thresholds.min || currentValue > thresholds.max) {
-        severity = 'critical';
-        alerts.critical++;
-        if (currentValue < thresholds.min) {
-          recommendation = `${param.replace('_', ' ')} is critically low. Immediate adjustment required.`;
-          correctionAction = `Increase ${param.replace('_', ' ')} to ${thresholds.optimal}`;
-        } else {
-          recommendation = `${param.replace('_', ' ')} is critically high. Immediate reduction required.`;
-          correctionAction = `Decrease ${param.replace('_', ' ')} to ${thresholds.optimal}`;
+      if (violation) {
+        severity = violation.severity;
+        recommendation = `${violation.message}. Immediate adjustment required.`;
+        correctionAction = `${currentValue < targetValue ? 'Increase' : 'Decrease'} ${param.replace('_', ' ')} to ${targetValue}`;
+      } else if (prediction) {
+        if (factor) {
+          const risk = forecastRisk(factor);
+          severity = risk >= FORECAST_RISK_CRITICAL ? 'critical' : risk >= FORECAST_RISK_HIGH ? 'high' : 'medium';
+          recommendation = `${prediction.risk_factors[factorIndex]}.`;
+          correctionAction = prediction.recommendations[factorIndex];
         }
       } else if (deviation > 3) {
-        severity = 'high';
-        alerts.high++;
+        severity = 'medium';
         recommendation = `${param.replace('_', ' ')} deviation is ${deviation.toFixed(1)}%. Adjustment recommended.`;
-        correctionAction = `Adjust ${param.replace('_', ' ')} towards optimal ${thresholds.optimal}`;
+        correctionAction = `Adjust ${param.replace('_', ' ')} towards optimal ${targetValue}`;
       } else if (deviation > 1.5) {
-        severity = 'medium';
-        alerts.medium++;
         recommendation = `${param.replace('_', ' ')} showing minor fluctuation. Monitor closely.`;
         correctionAction = `Fine-tune ${param.replace('_', ' ')} settings`;
       }
 
       if (severity !== 'low') {
+        alerts[severity]++;
+      }
+
+      if (recommendation) {
         newFluctuations.push({
           parameter: param,
           current_value: currentValue,
-          target_value: thresholds.optimal,
+          target_value: targetValue,
           deviation_percent: deviation,
           severity,
           trend: calculateTrend(param, currentValue),
@@ -160,7 +201,7 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
 
     setFluctuations(newFluctuations);
     setAlertsCount(alerts);
-  }, []); // Add dependency array
+  }, [limits]);
 
   const calculateTrend = (param: string, _currentValue: number): QualityFluctuation['trend'] => {
     if (historicalData.length < 3) return 'stable';
@@ -234,11 +275,32 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
             Quality Consistency Monitor
           </Typography>
           <Typography variant="h6" color="text.secondary">
-            Real-time input fluctuation detection with proactive quality corrections
+            Forecast-driven quality corrections from real-time process inputs
           </Typography>
         </Box>
         
         <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          {grades.length > 1 && (
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Typography variant="body2" sx={{ color: '#A0AEC0' }}>
+                Grade
+              </Typography>
+              {grades.map(option => (
+                <Chip
+                  key={option}
+                  label={option}
+                  size="small"
+                  onClick={() => changeGrade(option)}
+                  variant={grade === option ? 'filled' : 'outlined'}
+                  sx={{
+                    backgroundColor: grade === option ? '#FF6B35' : 'transparent',
+                    color: grade === option ? '#000' : '#FF6B35',
+                    borderColor: '#FF6B35'
+                  }}
+                />
+              ))}
+            </Box>
+          )}
           <Button
             variant={isMonitoring ? "contained" : "outlined"}
             startIcon={isMonitoring ? <Stop /> : <PlayArrow />}
@@ -332,6 +394,34 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
           </CardContent>
         </Card>
         
+        <Card sx={{ 
+          background: 'linear-gradient(135deg, #1A1F2E, #242B3D)',
+          border: `1px solid ${prediction && prediction.defect_probability >= 0.2 ? '#F44336' : 'rgba(206, 147, 216, 0.3)'}`
+        }}>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Next Sample Forecast
+            </Typography>
+            {prediction ? (
+              <>
+                <Typography variant="h3" sx={{ 
+                  color: '#CE93D8',
+                  fontWeight: 700
+                }}>
+                  {prediction.predicted_quality_score.toFixed(1)}
+                </Typography>
+                <Typography variant="body2" sx={{ color: prediction.defect_probability >= 0.2 ? '#F44336' : '#A0AEC0' }}>
+                  {(prediction.defect_probability * 100).toFixed(1)}% defect probability at {new Date(prediction.timestamp).toLocaleTimeString()}
+                </Typography>
+              </>
+            ) : (
+              <Typography variant="body2" sx={{ color: '#A0AEC0', mt: 2 }}>
+                Quality model not trained yet; corrections follow the deviation from optimal
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+        
         <Card sx={{ 
           background: 'linear-gradient(135deg, #1A1F2E, #242B3D)',
           border: '1px solid rgba(0, 229, 255, 0.3)'
@@ -427,6 +517,9 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
         </Collapse>
       </Paper>
 
+      {/* Soft-sensor estimates of lab-only quality variables */}
+      <SoftSensorPanel dashboardData={dashboardData} />
+
       {/* Historical Trend Chart */}
       <Paper sx={{ 
         p: 3,
@@ -470,22 +563,22 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
                   fill="rgba(255, 107, 53, 0.1)"
                   strokeWidth={2}
                 />
-                {qualityThresholds[selectedParameter as keyof typeof qualityThresholds] && (
+                {selectedLimit && (
                   <>
                     <ReferenceLine 
-                      y={qualityThresholds[selectedParameter as keyof typeof qualityThresholds].optimal} 
+                      y={selectedLimit.optimal} 
                       stroke="#4CAF50" 
                       strokeDasharray="5 5"
                       label="Optimal"
                     />
                     <ReferenceLine 
-                      y={qualityThresholds[selectedParameter as keyof typeof qualityThresholds].min} 
+                      y={selectedLimit.min} 
                       stroke="#F44336" 
                       strokeDasharray="5 5"
                       label="Min"
                     />
                     <ReferenceLine 
-                      y={qualityThresholds[selectedParameter as keyof typeof qualityThresholds].max} 
+                      y={selectedLimit.max} 
                       stroke="#F44336" 
                       strokeDasharray="5 5"
                       label="Max"
@@ -505,10 +598,10 @@ export default function QualityConsistencyMonitor({ dashboardData }: QualityCons
 
         {/* Parameter Selection */}
         <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
-          {Object.keys(qualityThresholds).map((param) => (
+          {limits.map(({ parameter: param, label }) => (
             <Chip
               key={param}
-              label={param.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+              label={label}
               onClick={() => setSelectedParameter(param)}
               variant={selectedParameter === param ? 'filled' : 'outlined'}
               sx={{
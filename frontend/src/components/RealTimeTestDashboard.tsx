@@ -19,7 +19,9 @@ import {
   AlertTitle,
   Switch,
   FormControlLabel,
-  TextField
+  TextField,
+  IconButton,
+  Slider
 } from '@mui/material';
 import { 
   LineChart, 
@@ -34,11 +36,18 @@ import {
   Refresh,
   DataUsage,
   Speed,
-  NetworkCheck
+  NetworkCheck,
+  UploadFile,
+  Delete,
+  PlayArrow,
+  Pause,
+  SkipNext,
+  SkipPrevious
 } from '@mui/icons-material';
 import io from 'socket.io-client';
-import { DashboardData, SensorReading } from '../types/models';
+import { DashboardData, DataQualityCode, SensorReading, ValueProvenance } from '../types/models';
 import { buildApiUrl, buildWsUrl } from '../config/api';
+import OpcUaTagPicker from './OpcUaTagPicker';
 
 const socket = io(buildWsUrl(), {
   transports: ['polling', 'websocket'],
@@ -56,13 +65,137 @@ interface DataPoint {
   sensor_id: string;
 }
 
+type MissingFieldPolicy = 'simulate' | 'hold';
+
+interface DataSourceInfo {
+  id: string;
+  name: string;
+  kind: string;
+  record_count: number;
+  active: boolean;
+}
+
+// Replay transport state from /api/real-data/replay; times are record time
+interface ReplayState {
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  position: number;
+  record_count: number;
+  timed: boolean;
+  replay_time: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  ended: boolean;
+}
+
 interface RealDataStatus {
   dataSource: string;
   recordCount: number;
   currentIndex: number;
   realDataEnabled: boolean;
+  missingFields: MissingFieldPolicy;
+  source: DataSourceInfo;
+  replay: ReplayState;
+}
+
+type MappingGroup = 'process' | 'quality' | 'environmental';
+
+// Column-to-field mapping accepted by /api/real-data/load
+interface DataMapping {
+  sensorMappings: Record<string, string>;
+  processMappings: Record<string, string>;
+  qualityMappings: Record<string, string>;
+  environmentalMappings: Record<string, string>;
+  timestampColumn?: string;
+  units?: Record<string, string>;
+}
+
+interface MappableField {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+}
+
+interface CsvPreview {
+  headers: string[];
+  rows: Record<string, string>[];
+  row_count: number;
+  suggested_mapping: DataMapping;
+  fields: Record<MappingGroup, Record<string, MappableField>>;
+}
+
+interface CsvLoadReport {
+  recordCount?: number;
+  error?: string;
+  data?: {
+    row_count: number;
+    rejected_rows: number;
+    issues: { row: number; column: string; value: string; message: string }[];
+  };
+}
+
+// One column → field pair in the mapping editor; target is `group.field`
+interface ColumnTarget {
+  column: string;
+  target: string;
 }
 
+const MAPPING_GROUPS: MappingGroup[] = ['process', 'quality', 'environmental'];
+const GROUP_MAPPING_KEYS: Record<MappingGroup, 'processMappings' | 'qualityMappings' | 'environmentalMappings'> = {
+  process: 'processMappings',
+  quality: 'qualityMappings',
+  environmental: 'environmentalMappings'
+};
+
+// Unit written in a header such as `Kiln Temp. (°C)`
+const headerUnit = (header: string) => header.match(/[([]([^()[\]]+)[)\]]\s*$/)?.[1].trim() || '';
+
+const REPLAY_SPEEDS = [1, 10, 60, 300, 3600];
+
+// `datetime-local` input value for a timestamp, in local time
+const toLocalInput = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 19);
+};
+
+const PROVENANCE_COLORS: Record<ValueProvenance, 'success' | 'warning' | 'default' | 'info'> = {
+  measured: 'success',
+  held: 'warning',
+  simulated: 'default',
+  derived: 'info'
+};
+
+const QUALITY_COLORS: Record<DataQualityCode, 'success' | 'warning' | 'error'> = {
+  good: 'success',
+  uncertain: 'warning',
+  bad: 'error'
+};
+
+// Value behind a provenance key such as `quality.chemical_composition.free_lime`
+const provenanceValue = (data: DashboardData, key: string): string => {
+  const [group, ...path] = key.split('.');
+  const roots: Record<string, unknown> = {
+    process: data.current_parameters,
+    quality: data.recent_quality[0],
+    environmental: data.environmental_data,
+    plant_overview: data.plant_overview
+  };
+  if (group === 'sensors') {
+    const reading = data.recent_sensors.find(sensor => sensor.sensor_id === path.join('.'));
+    return reading ? `${reading.value.toFixed(2)} ${reading.unit}` : '-';
+  }
+  if (group === 'equipment_status') {
+    return `${data.equipment_status.length} units`;
+  }
+  const value = path.reduce<unknown>((obj, part) => (obj as Record<string, unknown> | undefined)?.[part], roots[group]);
+  if (typeof value === 'boolean') {
+    return value ? 'yes' : 'no';
+  }
+  return typeof value === 'number' ? value.toFixed(2) : '-';
+};
+
 export default function RealTimeTestDashboard() {
   const [isConnected, setIsConnected] = useState(false);
   const [liveData, setLiveData] = useState<DashboardData | null>(null);
@@ -75,6 +208,15 @@ export default function RealTimeTestDashboard() {
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [realDataEnabled, setRealDataEnabled] = useState(false);
   const [realDataStatus, setRealDataStatus] = useState<RealDataStatus | null>(null);
+  const [dataSources, setDataSources] = useState<DataSourceInfo[]>([]);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [seekTime, setSeekTime] = useState('');
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [columnTargets, setColumnTargets] = useState<ColumnTarget[]>([]);
+  const [columnUnits, setColumnUnits] = useState<Record<string, string>>({});
+  const [timestampColumn, setTimestampColumn] = useState('');
+  const [csvReport, setCsvReport] = useState<CsvLoadReport | null>(null);
 
   // Calculate data rate
   const [dataRate, setDataRate] = useState(0);
@@ -196,6 +338,78 @@ export default function RealTimeTestDashboard() {
     }
   };
 
+  // Upload a historian CSV export and start from the server's suggested mapping
+  const previewCsv = async (file: File) => {
+    try {
+      const text = await file.text();
+      const response = await fetch(buildApiUrl('/api/real-data/preview'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: text })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setCsvReport({ error: result.error });
+        return;
+      }
+
+      const preview: CsvPreview = result.data;
+      const targets: ColumnTarget[] = [];
+      MAPPING_GROUPS.forEach(group => {
+        Object.entries(preview.suggested_mapping[GROUP_MAPPING_KEYS[group]]).forEach(([field, column]) => {
+          targets.push({ column, target: `${group}.${field}` });
+        });
+      });
+      setCsvText(text);
+      setCsvPreview(preview);
+      setColumnTargets(targets);
+      setColumnUnits(Object.fromEntries(preview.headers.map(header => [header, headerUnit(header)])));
+      setTimestampColumn(preview.suggested_mapping.timestampColumn || '');
+      setCsvReport(null);
+    } catch (error) {
+      console.error('❌ Error previewing CSV:', error);
+    }
+  };
+
+  const loadMappedCsv = async () => {
+    if (!csvText || !csvPreview) return;
+
+    const mapping: DataMapping = {
+      sensorMappings: {},
+      processMappings: {},
+      qualityMappings: {},
+      environmentalMappings: {},
+      timestampColumn: timestampColumn || undefined,
+      units: {}
+    };
+    columnTargets.forEach(({ column, target }) => {
+      const [group, ...field] = target.split('.');
+      mapping[GROUP_MAPPING_KEYS[group as MappingGroup]][field.join('.')] = column;
+      if (columnUnits[column]) {
+        mapping.units![column] = columnUnits[column];
+      }
+    });
+
+    try {
+      const response = await fetch(buildApiUrl('/api/real-data/load'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dataType: 'csv', csv: csvText, mapping })
+      });
+      const result = await response.json();
+      setCsvReport(result);
+      if (result.success) {
+        await checkRealDataStatus();
+      }
+    } catch (error) {
+      console.error('❌ Error loading mapped CSV:', error);
+    }
+  };
+
+  const updateColumnTarget = (index: number, update: Partial<ColumnTarget>) => {
+    setColumnTargets(prev => prev.map((target, i) => (i === index ? { ...target, ...update } : target)));
+  };
+
   const toggleRealData = async () => {
     try {
       const response = await fetch(buildApiUrl('/api/real-data/toggle'), {
@@ -205,6 +419,7 @@ export default function RealTimeTestDashboard() {
       if (result.success) {
         setRealDataEnabled(result.realDataEnabled);
         console.log('Data mode toggled:', result.message);
+        await checkRealDataStatus();
       }
     } catch (error) {
       console.error('Error toggling data mode:', error);
@@ -226,6 +441,12 @@ export default function RealTimeTestDashboard() {
       if (result.success) {
         setRealDataStatus(result.data);
         setRealDataEnabled(result.data.realDataEnabled);
+        setReplay(result.data.replay);
+        const sourcesResponse = await fetch(buildApiUrl('/api/real-data/sources'));
+        const sources = await sourcesResponse.json();
+        if (sources.success) {
+          setDataSources(sources.data.sources);
+        }
       } else {
         console.warn('⚠️ Real data status check returned success=false:', result);
       }
@@ -240,6 +461,64 @@ export default function RealTimeTestDashboard() {
     }
   };
 
+  const updateDataSource = async (update: { source?: string; missing_fields?: MissingFieldPolicy }) => {
+    try {
+      const response = await fetch(buildApiUrl('/api/real-data/source'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const result = await response.json();
+      if (result.success) {
+        await checkRealDataStatus();
+      }
+    } catch (error) {
+      console.error('❌ Error selecting data source:', error);
+    }
+  };
+
+  const controlReplay = async (action: 'play' | 'pause' | 'step' | 'seek', body: Record<string, unknown> = {}) => {
+    try {
+      const response = await fetch(buildApiUrl(`/api/real-data/replay/${action}`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (result.success) {
+        setReplay(result.data);
+      } else {
+        console.warn('⚠️ Replay control failed:', result.error);
+      }
+    } catch (error) {
+      console.error('❌ Error controlling replay:', error);
+    }
+  };
+
+  const updateReplaySettings = async (update: { speed?: number; loop?: boolean }) => {
+    try {
+      const response = await fetch(buildApiUrl('/api/real-data/replay'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const result = await response.json();
+      if (result.success) {
+        setReplay(result.data);
+      }
+    } catch (error) {
+      console.error('❌ Error updating replay settings:', error);
+    }
+  };
+
+  // Replay state pushed by the server after any client moves the transport
+  useEffect(() => {
+    socket.on('replay_state', (state: ReplayState) => setReplay(state));
+    return () => {
+      socket.off('replay_state');
+    };
+  }, []);
+
   // Check real data status on component mount
   useEffect(() => {
     checkRealDataStatus();
@@ -372,6 +651,26 @@ export default function RealTimeTestDashboard() {
             Load Sample Real Data
           </Button>
           
+          <Button
+            variant="outlined"
+            component="label"
+            startIcon={<UploadFile />}
+          >
+            Upload CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  previewCsv(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          
           <Button 
             variant={realDataEnabled ? "contained" : "outlined"}
             startIcon={<Speed />}
@@ -389,8 +688,168 @@ export default function RealTimeTestDashboard() {
           >
             Refresh Status
           </Button>
+
+          {realDataStatus && (
+            <>
+              <TextField
+                select
+                size="small"
+                label="Data Source"
+                value={realDataStatus.source.id}
+                onChange={(e) => updateDataSource({ source: e.target.value })}
+                SelectProps={{ native: true }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 200 }}
+              >
+                {dataSources.map(source => (
+                  <option key={source.id} value={source.id}>
+                    {source.kind === 'simulation' ? source.name : `${source.name} (${source.record_count} records)`}
+                  </option>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="Missing Fields"
+                value={realDataStatus.missingFields}
+                onChange={(e) => updateDataSource({ missing_fields: e.target.value as MissingFieldPolicy })}
+                SelectProps={{ native: true }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 200 }}
+              >
+                <option value="simulate">Fill from simulator</option>
+                <option value="hold">Hold last measured</option>
+              </TextField>
+            </>
+          )}
         </Box>
         
+        {dataSources.some(source => source.kind === 'opcua') && <OpcUaTagPicker />}
+
+        {csvPreview && (
+          <Box mb={2}>
+            <Typography variant="subtitle1" sx={{ color: '#E0E6ED', mb: 1 }}>
+              Column mapping ({csvPreview.row_count} rows, {csvPreview.headers.length} columns)
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>CSV Column</TableCell>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>First Value</TableCell>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Maps To</TableCell>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Column Unit</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {columnTargets.map((mapping, index) => {
+                    const [group, ...field] = mapping.target.split('.');
+                    const spec = csvPreview.fields[group as MappingGroup]?.[field.join('.')];
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            value={mapping.column}
+                            onChange={(e) => updateColumnTarget(index, { column: e.target.value })}
+                            SelectProps={{ native: true }}
+                          >
+                            {csvPreview.headers.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </TextField>
+                        </TableCell>
+                        <TableCell sx={{ color: '#A0AEC0' }}>{csvPreview.rows[0]?.[mapping.column]}</TableCell>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            value={mapping.target}
+                            onChange={(e) => updateColumnTarget(index, { target: e.target.value })}
+                            SelectProps={{ native: true }}
+                            helperText={spec ? `${spec.min}-${spec.max} ${spec.unit}` : undefined}
+                          >
+                            {MAPPING_GROUPS.map(g => (
+                              <optgroup key={g} label={g}>
+                                {Object.entries(csvPreview.fields[g]).map(([name, f]) => (
+                                  <option key={name} value={`${g}.${name}`}>{f.label} ({f.unit})</option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </TextField>
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            value={columnUnits[mapping.column] || ''}
+                            placeholder={spec?.unit}
+                            onChange={(e) => setColumnUnits(prev => ({ ...prev, [mapping.column]: e.target.value }))}
+                            sx={{ width: 120 }}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <IconButton size="small" onClick={() => setColumnTargets(prev => prev.filter((_, i) => i !== index))}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap" mt={2}>
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() => setColumnTargets(prev => [...prev, { column: csvPreview.headers[0], target: 'process.kiln_temperature' }])}
+              >
+                Add Mapping
+              </Button>
+              <TextField
+                select
+                size="small"
+                label="Timestamp Column"
+                value={timestampColumn}
+                onChange={(e) => setTimestampColumn(e.target.value)}
+                SelectProps={{ native: true }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 200 }}
+              >
+                <option value="">None (replay in order)</option>
+                {csvPreview.headers.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </TextField>
+              <Button
+                variant="contained"
+                startIcon={<DataUsage />}
+                onClick={loadMappedCsv}
+                disabled={columnTargets.length === 0}
+                sx={{ backgroundColor: '#00E5FF', color: '#000' }}
+              >
+                Load Mapped Data
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {csvReport && (
+          <Alert severity={csvReport.error ? 'error' : csvReport.data?.rejected_rows ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {csvReport.error
+              ? csvReport.error
+              : `Loaded ${csvReport.recordCount} records, ${csvReport.data?.rejected_rows || 0} of ${csvReport.data?.row_count} rows rejected`}
+            {csvReport.data?.issues.slice(0, 5).map(issue => (
+              <Typography key={`${issue.row}-${issue.column}`} variant="body2">
+                Row {issue.row}, {issue.column} = &quot;{issue.value}&quot;: {issue.message}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+        
         {realDataStatus && (
           <Box display="flex" gap={2} flexWrap="wrap">
             <Card sx={{ minWidth: 200, background: 'rgba(0, 229, 255, 0.05)' }}>
@@ -427,6 +886,131 @@ export default function RealTimeTestDashboard() {
             </Card>
           </Box>
         )}
+
+        {realDataEnabled && replay && replay.record_count > 0 && (
+          <Box mt={2} p={2} sx={{ border: '1px solid rgba(0, 229, 255, 0.2)', borderRadius: 1 }}>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+              <IconButton onClick={() => controlReplay('step', { steps: -1 })} title="Step back">
+                <SkipPrevious />
+              </IconButton>
+              <IconButton
+                onClick={() => controlReplay(replay.playing ? 'pause' : 'play')}
+                title={replay.playing ? 'Pause' : 'Play'}
+                sx={{ color: '#00E5FF' }}
+              >
+                {replay.playing ? <Pause /> : <PlayArrow />}
+              </IconButton>
+              <IconButton onClick={() => controlReplay('step', { steps: 1 })} title="Step forward">
+                <SkipNext />
+              </IconButton>
+              <Typography variant="body2" sx={{ color: '#E0E6ED', minWidth: 220 }}>
+                Record {replay.position + 1} / {replay.record_count}
+                {replay.replay_time && ` · ${new Date(replay.replay_time).toLocaleString()}`}
+                {replay.ended && ' · ended'}
+              </Typography>
+              <TextField
+                select
+                size="small"
+                label="Speed"
+                value={replay.speed}
+                onChange={(e) => updateReplaySettings({ speed: Number(e.target.value) })}
+                SelectProps={{ native: true }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 100 }}
+              >
+                {(REPLAY_SPEEDS.includes(replay.speed) ? REPLAY_SPEEDS : [...REPLAY_SPEEDS, replay.speed]).map(speed => (
+                  <option key={speed} value={speed}>{speed}x</option>
+                ))}
+              </TextField>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={replay.loop}
+                    onChange={(e) => updateReplaySettings({ loop: e.target.checked })}
+                    color="primary"
+                  />
+                }
+                label="Loop"
+              />
+              {replay.timed && replay.start_time && replay.end_time && (
+                <>
+                  <TextField
+                    type="datetime-local"
+                    size="small"
+                    label="Seek To"
+                    value={seekTime || toLocalInput(replay.replay_time || replay.start_time)}
+                    onChange={(e) => setSeekTime(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                    inputProps={{ step: 1, min: toLocalInput(replay.start_time), max: toLocalInput(replay.end_time) }}
+                  />
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={!seekTime}
+                    onClick={() => {
+                      controlReplay('seek', { timestamp: new Date(seekTime).toISOString() });
+                      setSeekTime('');
+                    }}
+                  >
+                    Seek
+                  </Button>
+                </>
+              )}
+            </Box>
+            <Slider
+              size="small"
+              min={0}
+              max={Math.max(0, replay.record_count - 1)}
+              value={replay.position}
+              onChangeCommitted={(_, value) => controlReplay('seek', { index: value as number })}
+              valueLabelDisplay="auto"
+              valueLabelFormat={(value) => `Record ${value + 1}`}
+              sx={{ mt: 1 }}
+            />
+          </Box>
+        )}
+
+        {liveData?.provenance && liveData.provenance.source_kind !== 'simulation' && (
+          <Box mt={2}>
+            <Typography variant="subtitle1" sx={{ color: '#E0E6ED', mb: 1 }}>
+              Current Record Provenance: {liveData.provenance.source_name}
+              {liveData.provenance.record_row !== undefined && `, row ${liveData.provenance.record_row}`}
+              {liveData.provenance.record_timestamp && ` (${new Date(liveData.provenance.record_timestamp).toLocaleString()})`}
+            </Typography>
+            <Box display="flex" gap={1} mb={1}>
+              {(Object.keys(PROVENANCE_COLORS) as ValueProvenance[]).map(flag => (
+                <Chip
+                  key={flag}
+                  size="small"
+                  color={PROVENANCE_COLORS[flag]}
+                  label={`${flag}: ${Object.values(liveData.provenance!.fields).filter(f => f === flag).length}`}
+                />
+              ))}
+            </Box>
+            <TableContainer sx={{ maxHeight: 320 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Field</TableCell>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Value</TableCell>
+                    <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Origin</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {Object.entries(liveData.provenance.fields).map(([key, flag]) => (
+                    <TableRow key={key}>
+                      <TableCell sx={{ color: '#E0E6ED' }}>{key}</TableCell>
+                      <TableCell sx={{ color: '#A0AEC0' }}>{provenanceValue(liveData, key)}</TableCell>
+                      <TableCell>
+                        <Chip size="small" color={PROVENANCE_COLORS[flag]} label={flag} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
       </Paper>
       <Paper sx={{ p: 3, mb: 3, background: 'linear-gradient(135deg, #1A1F2E, #242B3D)' }}>
         <Typography variant="h6" sx={{ color: '#00E5FF', mb: 2 }}>
@@ -532,6 +1116,13 @@ export default function RealTimeTestDashboard() {
           <Typography variant="h6" sx={{ color: '#00E5FF', mb: 2 }}>
             Current Sensor Readings
           </Typography>
+          {liveData.data_quality && (
+            <Typography variant="body2" sx={{ color: '#A0AEC0', mb: 2 }}>
+              Data quality: {liveData.data_quality.good} good, {liveData.data_quality.uncertain} uncertain, {liveData.data_quality.bad} bad
+              {liveData.data_quality.substituted > 0 && ` (${liveData.data_quality.substituted} replaced by last good value)`}
+              {liveData.data_quality.excluded_kpis.length > 0 && ` · KPIs held: ${liveData.data_quality.excluded_kpis.join(', ')}`}
+            </Typography>
+          )}
           
           <TableContainer>
             <Table size="small">
@@ -542,6 +1133,7 @@ export default function RealTimeTestDashboard() {
                   <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Unit</TableCell>
                   <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Location</TableCell>
                   <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Type</TableCell>
+                  <TableCell sx={{ color: '#00E5FF', fontWeight: 600 }}>Quality</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
@@ -554,6 +1146,19 @@ export default function RealTimeTestDashboard() {
                     <TableCell sx={{ color: '#A0AEC0' }}>{sensor.unit}</TableCell>
                     <TableCell sx={{ color: '#A0AEC0' }}>{sensor.location}</TableCell>
                     <TableCell sx={{ color: '#A0AEC0' }}>{sensor.sensor_type}</TableCell>
+                    <TableCell>
+                      {sensor.quality && (
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          color={QUALITY_COLORS[sensor.quality.code]}
+                          label={sensor.quality.flags.length > 0 ? sensor.quality.flags.join(', ') : sensor.quality.code}
+                          title={sensor.quality.substituted && sensor.quality.raw_value !== undefined
+                            ? `Raw value ${sensor.quality.raw_value.toFixed(2)} replaced by the last good value`
+                            : undefined}
+                        />
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,92 @@
+'use client'
+
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip
+} from '@mui/material';
+import { AIRecommendation } from '../types/models';
+
+const PRIORITY_COLORS: Record<AIRecommendation['priority'], string> = {
+  low: '#4CAF50',
+  medium: '#FFC107',
+  high: '#FF9800',
+  urgent: '#F44336'
+};
+
+interface RecommendationCardsProps {
+  recommendations: AIRecommendation[];
+}
+
+/**
+ * Structured AI recommendations: the setpoint changes with their current and
+ * recommended values, the steps to carry them out and the model's confidence
+ */
+export default function RecommendationCards({ recommendations }: RecommendationCardsProps) {
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      {recommendations.map(rec => (
+        <Card
+          key={rec.id}
+          sx={{
+            background: 'rgba(0, 229, 255, 0.05)',
+            border: `1px solid ${PRIORITY_COLORS[rec.priority]}50`,
+            borderLeft: `4px solid ${PRIORITY_COLORS[rec.priority]}`
+          }}
+        >
+          <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 0.5 }}>
+              <Typography variant="subtitle2" sx={{ color: '#E0E6ED', fontWeight: 600, flex: '1 1 auto' }}>
+                {rec.title}
+              </Typography>
+              <Chip
+                size="small"
+                label={rec.priority.toUpperCase()}
+                sx={{ backgroundColor: PRIORITY_COLORS[rec.priority], color: '#000', fontWeight: 600 }}
+              />
+              <Chip
+                size="small"
+                variant="outlined"
+                label={rec.type.replace(/_/g, ' ')}
+                sx={{ color: '#00E5FF', borderColor: '#00E5FF', textTransform: 'capitalize' }}
+              />
+              <Chip
+                size="small"
+                variant="outlined"
+                label={`${rec.confidence_score.toFixed(0)}% confidence`}
+                sx={{ color: '#A0AEC0', borderColor: '#A0AEC0' }}
+              />
+            </Box>
+            <Typography variant="body2" sx={{ color: '#E0E6ED', mb: 0.5 }}>
+              {rec.description}
+            </Typography>
+            <Typography variant="body2" sx={{ color: '#81C784', mb: 1 }}>
+              {rec.expected_benefit}
+            </Typography>
+
+            {rec.parameters_to_adjust.map(adjustment => (
+              <Box key={adjustment.parameter} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, maxWidth: 420 }}>
+                <Typography variant="caption" sx={{ color: '#A0AEC0', textTransform: 'capitalize' }}>
+                  {adjustment.parameter.replace(/_/g, ' ')}
+                </Typography>
+                <Typography variant="caption" sx={{ color: '#FFB74D', fontWeight: 600 }}>
+                  {adjustment.current_value.toFixed(1)} → {adjustment.recommended_value.toFixed(1)} {adjustment.unit}
+                </Typography>
+              </Box>
+            ))}
+
+            <Box component="ol" sx={{ m: 0, mt: 1, pl: 2.5 }}>
+              {rec.implementation_steps.map((step, index) => (
+                <Typography key={index} component="li" variant="caption" sx={{ color: '#A0AEC0' }}>
+                  {step}
+                </Typography>
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      ))}
+    </Box>
+  );
+}
@@ -459,9 +459,9 @@ export default function ReportGenerator({ dashboardData }: ReportGeneratorProps)
                     {rec.description}
                   </Typography>
                   <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
-                    <Chip size="small" label={`${rec.type.toUpperCase()}`} sx={{ background: '#CE93D8', color: '#000' }} />
-                    <Chip size="small" label={`${(rec.confidence_score * 100).toFixed(0)}% Confidence`} variant="outlined" />
-                    <Chip size="small" label={`${rec.implementation_difficulty} Implementation`} variant="outlined" />
+                    <Chip size="small" label={`${rec.type.replace(/_/g, ' ').toUpperCase()}`} sx={{ background: '#CE93D8', color: '#000' }} />
+                    <Chip size="small" label={`${rec.confidence_score.toFixed(0)}% Confidence`} variant="outlined" />
+                    <Chip size="small" label={`${rec.priority} Priority`} variant="outlined" />
                   </Box>
                 </CardContent>
               </Card>
@@ -0,0 +1,245 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Card,
+  CardContent,
+  Chip,
+  Button,
+  Alert
+} from '@mui/material';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { ModelTraining } from '@mui/icons-material';
+import { DashboardData, SoftSensorTarget } from '../types/models';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api';
+
+interface SoftSensorStatus {
+  target: SoftSensorTarget;
+  label: string;
+  unit: string;
+  trained: boolean;
+  samples: number;
+  r2: number | null;
+  bias: number;
+  lab_samples: number;
+  last_lab: { timestamp: string; value: number; estimate: number } | null;
+}
+
+interface SoftSensorHistory {
+  estimates: { timestamp: string; value: number; lower: number; upper: number }[];
+  lab: { timestamp: string; value: number }[];
+}
+
+interface ChartPoint {
+  time: number;
+  estimate?: number;
+  band?: [number, number];
+  lab?: number;
+}
+
+const HISTORY_HOURS = 24;
+
+interface SoftSensorPanelProps {
+  dashboardData?: DashboardData;
+}
+
+/**
+ * Continuous estimates of lab-only quality variables with their 95% band,
+ * charted against the lab results
+ */
+export default function SoftSensorPanel({ dashboardData }: SoftSensorPanelProps) {
+  const [sensors, setSensors] = useState<SoftSensorStatus[]>([]);
+  const [selected, setSelected] = useState<SoftSensorTarget>('free_lime');
+  const [chartData, setChartData] = useState<ChartPoint[]>([]);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.softSensors));
+      const result = await response.json();
+      if (result.success) {
+        setSensors(result.data.sensors);
+      }
+    } catch (error) {
+      console.error('Error loading soft sensors:', error);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch(buildApiUrl(`${API_ENDPOINTS.softSensors}/${selected}/history?hours=${HISTORY_HOURS}`));
+      const result = await response.json();
+      if (!result.success) {
+        return;
+      }
+      const history: SoftSensorHistory = result.data;
+      const points = new Map<number, ChartPoint>();
+      const pointAt = (timestamp: string) => {
+        const time = Date.parse(timestamp);
+        if (!points.has(time)) {
+          points.set(time, { time });
+        }
+        return points.get(time)!;
+      };
+      history.estimates.forEach(estimate => {
+        const point = pointAt(estimate.timestamp);
+        point.estimate = estimate.value;
+        point.band = [estimate.lower, estimate.upper];
+      });
+      history.lab.forEach(sample => {
+        pointAt(sample.timestamp).lab = sample.value;
+      });
+      setChartData(Array.from(points.values()).sort((a, b) => a.time - b.time));
+    } catch (error) {
+      console.error('Error loading soft sensor history:', error);
+    }
+  }, [selected]);
+
+  useEffect(() => {
+    loadStatus();
+    loadHistory();
+    const interval = setInterval(() => {
+      loadStatus();
+      loadHistory();
+    }, 30000);
+    return () => clearInterval(interval);
+  }, [loadStatus, loadHistory]);
+
+  const train = async () => {
+    try {
+      const response = await fetch(buildApiUrl(API_ENDPOINTS.softSensorTrain), { method: 'POST' });
+      const result = await response.json();
+      const failed = result.success ? result.data.filter((entry: { trained: boolean }) => !entry.trained) : [];
+      setMessage(failed.length === 0
+        ? { severity: 'success', text: 'Soft sensors retrained on the stored history' }
+        : { severity: 'error', text: failed.map((entry: { target: string; error: string }) => `${entry.target}: ${entry.error}`).join('; ') });
+      loadStatus();
+    } catch (error) {
+      console.error('Error training soft sensors:', error);
+      setMessage({ severity: 'error', text: 'Failed to train soft sensors' });
+    }
+  };
+
+  const estimates = dashboardData?.soft_sensors || [];
+  const selectedStatus = sensors.find(sensor => sensor.target === selected);
+
+  return (
+    <Paper sx={{
+      p: 3,
+      mb: 3,
+      background: 'linear-gradient(135deg, #1A1F2E, #242B3D)',
+      border: '1px solid rgba(156, 39, 176, 0.3)'
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+        <Typography variant="h5" sx={{ color: '#CE93D8', fontWeight: 600 }}>
+          🧪 Soft Sensors
+        </Typography>
+        <Button size="small" variant="outlined" startIcon={<ModelTraining />} onClick={train} sx={{ color: '#CE93D8', borderColor: '#CE93D8' }}>
+          Retrain
+        </Button>
+      </Box>
+
+      {message && <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message.text}</Alert>}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2, mb: 3 }}>
+        {sensors.map(sensor => {
+          const estimate = estimates.find(entry => entry.target === sensor.target);
+          return (
+            <Card
+              key={sensor.target}
+              onClick={() => setSelected(sensor.target)}
+              sx={{
+                cursor: 'pointer',
+                background: 'linear-gradient(135deg, #1A1F2E, #242B3D)',
+                border: `1px solid ${selected === sensor.target ? '#CE93D8' : 'rgba(156, 39, 176, 0.2)'}`
+              }}
+            >
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  {sensor.label}
+                </Typography>
+                {estimate ? (
+                  <>
+                    <Typography variant="h4" sx={{ color: '#CE93D8', fontWeight: 700 }}>
+                      {estimate.value.toFixed(2)} <Typography component="span" variant="body1">{sensor.unit}</Typography>
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#A0AEC0' }}>
+                      95%: {estimate.lower.toFixed(2)} - {estimate.upper.toFixed(2)} {sensor.unit}
+                    </Typography>
+                  </>
+                ) : (
+                  <Typography variant="body2" sx={{ color: '#A0AEC0', my: 1 }}>
+                    {sensor.trained ? 'Waiting for process data' : 'Not trained yet'}
+                  </Typography>
+                )}
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                  {sensor.r2 !== null && <Chip size="small" variant="outlined" label={`R² ${sensor.r2.toFixed(2)}`} />}
+                  <Chip size="small" variant="outlined" label={`bias ${sensor.bias >= 0 ? '+' : ''}${sensor.bias.toFixed(2)}`} />
+                  {sensor.last_lab && (
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color="secondary"
+                      label={`lab ${sensor.last_lab.value.toFixed(2)}`}
+                      title={`Lab sample at ${new Date(sensor.last_lab.timestamp).toLocaleString()}; estimate was ${sensor.last_lab.estimate.toFixed(2)}`}
+                    />
+                  )}
+                </Box>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </Box>
+
+      {chartData.length > 0 ? (
+        <Box sx={{ height: 320 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="#A0AEC0"
+                tickFormatter={(value) => new Date(value).toLocaleTimeString()}
+              />
+              <YAxis stroke="#A0AEC0" domain={['auto', 'auto']} unit={selectedStatus ? ` ${selectedStatus.unit}` : ''} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1A1F2E',
+                  border: '1px solid rgba(156, 39, 176, 0.3)',
+                  borderRadius: '8px'
+                }}
+                labelFormatter={(value) => new Date(value).toLocaleString()}
+              />
+              <Legend />
+              <Area dataKey="band" name="95% band" stroke="none" fill="rgba(206, 147, 216, 0.25)" connectNulls />
+              <Line dataKey="estimate" name="Estimate" stroke="#CE93D8" strokeWidth={2} dot={false} connectNulls />
+              <Scatter dataKey="lab" name="Lab" fill="#FFB74D" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </Box>
+      ) : (
+        <Box sx={{ textAlign: 'center', py: 4 }}>
+          <Typography variant="body1" color="text.secondary">
+            No estimates or lab results stored for {selectedStatus?.label || selected} in the last {HISTORY_HOURS} hours.
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -14,16 +14,29 @@ export const API_ENDPOINTS = {
   processParameters: '/api/process/parameters',
   qualityCurrent: '/api/quality/current',
   equipmentStatus: '/api/equipment/status',
+  equipmentLifecycle: '/api/equipment/lifecycle',
   environmentalCurrent: '/api/environmental/current',
+  alerts: '/api/alerts',
+  thresholds: '/api/thresholds',
+  thresholdLimits: '/api/thresholds/limits',
+  thresholdGrade: '/api/thresholds/grade',
+  history: '/api/history',
   dashboardData: '/api/dashboard/data',
   
   // Simulation control
   simulationStart: '/api/simulation/start',
   simulationStop: '/api/simulation/stop',
   simulationAnomaly: '/api/simulation/anomaly',
+  simulationAnomalies: '/api/simulation/anomalies',
+  simulationSetpoints: '/api/simulation/setpoints',
+  simulationConfig: '/api/simulation/config',
+  simulationBackfill: '/api/simulation/backfill',
+  simulationHistory: '/api/simulation/history',
   
   // AI endpoints
   aiChat: '/api/ai/chat',
+  aiChatStream: '/api/ai/chat/stream',
+  aiConversations: '/api/ai/conversations',
   aiRecommendations: '/api/ai/recommendations',
   aiExplainAnomaly: '/api/ai/explain-anomaly',
   aiQualityFluctuations: '/api/ai/quality-fluctuations',
@@ -35,8 +48,29 @@ export const API_ENDPOINTS = {
   
   // Real data management
   realDataLoad: '/api/real-data/load',
+  realDataPreview: '/api/real-data/preview',
   realDataToggle: '/api/real-data/toggle',
   realDataStatus: '/api/real-data/status',
+  realDataSources: '/api/real-data/sources',
+  realDataSource: '/api/real-data/source',
+  opcuaBrowse: '/api/opcua/browse',
+  opcuaMapping: '/api/opcua/mapping',
+  opcuaTags: '/api/opcua/tags',
+
+  // Data quality
+  dataQuality: '/api/data-quality',
+  dataQualitySensors: '/api/data-quality/sensors',
+
+  // Soft sensors
+  softSensors: '/api/soft-sensors',
+  softSensorTrain: '/api/soft-sensors/train',
+  softSensorLabSamples: '/api/soft-sensors/lab-samples',
+
+  // Predictions
+  energyPrediction: '/api/predictions/energy',
+
+  // Anomaly detection
+  anomalies: '/api/anomalies',
   
   // Firebase integration
   firebaseTest: '/api/firebase/test'
@@ -47,6 +81,14 @@ export const WS_EVENTS = {
   connect: 'connect',
   disconnect: 'disconnect',
   dashboardUpdate: 'dashboard_update',
+  processHistory: 'process_history',
+  alertRaised: 'alert_raised',
+  alertUpdated: 'alert_updated',
+  anomalies: 'anomalies',
+  anomalyDetected: 'anomaly_detected',
+  anomalyUpdated: 'anomaly_updated',
+  thresholdsUpdated: 'thresholds_updated',
+  replayState: 'replay_state',
   sensorData: 'sensor_data',
   processData: 'process_data',
   requestSensorData: 'request_sensor_data',
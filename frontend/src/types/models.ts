@@ -16,6 +16,18 @@ export interface SensorReading {
   unit: string;
   location: string;
   sensor_type: string;
+  quality?: ReadingQuality;
+}
+
+// Data-quality verdict on one reading: good, usable with a caveat, or not to be trusted
+export type DataQualityCode = 'good' | 'uncertain' | 'bad';
+export type DataQualityFlag = 'stuck' | 'out_of_range' | 'flatline' | 'spike' | 'timestamp_gap';
+
+export interface ReadingQuality {
+  code: DataQualityCode;
+  flags: DataQualityFlag[];
+  substituted: boolean; // value replaced by the channel's last good value
+  raw_value?: number; // value as received, when substituted
 }
 
 export interface ProcessParameters {
@@ -98,26 +110,139 @@ export interface PlantOverview {
 export interface Alert {
   id: string;
   timestamp: Date;
-  type: 'warning' | 'error' | 'info';
-  category: 'quality' | 'equipment' | 'process' | 'environmental' | 'safety';
-  title: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  type: 'temperature' | 'vibration' | 'power' | 'quality' | 'efficiency' | 'maintenance';
   message: string;
-  source: string;
   acknowledged: boolean;
   resolved: boolean;
-  priority: 'low' | 'medium' | 'high' | 'critical';
+  equipment_id?: string;
+  rule_id?: string;
+  value?: number;
+  last_seen?: Date;
+  occurrences?: number;
+  cleared_at?: Date;
+  acknowledged_by?: string;
+  acknowledged_at?: Date;
+  resolved_by?: string;
+  resolved_at?: Date;
+}
+
+export type ThresholdParameter = Exclude<keyof ProcessParameters, 'timestamp'>;
+
+export interface ThresholdRule {
+  id: string;
+  parameter: ThresholdParameter;
+  product_grade: string;
+  min: number;
+  max: number;
+  optimal: number;
+  hysteresis: number;
+  delay_seconds: number;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  enabled: boolean;
+}
+
+// Effective limit for the active grade, with display details from the server
+export interface ThresholdLimit extends ThresholdRule {
+  label: string;
+  unit: string;
 }
 
 export interface AIRecommendation {
   id: string;
   timestamp: Date;
-  type: 'optimization' | 'maintenance' | 'quality' | 'energy' | 'environmental';
+  type: 'energy_optimization' | 'quality_improvement' | 'maintenance' | 'environmental';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
   title: string;
   description: string;
-  potential_impact: string;
-  implementation_difficulty: 'easy' | 'medium' | 'hard';
-  estimated_savings: number;
-  confidence_score: number;
+  expected_benefit: string;
+  implementation_steps: string[];
+  confidence_score: number; // 0-100
+  parameters_to_adjust: {
+    parameter: string;
+    current_value: number;
+    recommended_value: number;
+    unit: string;
+  }[];
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: Date;
+  stopped?: boolean; // streaming was stopped before the reply finished
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  messages: ConversationMessage[]; // full transcript
+  summary: string | null; // summary of the turns that no longer fit the prompt
+  summarized_count: number; // leading messages covered by the summary
+}
+
+export interface ConversationInfo {
+  id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  message_count: number;
+}
+
+export interface EnergyPrediction {
+  timestamp: Date;
+  predicted_consumption: number; // kWh/ton
+  confidence_interval: {
+    lower: number;
+    upper: number;
+  };
+  prediction_horizon: number; // hours
+  factors: {
+    factor: string;
+    impact: number; // -1 to 1
+  }[];
+}
+
+export interface QualityPrediction {
+  timestamp: Date;
+  predicted_quality_score: number; // 0-100
+  risk_factors: string[];
+  recommendations: string[];
+  defect_probability: number; // 0-1
+  factors: QualityRiskFactor[]; // the parameters behind risk_factors, most harmful first
+}
+
+export interface QualityRiskFactor {
+  parameter: ThresholdParameter;
+  current_value: number;
+  typical_value: number; // training average
+  target_value: number; // where to move it: the grade optimum, or the typical value
+  score_impact: number; // points of predicted quality score versus the typical value
+  defect_impact: number; // change in defect probability versus the typical value
+}
+
+export interface AnomalyDetection {
+  id: string;
+  timestamp: Date; // first snapshot of the episode
+  last_seen: Date;
+  ended_at?: Date; // set once the process is back within normal behavior
+  anomaly_score: number; // 0-1, peak of the episode; 0.5 is the detection limit
+  affected_systems: string[];
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  recommended_actions: string[];
+  contributions: AnomalyContribution[]; // parameters behind the peak, largest share first
+}
+
+export interface AnomalyContribution {
+  parameter: ThresholdParameter;
+  value: number;
+  typical_value: number; // training average
+  z_score: number; // deviation from the training average in standard deviations
+  share: number; // 0-1 of the anomaly score
 }
 
 export interface DashboardData {
@@ -129,13 +254,64 @@ export interface DashboardData {
   active_alerts: Alert[];
   ai_recommendations: AIRecommendation[];
   environmental_data: EnvironmentalData;
+  provenance?: DataProvenance;
+  data_quality?: DataQualitySummary;
+  soft_sensors?: SoftSensorEstimate[];
+  quality_prediction?: QualityPrediction; // for the next quality sample
+}
+
+export interface DataQualityIssue {
+  channel: string; // sensor_id, or a model field such as `process.kiln_temperature`
+  code: Exclude<DataQualityCode, 'good'>;
+  flags: DataQualityFlag[];
+  value: number; // value as received
+  substituted_value?: number;
+}
+
+// Data-quality verdicts of one snapshot's sensors and model fields
+export interface DataQualitySummary {
+  good: number;
+  uncertain: number;
+  bad: number;
+  substituted: number;
+  issues: DataQualityIssue[];
+  excluded_kpis: string[]; // plant overview KPIs held at their last value computed from good inputs
+}
+
+// Lab-only quality variables estimated continuously from process parameters
+export type SoftSensorTarget = 'free_lime' | 'blaine_fineness' | 'compressive_strength_28d';
+
+export interface SoftSensorEstimate {
+  target: SoftSensorTarget;
+  timestamp: Date;
+  value: number; // includes the lab recalibration bias
+  lower: number; // 95% prediction interval
+  upper: number;
+  unit: string;
+  bias: number;
+}
+
+// Where a snapshot's values came from: measured in the source record, held
+// from the last record that had them, filled in by the simulator, or
+// computed from record values only (plant overview KPIs)
+export type ValueProvenance = 'measured' | 'held' | 'simulated' | 'derived';
+
+export interface DataProvenance {
+  source_id: string;
+  source_name: string;
+  source_kind: 'simulation' | 'sample' | 'csv' | 'file' | 'mqtt' | 'opcua' | 'modbus';
+  record_index?: number; // position of the replayed record in its source
+  record_row?: number; // data row in the source file
+  record_timestamp?: Date | null;
+  fields: Record<string, ValueProvenance>; // keyed `process.kiln_temperature`, `quality.chemical_composition.free_lime`, ...
 }
 
 // Additional interfaces for AI responses
 export interface AIResponse {
   response: string;
   recommendations?: string[];
-  confidence?: number;
+  ai_recommendations?: AIRecommendation[];
+  confidence?: number | null;
   timestamp?: Date;
 }
 